@@ -1,5 +1,5 @@
 import { ICommand } from '@application/core';
-import { TaskEntity, TaskStatus } from '@domain/entities/TaskEntity';
+import { TaskEntity, TaskStatus, TaskProcessingOptions } from '@domain/entities/TaskEntity';
 
 /**
  * Comando para crear una tarea
@@ -9,7 +9,8 @@ export class CreateTaskCommand implements ICommand {
   constructor(
     public readonly imagePath: string,
     public readonly price: number,
-    public readonly idempotencyKey?: string
+    public readonly idempotencyKey?: string,
+    public readonly processing?: TaskProcessingOptions
   ) {}
 
   /**
@@ -23,6 +24,7 @@ export class CreateTaskCommand implements ICommand {
       originalPath: this.imagePath,
       images: [],
       idempotencyKey: this.idempotencyKey,
+      ...this.processing,
     };
   }
 }
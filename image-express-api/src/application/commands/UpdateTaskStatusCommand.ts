@@ -2,13 +2,15 @@ import { ICommand } from '@application/core';
 import { TaskStatus } from '@domain/entities/TaskEntity';
 
 /**
- * Comando para actualizar estado de tarea
+ * Comando para actualizar estado de tarea. `actor` identifica quién realiza el cambio en el
+ * historial de la tarea
  * @class UpdateTaskStatusCommand
  */
 export class UpdateTaskStatusCommand implements ICommand {
   constructor(
     public readonly taskId: string,
     public readonly status: TaskStatus,
-    public readonly data?: Record<string, unknown>
+    public readonly data?: Record<string, unknown>,
+    public readonly actor?: string
   ) {}
 }
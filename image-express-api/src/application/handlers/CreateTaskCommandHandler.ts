@@ -4,6 +4,7 @@ import { ITaskRepository } from '@application/repositories';
 import { TaskQueueProducer } from '@infrastructure/queues';
 import { TaskResponseDto } from '@domain/dtos';
 import { generateUUID } from '@core/helpers/crypto';
+import { toVariantLinks } from '@core/helpers/variantLinks';
 
 /**
  * Handler para el comando CreateTask
@@ -35,7 +36,12 @@ export class CreateTaskCommandHandler
 
     const task = await this.repository.create(taskEntity);
     // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-    await this.queue.addTask(task._id!.toString(), command.imagePath);
+    const taskId = task._id!.toString();
+    if (command.processing) {
+      await this.queue.addTask(taskId, command.imagePath, command.processing);
+    } else {
+      await this.queue.addTask(taskId, command.imagePath);
+    }
 
     return this.mapToResponse(task);
   }
@@ -53,7 +59,11 @@ export class CreateTaskCommandHandler
       taskId: task._id!,
       status: task.status,
       price: task.price,
-      ...(task.images?.length > 0 && { images: task.images }),
+      ...(task.images?.length > 0 && { images: toVariantLinks(String(task._id), task.images) }),
+      ...(task.variants?.length > 0 && { variants: task.variants }),
+      ...(task.overlay && { overlay: task.overlay }),
+      ...(task.metadataPolicy && { metadataPolicy: task.metadataPolicy }),
+      ...(task.sourceMetadata && { sourceMetadata: task.sourceMetadata }),
       ...(task.error && { error: task.error }),
       ...(task.createdAt && { createdAt: task.createdAt }),
       ...(task.updatedAt && { updatedAt: task.updatedAt }),
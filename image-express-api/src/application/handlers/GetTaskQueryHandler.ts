@@ -11,6 +11,7 @@ import { TaskResponseDto } from '@domain/dtos';
 import { NotFoundError } from '@core/errors';
 import { TaskStatus } from '@domain/entities/TaskEntity';
 import { logger } from '@core/helpers/logger';
+import { toVariantLinks } from '@core/helpers/variantLinks';
 
 export class GetTaskQueryHandler implements IQueryHandler<GetTaskQuery, TaskResponseDto> {
   private readonly TTL_SECONDS = 60;
@@ -63,11 +64,15 @@ export class GetTaskQueryHandler implements IQueryHandler<GetTaskQuery, TaskResp
   private mapToDto(task: any): TaskResponseDto {
     return {
       taskId: task._id!,
-      status: task.status as 'pending' | 'processing' | 'completed' | 'failed',
+      status: task.status as 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled',
       price: task.price,
       ...(task.status === TaskStatus.COMPLETED &&
-        task.images?.length > 0 && { images: task.images }),
+        task.images?.length > 0 && { images: toVariantLinks(String(task._id), task.images) }),
       ...(task.status === TaskStatus.FAILED && task.error && { error: task.error }),
+      ...(task.variants?.length && { variants: task.variants }),
+      ...(task.overlay && { overlay: task.overlay }),
+      ...(task.metadataPolicy && { metadataPolicy: task.metadataPolicy }),
+      ...(task.sourceMetadata && { sourceMetadata: task.sourceMetadata }),
       ...(task.createdAt && { createdAt: task.createdAt }),
       ...(task.updatedAt && { updatedAt: task.updatedAt }),
     };
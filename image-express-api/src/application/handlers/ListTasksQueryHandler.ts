@@ -10,6 +10,7 @@ import { CacheService } from '@application/services/CacheService';
 import { TaskEntity } from '@domain/entities';
 import crypto from 'crypto';
 import { logger } from '@core/helpers/logger';
+import { toVariantLinks } from '@core/helpers/variantLinks';
 
 export class ListTasksQueryHandler implements IQueryHandler<ListTasksQuery, ListTasksResult> {
   private readonly LIST_TTL = 30;
@@ -32,19 +33,16 @@ export class ListTasksQueryHandler implements IQueryHandler<ListTasksQuery, List
    */
   async execute(query: ListTasksQuery): Promise<ListTasksResult> {
     const skip = query.getSkip();
-    const filter: Partial<TaskEntity> = {};
+    const filter = query.getFilter();
 
-    if (query.status) {
-      filter.status = query.status;
-    }
-
-    const listKey = this.generateCacheKey('list', { filter, skip, limit: query.limit });
+    const { sort } = query;
+    const listKey = this.generateCacheKey('list', { filter, sort, skip, limit: query.limit });
     const countKey = this.generateCacheKey('count', filter);
 
     const [tasks, total] = await Promise.all([
       this.cacheService.getOrSet(
         listKey,
-        () => this.repository.find(filter, skip, query.limit),
+        () => this.repository.find(filter, skip, query.limit, sort),
         this.LIST_TTL
       ),
       this.cacheService.getOrSet(countKey, () => this.repository.count(filter), this.COUNT_TTL),
@@ -54,7 +52,8 @@ export class ListTasksQueryHandler implements IQueryHandler<ListTasksQuery, List
       page: query.page,
       limit: query.limit,
       total,
-      status: query.status,
+      ...filter,
+      sort,
     });
 
     return {
@@ -94,10 +93,17 @@ export class ListTasksQueryHandler implements IQueryHandler<ListTasksQuery, List
   private mapToDto(task: TaskEntity): any {
     return {
       taskId: task._id!,
-      status: task.status as 'pending' | 'processing' | 'completed' | 'failed',
+      status: task.status as 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled',
       price: task.price,
-      ...(task.images?.length > 0 && { images: task.images }),
+      ...(task.images?.length > 0 && { images: toVariantLinks(String(task._id), task.images) }),
       ...(task.error && { error: task.error }),
+      ...(task.variants?.length && { variants: task.variants }),
+      ...(task.overlay && { overlay: task.overlay }),
+      ...(task.metadataPolicy && { metadataPolicy: task.metadataPolicy }),
+      ...(task.sourceMetadata && { sourceMetadata: task.sourceMetadata }),
+      ...(task.externalId && { externalId: task.externalId }),
+      ...(task.tags?.length && { tags: task.tags }),
+      ...(task.metadata && { metadata: task.metadata }),
       ...(task.createdAt && { createdAt: task.createdAt }),
       ...(task.updatedAt && { updatedAt: task.updatedAt }),
     };
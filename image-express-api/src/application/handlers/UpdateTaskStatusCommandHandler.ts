@@ -6,13 +6,15 @@ import { ICommandHandler } from '@application/core';
 import { UpdateTaskStatusCommand } from '@application/commands';
 import { ITaskRepository } from '@application/repositories';
 import { CacheService } from '@application/services/CacheService';
-import { TaskStatusTransition } from '@domain/entities';
+import { TaskStatusTransition, recordStatusChange } from '@domain/entities';
 import { NotFoundError } from '@core/errors';
 import { logger } from '@core/helpers/logger';
 
 export class UpdateTaskStatusCommandHandler
   implements ICommandHandler<UpdateTaskStatusCommand, void>
 {
+  private static readonly DEFAULT_ACTOR = 'system';
+
   /**
    * Constructor del handler
    * @param {ITaskRepository} repository - Repositorio de tareas
@@ -24,7 +26,7 @@ export class UpdateTaskStatusCommandHandler
   ) {}
 
   /**
-   * Ejecuta el comando de actualización de estado
+   * Ejecuta el comando de actualización de estado y registra el cambio en el historial
    * @param {UpdateTaskStatusCommand} command - Comando con datos
    * @returns {Promise<void>}
    */
@@ -37,7 +39,15 @@ export class UpdateTaskStatusCommandHandler
 
     TaskStatusTransition.validateTransition(task.status, command.status);
 
-    await this.repository.updateStatus(command.taskId, command.status, command.data);
+    const error = command.data?.error;
+    const change = recordStatusChange(
+      task,
+      command.status,
+      command.actor ?? UpdateTaskStatusCommandHandler.DEFAULT_ACTOR,
+      typeof error === 'string' ? error : undefined
+    );
+
+    await this.repository.updateStatus(command.taskId, command.status, command.data, change);
 
     await this.invalidateTaskCache(command.taskId);
 
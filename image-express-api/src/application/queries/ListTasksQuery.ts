@@ -1,5 +1,11 @@
 import { IQuery } from '@application/core';
-import { TaskStatus } from '@domain/entities/TaskEntity';
+import {
+  TaskFilter,
+  TaskSort,
+  TaskStatus,
+  DEFAULT_TASK_SORT,
+  normalizeTaskFilter,
+} from '@domain/entities/TaskEntity';
 import { TaskResponseDto } from '@domain/dtos';
 
 /**
@@ -24,9 +30,20 @@ export class ListTasksQuery implements IQuery<ListTasksResult> {
   constructor(
     public readonly page: number,
     public readonly limit: number,
-    public readonly status?: TaskStatus
+    public readonly status?: TaskStatus | TaskStatus[],
+    public readonly filters: Omit<TaskFilter, 'status'> = {},
+    public readonly sort: TaskSort = DEFAULT_TASK_SORT
   ) {}
 
+  /**
+   * Construye los criterios de búsqueda normalizados, de forma que la misma búsqueda genere
+   * siempre la misma clave de caché aunque cambie el orden de sus valores
+   * @returns {TaskFilter} Criterios de búsqueda
+   */
+  getFilter(): TaskFilter {
+    return normalizeTaskFilter({ ...this.filters, status: this.status });
+  }
+
   /**
    * Calcula skip para paginación
    * @returns {number} Cantidad a saltar
@@ -0,0 +1,12 @@
+import { BatchEntity } from '@domain/entities/BatchEntity';
+
+/**
+ * Interfaz del repositorio de lotes
+ * @interface IBatchRepository
+ */
+export interface IBatchRepository {
+  create(batch: Partial<BatchEntity>): Promise<BatchEntity>;
+  findById(id: string): Promise<BatchEntity | null>;
+  findByIdempotencyKey(key: string): Promise<BatchEntity | null>;
+  update(id: string, data: Partial<BatchEntity>): Promise<void>;
+}
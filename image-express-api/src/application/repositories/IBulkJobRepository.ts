@@ -0,0 +1,20 @@
+import { BulkJobEntity, BulkTaskOutcome } from '@domain/entities/BulkJobEntity';
+
+/**
+ * Interfaz del repositorio de operaciones masivas
+ * @interface IBulkJobRepository
+ */
+export interface IBulkJobRepository {
+  create(job: Partial<BulkJobEntity>): Promise<BulkJobEntity>;
+  findById(id: string): Promise<BulkJobEntity | null>;
+  findByIdempotencyKey(key: string): Promise<BulkJobEntity | null>;
+  findUnfinished(): Promise<BulkJobEntity[]>;
+  claim(id: string, owner: string, leaseUntil: Date): Promise<BulkJobEntity | null>;
+  appendOutcomes(
+    id: string,
+    owner: string,
+    outcomes: BulkTaskOutcome[],
+    leaseUntil: Date
+  ): Promise<boolean>;
+  release(id: string, owner: string, data: Partial<BulkJobEntity>): Promise<boolean>;
+}
@@ -7,5 +7,6 @@ import { ImageEntity } from '@domain/entities/ImageEntity';
 export interface IImageRepository {
   create(image: Partial<ImageEntity>): Promise<ImageEntity>;
   findByTaskId(taskId: string): Promise<ImageEntity[]>;
+  findByMd5(md5: string): Promise<ImageEntity[]>;
   deleteByTaskId(taskId: string): Promise<void>;
 }
@@ -0,0 +1,16 @@
+import { TaskExportEntity } from '@domain/entities/TaskExportEntity';
+
+/**
+ * Interfaz del repositorio de exportaciones de tareas
+ * @interface ITaskExportRepository
+ */
+export interface ITaskExportRepository {
+  create(taskExport: Partial<TaskExportEntity>): Promise<TaskExportEntity>;
+  findById(id: string): Promise<TaskExportEntity | null>;
+  findUnfinished(): Promise<TaskExportEntity[]>;
+  claim(id: string, owner: string, leaseUntil: Date): Promise<TaskExportEntity | null>;
+  renewLease(id: string, owner: string, leaseUntil: Date): Promise<boolean>;
+  release(id: string, owner: string, data: Partial<TaskExportEntity>): Promise<boolean>;
+  findExpired(now: Date, limit: number): Promise<TaskExportEntity[]>;
+  deleteById(id: string): Promise<void>;
+}
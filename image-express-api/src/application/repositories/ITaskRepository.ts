@@ -1,4 +1,4 @@
-import { TaskEntity } from '@domain/entities/TaskEntity';
+import { TaskEntity, TaskFilter, TaskSort, TaskStatusChange } from '@domain/entities/TaskEntity';
 
 /**
  * Interfaz del repositorio de tareas
@@ -8,7 +8,12 @@ export interface ITaskRepository {
   create(task: Partial<TaskEntity>): Promise<TaskEntity>;
   findById(id: string): Promise<TaskEntity | null>;
   findByIdempotencyKey(key: string): Promise<TaskEntity | null>;
-  updateStatus(id: string, status: string, data?: Record<string, unknown>): Promise<void>;
-  find(filter: Partial<TaskEntity>, skip: number, limit: number): Promise<TaskEntity[]>;
-  count(filter: Partial<TaskEntity>): Promise<number>;
+  updateStatus(
+    id: string,
+    status: string,
+    data?: Record<string, unknown>,
+    change?: TaskStatusChange
+  ): Promise<boolean>;
+  find(filter: TaskFilter, skip: number, limit: number, sort?: TaskSort): Promise<TaskEntity[]>;
+  count(filter: TaskFilter): Promise<number>;
 }
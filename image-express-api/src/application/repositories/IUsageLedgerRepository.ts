@@ -0,0 +1,9 @@
+import { UsageStatement } from '@domain/entities/UsageLedgerEntity';
+
+/**
+ * Interfaz de lectura del registro de consumo. Los apuntes los escribe el worker
+ * @interface IUsageLedgerRepository
+ */
+export interface IUsageLedgerRepository {
+  aggregateStatement(clientId: string, period: string): Promise<UsageStatement>;
+}
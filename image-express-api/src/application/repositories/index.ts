@@ -1,2 +1,7 @@
 export type { ITaskRepository } from './ITaskRepository';
 export type { IImageRepository } from './IImageRepository';
+export type { IWatermarkRepository } from './IWatermarkRepository';
+export type { IBatchRepository } from './IBatchRepository';
+export type { IBulkJobRepository } from './IBulkJobRepository';
+export type { ITaskExportRepository } from './ITaskExportRepository';
+export type { IUsageLedgerRepository } from './IUsageLedgerRepository';
@@ -0,0 +1,252 @@
+import {
+  PRICE_TABLES,
+  CURRENT_PRICE_TABLE_VERSION,
+  PriceTable,
+  PricingInput,
+  PriceLine,
+  PriceBreakdown,
+  OutputFormat,
+  VariantSpec,
+} from '@domain/entities';
+import { BusinessError } from '@core/errors';
+import { generateSHA256 } from '@core/helpers/crypto';
+import { ImageProbe } from '@infrastructure/image-processing/ImageProbe';
+
+/**
+ * @class PricingService
+ * @description Calcula el precio de una tarea con una tarifa versionada. El cálculo es
+ * determinista: los mismos datos de entrada y la misma versión de tarifa dan siempre el mismo
+ * desglose, que se guarda en la tarea para poder explicar cada importe facturado.
+ */
+export class PricingService {
+  /**
+   * @constructor
+   * @param {ImageProbe} [imageProbe] - Lector de la cabecera de las imágenes
+   */
+  constructor(private readonly imageProbe: ImageProbe = new ImageProbe()) {}
+
+  /**
+   * @method priceImage
+   * @description Calcula el precio de procesar una imagen leyendo solo su cabecera.
+   * @param {string} imagePath - Ruta absoluta de la imagen
+   * @param {Omit<PricingInput, 'width' | 'height' | 'format'>} options - Variantes, origen y prioridad
+   * @returns {Promise<PriceBreakdown>} Desglose del precio
+   * @throws {BusinessError} Si el archivo no es una imagen legible
+   */
+  async priceImage(
+    imagePath: string,
+    options: Omit<PricingInput, 'width' | 'height' | 'format'>
+  ): Promise<PriceBreakdown> {
+    return this.calculate(await this.inspect(imagePath, options));
+  }
+
+  /**
+   * @method inspect
+   * @description Completa los datos del cálculo con las dimensiones y el formato de la imagen,
+   * leídos de su cabecera.
+   * @param {string} imagePath - Ruta absoluta de la imagen
+   * @param {Omit<PricingInput, 'width' | 'height' | 'format'>} options - Variantes, origen y prioridad
+   * @returns {Promise<PricingInput>} Datos del cálculo
+   * @throws {BusinessError} Si el archivo no es una imagen legible
+   */
+  async inspect(
+    imagePath: string,
+    options: Omit<PricingInput, 'width' | 'height' | 'format'>
+  ): Promise<PricingInput> {
+    const header = await this.imageProbe.probe(imagePath);
+    return { ...header, ...options };
+  }
+
+  /**
+   * @method fingerprint
+   * @description Calcula la huella de los datos del cálculo, independiente del orden de las
+   * propiedades, para comprobar que un presupuesto corresponde a la tarea que lo canjea.
+   * @param {PricingInput} input - Datos del cálculo
+   * @returns {string} Huella SHA-256 en hexadecimal
+   */
+  fingerprint(input: PricingInput): string {
+    const canonical = JSON.stringify(input, (_key, value: unknown) =>
+      value && typeof value === 'object' && !Array.isArray(value)
+        ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+        : value
+    );
+    return generateSHA256(canonical);
+  }
+
+  /**
+   * @method calculate
+   * @description Calcula el desglose del precio: tarifa base, megapíxeles del original, número de
+   * variantes y megapíxeles que se generan, recargo por formato de salida y por origen. El subtotal
+   * se multiplica según la prioridad y nunca baja del mínimo de la tarifa.
+   * @param {PricingInput} input - Datos de la tarea
+   * @param {string} [version] - Versión de la tarifa; por defecto la vigente
+   * @returns {PriceBreakdown} Desglose del precio
+   * @throws {BusinessError} Si la versión de la tarifa no existe
+   */
+  calculate(input: PricingInput, version: string = CURRENT_PRICE_TABLE_VERSION): PriceBreakdown {
+    const table = this.getTable(version);
+    const outputMegapixels = input.variants.reduce((sum, variant) => {
+      const size = this.estimateSize(input, variant);
+      return sum + (size.width * size.height) / 1e6;
+    }, 0);
+
+    const lines = [
+      this.line('base', 1, table.base),
+      this.line('input-megapixels', (input.width * input.height) / 1e6, table.perInputMegapixel),
+      this.line('variants', input.variants.length, table.perVariant),
+      this.line('output-megapixels', outputMegapixels, table.perOutputMegapixel),
+      ...this.formatLines(input, table),
+      ...(input.source && table.sources[input.source]
+        ? [this.line('source', 1, table.sources[input.source], input.source)]
+        : []),
+    ].filter(line => line.amount > 0);
+
+    const subtotal = this.round(lines.reduce((sum, line) => sum + line.amount, 0));
+    const multiplier = this.getMultiplier(table, input.priority);
+
+    return {
+      version: table.version,
+      lines,
+      subtotal,
+      multiplier,
+      total: Math.max(table.minimum, this.round(subtotal * multiplier)),
+    };
+  }
+
+  /**
+   * @method reprice
+   * @description Recalcula un desglose para otra prioridad con la misma tarifa. La prioridad solo
+   * afecta al multiplicador, por lo que las líneas y el subtotal se conservan.
+   * @param {PriceBreakdown} pricing - Desglose actual de la tarea
+   * @param {number} [priority] - Nueva prioridad de la tarea
+   * @returns {PriceBreakdown} Desglose con el multiplicador y el total de la nueva prioridad
+   * @throws {BusinessError} Si la versión de la tarifa del desglose no existe
+   */
+  reprice(pricing: PriceBreakdown, priority?: number): PriceBreakdown {
+    const table = this.getTable(pricing.version);
+    const multiplier = this.getMultiplier(table, priority);
+
+    return {
+      ...pricing,
+      multiplier,
+      total: Math.max(table.minimum, this.round(pricing.subtotal * multiplier)),
+    };
+  }
+
+  /**
+   * @private
+   * @method getTable
+   * @description Obtiene una tarifa por su versión.
+   * @param {string} version - Versión de la tarifa
+   * @returns {PriceTable} Tarifa
+   * @throws {BusinessError} Si la versión no existe
+   */
+  private getTable(version: string): PriceTable {
+    const table = PRICE_TABLES[version];
+    if (!table) {
+      throw new BusinessError(`La tarifa ${version} no existe`, 'UNKNOWN_PRICE_TABLE', 500);
+    }
+    return table;
+  }
+
+  /**
+   * @private
+   * @method formatLines
+   * @description Agrupa las variantes por formato de salida y genera una línea por cada formato
+   * con recargo. Las variantes sin formato conservan el del original.
+   * @param {PricingInput} input - Datos de la tarea
+   * @param {PriceTable} table - Tarifa
+   * @returns {PriceLine[]} Líneas de recargo por formato
+   */
+  private formatLines(input: PricingInput, table: PriceTable): PriceLine[] {
+    const counts = new Map<OutputFormat, number>();
+    for (const variant of input.variants) {
+      const format = (variant.format ?? input.format) as OutputFormat | undefined;
+      if (format && table.formats[format]) {
+        counts.set(format, (counts.get(format) ?? 0) + 1);
+      }
+    }
+
+    return [...counts.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([format, count]) => this.line('format', count, table.formats[format], format));
+  }
+
+  /**
+   * @method estimateSize
+   * @description Estima las dimensiones de una variante con las mismas reglas de ajuste que el
+   * worker: sin ampliar el original, encajando (`inside`/`outside`) o recortando al tamaño pedido.
+   * @param {Pick<PricingInput, 'width' | 'height'>} input - Dimensiones del original
+   * @param {VariantSpec} variant - Especificación de la variante
+   * @returns {{ width: number; height: number }} Dimensiones estimadas en píxeles
+   */
+  estimateSize(
+    input: Pick<PricingInput, 'width' | 'height'>,
+    variant: VariantSpec
+  ): { width: number; height: number } {
+    const { width, height } = input;
+    const fit =
+      variant.fit ??
+      (variant.position === 'attention' || variant.position === 'entropy' ? 'cover' : 'inside');
+
+    if (variant.height && fit !== 'inside' && fit !== 'outside') {
+      return { width: Math.min(variant.width, width), height: Math.min(variant.height, height) };
+    }
+
+    const ratios = [variant.width / width, ...(variant.height ? [variant.height / height] : [])];
+    const scale = Math.min(1, fit === 'outside' ? Math.max(...ratios) : Math.min(...ratios));
+    return { width: Math.round(width * scale), height: Math.round(height * scale) };
+  }
+
+  /**
+   * @private
+   * @method getMultiplier
+   * @description Obtiene el multiplicador de la prioridad: el del primer tramo que la incluye, o 1.
+   * @param {PriceTable} table - Tarifa
+   * @param {number} [priority] - Prioridad de la tarea
+   * @returns {number} Multiplicador
+   */
+  private getMultiplier(table: PriceTable, priority?: number): number {
+    if (priority === undefined) {
+      return 1;
+    }
+    return table.priority.find(({ upTo }) => priority <= upTo)?.multiplier ?? 1;
+  }
+
+  /**
+   * @private
+   * @method line
+   * @description Construye una línea del desglose redondeando cantidad e importe a dos decimales.
+   * @param {PriceLine['concept']} concept - Concepto facturado
+   * @param {number} quantity - Cantidad
+   * @param {number} unitPrice - Precio unitario
+   * @param {string} [detail] - Formato u origen facturado
+   * @returns {PriceLine} Línea del desglose
+   */
+  private line(
+    concept: PriceLine['concept'],
+    quantity: number,
+    unitPrice: number,
+    detail?: string
+  ): PriceLine {
+    const rounded = this.round(quantity);
+    return {
+      concept,
+      ...(detail && { detail }),
+      quantity: rounded,
+      unitPrice,
+      amount: this.round(rounded * unitPrice),
+    };
+  }
+
+  /**
+   * @private
+   * @method round
+   * @description Redondea un importe a dos decimales.
+   * @param {number} value - Importe
+   * @returns {number} Importe redondeado
+   */
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -2,3 +2,4 @@ export { TaskService } from './TaskService';
 export { IdempotencyService } from './IdempotencyService';
 export { CacheService } from './CacheService';
 export { ImageDownloadService } from './ImageDownloadService';
+export { PricingService } from './PricingService';
@@ -23,7 +23,21 @@ const envConfig = cleanEnv(process.env, {
   QUEUE_MAX_RETRIES: num({ default: 3 }),
   STORAGE_INPUT_PATH: str({ default: '/app/uploads' }),
   STORAGE_OUTPUT_PATH: str({ default: '/app/output' }),
+  TRANSFORM_CONCURRENCY: num({ default: 2 }),
+  TRANSFORM_MAX_QUEUE: num({ default: 20 }),
+  TRANSFORM_MAX_DERIVATIVES: num({ default: 50 }),
+  ARCHIVE_MAX_SIZE: num({ default: 200 * 1024 * 1024 }),
+  ARCHIVE_MAX_ENTRIES: num({ default: 200 }),
+  ARCHIVE_MAX_EXTRACTED_SIZE: num({ default: 1024 * 1024 * 1024 }),
+  TASK_DELETION_GRACE_PERIOD: num({ default: 7 * 24 * 3600 }),
+  TASK_PURGE_INTERVAL: num({ default: 3600 }),
+  TASK_EXPORT_TTL: num({ default: 7 * 24 * 3600 }),
   API_KEY: str({ default: 'development-key' }),
+  URL_SIGNING_SECRET: str({ default: 'development-signing-secret' }),
+  URL_SIGNING_TTL: num({ default: 3600 }),
+  QUOTE_SIGNING_SECRET: str({ default: 'development-quote-secret' }),
+  QUOTE_TTL: num({ default: 900 }),
+  BILLING_STATEMENT_TTL: num({ default: 300 }),
   ENABLE_SWAGGER: bool({ default: true }),
   LOG_LEVEL: str({ choices: ['error', 'warn', 'info', 'debug'], default: 'info' }),
   LOKI_URL: str({
@@ -57,7 +71,35 @@ export const envs = {
     INPUT_PATH: envConfig.STORAGE_INPUT_PATH,
     OUTPUT_PATH: envConfig.STORAGE_OUTPUT_PATH,
   },
+  TRANSFORM: {
+    CONCURRENCY: envConfig.TRANSFORM_CONCURRENCY,
+    MAX_QUEUE: envConfig.TRANSFORM_MAX_QUEUE,
+    MAX_DERIVATIVES: envConfig.TRANSFORM_MAX_DERIVATIVES,
+  },
+  ARCHIVE: {
+    MAX_SIZE: envConfig.ARCHIVE_MAX_SIZE,
+    MAX_ENTRIES: envConfig.ARCHIVE_MAX_ENTRIES,
+    MAX_EXTRACTED_SIZE: envConfig.ARCHIVE_MAX_EXTRACTED_SIZE,
+  },
+  TASK_DELETION: {
+    GRACE_PERIOD: envConfig.TASK_DELETION_GRACE_PERIOD,
+    PURGE_INTERVAL: envConfig.TASK_PURGE_INTERVAL,
+  },
+  TASK_EXPORT: {
+    TTL: envConfig.TASK_EXPORT_TTL,
+  },
   API_KEY: envConfig.API_KEY,
+  URL_SIGNING: {
+    SECRET: envConfig.URL_SIGNING_SECRET,
+    TTL: envConfig.URL_SIGNING_TTL,
+  },
+  QUOTE: {
+    SECRET: envConfig.QUOTE_SIGNING_SECRET,
+    TTL: envConfig.QUOTE_TTL,
+  },
+  BILLING: {
+    STATEMENT_TTL: envConfig.BILLING_STATEMENT_TTL,
+  },
   ENABLE_SWAGGER: envConfig.ENABLE_SWAGGER,
   LOG_LEVEL: envConfig.LOG_LEVEL,
   LOKI: {
@@ -3,6 +3,7 @@ import { ValidationErrorHandler } from './error-handlers/ValidationErrorHandler'
 import { MongoErrorHandler } from './error-handlers/MongoErrorHandler';
 import { NotFoundErrorHandler } from './error-handlers/NotFoundErrorHandler';
 import { BusinessErrorHandler } from './error-handlers/BusinessErrorHandler';
+import { SignatureErrorHandler } from './error-handlers/SignatureErrorHandler';
 
 /**
  * Factory para crear la cadena de responsabilidad de errores
@@ -19,8 +20,13 @@ export class ErrorChainFactory {
     const mongoHandler = new MongoErrorHandler();
     const notFoundHandler = new NotFoundErrorHandler();
     const businessHandler = new BusinessErrorHandler();
+    const signatureHandler = new SignatureErrorHandler();
 
-    validationHandler.setNext(mongoHandler).setNext(notFoundHandler).setNext(businessHandler);
+    validationHandler
+      .setNext(mongoHandler)
+      .setNext(notFoundHandler)
+      .setNext(businessHandler)
+      .setNext(signatureHandler);
 
     return validationHandler;
   }
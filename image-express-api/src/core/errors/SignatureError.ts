@@ -0,0 +1,24 @@
+import { CustomError } from './CustomError';
+
+/**
+ * Motivo por el que se rechaza una URL firmada
+ * @typedef {'SIGNATURE_REQUIRED' | 'SIGNATURE_INVALID' | 'SIGNATURE_EXPIRED'} SignatureErrorCode
+ */
+export type SignatureErrorCode = 'SIGNATURE_REQUIRED' | 'SIGNATURE_INVALID' | 'SIGNATURE_EXPIRED';
+
+/**
+ * Error de URL firmada ausente, manipulada o caducada
+ * @class SignatureError
+ * @extends CustomError
+ */
+export class SignatureError extends CustomError {
+  public readonly code: SignatureErrorCode;
+  public readonly details?: Record<string, unknown>;
+
+  constructor(message: string, code: SignatureErrorCode, details?: Record<string, unknown>) {
+    super(message, 403);
+    this.code = code;
+    this.details = details;
+    this.name = 'SignatureError';
+  }
+}
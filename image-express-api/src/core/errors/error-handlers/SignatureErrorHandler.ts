@@ -0,0 +1,23 @@
+import { ErrorHandler, ErrorResponse } from './ErrorHandler';
+import { SignatureError } from '../SignatureError';
+
+/**
+ * Manejador de errores de URLs firmadas
+ * @class SignatureErrorHandler
+ * @extends ErrorHandler
+ */
+export class SignatureErrorHandler extends ErrorHandler {
+  canHandle(error: unknown): boolean {
+    return error instanceof SignatureError;
+  }
+
+  handle(error: unknown): ErrorResponse {
+    const signatureError = error as SignatureError;
+    return {
+      error: signatureError.code,
+      message: signatureError.message,
+      statusCode: signatureError.statusCode,
+      ...(signatureError.details && { details: signatureError.details }),
+    };
+  }
+}
@@ -2,4 +2,5 @@ export * from './BusinessErrorHandler';
 export * from './ErrorHandler';
 export * from './MongoErrorHandler';
 export * from './NotFoundErrorHandler';
+export * from './SignatureErrorHandler';
 export * from './ValidationErrorHandler';
@@ -1,4 +1,6 @@
 export { BusinessError } from './BusinessError';
 export { NotFoundError } from './NotFoundError';
+export { SignatureError } from './SignatureError';
+export type { SignatureErrorCode } from './SignatureError';
 export { CustomError } from './CustomError';
 export { ErrorChainFactory } from './ErrorChainFactory';
@@ -0,0 +1,52 @@
+/**
+ * Limitador de concurrencia en memoria: ejecuta como máximo `maxConcurrent` tareas a la vez y
+ * encola el resto en orden de llegada
+ * @class ConcurrencyLimiter
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+
+  /**
+   * @param {number} maxConcurrent - Tareas que pueden ejecutarse simultáneamente
+   * @param {number} maxQueue - Tareas que pueden esperar turno
+   */
+  constructor(
+    private readonly maxConcurrent: number,
+    private readonly maxQueue: number
+  ) {}
+
+  /**
+   * Indica si no queda hueco ni para ejecutar ni para esperar
+   * @returns {boolean} true si una nueva tarea debe rechazarse
+   */
+  get isSaturated(): boolean {
+    return this.active >= this.maxConcurrent && this.waiting.length >= this.maxQueue;
+  }
+
+  /**
+   * Ejecuta la tarea cuando haya un hueco libre. Al terminar, el hueco pasa directamente a la
+   * siguiente tarea en espera para que ninguna llamada nueva se adelante a la cola
+   * @template T
+   * @param {() => Promise<T>} task - Tarea a ejecutar
+   * @returns {Promise<T>} Resultado de la tarea
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.maxConcurrent) {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
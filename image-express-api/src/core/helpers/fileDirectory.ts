@@ -28,6 +28,35 @@ export function getOutputStoragePath(): string {
   return process.env.STORAGE_OUTPUT_PATH ?? path.join(getRootPath(), 'output');
 }
 
+/**
+ * @function getWatermarkStoragePath
+ * @description Obtiene la ruta del directorio de almacenamiento de marcas de agua
+ * @returns {string} Ruta absoluta del directorio de marcas de agua
+ */
+export function getWatermarkStoragePath(): string {
+  return process.env.STORAGE_WATERMARK_PATH ?? path.join(getRootPath(), 'storage/watermarks');
+}
+
+/**
+ * @function getTransformCachePath
+ * @description Obtiene la ruta del directorio de caché de transformaciones bajo demanda
+ * @returns {string} Ruta absoluta del directorio de derivados en caché
+ */
+export function getTransformCachePath(): string {
+  return (
+    process.env.STORAGE_TRANSFORM_CACHE_PATH ?? path.join(getRootPath(), 'storage/cache/transforms')
+  );
+}
+
+/**
+ * @function getExportStoragePath
+ * @description Obtiene la ruta del directorio de exportaciones de tareas
+ * @returns {string} Ruta absoluta del directorio de archivos exportados
+ */
+export function getExportStoragePath(): string {
+  return process.env.STORAGE_EXPORT_PATH ?? path.join(getRootPath(), 'storage/exports');
+}
+
 /**
  * @function getTempPath
  * @description Obtiene la ruta del directorio temporal
@@ -90,6 +119,9 @@ export async function initializeStorageDirectories(): Promise<void> {
   const directories = [
     getInputStoragePath(),
     getOutputStoragePath(),
+    getWatermarkStoragePath(),
+    getTransformCachePath(),
+    getExportStoragePath(),
     getTempPath(),
     path.join(getRootPath(), 'logs'),
   ];
@@ -161,6 +193,9 @@ export const paths = {
   storage: {
     input: getInputStoragePath(),
     output: getOutputStoragePath(),
+    watermarks: getWatermarkStoragePath(),
+    transforms: getTransformCachePath(),
+    exports: getExportStoragePath(),
   },
   temp: getTempPath(),
 };
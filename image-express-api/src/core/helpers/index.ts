@@ -1,5 +1,18 @@
 export { startupTimeLocal, startupTimeUTC, formatDate } from './time';
 export { generateMD5, generateUUID } from './crypto';
+export {
+  getVariantKey,
+  getVariantMd5,
+  getVariantContentType,
+  buildVariantUrl,
+  buildOriginalUrl,
+  buildTransformUrl,
+  toVariantLinks,
+} from './variantLinks';
+export type { VariantLink, TransformParams } from './variantLinks';
+export { getSignedUrlExpiry, signUrl, verifySignedUrl } from './urlSigning';
+export { signQuoteToken, verifyQuoteToken } from './quoteToken';
+export { ConcurrencyLimiter } from './concurrency';
 export { logger, logMetric } from './logger';
 export { connectWithRetry, handleConnectionError } from './mongoose';
 export {
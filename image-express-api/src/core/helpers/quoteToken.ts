@@ -0,0 +1,72 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { envs } from '@config/envs';
+import { BusinessError } from '@core/errors/BusinessError';
+import { PriceQuote } from '@domain/entities/PricingEntity';
+
+/**
+ * Calcula la firma HMAC-SHA256 del contenido de un presupuesto
+ * @param {string} payload - Contenido codificado en base64url
+ * @param {string} secret - Secreto del servidor
+ * @returns {string} Firma en base64url
+ */
+function computeSignature(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Firma un presupuesto como `<contenido>.<firma>`, ambos en base64url. El contenido no se cifra:
+ * solo lleva la huella de los datos, la versión de la tarifa, el precio y la caducidad
+ * @param {PriceQuote} quote - Presupuesto a firmar
+ * @param {string} [secret] - Secreto HMAC; por defecto `QUOTE_SIGNING_SECRET`
+ * @returns {string} Token del presupuesto
+ */
+export function signQuoteToken(quote: PriceQuote, secret: string = envs.QUOTE.SECRET): string {
+  const payload = Buffer.from(
+    JSON.stringify({
+      fingerprint: quote.fingerprint,
+      version: quote.version,
+      price: quote.price,
+      expires: Math.floor(quote.expiresAt.getTime() / 1000),
+    })
+  ).toString('base64url');
+
+  return `${payload}.${computeSignature(payload, secret)}`;
+}
+
+/**
+ * Verifica la firma y la caducidad de un presupuesto
+ * @param {string} token - Token del presupuesto
+ * @param {Date} [now] - Instante de referencia
+ * @param {string} [secret] - Secreto HMAC; por defecto `QUOTE_SIGNING_SECRET`
+ * @returns {PriceQuote} Presupuesto verificado
+ * @throws {BusinessError} Si el token está manipulado (400) o ha caducado (410)
+ */
+export function verifyQuoteToken(
+  token: string,
+  now: Date = new Date(),
+  secret: string = envs.QUOTE.SECRET
+): PriceQuote {
+  const invalid = new BusinessError('El presupuesto no es válido', 'INVALID_QUOTE_TOKEN', 400);
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) {
+    throw invalid;
+  }
+
+  const expected = Buffer.from(computeSignature(payload, secret));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    throw invalid;
+  }
+
+  const { fingerprint, version, price, expires } = JSON.parse(
+    Buffer.from(payload, 'base64url').toString('utf8')
+  );
+  const expiresAt = new Date(expires * 1000);
+  if (expiresAt.getTime() <= now.getTime()) {
+    throw new BusinessError('El presupuesto ha caducado', 'QUOTE_EXPIRED', 410, {
+      expiredAt: expiresAt.toISOString(),
+    });
+  }
+
+  return { fingerprint, version, price, expiresAt };
+}
@@ -0,0 +1,106 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { envs } from '@config/envs';
+import { SignatureError } from '@core/errors/SignatureError';
+
+const BASE = 'http://signed.local';
+
+/**
+ * Construye el texto que se firma: la ruta y los query parameters ordenados, sin la firma
+ * @param {URL} url - URL a firmar o verificar
+ * @returns {string} Representación canónica de la URL
+ */
+function canonicalize(url: URL): string {
+  const params = [...url.searchParams.entries()]
+    .filter(([key]) => key !== 'signature')
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  return `${url.pathname}?${new URLSearchParams(params).toString()}`;
+}
+
+/**
+ * Calcula la firma HMAC-SHA256 de una URL canónica
+ * @param {string} canonical - URL canónica
+ * @param {string} secret - Secreto del servidor
+ * @returns {string} Firma en base64url
+ */
+function computeSignature(canonical: string, secret: string): string {
+  return createHmac('sha256', secret).update(canonical).digest('base64url');
+}
+
+/**
+ * Calcula la caducidad por defecto de las URLs firmadas, en segundos enteros
+ * @param {number} [expiresIn] - Validez en segundos; por defecto `URL_SIGNING_TTL`
+ * @param {Date} [now] - Instante de referencia
+ * @returns {Date} Fecha de caducidad
+ */
+export function getSignedUrlExpiry(
+  expiresIn: number = envs.URL_SIGNING.TTL,
+  now: Date = new Date()
+): Date {
+  return new Date((Math.floor(now.getTime() / 1000) + expiresIn) * 1000);
+}
+
+/**
+ * Firma una URL relativa añadiendo `expires` (segundos Unix) y `signature`. La firma cubre la
+ * ruta y todos sus query parameters, de modo que no pueden alterarse sin invalidarla
+ * @param {string} url - URL relativa al host de la API (puede incluir query parameters)
+ * @param {Date} expiresAt - Fecha de caducidad
+ * @param {string} [secret] - Secreto HMAC; por defecto `URL_SIGNING_SECRET`
+ * @returns {string} URL firmada
+ */
+export function signUrl(
+  url: string,
+  expiresAt: Date,
+  secret: string = envs.URL_SIGNING.SECRET
+): string {
+  const target = new URL(url, BASE);
+  target.searchParams.set('expires', String(Math.floor(expiresAt.getTime() / 1000)));
+  target.searchParams.set('signature', computeSignature(canonicalize(target), secret));
+
+  return `${target.pathname}${target.search}`;
+}
+
+/**
+ * Verifica la firma y la caducidad de una URL relativa
+ * @param {string} url - URL solicitada, tal y como llega en `req.originalUrl`
+ * @param {Date} [now] - Instante de referencia
+ * @param {string} [secret] - Secreto HMAC; por defecto `URL_SIGNING_SECRET`
+ * @returns {Date} Fecha de caducidad de la URL
+ * @throws {SignatureError} Si falta la firma, no coincide o la URL ha caducado
+ */
+export function verifySignedUrl(
+  url: string,
+  now: Date = new Date(),
+  secret: string = envs.URL_SIGNING.SECRET
+): Date {
+  const target = new URL(url, BASE);
+  const signature = target.searchParams.get('signature');
+  const expires = target.searchParams.get('expires');
+
+  if (!signature || !expires) {
+    throw new SignatureError(
+      'La descarga requiere una URL firmada (parámetros expires y signature)',
+      'SIGNATURE_REQUIRED'
+    );
+  }
+
+  const expected = Buffer.from(computeSignature(canonicalize(target), secret));
+  const received = Buffer.from(signature);
+
+  if (
+    !/^\d+$/.test(expires) ||
+    expected.length !== received.length ||
+    !timingSafeEqual(expected, received)
+  ) {
+    throw new SignatureError('La firma de la URL no es válida', 'SIGNATURE_INVALID');
+  }
+
+  const expiresAt = new Date(Number(expires) * 1000);
+  if (expiresAt.getTime() <= now.getTime()) {
+    throw new SignatureError('La URL firmada ha caducado', 'SIGNATURE_EXPIRED', {
+      expiredAt: expiresAt.toISOString(),
+    });
+  }
+
+  return expiresAt;
+}
@@ -0,0 +1,128 @@
+import path from 'path';
+import { envs } from '@config/envs';
+import { ProcessedImage } from '@domain/entities/TaskEntity';
+import { getSignedUrlExpiry, signUrl } from './urlSigning';
+
+/**
+ * Enlace público de una variante procesada
+ * @interface VariantLink
+ */
+export interface VariantLink {
+  resolution: string;
+  url: string;
+  format?: string;
+}
+
+/**
+ * Parámetros de una transformación bajo demanda
+ * @interface TransformParams
+ */
+export interface TransformParams {
+  w: number;
+  h?: number;
+  fit?: string;
+  fmt?: string;
+  q?: number;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.gif': 'image/gif',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff',
+};
+
+/**
+ * Obtiene el hash MD5 de una variante a partir de su nombre de archivo ({md5}.{ext})
+ * @param {string} filePath - Ruta de la variante
+ * @returns {string} Hash MD5 del contenido
+ */
+export function getVariantMd5(filePath: string): string {
+  return path.basename(filePath, path.extname(filePath));
+}
+
+/**
+ * Obtiene el tipo MIME de una variante a partir de su extensión
+ * @param {string} filePath - Ruta de la variante
+ * @returns {string} Tipo MIME, o `application/octet-stream` si la extensión no es conocida
+ */
+export function getVariantContentType(filePath: string): string {
+  return CONTENT_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream';
+}
+
+/**
+ * Obtiene el identificador público de una variante: `{resolucion}.{ext}` (ej: `1024.webp`),
+ * o `{md5}.{ext}` si otra variante de la tarea comparte resolución y extensión
+ * @param {ProcessedImage} image - Variante procesada
+ * @param {ProcessedImage[]} [siblings] - Todas las variantes de la tarea
+ * @returns {string} Identificador de la variante en la URL de descarga
+ */
+export function getVariantKey(image: ProcessedImage, siblings: ProcessedImage[] = [image]): string {
+  const ext = path.extname(image.path);
+  const label = `${image.resolution}${ext}`;
+  const isUnique =
+    siblings.filter(sibling => `${sibling.resolution}${path.extname(sibling.path)}` === label)
+      .length <= 1;
+
+  return isUnique ? label : `${getVariantMd5(image.path)}${ext}`;
+}
+
+/**
+ * Construye la URL de descarga de una variante
+ * @param {string} taskId - Identificador de la tarea
+ * @param {string} variantKey - Identificador de la variante
+ * @returns {string} URL relativa al host de la API
+ */
+export function buildVariantUrl(taskId: string, variantKey: string): string {
+  return `/api/${envs.SERVER.API_VERSION}/tasks/${taskId}/images/${encodeURIComponent(variantKey)}`;
+}
+
+/**
+ * Construye la URL de descarga del original de una tarea
+ * @param {string} taskId - Identificador de la tarea
+ * @returns {string} URL relativa al host de la API
+ */
+export function buildOriginalUrl(taskId: string): string {
+  return `/api/${envs.SERVER.API_VERSION}/tasks/${taskId}/original`;
+}
+
+/**
+ * Construye la URL de una transformación bajo demanda con sus parámetros en orden fijo
+ * @param {string} taskId - Identificador de la tarea
+ * @param {TransformParams} params - Parámetros de la transformación
+ * @returns {string} URL relativa al host de la API
+ */
+export function buildTransformUrl(taskId: string, params: TransformParams): string {
+  const query = new URLSearchParams();
+  for (const key of ['w', 'h', 'fit', 'fmt', 'q'] as const) {
+    if (params[key] !== undefined) {
+      query.set(key, String(params[key]));
+    }
+  }
+
+  return `/api/${envs.SERVER.API_VERSION}/images/${taskId}/transform?${query.toString()}`;
+}
+
+/**
+ * Sustituye las rutas en disco de las variantes por sus URLs de descarga firmadas, ya que las
+ * descargas exigen firma
+ * @param {string} taskId - Identificador de la tarea
+ * @param {ProcessedImage[]} images - Variantes procesadas de la tarea
+ * @param {Date} [expiresAt] - Caducidad de las URLs; por defecto dentro de `URL_SIGNING_TTL`
+ * @returns {VariantLink[]} Variantes con su URL de descarga firmada
+ */
+export function toVariantLinks(
+  taskId: string,
+  images: ProcessedImage[],
+  expiresAt: Date = getSignedUrlExpiry()
+): VariantLink[] {
+  return images.map(image => ({
+    resolution: image.resolution,
+    url: signUrl(buildVariantUrl(taskId, getVariantKey(image, images)), expiresAt),
+    ...(image.format && { format: image.format }),
+  }));
+}
@@ -44,6 +44,7 @@ declare global {
       validatedParams?: any;
       idempotencyKey?: string;
       userId?: string;
+      signedUrlExpiresAt?: Date;
     }
   }
 }
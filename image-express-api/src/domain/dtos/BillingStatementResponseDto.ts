@@ -0,0 +1,13 @@
+import type { UsageStatementLine, UsageStatementTotals } from '@domain/entities/UsageLedgerEntity';
+
+/**
+ * DTO de respuesta del extracto mensual de un cliente de la API
+ * @interface BillingStatementResponseDto
+ */
+export interface BillingStatementResponseDto {
+  clientId: string;
+  period: string;
+  lines: UsageStatementLine[];
+  totals: UsageStatementTotals;
+  generatedAt: Date;
+}
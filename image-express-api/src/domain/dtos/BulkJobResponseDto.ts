@@ -0,0 +1,27 @@
+import type { TaskFilter } from '@domain/entities/TaskEntity';
+import type {
+  BulkAction,
+  BulkJobStatus,
+  BulkOutcomeStatus,
+  BulkTaskOutcome,
+} from '@domain/entities/BulkJobEntity';
+
+/**
+ * DTO de respuesta de una operación masiva con su progreso y el resultado por tarea
+ * @interface BulkJobResponseDto
+ */
+export interface BulkJobResponseDto {
+  bulkJobId: string;
+  action: BulkAction;
+  status: BulkJobStatus;
+  total: number;
+  processed: number;
+  progress: number;
+  counts: Record<BulkOutcomeStatus, number>;
+  outcomes: BulkTaskOutcome[];
+  filter?: TaskFilter;
+  error?: string;
+  createdAt?: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+}
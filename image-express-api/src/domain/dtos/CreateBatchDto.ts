@@ -0,0 +1,53 @@
+import {
+  IsUrl,
+  IsOptional,
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { Request } from 'express';
+import { VariantSpecDto } from './VariantSpecDto';
+import { OverlaySpecDto } from './OverlaySpecDto';
+import { MetadataPolicyDto } from './MetadataPolicyDto';
+
+/**
+ * DTO para creación de un lote de tareas. Las opciones de procesamiento se aplican a todas
+ * las tareas del lote.
+ * @class CreateBatchDto
+ */
+export class CreateBatchDto {
+  @IsOptional()
+  @IsArray({ message: 'imageUrls debe ser un array' })
+  @ArrayMaxSize(100, { message: 'imageUrls admite como máximo 100 URLs' })
+  @IsUrl({}, { each: true, message: 'cada elemento de imageUrls debe ser una URL válida' })
+  imageUrls?: string[];
+
+  @IsOptional()
+  @IsArray({ message: 'variants debe ser un array' })
+  @ArrayMinSize(1, { message: 'variants debe contener al menos 1 variante' })
+  @ArrayMaxSize(10, { message: 'variants admite como máximo 10 variantes' })
+  @ValidateNested({ each: true })
+  @Type(() => VariantSpecDto)
+  variants?: VariantSpecDto[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => OverlaySpecDto)
+  overlay?: OverlaySpecDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => MetadataPolicyDto)
+  metadataPolicy?: MetadataPolicyDto;
+}
+
+/**
+ * Request extendido para creación de lotes
+ * @interface CreateBatchRequest
+ */
+export interface CreateBatchRequest extends Request {
+  body: CreateBatchDto;
+  files?: Express.Multer.File[];
+}
@@ -0,0 +1,41 @@
+import {
+  IsIn,
+  IsOptional,
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  IsMongoId,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { BULK_ACTIONS } from '@domain/entities/BulkJobEntity';
+import type { BulkAction } from '@domain/entities/BulkJobEntity';
+import { TaskFilterDto } from './TaskFilterDto';
+
+/**
+ * Número máximo de tareas sobre las que puede actuar una operación masiva
+ * @constant BULK_MAX_TASKS
+ */
+export const BULK_MAX_TASKS = 1000;
+
+/**
+ * DTO para crear una operación masiva. Las tareas se indican con una lista de IDs o con un filtro
+ * con la misma gramática que `GET /tasks`, pero no con ambos
+ * @class CreateBulkJobDto
+ */
+export class CreateBulkJobDto {
+  @IsIn(BULK_ACTIONS, { message: `action debe ser uno de: ${BULK_ACTIONS.join(', ')}` })
+  action!: BulkAction;
+
+  @IsOptional()
+  @IsArray({ message: 'taskIds debe ser un array' })
+  @ArrayMinSize(1, { message: 'taskIds debe contener al menos 1 ID' })
+  @ArrayMaxSize(BULK_MAX_TASKS, { message: `taskIds admite como máximo ${BULK_MAX_TASKS} IDs` })
+  @IsMongoId({ each: true, message: 'cada elemento de taskIds debe ser un ObjectId válido' })
+  taskIds?: string[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TaskFilterDto)
+  filter?: TaskFilterDto;
+}
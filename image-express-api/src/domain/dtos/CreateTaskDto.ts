@@ -1,5 +1,26 @@
-import { IsUrl, IsString, ValidateIf } from 'class-validator';
+import {
+  IsUrl,
+  IsString,
+  ValidateIf,
+  IsOptional,
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+  IsInt,
+  Min,
+  Max,
+  IsISO8601,
+  IsObject,
+  Length,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
 import { Request } from 'express';
+import { VariantSpecDto } from './VariantSpecDto';
+import { OverlaySpecDto } from './OverlaySpecDto';
+import { MetadataPolicyDto } from './MetadataPolicyDto';
+import { TASK_PRIORITY, TASK_LABEL_LIMITS, TaskMetadataValue } from '@domain/entities/TaskEntity';
 
 /**
  * DTO para creación de tarea
@@ -13,6 +34,63 @@ export class CreateTaskDto {
   @ValidateIf(o => !o.imagePath)
   @IsUrl()
   imageUrl?: string;
+
+  @IsOptional()
+  @IsArray({ message: 'variants debe ser un array' })
+  @ArrayMinSize(1, { message: 'variants debe contener al menos 1 variante' })
+  @ArrayMaxSize(10, { message: 'variants admite como máximo 10 variantes' })
+  @ValidateNested({ each: true })
+  @Type(() => VariantSpecDto)
+  variants?: VariantSpecDto[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => OverlaySpecDto)
+  overlay?: OverlaySpecDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => MetadataPolicyDto)
+  metadataPolicy?: MetadataPolicyDto;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'priority debe ser un entero' })
+  @Min(TASK_PRIORITY.HIGHEST, { message: `priority debe ser al menos ${TASK_PRIORITY.HIGHEST}` })
+  @Max(TASK_PRIORITY.LOWEST, { message: `priority debe ser como máximo ${TASK_PRIORITY.LOWEST}` })
+  priority?: number;
+
+  @IsOptional()
+  @IsISO8601({}, { message: 'processAt debe ser una fecha ISO 8601' })
+  processAt?: string;
+
+  @IsOptional()
+  @IsString({ message: 'externalId debe ser una cadena' })
+  @MaxLength(TASK_LABEL_LIMITS.EXTERNAL_ID_LENGTH, {
+    message: `externalId admite como máximo ${TASK_LABEL_LIMITS.EXTERNAL_ID_LENGTH} caracteres`,
+  })
+  externalId?: string;
+
+  @IsOptional()
+  @IsArray({ message: 'tags debe ser un array' })
+  @ArrayMaxSize(TASK_LABEL_LIMITS.MAX_TAGS, {
+    message: `tags admite como máximo ${TASK_LABEL_LIMITS.MAX_TAGS} etiquetas`,
+  })
+  @IsString({ each: true, message: 'cada etiqueta debe ser una cadena' })
+  @Length(1, TASK_LABEL_LIMITS.TAG_LENGTH, {
+    each: true,
+    message: `cada etiqueta debe tener entre 1 y ${TASK_LABEL_LIMITS.TAG_LENGTH} caracteres`,
+  })
+  tags?: string[];
+
+  @IsOptional()
+  @IsObject({ message: 'metadata debe ser un objeto' })
+  metadata?: Record<string, TaskMetadataValue>;
+
+  @IsOptional()
+  @IsString({ message: 'quoteToken debe ser una cadena' })
+  @MaxLength(1024, { message: 'quoteToken admite como máximo 1024 caracteres' })
+  quoteToken?: string;
 }
 
 /**
@@ -0,0 +1,20 @@
+import { IsIn, IsOptional, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { EXPORT_FORMATS } from '@domain/entities/TaskExportEntity';
+import type { ExportFormat } from '@domain/entities/TaskExportEntity';
+import { TaskFilterDto } from './TaskFilterDto';
+
+/**
+ * DTO para crear una exportación en segundo plano. Sin filtro se exportan todas las tareas
+ * @class CreateTaskExportDto
+ */
+export class CreateTaskExportDto {
+  @IsOptional()
+  @IsIn(EXPORT_FORMATS, { message: `format debe ser uno de: ${EXPORT_FORMATS.join(', ')}` })
+  format?: ExportFormat;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TaskFilterDto)
+  filter?: TaskFilterDto;
+}
@@ -0,0 +1,27 @@
+import { IsInt, IsOptional, IsBoolean, Min, Max } from 'class-validator';
+
+/**
+ * DTO para las opciones del codificador de una variante
+ * @class EncoderOptionsDto
+ */
+export class EncoderOptionsDto {
+  @IsOptional()
+  @IsInt({ message: 'quality debe ser un entero' })
+  @Min(1, { message: 'quality debe ser >= 1' })
+  @Max(100, { message: 'quality debe ser <= 100' })
+  quality?: number;
+
+  @IsOptional()
+  @IsBoolean({ message: 'progressive debe ser booleano' })
+  progressive?: boolean;
+
+  @IsOptional()
+  @IsBoolean({ message: 'lossless debe ser booleano' })
+  lossless?: boolean;
+
+  @IsOptional()
+  @IsInt({ message: 'effort debe ser un entero' })
+  @Min(0, { message: 'effort debe ser >= 0' })
+  @Max(9, { message: 'effort debe ser <= 9' })
+  effort?: number;
+}
@@ -0,0 +1,15 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { EXPORT_FORMATS } from '@domain/entities/TaskExportEntity';
+import type { ExportFormat } from '@domain/entities/TaskExportEntity';
+import { TaskFilterDto } from './TaskFilterDto';
+
+/**
+ * DTO para los query parameters de la exportación de tareas: el formato y los mismos filtros que
+ * `GET /tasks`
+ * @class ExportTasksQueryDto
+ */
+export class ExportTasksQueryDto extends TaskFilterDto {
+  @IsOptional()
+  @IsIn(EXPORT_FORMATS, { message: `format debe ser uno de: ${EXPORT_FORMATS.join(', ')}` })
+  format?: ExportFormat;
+}
@@ -0,0 +1,7 @@
+import { IsNotEmpty, IsMongoId } from 'class-validator';
+
+export class GetBatchParamsDto {
+  @IsNotEmpty({ message: 'batchId es requerido' })
+  @IsMongoId({ message: 'batchId debe ser un ObjectId válido' })
+  batchId!: string;
+}
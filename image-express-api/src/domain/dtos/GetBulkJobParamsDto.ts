@@ -0,0 +1,7 @@
+import { IsNotEmpty, IsMongoId } from 'class-validator';
+
+export class GetBulkJobParamsDto {
+  @IsNotEmpty({ message: 'bulkJobId es requerido' })
+  @IsMongoId({ message: 'bulkJobId debe ser un ObjectId válido' })
+  bulkJobId!: string;
+}
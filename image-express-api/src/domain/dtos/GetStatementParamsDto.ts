@@ -0,0 +1,7 @@
+import { IsNotEmpty, Matches } from 'class-validator';
+
+export class GetStatementParamsDto {
+  @IsNotEmpty({ message: 'period es requerido' })
+  @Matches(/^\d{4}-(0[1-9]|1[0-2])$/, { message: 'period debe tener el formato YYYY-MM' })
+  period!: string;
+}
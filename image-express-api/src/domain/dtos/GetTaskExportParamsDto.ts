@@ -0,0 +1,7 @@
+import { IsNotEmpty, IsMongoId } from 'class-validator';
+
+export class GetTaskExportParamsDto {
+  @IsNotEmpty({ message: 'exportId es requerido' })
+  @IsMongoId({ message: 'exportId debe ser un ObjectId válido' })
+  exportId!: string;
+}
@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsMongoId, Matches } from 'class-validator';
+
+export class GetVariantParamsDto {
+  @IsNotEmpty({ message: 'taskId es requerido' })
+  @IsMongoId({ message: 'taskId debe ser un ObjectId válido' })
+  taskId!: string;
+
+  @IsNotEmpty({ message: 'variant es requerido' })
+  @Matches(/^[a-zA-Z0-9]+(\.[a-zA-Z0-9]+)?$/, {
+    message: 'variant debe tener el formato {resolucion}[.ext] o {md5}[.ext]',
+  })
+  variant!: string;
+}
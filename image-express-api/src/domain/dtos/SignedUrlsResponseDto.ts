@@ -0,0 +1,24 @@
+import type { VariantFit, OutputFormat } from '@domain/entities/TaskEntity';
+
+/**
+ * DTO de respuesta con las URLs de descarga firmadas de una tarea
+ * @interface SignedUrlsResponseDto
+ */
+export interface SignedUrlsResponseDto {
+  taskId: string;
+  expiresAt: Date;
+  original: string;
+  images: Array<{
+    resolution: string;
+    url: string;
+    format?: string;
+  }>;
+  transforms: Array<{
+    w: number;
+    h?: number;
+    fit?: VariantFit;
+    fmt?: OutputFormat;
+    q?: number;
+    url: string;
+  }>;
+}
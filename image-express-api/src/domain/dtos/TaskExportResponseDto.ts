@@ -0,0 +1,22 @@
+import type { TaskFilter } from '@domain/entities/TaskEntity';
+import type { ExportFormat, TaskExportStatus } from '@domain/entities/TaskExportEntity';
+
+/**
+ * DTO de respuesta de una exportación en segundo plano. `downloadUrl` solo se incluye cuando el
+ * archivo está listo y `expiresAt` indica hasta cuándo se conserva
+ * @interface TaskExportResponseDto
+ */
+export interface TaskExportResponseDto {
+  exportId: string;
+  format: ExportFormat;
+  status: TaskExportStatus;
+  filter?: TaskFilter;
+  rows?: number;
+  size?: number;
+  downloadUrl?: string;
+  error?: string;
+  createdAt?: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  expiresAt?: Date;
+}
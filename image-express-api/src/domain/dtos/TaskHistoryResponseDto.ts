@@ -0,0 +1,11 @@
+import { TaskStatusChange } from '@domain/entities/TaskEntity';
+
+/**
+ * DTO de respuesta del historial de estados de una tarea
+ * @interface TaskHistoryResponseDto
+ */
+export interface TaskHistoryResponseDto {
+  taskId: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  history: TaskStatusChange[];
+}
@@ -0,0 +1,26 @@
+import type { PriceBreakdown } from '@domain/entities/PricingEntity';
+import type { TaskSource } from '@domain/entities/TaskEntity';
+
+/**
+ * DTO de respuesta de un presupuesto. `quoteToken` puede canjearse en `POST /tasks` hasta
+ * `expiresAt` para fijar el precio
+ * @interface TaskQuoteResponseDto
+ */
+export interface TaskQuoteResponseDto {
+  price: number;
+  pricing: PriceBreakdown;
+  image: {
+    width: number;
+    height: number;
+    format?: string;
+    source?: TaskSource;
+  };
+  variants: Array<{
+    resolution: string;
+    width: number;
+    height: number;
+    format?: string;
+  }>;
+  quoteToken: string;
+  expiresAt: Date;
+}
@@ -0,0 +1,38 @@
+import { IsInt, IsOptional, IsIn, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import type { VariantFit, OutputFormat } from '@domain/entities/TaskEntity';
+import { VARIANT_FITS, OUTPUT_FORMATS } from './VariantSpecDto';
+
+/**
+ * DTO para los parámetros de una transformación bajo demanda
+ * @class TransformQueryDto
+ */
+export class TransformQueryDto {
+  @Type(() => Number)
+  @IsInt({ message: 'w debe ser un entero' })
+  @Min(16, { message: 'w debe ser >= 16' })
+  @Max(4096, { message: 'w debe ser <= 4096' })
+  w!: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'h debe ser un entero' })
+  @Min(16, { message: 'h debe ser >= 16' })
+  @Max(4096, { message: 'h debe ser <= 4096' })
+  h?: number;
+
+  @IsOptional()
+  @IsIn(VARIANT_FITS, { message: `fit debe ser uno de: ${VARIANT_FITS.join(', ')}` })
+  fit?: VariantFit;
+
+  @IsOptional()
+  @IsIn(OUTPUT_FORMATS, { message: `fmt debe ser uno de: ${OUTPUT_FORMATS.join(', ')}` })
+  fmt?: OutputFormat;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'q debe ser un entero' })
+  @Min(1, { message: 'q debe ser >= 1' })
+  @Max(100, { message: 'q debe ser <= 100' })
+  q?: number;
+}
@@ -0,0 +1,23 @@
+/**
+ * Elemento de un lote que no pudo convertirse en tarea
+ * @interface BatchFailure
+ */
+export interface BatchFailure {
+  item: number;
+  source: string;
+  code?: string;
+  error: string;
+}
+
+/**
+ * Entidad de lote: agrupa las tareas creadas en una misma petición
+ * @interface BatchEntity
+ */
+export interface BatchEntity {
+  _id?: string;
+  taskIds: string[];
+  failures: BatchFailure[];
+  idempotencyKey?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
@@ -0,0 +1,61 @@
+import type { TaskFilter } from './TaskEntity';
+
+/**
+ * Acciones que admite una operación masiva sobre tareas
+ * @constant BULK_ACTIONS
+ */
+export const BULK_ACTIONS = ['retry', 'cancel', 'delete'] as const;
+
+/**
+ * Acción de una operación masiva
+ * @type {BulkAction}
+ */
+export type BulkAction = (typeof BULK_ACTIONS)[number];
+
+/**
+ * Estados de una operación masiva
+ * @type {BulkJobStatus}
+ */
+export type BulkJobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+/**
+ * Resultado de aplicar la acción a una tarea. Las tareas cuyo estado no admite la acción se
+ * omiten sin considerarse un fallo
+ * @type {BulkOutcomeStatus}
+ */
+export type BulkOutcomeStatus = 'succeeded' | 'skipped' | 'failed';
+
+/**
+ * Resultado de la operación masiva para una tarea
+ * @interface BulkTaskOutcome
+ */
+export interface BulkTaskOutcome {
+  taskId: string;
+  status: BulkOutcomeStatus;
+  code?: string;
+  error?: string;
+}
+
+/**
+ * Entidad de operación masiva: aplica una acción a las tareas seleccionadas por ID o por filtro.
+ * Las tareas se fijan al crearla y los resultados se van añadiendo a medida que se procesan. La
+ * instancia que la ejecuta (`owner`) la reclama hasta `leaseUntil` y renueva la reclamación
+ * mientras avanza
+ * @interface BulkJobEntity
+ */
+export interface BulkJobEntity {
+  _id?: string;
+  action: BulkAction;
+  status: BulkJobStatus;
+  taskIds: string[];
+  filter?: TaskFilter;
+  outcomes: BulkTaskOutcome[];
+  error?: string;
+  idempotencyKey?: string;
+  owner?: string;
+  leaseUntil?: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
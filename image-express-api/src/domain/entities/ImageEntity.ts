@@ -10,6 +10,8 @@ export interface ImageEntity {
   md5: string;
   size?: number;
   format?: string;
+  width?: number;
+  height?: number;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -0,0 +1,59 @@
+import type { TaskFilter } from './TaskEntity';
+
+/**
+ * Formatos en los que se pueden exportar las tareas
+ * @constant EXPORT_FORMATS
+ */
+export const EXPORT_FORMATS = ['csv', 'ndjson'] as const;
+
+/**
+ * Formato de una exportación de tareas
+ * @type {ExportFormat}
+ */
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * Columnas de la exportación, en el orden en que aparecen en el CSV
+ * @constant TASK_EXPORT_COLUMNS
+ */
+export const TASK_EXPORT_COLUMNS = [
+  'taskId',
+  'status',
+  'price',
+  'createdAt',
+  'updatedAt',
+  'source',
+  'error',
+  'variantCount',
+] as const;
+
+/**
+ * Estados de una exportación en segundo plano
+ * @type {TaskExportStatus}
+ */
+export type TaskExportStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+/**
+ * Entidad de exportación en segundo plano: genera un archivo descargable con las tareas que
+ * cumplen el filtro en el momento de ejecutarse. La instancia que genera el archivo (`owner`) la
+ * reclama hasta `leaseUntil` y renueva la reclamación mientras escribe. Al terminar se conserva
+ * hasta `expiresAt`; después la purga borra el archivo y el documento
+ * @interface TaskExportEntity
+ */
+export interface TaskExportEntity {
+  _id?: string;
+  format: ExportFormat;
+  status: TaskExportStatus;
+  filter?: TaskFilter;
+  fileName?: string;
+  rows?: number;
+  size?: number;
+  error?: string;
+  owner?: string;
+  leaseUntil?: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  expiresAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
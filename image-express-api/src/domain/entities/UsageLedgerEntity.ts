@@ -0,0 +1,75 @@
+/**
+ * Tipo de un apunte del registro de consumo: el cargo de una tarea completada o su abono
+ * @type {UsageEntryType}
+ */
+export type UsageEntryType = 'charge' | 'refund';
+
+/**
+ * Cliente al que se imputan las tareas creadas sin `X-API-Key`
+ * @constant DEFAULT_CLIENT_ID
+ */
+export const DEFAULT_CLIENT_ID = 'anonymous';
+
+/**
+ * Apunte del registro de consumo. El registro solo admite inserciones y cada intento de una tarea
+ * tiene como máximo un apunte de cada tipo, de modo que los reintentos de la escritura y de la cola
+ * nunca cobran dos veces, y una tarea reintentada tras un abono se cobra en su nuevo intento. Los
+ * abonos llevan el importe en negativo
+ * @interface UsageLedgerEntity
+ */
+export interface UsageLedgerEntity {
+  _id?: string;
+  taskId: string;
+  attempt: number;
+  clientId: string;
+  type: UsageEntryType;
+  amount: number;
+  priceTable?: string;
+  period: string;
+  occurredAt: Date;
+  createdAt?: Date;
+}
+
+/**
+ * Obtiene el periodo de facturación (`YYYY-MM`, en UTC) de una fecha
+ * @param {Date} date - Fecha del apunte
+ * @returns {string} Periodo de facturación
+ */
+export function getBillingPeriod(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Línea de un extracto mensual: un apunte del registro de consumo
+ * @interface UsageStatementLine
+ */
+export interface UsageStatementLine {
+  taskId: string;
+  attempt: number;
+  type: UsageEntryType;
+  amount: number;
+  priceTable?: string;
+  occurredAt: Date;
+}
+
+/**
+ * Totales de un extracto mensual. `net` es la suma de cargos y abonos; `tasks`, el número de
+ * tareas distintas con algún apunte
+ * @interface UsageStatementTotals
+ */
+export interface UsageStatementTotals {
+  charges: number;
+  refunds: number;
+  net: number;
+  entries: number;
+  tasks: number;
+}
+
+/**
+ * Apuntes y totales de un cliente en un periodo de facturación
+ * @interface UsageStatement
+ */
+export interface UsageStatement {
+  lines: UsageStatementLine[];
+  totals: UsageStatementTotals;
+}
@@ -0,0 +1,13 @@
+/**
+ * Entidad de marca de agua
+ * @interface WatermarkEntity
+ */
+export interface WatermarkEntity {
+  _id?: string;
+  name: string;
+  path: string;
+  mimeType: string;
+  size: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
@@ -1,3 +1,72 @@
-export type { TaskEntity } from './TaskEntity';
-export { TaskStatus, TaskStatusTransition } from './TaskEntity';
+export type {
+  TaskEntity,
+  ProcessedImage,
+  VariantSpec,
+  VariantFit,
+  VariantPosition,
+  OutputFormat,
+  EncoderOptions,
+  OverlayPosition,
+  OverlaySpec,
+  TaskProcessingOptions,
+  TaskSchedule,
+  TaskMetadataValue,
+  TaskLabels,
+  TaskFilter,
+  TaskSource,
+  TaskSort,
+  TaskCursor,
+  MetadataMode,
+  MetadataPolicy,
+  ImageMetadata,
+  GenerationStatus,
+  TaskGeneration,
+  TaskStatusChange,
+  RetentionTarget,
+  TaskExpiration,
+} from './TaskEntity';
+export {
+  TaskStatus,
+  TaskStatusTransition,
+  DEFAULT_VARIANTS,
+  TASK_PRIORITY,
+  TASK_LABEL_LIMITS,
+  TASK_SORT_FIELDS,
+  DEFAULT_TASK_SORT,
+  getVariantLabel,
+  recordStatusChange,
+  parseTaskSort,
+  normalizeTaskFilter,
+  encodeTaskCursor,
+  decodeTaskCursor,
+} from './TaskEntity';
 export type { ImageEntity } from './ImageEntity';
+export type { WatermarkEntity } from './WatermarkEntity';
+export type { BatchEntity, BatchFailure } from './BatchEntity';
+export type {
+  BulkJobEntity,
+  BulkAction,
+  BulkJobStatus,
+  BulkOutcomeStatus,
+  BulkTaskOutcome,
+} from './BulkJobEntity';
+export { BULK_ACTIONS } from './BulkJobEntity';
+export type { TaskExportEntity, ExportFormat, TaskExportStatus } from './TaskExportEntity';
+export { EXPORT_FORMATS, TASK_EXPORT_COLUMNS } from './TaskExportEntity';
+export type {
+  PriceTable,
+  PricingInput,
+  PriceConcept,
+  PriceLine,
+  PriceBreakdown,
+  PriceQuote,
+} from './PricingEntity';
+export { PRICE_TABLES, CURRENT_PRICE_TABLE_VERSION } from './PricingEntity';
+export type {
+  UsageLedgerEntity,
+  UsageEntryType,
+  UsageStatementLine,
+  UsageStatementTotals,
+  UsageStatement,
+} from './UsageLedgerEntity';
+export { DEFAULT_CLIENT_ID, getBillingPeriod } from './UsageLedgerEntity';
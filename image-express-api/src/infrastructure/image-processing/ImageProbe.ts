@@ -0,0 +1,44 @@
+import sharp from 'sharp';
+import { BusinessError } from '@core/errors';
+
+/**
+ * Dimensiones y formato de una imagen, ya orientada según su etiqueta EXIF
+ * @interface ImageHeader
+ */
+export interface ImageHeader {
+  width: number;
+  height: number;
+  format: string;
+}
+
+/**
+ * @class ImageProbe
+ * @description Lee la cabecera de una imagen sin decodificar sus píxeles, para conocer sus
+ * dimensiones y formato antes de procesarla.
+ */
+export class ImageProbe {
+  /**
+   * @method probe
+   * @description Obtiene las dimensiones y el formato de la imagen. Si su orientación EXIF la gira
+   * 90°, intercambia ancho y alto, igual que el worker al rotarla.
+   * @param {string} imagePath - Ruta absoluta de la imagen
+   * @returns {Promise<ImageHeader>} Dimensiones y formato
+   * @throws {BusinessError} Si el archivo no es una imagen legible
+   */
+  async probe(imagePath: string): Promise<ImageHeader> {
+    const metadata = await sharp(imagePath)
+      .metadata()
+      .catch(() => undefined);
+
+    if (!metadata?.width || !metadata.height || !metadata.format) {
+      throw new BusinessError('No se pudo leer la cabecera de la imagen', 'INVALID_IMAGE', 400);
+    }
+
+    const rotated = (metadata.orientation ?? 1) >= 5;
+    return {
+      width: rotated ? metadata.height : metadata.width,
+      height: rotated ? metadata.width : metadata.height,
+      format: metadata.format,
+    };
+  }
+}
@@ -0,0 +1,124 @@
+import sharp from 'sharp';
+import { VariantSpec, VariantFit, OutputFormat, EncoderOptions } from '@domain/entities';
+
+/**
+ * @class VariantRenderer
+ * @description Construye el pipeline de Sharp de una variante: orienta el original según su
+ * etiqueta EXIF, lo redimensiona sin ampliarlo con el ajuste, la gravedad y el color de relleno
+ * indicados, y configura el codificador de salida. Lo comparten el worker, al generar las variantes
+ * de una tarea, y la API, al servir transformaciones bajo demanda.
+ */
+export class VariantRenderer {
+  private static readonly EXTENSIONS: Record<OutputFormat, string> = {
+    jpeg: '.jpg',
+    png: '.png',
+    webp: '.webp',
+    avif: '.avif',
+  };
+
+  private static readonly EFFORT_RANGES: Record<Exclude<OutputFormat, 'jpeg'>, [number, number]> = {
+    png: [1, 10],
+    webp: [0, 6],
+    avif: [0, 9],
+  };
+
+  /**
+   * @method resize
+   * @description Crea el pipeline orientado y redimensionado de la variante
+   * @param {string} originalPath - Ruta absoluta al archivo de imagen original
+   * @param {VariantSpec} variant - Especificación de la variante
+   * @returns {sharp.Sharp} Pipeline con la orientación y el redimensionado aplicados
+   */
+  public resize(originalPath: string, variant: VariantSpec): sharp.Sharp {
+    const fit = this.resolveFit(variant);
+
+    return sharp(originalPath)
+      .rotate()
+      .resize(variant.width, variant.height ?? null, {
+        withoutEnlargement: true,
+        fit,
+        ...(variant.position && { position: variant.position }),
+        ...(fit === 'contain' && variant.background && { background: variant.background }),
+      });
+  }
+
+  /**
+   * @method resolveFit
+   * @description Determina el modo de ajuste de la variante. Las estrategias de recorte
+   * inteligente (attention/entropy) implican `cover`; en otro caso se usa `inside`
+   * @param {VariantSpec} variant - Especificación de la variante
+   * @returns {VariantFit} Modo de ajuste a aplicar
+   */
+  public resolveFit(variant: VariantSpec): VariantFit {
+    if (variant.fit) {
+      return variant.fit;
+    }
+    return variant.position === 'attention' || variant.position === 'entropy' ? 'cover' : 'inside';
+  }
+
+  /**
+   * @method encode
+   * @description Configura el codificador de salida aplicando solo las opciones que soporta cada formato.
+   * El `effort` se ajusta al rango admitido por el codificador correspondiente.
+   * @param {sharp.Sharp} pipeline - Pipeline de sharp con el redimensionado aplicado
+   * @param {OutputFormat} format - Formato de salida
+   * @param {EncoderOptions} [encoder] - Opciones del codificador
+   * @returns {sharp.Sharp} Pipeline configurado con el formato de salida
+   */
+  public encode(
+    pipeline: sharp.Sharp,
+    format: OutputFormat,
+    encoder: EncoderOptions = {}
+  ): sharp.Sharp {
+    const { quality, progressive, lossless } = encoder;
+
+    switch (format) {
+      case 'jpeg':
+        return pipeline.jpeg({ quality, progressive });
+      case 'png':
+        return pipeline.png({
+          quality,
+          progressive,
+          effort: this.clampEffort(format, encoder.effort),
+        });
+      case 'webp':
+        return pipeline.webp({
+          quality,
+          lossless,
+          effort: this.clampEffort(format, encoder.effort),
+        });
+      case 'avif':
+        return pipeline.avif({
+          quality,
+          lossless,
+          effort: this.clampEffort(format, encoder.effort),
+        });
+    }
+  }
+
+  /**
+   * @method getExtension
+   * @description Obtiene la extensión de archivo de un formato de salida
+   * @param {OutputFormat} format - Formato de salida
+   * @returns {string} Extensión con punto (ej: `.webp`)
+   */
+  public getExtension(format: OutputFormat): string {
+    return VariantRenderer.EXTENSIONS[format];
+  }
+
+  /**
+   * @private
+   * @method clampEffort
+   * @description Ajusta el esfuerzo de compresión al rango del codificador
+   * @param {Exclude<OutputFormat, 'jpeg'>} format - Formato de salida
+   * @param {number} [effort] - Esfuerzo solicitado
+   * @returns {number | undefined} Esfuerzo dentro de rango o undefined para usar el valor por defecto
+   */
+  private clampEffort(format: Exclude<OutputFormat, 'jpeg'>, effort?: number): number | undefined {
+    if (effort === undefined) {
+      return undefined;
+    }
+    const [min, max] = VariantRenderer.EFFORT_RANGES[format];
+    return Math.min(Math.max(effort, min), max);
+  }
+}
@@ -1,6 +1,14 @@
-import { Queue, Job } from 'bullmq';
+import { Queue, Job, JobType } from 'bullmq';
 import { RedisConnection } from '@infrastructure/cache/RedisConnection';
 import { envs } from '@config/envs';
+import {
+  VariantSpec,
+  OverlaySpec,
+  MetadataPolicy,
+  TaskProcessingOptions,
+  TaskSchedule,
+  TASK_PRIORITY,
+} from '@domain/entities/TaskEntity';
 
 /**
  * @interface TaskJobData
@@ -10,6 +18,18 @@ interface TaskJobData {
   taskId: string;
   imagePath: string;
   timestamp: number;
+  variants?: VariantSpec[];
+  overlay?: OverlaySpec;
+  metadataPolicy?: MetadataPolicy;
+  generation?: number;
+}
+
+/**
+ * @interface TaskJobOptions
+ * @description Planificación del trabajo y, en los reprocesados, generación a procesar
+ */
+export interface TaskJobOptions extends TaskSchedule {
+  generation?: number;
 }
 
 /**
@@ -20,6 +40,7 @@ interface QueueMock {
   add: (name: string, data: TaskJobData, options?: object) => Promise<{ id: string }>;
   getJobCounts: (...states: string[]) => Promise<Record<string, number>>;
   getJobs: (states: string[], start: number, end: number, asc?: boolean) => Promise<Job[]>;
+  getJob: (jobId: string) => Promise<Job | undefined>;
   remove: (jobId: string) => Promise<number>;
 }
 
@@ -77,6 +98,7 @@ export class TaskQueueProducer {
             add: (): Promise<{ id: string }> => Promise.resolve({ id: 'test-job-id' }),
             getJobCounts: (): Promise<Record<string, number>> => Promise.resolve({}),
             getJobs: (): Promise<Job[]> => Promise.resolve([]),
+            getJob: (): Promise<Job | undefined> => Promise.resolve(undefined),
             remove: (): Promise<number> => Promise.resolve(1),
           } as QueueMock;
           this.initialized = true;
@@ -100,24 +122,45 @@ export class TaskQueueProducer {
   /**
    * @method addTask
    * @description Añade una nueva tarea de procesamiento de imagen a la cola.
-   * Configura reintentos automáticos y backoff exponencial para manejo de fallos.
+   * Configura reintentos automáticos y backoff exponencial para manejo de fallos. Todos los
+   * trabajos llevan prioridad (la de por defecto si no se indica) para que BullMQ los ordene en
+   * la misma cola, y los que tienen `processAt` futuro se encolan como diferidos. El ID del trabajo
+   * se deriva de la tarea y la generación, de modo que se localiza sin recorrer la cola; el
+   * trabajo fallido de un intento anterior se elimina para que el reintento pueda encolarse.
    * @param {string} taskId - ID único de la tarea a procesar
    * @param {string} imagePath - Ruta del archivo de imagen a procesar
+   * @param {TaskProcessingOptions} [processing] - Opciones de procesamiento; sin variantes el worker usa las de por defecto
+   * @param {TaskJobOptions} [options] - Prioridad, momento de procesamiento y generación del reprocesado
    * @returns {Promise<void>}
    * @throws {Error} Si la cola no está inicializada en entorno no-test
    */
-  async addTask(taskId: string, imagePath: string): Promise<void> {
+  async addTask(
+    taskId: string,
+    imagePath: string,
+    processing?: TaskProcessingOptions,
+    options?: TaskJobOptions
+  ): Promise<void> {
     if (!TaskQueueProducer.queue) {
       console.warn('Cola no inicializada, saltando encolado de tarea:', taskId);
       return;
     }
 
+    const jobId = this.getJobId(taskId, options?.generation);
+    const previous = await this.findTaskJob(jobId, ['failed', 'completed']);
+    if (previous) {
+      await TaskQueueProducer.queue.remove(jobId);
+    }
+
     await TaskQueueProducer.queue.add(
       'process-image',
       {
         taskId,
         imagePath,
         timestamp: Date.now(),
+        ...(processing?.variants?.length && { variants: processing.variants }),
+        ...(processing?.overlay && { overlay: processing.overlay }),
+        ...(processing?.metadataPolicy && { metadataPolicy: processing.metadataPolicy }),
+        ...(options?.generation && { generation: options.generation }),
       },
       {
         attempts: envs.QUEUE.MAX_RETRIES,
@@ -125,12 +168,140 @@ export class TaskQueueProducer {
           type: 'exponential',
           delay: 2000,
         },
+        ...this.getSchedulingOptions(options),
+        jobId,
         removeOnComplete: true,
         removeOnFail: false,
       }
     );
   }
 
+  /**
+   * @method removeTask
+   * @description Elimina de la cola los trabajos de una tarea. Por defecto solo el de procesamiento
+   * y si todavía no ha empezado; los trabajos activos no pueden eliminarse porque están bloqueados
+   * por el worker, que detecta la cancelación consultando el estado de la tarea.
+   * @param {string} taskId - ID de la tarea
+   * @param {JobType[]} [states] - Estados de los trabajos a eliminar
+   * @param {number[]} [generations] - Generaciones de reprocesado cuyos trabajos también se eliminan
+   * @returns {Promise<number>} Número de trabajos eliminados
+   */
+  async removeTask(
+    taskId: string,
+    states: JobType[] = ['waiting', 'delayed', 'prioritized', 'paused'],
+    generations: number[] = []
+  ): Promise<number> {
+    if (!TaskQueueProducer.queue) {
+      console.warn('Cola no inicializada, saltando eliminación de la tarea:', taskId);
+      return 0;
+    }
+
+    const queue = TaskQueueProducer.queue;
+    const jobIds = [undefined, ...generations].map(generation =>
+      this.getJobId(taskId, generation)
+    );
+    let removed = 0;
+
+    for (const jobId of jobIds) {
+      if (await this.findTaskJob(jobId, states)) {
+        removed += await queue.remove(jobId);
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * @method changePriority
+   * @description Cambia la prioridad del trabajo de una tarea si todavía no ha empezado.
+   * @param {string} taskId - ID de la tarea
+   * @param {number} priority - Nueva prioridad
+   * @returns {Promise<number>} Número de trabajos actualizados
+   */
+  async changePriority(taskId: string, priority: number): Promise<number> {
+    const job = await this.findTaskJob(this.getJobId(taskId), [
+      'waiting',
+      'delayed',
+      'prioritized',
+      'paused',
+    ]);
+    if (!job) {
+      return 0;
+    }
+
+    await job.changePriority({ priority });
+    return 1;
+  }
+
+  /**
+   * @method promoteTask
+   * @description Adelanta el trabajo diferido de una tarea para que se procese cuanto antes.
+   * @param {string} taskId - ID de la tarea
+   * @returns {Promise<number>} Número de trabajos promovidos
+   */
+  async promoteTask(taskId: string): Promise<number> {
+    const job = await this.findTaskJob(this.getJobId(taskId), ['delayed']);
+    if (!job) {
+      return 0;
+    }
+
+    await job.promote();
+    return 1;
+  }
+
+  /**
+   * @private
+   * @method getSchedulingOptions
+   * @description Traduce la planificación de la tarea a opciones de BullMQ. Un `processAt` pasado
+   * no difiere el trabajo.
+   * @param {TaskSchedule} [schedule] - Prioridad y momento de procesamiento
+   * @returns {{ priority: number; delay?: number }} Opciones del trabajo
+   */
+  private getSchedulingOptions(schedule?: TaskSchedule): { priority: number; delay?: number } {
+    const delay = schedule?.processAt ? new Date(schedule.processAt).getTime() - Date.now() : 0;
+
+    return {
+      priority: schedule?.priority ?? TASK_PRIORITY.DEFAULT,
+      ...(delay > 0 && { delay }),
+    };
+  }
+
+  /**
+   * @private
+   * @method getJobId
+   * @description Construye el ID determinista del trabajo de una tarea o de una de sus generaciones
+   * de reprocesado.
+   * @param {string} taskId - ID de la tarea
+   * @param {number} [generation] - Generación de reprocesado
+   * @returns {string} ID del trabajo
+   */
+  private getJobId(taskId: string, generation?: number): string {
+    return generation ? `${taskId}-generation-${generation}` : taskId;
+  }
+
+  /**
+   * @private
+   * @method findTaskJob
+   * @description Busca un trabajo por su ID y lo devuelve solo si está en alguno de los estados
+   * indicados.
+   * @param {string} jobId - ID del trabajo
+   * @param {JobType[]} states - Estados admitidos
+   * @returns {Promise<Job | undefined>} El trabajo, o `undefined` si no existe o está en otro estado
+   */
+  private async findTaskJob(jobId: string, states: JobType[]): Promise<Job | undefined> {
+    if (!TaskQueueProducer.queue) {
+      return undefined;
+    }
+
+    const job = await TaskQueueProducer.queue.getJob(jobId);
+    if (!job) {
+      return undefined;
+    }
+
+    const state = await job.getState();
+    return states.includes(state as JobType) ? job : undefined;
+  }
+
   /**
    * @static
    * @method getQueue
@@ -47,8 +47,9 @@ export interface TaskProcessingEvent extends BaseTaskEvent {
 export interface TaskCompletedEvent extends BaseTaskEvent {
   eventType: TaskEventType.TASK_COMPLETED;
   images: Array<{
-    resolution: '1024' | '800';
+    resolution: string;
     path: string;
+    format?: string;
     md5: string;
     size: number;
   }>;
@@ -1,2 +1,3 @@
 export { QueueConnection } from './QueueConnection';
 export { TaskQueueProducer } from './TaskQueueProducer';
+export type { TaskJobOptions } from './TaskQueueProducer';
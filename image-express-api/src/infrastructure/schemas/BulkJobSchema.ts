@@ -0,0 +1,69 @@
+import { Schema, Connection } from 'mongoose';
+import { BulkJobEntity, BULK_ACTIONS } from '@domain/entities/BulkJobEntity';
+
+const BulkJobSchema = new Schema<BulkJobEntity>(
+  {
+    action: {
+      type: String,
+      enum: BULK_ACTIONS,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'running', 'completed', 'failed'],
+      default: 'pending',
+      index: true,
+    },
+    taskIds: {
+      type: [String],
+      default: [],
+    },
+    filter: {
+      type: Schema.Types.Mixed,
+    },
+    outcomes: {
+      type: [
+        {
+          _id: false,
+          taskId: { type: String, required: true },
+          status: { type: String, enum: ['succeeded', 'skipped', 'failed'], required: true },
+          code: { type: String },
+          error: { type: String },
+        },
+      ],
+      default: [],
+    },
+    error: {
+      type: String,
+    },
+    idempotencyKey: {
+      type: String,
+      unique: true,
+      sparse: true,
+    },
+    owner: {
+      type: String,
+    },
+    leaseUntil: {
+      type: Date,
+    },
+    startedAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Obtiene el modelo BulkJob para una conexión
+ * @param {Connection} db - Conexión MongoDB
+ * @returns {Model} Modelo BulkJob
+ */
+export function getBulkJobModel(db: Connection) {
+  return db.model<BulkJobEntity>('BulkJob', BulkJobSchema, 'bulk_jobs');
+}
@@ -0,0 +1,52 @@
+import { Schema, Connection } from 'mongoose';
+import { ImageEntity } from '@domain/entities/ImageEntity';
+
+const ImageSchema = new Schema<ImageEntity>(
+  {
+    taskId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    path: {
+      type: String,
+      required: true,
+    },
+    resolution: {
+      type: String,
+      required: true,
+    },
+    md5: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    size: {
+      type: Number,
+      min: 0,
+    },
+    format: {
+      type: String,
+    },
+    width: {
+      type: Number,
+      min: 1,
+    },
+    height: {
+      type: Number,
+      min: 1,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Obtiene el modelo Image para una conexión
+ * @param {Connection} db - Conexión MongoDB
+ * @returns {Model} Modelo Image
+ */
+export function getImageModel(db: Connection) {
+  return db.model<ImageEntity>('Image', ImageSchema, 'images');
+}
@@ -0,0 +1,61 @@
+import { Schema, Connection } from 'mongoose';
+import { TaskExportEntity, EXPORT_FORMATS } from '@domain/entities/TaskExportEntity';
+
+const TaskExportSchema = new Schema<TaskExportEntity>(
+  {
+    format: {
+      type: String,
+      enum: EXPORT_FORMATS,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'running', 'completed', 'failed'],
+      default: 'pending',
+      index: true,
+    },
+    filter: {
+      type: Schema.Types.Mixed,
+    },
+    fileName: {
+      type: String,
+    },
+    rows: {
+      type: Number,
+    },
+    size: {
+      type: Number,
+    },
+    error: {
+      type: String,
+    },
+    owner: {
+      type: String,
+    },
+    leaseUntil: {
+      type: Date,
+    },
+    startedAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+    expiresAt: {
+      type: Date,
+      index: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Obtiene el modelo TaskExport para una conexión
+ * @param {Connection} db - Conexión MongoDB
+ * @returns {Model} Modelo TaskExport
+ */
+export function getTaskExportModel(db: Connection) {
+  return db.model<TaskExportEntity>('TaskExport', TaskExportSchema, 'task_exports');
+}
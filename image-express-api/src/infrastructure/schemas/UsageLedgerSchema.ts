@@ -0,0 +1,54 @@
+import { Schema, Connection } from 'mongoose';
+import { UsageLedgerEntity } from '@domain/entities/UsageLedgerEntity';
+
+const UsageLedgerSchema = new Schema<UsageLedgerEntity>(
+  {
+    taskId: {
+      type: String,
+      required: true,
+    },
+    attempt: {
+      type: Number,
+      required: true,
+    },
+    clientId: {
+      type: String,
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ['charge', 'refund'],
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+    },
+    priceTable: {
+      type: String,
+    },
+    period: {
+      type: String,
+      required: true,
+    },
+    occurredAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+UsageLedgerSchema.index({ taskId: 1, attempt: 1, type: 1 }, { unique: true });
+UsageLedgerSchema.index({ clientId: 1, period: 1, occurredAt: 1 });
+
+/**
+ * Obtiene el modelo UsageLedger para una conexión
+ * @param {Connection} db - Conexión MongoDB
+ * @returns {Model} Modelo UsageLedger
+ */
+export function getUsageLedgerModel(db: Connection) {
+  return db.model<UsageLedgerEntity>('UsageLedger', UsageLedgerSchema, 'usage_ledger');
+}
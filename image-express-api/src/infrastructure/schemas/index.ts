@@ -1 +1,7 @@
 export { getTaskModel } from './TaskSchema';
+export { getWatermarkModel } from './WatermarkSchema';
+export { getImageModel } from './ImageSchema';
+export { getBatchModel } from './BatchSchema';
+export { getBulkJobModel } from './BulkJobSchema';
+export { getTaskExportModel } from './TaskExportSchema';
+export { getUsageLedgerModel } from './UsageLedgerSchema';
@@ -4,8 +4,10 @@ import crypto from 'crypto';
 import fs from 'fs';
 import { Request } from 'express';
 import { getInputStoragePath } from '@core/helpers/fileDirectory';
+import { envs } from '@config/envs';
 
 const VALID_IMAGE_MIMES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'] as const;
+const VALID_ARCHIVE_MIMES = ['application/zip', 'application/x-zip-compressed'] as const;
 
 /**
  * @description Configuración de almacenamiento en disco para Multer.
@@ -62,6 +64,33 @@ const imageFileFilter = (
   cb(null, true);
 };
 
+/**
+ * @description Filtro para validar que el archivo subido sea un ZIP. Algunos clientes envían los
+ * ZIP como `application/octet-stream`, por lo que en ese caso se acepta por la extensión.
+ * @param {Request} _req - Request de Express
+ * @param {Express.Multer.File} file - Archivo siendo validado
+ * @param {multer.FileFilterCallback} cb - Callback de validación
+ */
+const archiveFileFilter = (
+  _req: Request,
+  file: Express.Multer.File,
+  cb: multer.FileFilterCallback
+) => {
+  const isValidMime = VALID_ARCHIVE_MIMES.includes(
+    file.mimetype as (typeof VALID_ARCHIVE_MIMES)[number]
+  );
+  const isOctetStreamZip =
+    file.mimetype === 'application/octet-stream' &&
+    path.extname(file.originalname).toLowerCase() === '.zip';
+
+  if (!isValidMime && !isOctetStreamZip) {
+    cb(new Error(`Tipo de archivo no soportado: ${file.mimetype}. Solo se permiten archivos ZIP`));
+    return;
+  }
+
+  cb(null, true);
+};
+
 /**
  * @description Configuración de Multer para almacenamiento en disco.
  * Limita el tamaño de archivo a 10MB y acepta solo un archivo por petición.
@@ -75,6 +104,32 @@ export const uploadToDisk = multer({
   },
 });
 
+/**
+ * @description Configuración de Multer para la creación de lotes. Igual que `uploadToDisk`
+ * pero admite hasta 100 archivos por petición.
+ */
+export const uploadBatchToDisk = multer({
+  storage: diskStorage,
+  fileFilter: imageFileFilter,
+  limits: {
+    fileSize: 10 * 1024 * 1024,
+    files: 100,
+  },
+});
+
+/**
+ * @description Configuración de Multer para la ingesta de archivos ZIP. Acepta un único ZIP de
+ * hasta `ARCHIVE_MAX_SIZE` bytes que después se extrae en el directorio de entrada.
+ */
+export const uploadArchiveToDisk = multer({
+  storage: diskStorage,
+  fileFilter: archiveFileFilter,
+  limits: {
+    fileSize: envs.ARCHIVE.MAX_SIZE,
+    files: 1,
+  },
+});
+
 /**
  * @description Configuración de Multer para almacenamiento en memoria.
  * Útil para operaciones que requieren procesar el archivo antes de guardarlo.
@@ -0,0 +1,373 @@
+import yauzl, { Entry, ZipFile } from 'yauzl';
+import fs from 'fs/promises';
+import { createWriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import { Readable } from 'stream';
+import path from 'path';
+import crypto from 'crypto';
+import { BusinessError } from '@core/errors';
+
+/**
+ * Límites aplicados al extraer un archivo ZIP
+ * @interface ArchiveLimits
+ * @property {number} maxEntries - Número máximo de entradas del archivo (incluidos directorios)
+ * @property {number} maxTotalBytes - Tamaño descomprimido máximo del conjunto de imágenes extraídas
+ * @property {number} maxEntryBytes - Tamaño descomprimido máximo de cada imagen
+ */
+export interface ArchiveLimits {
+  maxEntries: number;
+  maxTotalBytes: number;
+  maxEntryBytes: number;
+}
+
+/**
+ * Imagen extraída del archivo
+ * @interface ExtractedArchiveEntry
+ * @property {number} index - Posición de la entrada en el archivo
+ * @property {string} entryName - Ruta de la entrada dentro del archivo
+ * @property {string} path - Ruta absoluta del archivo extraído
+ * @property {string} filename - Nombre del archivo extraído
+ * @property {number} size - Tamaño en bytes
+ */
+export interface ExtractedArchiveEntry {
+  index: number;
+  entryName: string;
+  path: string;
+  filename: string;
+  size: number;
+}
+
+/**
+ * Entrada del archivo descartada durante la extracción
+ * @interface RejectedArchiveEntry
+ * @property {number} index - Posición de la entrada en el archivo
+ * @property {string} entryName - Ruta de la entrada dentro del archivo
+ * @property {string} code - Motivo codificado (UNSAFE_PATH, NESTED_ARCHIVE, UNSUPPORTED_ENTRY...)
+ * @property {string} reason - Descripción legible del motivo
+ */
+export interface RejectedArchiveEntry {
+  index: number;
+  entryName: string;
+  code: string;
+  reason: string;
+}
+
+/**
+ * Resultado de la extracción
+ * @interface ArchiveExtractionResult
+ */
+export interface ArchiveExtractionResult {
+  files: ExtractedArchiveEntry[];
+  rejected: RejectedArchiveEntry[];
+}
+
+type SniffedFormat = 'jpeg' | 'png' | 'webp' | 'archive';
+
+/**
+ * @class ZipArchiveExtractor
+ * @description Extrae las imágenes de un archivo ZIP en un directorio plano. Cada imagen se
+ * escribe con un nombre generado, de modo que la ruta de la entrada nunca decide dónde acaba el
+ * archivo; aun así, las entradas con rutas absolutas o con segmentos `..` (zip-slip) se rechazan.
+ * Los archivos anidados, los enlaces simbólicos, las entradas cifradas y lo que no sea una imagen
+ * JPEG, PNG o WebP se descartan y se informan. Superar el número de entradas o el tamaño total
+ * aborta la extracción y elimina lo ya extraído.
+ */
+export class ZipArchiveExtractor {
+  private static readonly IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp'];
+  private static readonly ARCHIVE_EXTENSIONS = [
+    '.zip',
+    '.rar',
+    '.7z',
+    '.tar',
+    '.gz',
+    '.tgz',
+    '.bz2',
+    '.xz',
+  ];
+  private static readonly EXTENSIONS: Record<Exclude<SniffedFormat, 'archive'>, string> = {
+    jpeg: '.jpg',
+    png: '.png',
+    webp: '.webp',
+  };
+  private static readonly SYMLINK_MODE = 0o120000;
+  private static readonly FILE_TYPE_MASK = 0o170000;
+
+  /**
+   * @constructor
+   * @param {ArchiveLimits} limits - Límites de la extracción
+   */
+  constructor(private readonly limits: ArchiveLimits) {}
+
+  /**
+   * @method extract
+   * @description Extrae las imágenes del archivo en `destinationDir`
+   * @param {string} archivePath - Ruta del archivo ZIP
+   * @param {string} destinationDir - Directorio donde se escriben las imágenes
+   * @returns {Promise<ArchiveExtractionResult>} Imágenes extraídas y entradas descartadas
+   * @throws {BusinessError} Si el archivo no es un ZIP válido o supera los límites
+   */
+  async extract(archivePath: string, destinationDir: string): Promise<ArchiveExtractionResult> {
+    const zipfile = await this.open(archivePath);
+    const files: ExtractedArchiveEntry[] = [];
+    const rejected: RejectedArchiveEntry[] = [];
+
+    try {
+      if (zipfile.entryCount > this.limits.maxEntries) {
+        throw new BusinessError(
+          `El archivo contiene ${zipfile.entryCount} entradas; el máximo es ${this.limits.maxEntries}`,
+          'ARCHIVE_TOO_MANY_ENTRIES',
+          400,
+          { entries: zipfile.entryCount, maxEntries: this.limits.maxEntries }
+        );
+      }
+
+      await fs.mkdir(destinationDir, { recursive: true });
+
+      let index = -1;
+      let totalBytes = 0;
+      for await (const entry of zipfile.eachEntry()) {
+        index++;
+        const entryName = yauzl.getFileNameLowLevel(
+          entry.generalPurposeBitFlag,
+          entry.fileNameRaw,
+          entry.extraFields,
+          false
+        );
+
+        if (this.isIgnored(entryName)) {
+          continue;
+        }
+
+        const rejection = this.checkEntry(entry, entryName);
+        if (rejection) {
+          rejected.push({ index, entryName, ...rejection });
+          continue;
+        }
+
+        totalBytes += entry.uncompressedSize;
+        if (totalBytes > this.limits.maxTotalBytes) {
+          throw new BusinessError(
+            `El contenido descomprimido supera el máximo de ${this.limits.maxTotalBytes} bytes`,
+            'ARCHIVE_TOO_LARGE',
+            413,
+            { maxTotalBytes: this.limits.maxTotalBytes }
+          );
+        }
+
+        const extracted = await this.extractEntry(zipfile, entry, entryName, destinationDir);
+        if ('code' in extracted) {
+          rejected.push({ index, entryName, ...extracted });
+        } else {
+          files.push({ index, entryName, ...extracted });
+        }
+      }
+
+      return { files, rejected };
+    } catch (error) {
+      await Promise.all(files.map(file => fs.rm(file.path, { force: true })));
+      if (error instanceof BusinessError) {
+        throw error;
+      }
+      throw new BusinessError(
+        `El archivo ZIP no es válido: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'INVALID_ARCHIVE',
+        400
+      );
+    } finally {
+      if (zipfile.isOpen) {
+        zipfile.close();
+      }
+    }
+  }
+
+  /**
+   * @private
+   * @method open
+   * @description Abre el archivo ZIP leyendo las entradas bajo demanda y sin decodificar los
+   * nombres, para poder rechazar las rutas inseguras entrada a entrada en lugar de abortar
+   * @param {string} archivePath - Ruta del archivo ZIP
+   * @returns {Promise<ZipFile>} Archivo abierto
+   * @throws {BusinessError} Si el archivo no es un ZIP válido
+   */
+  private async open(archivePath: string): Promise<ZipFile> {
+    try {
+      return await yauzl.openPromise(archivePath, {
+        lazyEntries: true,
+        decodeStrings: false,
+        validateEntrySizes: true,
+      });
+    } catch (error) {
+      throw new BusinessError(
+        `El archivo ZIP no es válido: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'INVALID_ARCHIVE',
+        400
+      );
+    }
+  }
+
+  /**
+   * @private
+   * @method isIgnored
+   * @description Indica si la entrada se omite sin informarla: directorios y metadatos que
+   * añade el compresor de macOS
+   * @param {string} entryName - Ruta de la entrada
+   * @returns {boolean} true si la entrada debe omitirse
+   */
+  private isIgnored(entryName: string): boolean {
+    return (
+      entryName.endsWith('/') ||
+      entryName.startsWith('__MACOSX/') ||
+      path.posix.basename(entryName).startsWith('._')
+    );
+  }
+
+  /**
+   * @private
+   * @method checkEntry
+   * @description Comprueba, antes de leer su contenido, si la entrada puede extraerse
+   * @param {Entry} entry - Entrada del archivo
+   * @param {string} entryName - Ruta de la entrada
+   * @returns {Omit<RejectedArchiveEntry, 'index' | 'entryName'> | null} Motivo del rechazo o null
+   */
+  private checkEntry(
+    entry: Entry,
+    entryName: string
+  ): Omit<RejectedArchiveEntry, 'index' | 'entryName'> | null {
+    const unsafe = yauzl.validateFileName(entryName);
+    if (unsafe) {
+      return { code: 'UNSAFE_PATH', reason: `Ruta no permitida (${unsafe})` };
+    }
+
+    const mode = (entry.externalFileAttributes >>> 16) & ZipArchiveExtractor.FILE_TYPE_MASK;
+    if (mode === ZipArchiveExtractor.SYMLINK_MODE) {
+      return { code: 'UNSAFE_PATH', reason: 'Los enlaces simbólicos no están permitidos' };
+    }
+
+    const ext = path.posix.extname(entryName).toLowerCase();
+    if (ZipArchiveExtractor.ARCHIVE_EXTENSIONS.includes(ext)) {
+      return { code: 'NESTED_ARCHIVE', reason: 'Los archivos anidados no están permitidos' };
+    }
+    if (!ZipArchiveExtractor.IMAGE_EXTENSIONS.includes(ext)) {
+      return {
+        code: 'UNSUPPORTED_ENTRY',
+        reason: `Tipo de archivo no soportado. Solo se permiten: ${ZipArchiveExtractor.IMAGE_EXTENSIONS.join(', ')}`,
+      };
+    }
+
+    if (entry.isEncrypted()) {
+      return { code: 'ENCRYPTED_ENTRY', reason: 'Las entradas cifradas no están soportadas' };
+    }
+
+    if (entry.uncompressedSize > this.limits.maxEntryBytes) {
+      return {
+        code: 'ENTRY_TOO_LARGE',
+        reason: `La imagen supera el tamaño máximo de ${this.limits.maxEntryBytes} bytes`,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * @private
+   * @method extractEntry
+   * @description Escribe la entrada en el directorio de destino y comprueba por su firma que el
+   * contenido es realmente una imagen. yauzl verifica que el contenido no excede el tamaño
+   * declarado, en el que se basan los límites.
+   * @param {ZipFile} zipfile - Archivo abierto
+   * @param {Entry} entry - Entrada a extraer
+   * @param {string} entryName - Ruta de la entrada
+   * @param {string} destinationDir - Directorio de destino
+   * @returns {Promise<Omit<ExtractedArchiveEntry, 'index' | 'entryName'> | Omit<RejectedArchiveEntry, 'index' | 'entryName'>>}
+   * Imagen extraída o motivo del rechazo
+   */
+  private async extractEntry(
+    zipfile: ZipFile,
+    entry: Entry,
+    entryName: string,
+    destinationDir: string
+  ): Promise<
+    | Omit<ExtractedArchiveEntry, 'index' | 'entryName'>
+    | Omit<RejectedArchiveEntry, 'index' | 'entryName'>
+  > {
+    const tempPath = path.join(destinationDir, `${this.buildFilename(entryName)}.part`);
+    let header = Buffer.alloc(0);
+
+    try {
+      await pipeline(
+        await zipfile.openReadStreamPromise(entry),
+        async function* (source: Readable) {
+          for await (const chunk of source) {
+            if (header.length < 12) {
+              header = Buffer.concat([header, chunk as Buffer]).subarray(0, 12);
+            }
+            yield chunk;
+          }
+        },
+        createWriteStream(tempPath)
+      );
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+
+    const format = this.sniffFormat(header);
+    if (format === null || format === 'archive') {
+      await fs.rm(tempPath, { force: true });
+      return format === 'archive'
+        ? { code: 'NESTED_ARCHIVE', reason: 'Los archivos anidados no están permitidos' }
+        : { code: 'UNSUPPORTED_ENTRY', reason: 'El contenido no es una imagen JPEG, PNG o WebP' };
+    }
+
+    const finalPath = tempPath.replace(/\.part$/, ZipArchiveExtractor.EXTENSIONS[format]);
+    await fs.rename(tempPath, finalPath);
+
+    return { path: finalPath, filename: path.basename(finalPath), size: entry.uncompressedSize };
+  }
+
+  /**
+   * @private
+   * @method buildFilename
+   * @description Genera un nombre único a partir del nombre de la entrada, sin extensión
+   * @param {string} entryName - Ruta de la entrada
+   * @returns {string} Nombre saneado con sufijo único
+   */
+  private buildFilename(entryName: string): string {
+    const base = path.posix.basename(entryName, path.posix.extname(entryName));
+    const sanitizedName = base.replace(/[^a-zA-Z0-9-_]/g, '_');
+    return `${sanitizedName}-${Date.now()}-${crypto.randomBytes(6).toString('hex')}`;
+  }
+
+  /**
+   * @private
+   * @method sniffFormat
+   * @description Identifica el formato por los primeros bytes del contenido
+   * @param {Buffer} header - Primeros 12 bytes de la entrada
+   * @returns {SniffedFormat | null} Formato detectado o null si no se reconoce
+   */
+  private sniffFormat(header: Buffer): SniffedFormat | null {
+    if (header.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff]))) {
+      return 'jpeg';
+    }
+    if (
+      header.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+    ) {
+      return 'png';
+    }
+    if (
+      header.subarray(0, 4).toString('latin1') === 'RIFF' &&
+      header.subarray(8, 12).toString('latin1') === 'WEBP'
+    ) {
+      return 'webp';
+    }
+    if (
+      header.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04])) ||
+      header.subarray(0, 2).equals(Buffer.from([0x1f, 0x8b])) ||
+      header.subarray(0, 4).toString('latin1') === 'Rar!' ||
+      header.subarray(0, 2).toString('latin1') === '7z'
+    ) {
+      return 'archive';
+    }
+    return null;
+  }
+}
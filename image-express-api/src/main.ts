@@ -4,12 +4,69 @@ import ansiColors from 'ansi-colors';
 import { DatabaseConnector } from '@infrastructure/databases';
 import { RedisCache } from '@infrastructure/cache';
 import { TaskQueueProducer } from '@infrastructure/queues';
+import { CacheService } from '@application/services/CacheService';
+import { TaskRepository } from '@presentation/Task/repositories';
+import { TaskPurgeService } from '@presentation/Task/services';
+import { ImageRepository } from '@presentation/Image/repositories';
+import { BulkJobRoutes } from '@presentation/Bulk/routes/BulkJobRoutes';
+import { TaskExportRoutes } from '@presentation/Export/routes/TaskExportRoutes';
 import { TaskEvents } from '@infrastructure/queues/events/TaskEvents';
 import { envs } from '@config/envs';
 import { createServer } from '@presentation/Bootstrap/server';
 
 process.env.TZ = 'Europe/Madrid';
 
+/**
+ * Programa la purga de las tareas eliminadas cuyo periodo de gracia ha vencido
+ */
+function startTaskPurge(): void {
+  const db = DatabaseConnector.getImageDb();
+  const purge = new TaskPurgeService(
+    new TaskRepository(db),
+    new ImageRepository(db),
+    new TaskQueueProducer(),
+    new CacheService(new RedisCache()),
+    envs.TASK_DELETION.GRACE_PERIOD
+  );
+
+  purge.start(envs.TASK_DELETION.PURGE_INTERVAL * 1000);
+}
+
+/**
+ * Programa la purga de las exportaciones de tareas caducadas y de sus archivos
+ */
+function startTaskExportPurge(): void {
+  const exports = TaskExportRoutes.createTaskExportService();
+  const timer = setInterval(() => {
+    exports.purgeExpired().catch(error => {
+      console.error(ansiColors.red('Failed to purge expired task exports:'), error);
+    });
+  }, envs.TASK_DELETION.PURGE_INTERVAL * 1000);
+  timer.unref();
+}
+
+/**
+ * Reanuda las operaciones masivas que quedaron sin terminar al detenerse el proceso
+ */
+async function resumeBulkJobs(): Promise<void> {
+  try {
+    await BulkJobRoutes.createBulkJobService().resumeUnfinished();
+  } catch (error) {
+    console.error(ansiColors.red('Failed to resume bulk jobs:'), error);
+  }
+}
+
+/**
+ * Vuelve a generar las exportaciones de tareas que quedaron sin terminar al detenerse el proceso
+ */
+async function resumeTaskExports(): Promise<void> {
+  try {
+    await TaskExportRoutes.createTaskExportService().resumeUnfinished();
+  } catch (error) {
+    console.error(ansiColors.red('Failed to resume task exports:'), error);
+  }
+}
+
 /**
  * Punto de entrada principal de la aplicación
  * Inicializa todas las conexiones y levanta el servidor HTTP
@@ -23,6 +80,10 @@ async function main(): Promise<void> {
   RedisCache.initialize();
   TaskEvents.initialize();
   TaskQueueProducer.initialize();
+  startTaskPurge();
+  startTaskExportPurge();
+  await resumeBulkJobs();
+  await resumeTaskExports();
 
   const server = createServer();
   const PORT = envs.SERVER.PORT || 3000;
@@ -0,0 +1,88 @@
+import { Request, Response, NextFunction } from 'express';
+import { BatchService } from '../services';
+import { CreateBatchRequest, GetBatchParamsDto } from '@domain/dtos';
+
+/**
+ * @class BatchController
+ * @description Controlador para la creación y consulta de lotes de tareas.
+ */
+export class BatchController {
+  /**
+   * @constructor
+   * @param {BatchService} batchService - Servicio de lotes
+   */
+  constructor(private readonly batchService: BatchService) {}
+
+  /**
+   * @method create
+   * @async
+   * @description Crea un lote a partir de los archivos del campo 'images' y/o de `imageUrls`
+   * @param {Request} req - Petición con los archivos, las URLs y la clave de idempotencia
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {NextFunction} next - Función para pasar al siguiente middleware
+   * @returns {Promise<void>}
+   */
+  async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { body, files, idempotencyKey, clientId } = req as CreateBatchRequest & {
+        idempotencyKey?: string;
+        clientId?: string;
+      };
+      const result = await this.batchService.createBatch({
+        body,
+        files: Array.isArray(files) ? files : undefined,
+        idempotencyKey,
+        clientId,
+      });
+      res.status(201).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method createFromArchive
+   * @async
+   * @description Crea un lote a partir de las imágenes del archivo ZIP del campo 'archive'
+   * @param {Request} req - Petición con el ZIP, las opciones de procesamiento y la clave de idempotencia
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {NextFunction} next - Función para pasar al siguiente middleware
+   * @returns {Promise<void>}
+   */
+  async createFromArchive(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { body, file, idempotencyKey, clientId } = req as CreateBatchRequest & {
+        idempotencyKey?: string;
+        clientId?: string;
+      };
+      const result = await this.batchService.createBatchFromArchive({
+        body,
+        file,
+        idempotencyKey,
+        clientId,
+      });
+      res.status(201).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method getById
+   * @async
+   * @description Obtiene el resumen agregado de un lote
+   * @param {Request} req - Petición con el ID en los parámetros
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {NextFunction} next - Función para pasar al siguiente middleware
+   * @returns {Promise<void>}
+   */
+  async getById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { batchId } = req.params as unknown as GetBatchParamsDto;
+      const result = await this.batchService.getBatchById(batchId);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
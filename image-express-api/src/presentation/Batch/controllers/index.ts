@@ -0,0 +1 @@
+export { BatchController } from './BatchController';
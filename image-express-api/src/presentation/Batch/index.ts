@@ -0,0 +1,4 @@
+export * from './controllers/BatchController';
+export * from './repositories/BatchRepository';
+export * from './routes/BatchRoutes';
+export * from './services/BatchService';
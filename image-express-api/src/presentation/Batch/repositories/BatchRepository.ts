@@ -0,0 +1,66 @@
+/**
+ * @file Implementación del repositorio de lotes para MongoDB.
+ * @class BatchRepository
+ * @implements {IBatchRepository}
+ * @description Proporciona acceso a la colección de lotes, que agrupan las tareas creadas
+ * en una misma petición.
+ */
+import { Connection, Model } from 'mongoose';
+import { BatchEntity } from '@domain/entities/BatchEntity';
+import { IBatchRepository } from '@application/repositories/IBatchRepository';
+import { getBatchModel } from '@infrastructure/schemas';
+
+export class BatchRepository implements IBatchRepository {
+  private readonly model: Model<BatchEntity>;
+
+  /**
+   * @constructor
+   * @description Inicializa el repositorio obteniendo el modelo de Mongoose para los lotes.
+   * @param {Connection} db - Conexión a la base de datos de MongoDB.
+   */
+  constructor(db: Connection) {
+    this.model = getBatchModel(db);
+  }
+
+  /**
+   * @method create
+   * @description Inserta un nuevo documento de lote.
+   * @param {Partial<BatchEntity>} batch - Datos del lote.
+   * @returns {Promise<BatchEntity>} La entidad recién creada.
+   */
+  async create(batch: Partial<BatchEntity>): Promise<BatchEntity> {
+    const created = await this.model.create(batch);
+    return created.toObject();
+  }
+
+  /**
+   * @method findById
+   * @description Busca un lote por su `_id`.
+   * @param {string} id - Identificador del lote.
+   * @returns {Promise<BatchEntity | null>} La entidad si existe, o `null`.
+   */
+  async findById(id: string): Promise<BatchEntity | null> {
+    return await this.model.findById(id).lean();
+  }
+
+  /**
+   * @method findByIdempotencyKey
+   * @description Busca un lote utilizando su clave de idempotencia.
+   * @param {string} key - La clave de idempotencia utilizada al crear el lote.
+   * @returns {Promise<BatchEntity | null>} La entidad si existe, o `null`.
+   */
+  async findByIdempotencyKey(key: string): Promise<BatchEntity | null> {
+    return await this.model.findOne({ idempotencyKey: key }).lean();
+  }
+
+  /**
+   * @method update
+   * @description Actualiza los campos indicados de un lote existente.
+   * @param {string} id - El ID del lote a actualizar.
+   * @param {Partial<BatchEntity>} data - Campos a actualizar.
+   * @returns {Promise<void>}
+   */
+  async update(id: string, data: Partial<BatchEntity>): Promise<void> {
+    await this.model.findByIdAndUpdate(id, { ...data, updatedAt: new Date() });
+  }
+}
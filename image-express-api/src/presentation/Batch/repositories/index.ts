@@ -0,0 +1 @@
+export { BatchRepository } from './BatchRepository';
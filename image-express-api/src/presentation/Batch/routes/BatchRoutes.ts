@@ -0,0 +1,113 @@
+/**
+ * Configuración de rutas para el módulo de lotes
+ * @class BatchRoutes
+ */
+import { Router } from 'express';
+import { BatchController } from '../controllers';
+import { BatchRepository } from '../repositories';
+import { BatchService } from '../services';
+import { TaskRepository } from '@presentation/Task/repositories';
+import { TaskService } from '@presentation/Task/services/TaskService';
+import { WatermarkRepository } from '@presentation/Watermark/repositories';
+import { TaskQueueProducer } from '@infrastructure/queues';
+import { DatabaseConnector } from '@infrastructure/databases';
+import { uploadBatchToDisk, uploadArchiveToDisk } from '@infrastructure/upload/MulterConfig';
+import { ZipArchiveExtractor } from '@infrastructure/upload/ZipArchiveExtractor';
+import { ImageDownloadService } from '@application/services';
+import {
+  validationMiddleware,
+  paramsValidationMiddleware,
+  idempotencyMiddleware,
+  apiClientMiddleware,
+} from '@presentation/Bootstrap/middlewares';
+import { CreateBatchDto, GetBatchParamsDto } from '@domain/dtos';
+import { envs } from '@config/envs';
+
+export class BatchRoutes {
+  /**
+   * @static
+   * @getter
+   * @description Construye el router de lotes con sus dependencias.
+   * @returns {Router} Router con las rutas de lotes configuradas.
+   */
+  static get routes(): Router {
+    const router = Router();
+    const controller = this.createBatchController();
+
+    /**
+     * @route POST /batches
+     * @description Crea un lote de tareas a partir de varios archivos y/o una lista de URLs.
+     * @middleware idempotencyMiddleware - Evita crear el lote dos veces si se reintenta la petición.
+     * @middleware apiClientMiddleware - Identifica al cliente al que se imputa el consumo.
+     * @middleware uploadBatchToDisk.array('images', 100) - Procesa la subida de los archivos.
+     * @middleware validationMiddleware - Valida el cuerpo JSON contra `CreateBatchDto`.
+     */
+    router.post(
+      '/batches',
+      [
+        idempotencyMiddleware,
+        apiClientMiddleware,
+        uploadBatchToDisk.array('images', 100),
+        validationMiddleware(CreateBatchDto),
+      ],
+      controller.create.bind(controller)
+    );
+
+    /**
+     * @route POST /tasks/archive
+     * @description Crea un lote con una tarea por cada imagen de un archivo ZIP.
+     * @middleware idempotencyMiddleware - Evita extraer y crear el lote dos veces si se reintenta.
+     * @middleware apiClientMiddleware - Identifica al cliente al que se imputa el consumo.
+     * @middleware uploadArchiveToDisk.single('archive') - Procesa la subida del ZIP.
+     */
+    router.post(
+      '/tasks/archive',
+      [idempotencyMiddleware, apiClientMiddleware, uploadArchiveToDisk.single('archive')],
+      controller.createFromArchive.bind(controller)
+    );
+
+    /**
+     * @route GET /batches/:batchId
+     * @description Consulta el progreso agregado de un lote.
+     * @middleware paramsValidationMiddleware - Valida que el `batchId` sea un ObjectId.
+     */
+    router.get(
+      '/batches/:batchId',
+      [paramsValidationMiddleware(GetBatchParamsDto)],
+      controller.getById.bind(controller)
+    );
+
+    return router;
+  }
+
+  /**
+   * @private
+   * @static
+   * @method createBatchController
+   * @description Crea el `BatchController` con sus dependencias.
+   * @returns {BatchController} Controlador configurado.
+   */
+  private static createBatchController(): BatchController {
+    const db = DatabaseConnector.getImageDb();
+    const taskRepository = new TaskRepository(db);
+    const taskService = new TaskService(
+      taskRepository,
+      new TaskQueueProducer(),
+      new ImageDownloadService(),
+      new WatermarkRepository(db)
+    );
+    const archiveExtractor = new ZipArchiveExtractor({
+      maxEntries: envs.ARCHIVE.MAX_ENTRIES,
+      maxTotalBytes: envs.ARCHIVE.MAX_EXTRACTED_SIZE,
+      maxEntryBytes: 10 * 1024 * 1024,
+    });
+    const service = new BatchService(
+      new BatchRepository(db),
+      taskRepository,
+      taskService,
+      archiveExtractor
+    );
+
+    return new BatchController(service);
+  }
+}
@@ -0,0 +1 @@
+export { BatchRoutes } from './BatchRoutes';
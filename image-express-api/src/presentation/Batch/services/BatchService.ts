@@ -0,0 +1,464 @@
+import { BatchRepository } from '../repositories';
+import { TaskRepository } from '@presentation/Task/repositories';
+import { TaskService } from '@presentation/Task/services/TaskService';
+import { BusinessError, NotFoundError } from '@core/errors';
+import { ConcurrencyLimiter } from '@core/helpers/concurrency';
+import { generateUUID } from '@core/helpers/crypto';
+import { getInputStoragePath } from '@core/helpers/fileDirectory';
+import { logger } from '@core/helpers/logger';
+import { BatchEntity, BatchFailure, TaskStatus } from '@domain/entities';
+import { BatchResponseDto, CreateBatchDto, CreateTaskDto } from '@domain/dtos';
+import { ZipArchiveExtractor } from '@infrastructure/upload/ZipArchiveExtractor';
+import { isURL } from 'class-validator';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * @interface BatchItem
+ * @description Elemento de un lote pendiente de convertirse en tarea
+ * @property {number} index - Posición del elemento en el lote o, si procede de un ZIP, en el archivo
+ * @property {string} source - Nombre del archivo subido o URL, para identificar el elemento en los errores
+ * @property {Express.Multer.File} [file] - Archivo subido
+ * @property {string} [imageUrl] - URL remota de la imagen
+ */
+interface BatchItem {
+  index: number;
+  source: string;
+  file?: Express.Multer.File;
+  imageUrl?: string;
+}
+
+/**
+ * @class BatchService
+ * @description Crea lotes de tareas a partir de varios archivos subidos y/o una lista de URLs, o
+ * a partir de las imágenes de un archivo ZIP.
+ * Cada elemento se convierte en una tarea hija con las mismas opciones de procesamiento; los
+ * elementos que fallan se registran en el lote sin impedir la creación del resto. El estado del
+ * lote se calcula agregando el de sus tareas.
+ */
+export class BatchService {
+  private static readonly MAX_ITEMS = 100;
+  private static readonly CHILD_CONCURRENCY = 4;
+
+  /**
+   * @constructor
+   * @param {BatchRepository} repository - Repositorio de lotes
+   * @param {TaskRepository} taskRepository - Repositorio de tareas, para agregar su estado
+   * @param {TaskService} taskService - Servicio que crea y encola cada tarea hija
+   * @param {ZipArchiveExtractor} archiveExtractor - Extractor de las imágenes de los ZIP
+   */
+  constructor(
+    private readonly repository: BatchRepository,
+    private readonly taskRepository: TaskRepository,
+    private readonly taskService: TaskService,
+    private readonly archiveExtractor: ZipArchiveExtractor
+  ) {}
+
+  /**
+   * @method createBatch
+   * @description Crea un lote y sus tareas hijas. Si ya existe un lote con la misma clave de
+   * idempotencia se devuelve ese lote y se descartan los archivos recibidos. Cada tarea hija
+   * recibe la clave `{clave del lote}:{índice}`, de modo que sus reintentos tampoco se duplican.
+   * @param {object} request - Datos de la petición
+   * @param {CreateBatchDto} request.body - URLs y opciones de procesamiento comunes
+   * @param {Express.Multer.File[]} [request.files] - Archivos subidos
+   * @param {string} [request.idempotencyKey] - Clave de idempotencia del lote
+   * @param {string} [request.clientId] - Cliente de la API al que se imputan las tareas
+   * @returns {Promise<BatchResponseDto>} Resumen del lote creado o existente
+   * @throws {BusinessError} Si el lote está vacío, supera el máximo o sus opciones no son válidas
+   */
+  async createBatch(request: {
+    body: CreateBatchDto;
+    files?: Express.Multer.File[];
+    idempotencyKey?: string;
+    clientId?: string;
+  }): Promise<BatchResponseDto> {
+    const files = request.files ?? [];
+
+    const existing = await this.findExisting(request.idempotencyKey, files);
+    if (existing) {
+      return existing;
+    }
+
+    let items: BatchItem[];
+    try {
+      items = this.collectItems(request.body, files);
+      await this.taskService.resolveProcessingOptions(request.body);
+    } catch (error) {
+      await this.discardUploads(files);
+      throw error;
+    }
+
+    return await this.persistBatch(
+      items,
+      request.body,
+      request.idempotencyKey,
+      [],
+      request.clientId
+    );
+  }
+
+  /**
+   * @method createBatchFromArchive
+   * @description Crea un lote con una tarea hija por cada imagen de un archivo ZIP. Las imágenes
+   * se extraen en el directorio de entrada y las entradas descartadas (rutas inseguras, archivos
+   * anidados, contenido que no es imagen...) se registran como fallos del lote con su posición en
+   * el archivo. El ZIP se elimina siempre al terminar. La idempotencia funciona como en
+   * `createBatch`, usando la posición en el archivo para derivar la clave de cada tarea hija.
+   * @param {object} request - Datos de la petición
+   * @param {CreateBatchDto} request.body - Opciones de procesamiento comunes
+   * @param {Express.Multer.File} [request.file] - Archivo ZIP subido
+   * @param {string} [request.idempotencyKey] - Clave de idempotencia del lote
+   * @param {string} [request.clientId] - Cliente de la API al que se imputan las tareas
+   * @returns {Promise<BatchResponseDto>} Resumen del lote creado o existente
+   * @throws {BusinessError} Si falta el archivo, no es un ZIP válido, supera los límites, no
+   * contiene imágenes o las opciones de procesamiento no son válidas
+   */
+  async createBatchFromArchive(request: {
+    body: CreateBatchDto;
+    file?: Express.Multer.File;
+    idempotencyKey?: string;
+    clientId?: string;
+  }): Promise<BatchResponseDto> {
+    if (!request.file) {
+      throw new BusinessError(
+        'Se requiere un archivo ZIP en el campo archive',
+        'FILE_REQUIRED',
+        400
+      );
+    }
+    const archive = request.file;
+
+    const existing = await this.findExisting(request.idempotencyKey, [archive]);
+    if (existing) {
+      return existing;
+    }
+
+    let items: BatchItem[];
+    let failures: BatchFailure[];
+    try {
+      await this.taskService.resolveProcessingOptions(request.body);
+      const { files, rejected } = await this.archiveExtractor.extract(
+        archive.path,
+        getInputStoragePath()
+      );
+
+      items = files.map(file => ({
+        index: file.index,
+        source: file.entryName,
+        file: {
+          path: file.path,
+          filename: file.filename,
+          originalname: path.posix.basename(file.entryName),
+          size: file.size,
+        } as Express.Multer.File,
+      }));
+      failures = rejected.map(entry => ({
+        item: entry.index,
+        source: entry.entryName,
+        code: entry.code,
+        error: entry.reason,
+      }));
+    } finally {
+      await this.discardUploads([archive]);
+    }
+
+    if (items.length === 0) {
+      throw new BusinessError(
+        'El archivo ZIP no contiene imágenes soportadas',
+        'EMPTY_ARCHIVE',
+        400,
+        {
+          rejected: failures,
+        }
+      );
+    }
+
+    logger.info('Archivo ZIP extraído', {
+      archive: archive.originalname,
+      images: items.length,
+      rejected: failures.length,
+    });
+
+    return await this.persistBatch(
+      items,
+      request.body,
+      request.idempotencyKey,
+      failures,
+      request.clientId
+    );
+  }
+
+  /**
+   * @method getBatchById
+   * @description Obtiene el resumen agregado de un lote
+   * @param {string} batchId - Identificador del lote
+   * @returns {Promise<BatchResponseDto>} Resumen del lote
+   * @throws {NotFoundError} Si el lote no existe
+   */
+  async getBatchById(batchId: string): Promise<BatchResponseDto> {
+    const batch = await this.repository.findById(batchId);
+
+    if (!batch) {
+      throw new NotFoundError(`El lote con ID ${batchId} no existe`);
+    }
+
+    return this.buildSummary(batch);
+  }
+
+  /**
+   * @private
+   * @method findExisting
+   * @description Busca el lote creado previamente con la misma clave de idempotencia. Si existe,
+   * se descartan los archivos recibidos, ya que no llegarán a asociarse a ninguna tarea.
+   * @param {string | undefined} idempotencyKey - Clave de idempotencia del lote
+   * @param {Express.Multer.File[]} uploads - Archivos recibidos en la petición
+   * @returns {Promise<BatchResponseDto | null>} Resumen del lote existente o null
+   */
+  private async findExisting(
+    idempotencyKey: string | undefined,
+    uploads: Express.Multer.File[]
+  ): Promise<BatchResponseDto | null> {
+    if (!idempotencyKey) {
+      return null;
+    }
+
+    const existing = await this.repository.findByIdempotencyKey(idempotencyKey);
+    if (!existing) {
+      return null;
+    }
+
+    logger.info('Retornando lote existente por idempotencia', {
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      batchId: existing._id!.toString(),
+      idempotencyKey,
+    });
+    await this.discardUploads(uploads);
+    return await this.buildSummary(existing);
+  }
+
+  /**
+   * @private
+   * @method persistBatch
+   * @description Crea el documento del lote y una tarea hija por elemento. Cada tarea hija recibe
+   * la clave `{clave del lote}:{índice}`, de modo que sus reintentos tampoco se duplican.
+   * @param {BatchItem[]} items - Elementos del lote
+   * @param {CreateBatchDto} body - Cuerpo de la petición con las opciones de procesamiento
+   * @param {string} [requestKey] - Clave de idempotencia recibida
+   * @param {BatchFailure[]} [previousFailures=[]] - Fallos detectados antes de crear las tareas
+   * @param {string} [clientId] - Cliente de la API al que se imputan las tareas
+   * @returns {Promise<BatchResponseDto>} Resumen del lote creado
+   */
+  private async persistBatch(
+    items: BatchItem[],
+    body: CreateBatchDto,
+    requestKey?: string,
+    previousFailures: BatchFailure[] = [],
+    clientId?: string
+  ): Promise<BatchResponseDto> {
+    const idempotencyKey = requestKey ?? generateUUID();
+    const batch = await this.repository.create({ taskIds: [], failures: [], idempotencyKey });
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    const batchId = batch._id!.toString();
+
+    const limiter = new ConcurrencyLimiter(BatchService.CHILD_CONCURRENCY, items.length);
+    const results = await Promise.all(
+      items.map(item =>
+        limiter.run(() =>
+          this.createChild(item, body, `${idempotencyKey}:${item.index}`, batchId, clientId)
+        )
+      )
+    );
+
+    const taskIds = results.flatMap(result => ('taskId' in result ? [result.taskId] : []));
+    const failures = [
+      ...previousFailures,
+      ...results.flatMap(result => ('failure' in result ? [result.failure] : [])),
+    ].sort((a, b) => a.item - b.item);
+    await this.repository.update(batchId, { taskIds, failures });
+
+    logger.info('Lote creado', {
+      batchId,
+      idempotencyKey,
+      items: items.length,
+      created: taskIds.length,
+      failed: failures.length,
+    });
+
+    return await this.buildSummary({ ...batch, taskIds, failures });
+  }
+
+  /**
+   * @private
+   * @method collectItems
+   * @description Reúne los archivos subidos y las URLs en una única lista de elementos
+   * @param {CreateBatchDto} body - Cuerpo de la petición
+   * @param {Express.Multer.File[]} files - Archivos subidos
+   * @returns {BatchItem[]} Elementos del lote, primero los archivos y después las URLs
+   * @throws {BusinessError} Si no hay elementos, hay demasiados o alguna URL no es válida
+   */
+  private collectItems(body: CreateBatchDto, files: Express.Multer.File[]): BatchItem[] {
+    const items: BatchItem[] = [
+      ...files.map(file => ({ source: file.originalname, file })),
+      ...this.parseImageUrls(body?.imageUrls).map(imageUrl => ({ source: imageUrl, imageUrl })),
+    ].map((item, index) => ({ index, ...item }));
+
+    if (items.length === 0) {
+      throw new BusinessError(
+        'El lote debe incluir al menos un archivo en images o una URL en imageUrls',
+        'EMPTY_BATCH',
+        400
+      );
+    }
+
+    if (items.length > BatchService.MAX_ITEMS) {
+      throw new BusinessError(
+        `Un lote admite como máximo ${BatchService.MAX_ITEMS} imágenes`,
+        'BATCH_TOO_LARGE',
+        400,
+        { received: items.length }
+      );
+    }
+
+    return items;
+  }
+
+  /**
+   * @private
+   * @method parseImageUrls
+   * @description Normaliza `imageUrls`. En peticiones multipart llega como cadena JSON, como una
+   * única URL o como varios campos repetidos, y no pasa por `validationMiddleware`.
+   * @param {unknown} raw - Valor recibido en el cuerpo de la petición
+   * @returns {string[]} URLs válidas
+   * @throws {BusinessError} Si el valor no es una lista de URLs válidas
+   */
+  private parseImageUrls(raw: unknown): string[] {
+    if (raw === undefined || raw === null || raw === '') {
+      return [];
+    }
+
+    let parsed: unknown = raw;
+    if (typeof raw === 'string') {
+      try {
+        parsed = raw.trim().startsWith('[') ? JSON.parse(raw) : [raw];
+      } catch {
+        throw new BusinessError('imageUrls debe ser un JSON válido', 'INVALID_IMAGE_URLS', 400);
+      }
+    }
+
+    if (!Array.isArray(parsed)) {
+      throw new BusinessError('imageUrls debe ser un array de URLs', 'INVALID_IMAGE_URLS', 400);
+    }
+
+    const invalid = parsed.filter(url => typeof url !== 'string' || !isURL(url));
+    if (invalid.length > 0) {
+      throw new BusinessError('imageUrls contiene URLs no válidas', 'INVALID_IMAGE_URLS', 400, {
+        invalid,
+      });
+    }
+
+    return parsed as string[];
+  }
+
+  /**
+   * @private
+   * @method createChild
+   * @description Crea la tarea de un elemento del lote. Los errores no se propagan: se devuelven
+   * como fallo del elemento para que el resto del lote siga adelante.
+   * @param {BatchItem} item - Elemento del lote
+   * @param {CreateBatchDto} body - Cuerpo de la petición con las opciones de procesamiento
+   * @param {string} idempotencyKey - Clave de idempotencia de la tarea hija
+   * @param {string} batchId - Identificador del lote
+   * @param {string} [clientId] - Cliente de la API al que se imputa la tarea
+   * @returns {Promise<{ taskId: string } | { failure: BatchFailure }>} Tarea creada o fallo
+   */
+  private async createChild(
+    item: BatchItem,
+    body: CreateBatchDto,
+    idempotencyKey: string,
+    batchId: string,
+    clientId?: string
+  ): Promise<{ taskId: string } | { failure: BatchFailure }> {
+    const { variants, overlay, metadataPolicy } = body ?? {};
+
+    try {
+      const task = await this.taskService.createTaskFromRequest({
+        body: {
+          ...(item.imageUrl && { imageUrl: item.imageUrl }),
+          variants,
+          overlay,
+          metadataPolicy,
+        } as CreateTaskDto,
+        file: item.file,
+        idempotencyKey,
+        batchId,
+        clientId,
+      });
+      return { taskId: task.taskId };
+    } catch (error) {
+      if (item.file) {
+        await this.discardUploads([item.file]);
+      }
+
+      return {
+        failure: {
+          item: item.index,
+          source: item.source,
+          ...(error instanceof BusinessError && { code: error.code }),
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+      };
+    }
+  }
+
+  /**
+   * @private
+   * @method buildSummary
+   * @description Calcula el resumen del lote agregando el estado y el precio de sus tareas.
+   * El progreso es el porcentaje de tareas que han terminado (completadas, fallidas o canceladas); un lote sin
+   * tareas se considera terminado.
+   * @param {BatchEntity} batch - Entidad del lote
+   * @returns {Promise<BatchResponseDto>} Resumen del lote
+   */
+  private async buildSummary(batch: BatchEntity): Promise<BatchResponseDto> {
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    const batchId = batch._id!.toString();
+    const rows = await this.taskRepository.summarizeByBatch(batchId);
+
+    const counts = Object.fromEntries(
+      Object.values(TaskStatus).map(status => [status, 0])
+    ) as Record<TaskStatus, number>;
+    let totalPrice = 0;
+    for (const row of rows) {
+      counts[row.status] = row.count;
+      totalPrice += row.price;
+    }
+
+    const total = rows.reduce((sum, row) => sum + row.count, 0);
+    const finished =
+      counts[TaskStatus.COMPLETED] + counts[TaskStatus.FAILED] + counts[TaskStatus.CANCELLED];
+
+    return {
+      batchId,
+      total,
+      counts,
+      progress: total === 0 ? 100 : Math.round((finished / total) * 100),
+      totalPrice,
+      taskIds: batch.taskIds ?? [],
+      failures: batch.failures ?? [],
+      ...(batch.createdAt && { createdAt: batch.createdAt }),
+      ...(batch.updatedAt && { updatedAt: batch.updatedAt }),
+    };
+  }
+
+  /**
+   * @private
+   * @method discardUploads
+   * @description Elimina archivos subidos que no llegarán a asociarse a ninguna tarea
+   * @param {Express.Multer.File[]} files - Archivos a eliminar
+   * @returns {Promise<void>}
+   */
+  private async discardUploads(files: Express.Multer.File[]): Promise<void> {
+    await Promise.all(files.map(file => fs.rm(file.path, { force: true })));
+  }
+}
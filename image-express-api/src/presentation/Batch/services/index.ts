@@ -0,0 +1 @@
+export { BatchService } from './BatchService';
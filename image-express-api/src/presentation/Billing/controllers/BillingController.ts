@@ -0,0 +1,35 @@
+import { Request, Response, NextFunction } from 'express';
+import { BillingService } from '../services';
+import { GetStatementParamsDto } from '@domain/dtos';
+import { DEFAULT_CLIENT_ID } from '@domain/entities';
+
+/**
+ * @class BillingController
+ * @description Controlador de los extractos de consumo de los clientes de la API.
+ */
+export class BillingController {
+  /**
+   * @constructor
+   * @param {BillingService} billingService - Servicio de facturación
+   */
+  constructor(private readonly billingService: BillingService) {}
+
+  /**
+   * @method getStatement
+   * @async
+   * @description Obtiene el extracto mensual del cliente que hace la petición
+   * @param {Request} req - Petición con el periodo en los parámetros
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {NextFunction} next - Función para pasar al siguiente middleware
+   * @returns {Promise<void>}
+   */
+  async getStatement(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { period } = req.params as unknown as GetStatementParamsDto;
+      const { clientId = DEFAULT_CLIENT_ID } = req as Request & { clientId?: string };
+      res.json(await this.billingService.getStatement(clientId, period));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1 @@
+export { BillingController } from './BillingController';
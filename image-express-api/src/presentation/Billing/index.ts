@@ -0,0 +1,4 @@
+export * from './controllers/BillingController';
+export * from './repositories/UsageLedgerRepository';
+export * from './routes/BillingRoutes';
+export * from './services/BillingService';
@@ -0,0 +1,97 @@
+/**
+ * @file Implementación de lectura del registro de consumo para MongoDB.
+ * @class UsageLedgerRepository
+ * @implements {IUsageLedgerRepository}
+ * @description Calcula los extractos mensuales agregando los apuntes que anota el worker.
+ */
+import { Connection, Model } from 'mongoose';
+import {
+  UsageLedgerEntity,
+  UsageStatement,
+  UsageStatementTotals,
+} from '@domain/entities/UsageLedgerEntity';
+import { IUsageLedgerRepository } from '@application/repositories/IUsageLedgerRepository';
+import { getUsageLedgerModel } from '@infrastructure/schemas';
+
+export class UsageLedgerRepository implements IUsageLedgerRepository {
+  private static readonly EMPTY_TOTALS: UsageStatementTotals = {
+    charges: 0,
+    refunds: 0,
+    net: 0,
+    entries: 0,
+    tasks: 0,
+  };
+
+  private readonly model: Model<UsageLedgerEntity>;
+
+  /**
+   * @constructor
+   * @description Inicializa el repositorio obteniendo el modelo de Mongoose del registro.
+   * @param {Connection} db - Conexión a la base de datos de MongoDB.
+   */
+  constructor(db: Connection) {
+    this.model = getUsageLedgerModel(db);
+  }
+
+  /**
+   * @method aggregateStatement
+   * @description Obtiene en una sola agregación los apuntes de un cliente en un periodo, en orden
+   * cronológico, y sus totales redondeados a dos decimales.
+   * @param {string} clientId - Cliente de la API.
+   * @param {string} period - Periodo de facturación (`YYYY-MM`).
+   * @returns {Promise<UsageStatement>} Apuntes y totales del periodo.
+   */
+  async aggregateStatement(clientId: string, period: string): Promise<UsageStatement> {
+    const [result] = await this.model.aggregate<{
+      lines: UsageStatement['lines'];
+      totals: UsageStatementTotals[];
+    }>([
+      { $match: { clientId, period } },
+      { $sort: { occurredAt: 1, _id: 1 } },
+      {
+        $facet: {
+          lines: [
+            {
+              $project: {
+                _id: 0,
+                taskId: 1,
+                attempt: 1,
+                type: 1,
+                amount: 1,
+                priceTable: 1,
+                occurredAt: 1,
+              },
+            },
+          ],
+          totals: [
+            {
+              $group: {
+                _id: null,
+                charges: { $sum: { $cond: [{ $eq: ['$type', 'charge'] }, '$amount', 0] } },
+                refunds: { $sum: { $cond: [{ $eq: ['$type', 'refund'] }, '$amount', 0] } },
+                net: { $sum: '$amount' },
+                entries: { $sum: 1 },
+                tasks: { $addToSet: '$taskId' },
+              },
+            },
+            {
+              $project: {
+                _id: 0,
+                charges: { $round: ['$charges', 2] },
+                refunds: { $round: ['$refunds', 2] },
+                net: { $round: ['$net', 2] },
+                entries: 1,
+                tasks: { $size: '$tasks' },
+              },
+            },
+          ],
+        },
+      },
+    ]);
+
+    return {
+      lines: result?.lines ?? [],
+      totals: result?.totals[0] ?? UsageLedgerRepository.EMPTY_TOTALS,
+    };
+  }
+}
@@ -0,0 +1 @@
+export { UsageLedgerRepository } from './UsageLedgerRepository';
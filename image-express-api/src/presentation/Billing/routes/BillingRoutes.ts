@@ -0,0 +1,59 @@
+/**
+ * Configuración de rutas para el módulo de facturación
+ * @class BillingRoutes
+ */
+import { Router } from 'express';
+import { BillingController } from '../controllers';
+import { UsageLedgerRepository } from '../repositories';
+import { BillingService } from '../services';
+import { CacheService } from '@application/services/CacheService';
+import { DatabaseConnector } from '@infrastructure/databases';
+import { RedisCache } from '@infrastructure/cache';
+import {
+  apiClientMiddleware,
+  paramsValidationMiddleware,
+} from '@presentation/Bootstrap/middlewares';
+import { GetStatementParamsDto } from '@domain/dtos';
+
+export class BillingRoutes {
+  /**
+   * @static
+   * @getter
+   * @description Construye el router de facturación con sus dependencias.
+   * @returns {Router} Router con las rutas de facturación configuradas.
+   */
+  static get routes(): Router {
+    const router = Router();
+    const controller = this.createBillingController();
+
+    /**
+     * @route GET /billing/statements/:period
+     * @description Consulta el extracto mensual de consumo del cliente que hace la petición.
+     * @middleware apiClientMiddleware - Identifica al cliente por su `X-API-Key`.
+     * @middleware paramsValidationMiddleware - Valida que el periodo tenga el formato `YYYY-MM`.
+     */
+    router.get(
+      '/billing/statements/:period',
+      [apiClientMiddleware, paramsValidationMiddleware(GetStatementParamsDto)],
+      controller.getStatement.bind(controller)
+    );
+
+    return router;
+  }
+
+  /**
+   * @private
+   * @static
+   * @method createBillingController
+   * @description Crea el `BillingController` con sus dependencias.
+   * @returns {BillingController} Controlador configurado.
+   */
+  private static createBillingController(): BillingController {
+    const db = DatabaseConnector.getImageDb();
+    const service = new BillingService(
+      new UsageLedgerRepository(db),
+      new CacheService(new RedisCache())
+    );
+    return new BillingController(service);
+  }
+}
@@ -0,0 +1 @@
+export { BillingRoutes } from './BillingRoutes';
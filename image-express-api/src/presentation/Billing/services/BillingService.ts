@@ -0,0 +1,50 @@
+import { UsageLedgerRepository } from '../repositories';
+import { CacheService } from '@application/services/CacheService';
+import { logger } from '@core/helpers/logger';
+import { envs } from '@config/envs';
+import { BillingStatementResponseDto } from '@domain/dtos';
+
+/**
+ * @class BillingService
+ * @description Genera los extractos mensuales de consumo de cada cliente de la API a partir del
+ * registro de consumo. Los extractos se guardan en Redis; el worker invalida el del cliente y el
+ * periodo cada vez que anota un apunte.
+ */
+export class BillingService {
+  /**
+   * @constructor
+   * @param {UsageLedgerRepository} repository - Registro de consumo
+   * @param {CacheService} cacheService - Caché de los extractos
+   */
+  constructor(
+    private readonly repository: UsageLedgerRepository,
+    private readonly cacheService: CacheService
+  ) {}
+
+  /**
+   * @method getStatement
+   * @description Obtiene el extracto de un cliente en un periodo: sus cargos y abonos en orden
+   * cronológico y los totales. Un periodo sin consumo devuelve un extracto vacío.
+   * @param {string} clientId - Cliente de la API
+   * @param {string} period - Periodo de facturación (`YYYY-MM`)
+   * @returns {Promise<BillingStatementResponseDto>} Extracto del periodo
+   */
+  async getStatement(clientId: string, period: string): Promise<BillingStatementResponseDto> {
+    return this.cacheService.getOrSet(
+      `billing:statement:${clientId}:${period}`,
+      async () => {
+        const { lines, totals } = await this.repository.aggregateStatement(clientId, period);
+
+        logger.info('Extracto de consumo generado', {
+          clientId,
+          period,
+          entries: totals.entries,
+          net: totals.net,
+        });
+
+        return { clientId, period, lines, totals, generatedAt: new Date() };
+      },
+      envs.BILLING.STATEMENT_TTL
+    );
+  }
+}
@@ -0,0 +1 @@
+export { BillingService } from './BillingService';
@@ -15,3 +15,11 @@ export interface RouteClass {
 export interface RequestWithIdempotency extends Request {
   idempotencyKey?: string;
 }
+
+/**
+ * Interfaz para request con cliente de la API
+ * @interface RequestWithClient
+ */
+export interface RequestWithClient extends Request {
+  clientId?: string;
+}
@@ -0,0 +1,18 @@
+import { Request, Response, NextFunction } from 'express';
+import { generateSHA256 } from '@core/helpers/crypto';
+import { DEFAULT_CLIENT_ID } from '@domain/entities/UsageLedgerEntity';
+
+/**
+ * Middleware de cliente de la API. Identifica al cliente por el hash de su `X-API-Key`, de modo
+ * que la clave nunca se guarda; sin cabecera se usa el cliente anónimo
+ * @param {Request} req - Request Express
+ * @param {Response} _res - Response Express
+ * @param {NextFunction} next - Next middleware
+ */
+export function apiClientMiddleware(req: Request, _res: Response, next: NextFunction): void {
+  const apiKey = req.headers['x-api-key'];
+  (req as Request & { clientId?: string }).clientId =
+    typeof apiKey === 'string' && apiKey ? generateSHA256(apiKey).slice(0, 16) : DEFAULT_CLIENT_ID;
+
+  next();
+}
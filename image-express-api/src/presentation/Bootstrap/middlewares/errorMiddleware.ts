@@ -7,7 +7,7 @@ import {
   ErrorHandler,
   ErrorResponse,
 } from '@core/errors/error-handlers';
-import { NotFoundError } from '@core/errors';
+import { ErrorChainFactory, NotFoundError } from '@core/errors';
 import ansiColors from 'ansi-colors';
 
 /**
@@ -104,6 +104,8 @@ class FormValidationErrorHandler extends ErrorHandler {
  * @function buildErrorHandlerChain
  * @description Construye la cadena de responsabilidad para el manejo de errores.
  * Sigue el principio Open/Closed: abierto a extensión, cerrado a modificación.
+ * Los errores que no reconocen los manejadores de la capa HTTP continúan por la cadena
+ * del núcleo (`ErrorChainFactory`), que incluye los errores de URLs firmadas.
  * @returns {ErrorHandler} El primer eslabón de la cadena
  * @private
  */
@@ -122,7 +124,8 @@ function buildErrorHandlerChain(): ErrorHandler {
     .setNext(validationHandler)
     .setNext(notFoundHandler)
     .setNext(businessHandler)
-    .setNext(mongoHandler);
+    .setNext(mongoHandler)
+    .setNext(ErrorChainFactory.createChain());
 
   return paramValidationHandler;
 }
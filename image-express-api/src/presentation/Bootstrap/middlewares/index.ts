@@ -9,7 +9,9 @@ export {
   queryValidationMiddleware,
 } from './validation.middleware';
 export { idempotencyMiddleware } from './idempotency.middleware';
+export { apiClientMiddleware } from './apiClient.middleware';
 export { multerErrorMiddleware } from './multerError.middleware';
 export { httpLogger, logger } from './logger';
 export { corsOptions } from './cors';
 export { pagination } from './pagination';
+export { signedUrlMiddleware } from './signedUrl.middleware';
@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from 'express';
+import { verifySignedUrl } from '@core/helpers/urlSigning';
+
+/**
+ * @function signedUrlMiddleware
+ * @description Middleware que exige una URL firmada y vigente. La firma se comprueba sobre la ruta
+ * y los query parameters recibidos, por lo que cualquier alteración invalida la URL. Guarda la
+ * caducidad en `req.signedUrlExpiresAt` para limitar la caché de la respuesta.
+ * @param {Request} req - Objeto request de Express
+ * @param {Response} _res - Objeto response de Express
+ * @param {NextFunction} next - Siguiente middleware
+ * @returns {void}
+ * @throws {SignatureError} Se propaga a `next` si falta la firma, no coincide o ha caducado
+ * @example
+ * router.get('/tasks/:taskId/original', signedUrlMiddleware, controller.downloadOriginal)
+ */
+export function signedUrlMiddleware(req: Request, _res: Response, next: NextFunction): void {
+  try {
+    req.signedUrlExpiresAt = verifySignedUrl(req.originalUrl);
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
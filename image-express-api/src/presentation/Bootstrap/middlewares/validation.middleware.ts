@@ -7,13 +7,20 @@ import { ClassConstructor } from 'class-transformer/types/interfaces';
  * @function formatValidationErrors
  * @description Transforma un array de errores de class-validator en un mensaje de error legible
  * @param {ValidationError[]} errors - Array de errores generados por class-validator
- * @returns {string} Mensaje de error concatenado con todos los constraints separados por punto y coma
+ * @returns {string} Mensaje de error concatenado con todos los constraints separados por punto y coma,
+ * incluyendo los errores de objetos anidados (ej: cada elemento de `variants`)
  * @example
  * formatValidationErrors([{constraints: {isNotEmpty: 'Field is required'}}])
  * // Returns: "Field is required"
  */
 function formatValidationErrors(errors: ValidationError[]): string {
-  return errors.map(error => Object.values(error.constraints || {}).join(', ')).join('; ');
+  return errors
+    .map(error => {
+      const messages = Object.values(error.constraints || {}).join(', ');
+      const nested = error.children?.length ? formatValidationErrors(error.children) : '';
+      return [messages, nested].filter(Boolean).join('; ');
+    })
+    .join('; ');
 }
 
 /**
@@ -43,7 +50,7 @@ export function validationMiddleware<T extends object>(
         return next();
       }
 
-      const dto = plainToClass(type, req.body);
+      const dto = plainToClass(type, req.body ?? {});
       const errors = await validate(dto, {
         skipMissingProperties,
         whitelist: true,
@@ -5,6 +5,12 @@
 import { Router, Request, Response } from 'express';
 import ansiColors from 'ansi-colors';
 import { TaskRoutes } from '@presentation/Task/routes/TaskRoutes';
+import { WatermarkRoutes } from '@presentation/Watermark/routes/WatermarkRoutes';
+import { ImageRoutes } from '@presentation/Image/routes/ImageRoutes';
+import { BatchRoutes } from '@presentation/Batch/routes/BatchRoutes';
+import { BulkJobRoutes } from '@presentation/Bulk/routes/BulkJobRoutes';
+import { TaskExportRoutes } from '@presentation/Export/routes/TaskExportRoutes';
+import { BillingRoutes } from '@presentation/Billing/routes/BillingRoutes';
 
 export class AppRoutes {
   constructor(router: Router) {
@@ -37,7 +43,15 @@ export class AppRoutes {
    */
   private initializeV1Routes(router: Router): void {
     const v1Router = Router();
-    const routes = [TaskRoutes];
+    const routes = [
+      TaskExportRoutes,
+      TaskRoutes,
+      BatchRoutes,
+      BulkJobRoutes,
+      WatermarkRoutes,
+      ImageRoutes,
+      BillingRoutes,
+    ];
 
     routes.forEach(route => {
       v1Router.use(route.routes);
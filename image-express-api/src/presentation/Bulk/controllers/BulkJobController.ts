@@ -0,0 +1,57 @@
+import { Request, Response, NextFunction } from 'express';
+import { BulkJobService } from '../services';
+import { CreateBulkJobDto, GetBulkJobParamsDto } from '@domain/dtos';
+
+/**
+ * @class BulkJobController
+ * @description Controlador para la creación y consulta de operaciones masivas sobre tareas.
+ */
+export class BulkJobController {
+  /**
+   * @constructor
+   * @param {BulkJobService} bulkJobService - Servicio de operaciones masivas
+   */
+  constructor(private readonly bulkJobService: BulkJobService) {}
+
+  /**
+   * @method create
+   * @async
+   * @description Crea una operación masiva. Responde con 202 porque las tareas se procesan en
+   * segundo plano; el progreso se consulta en `GET /tasks/bulk/:bulkJobId`
+   * @param {Request} req - Petición con la acción, las tareas y la clave de idempotencia
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {NextFunction} next - Función para pasar al siguiente middleware
+   * @returns {Promise<void>}
+   */
+  async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { idempotencyKey } = req as Request & { idempotencyKey?: string };
+      const result = await this.bulkJobService.createJob({
+        body: (req.validatedBody ?? req.body) as CreateBulkJobDto,
+        idempotencyKey,
+      });
+      res.status(202).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method getById
+   * @async
+   * @description Obtiene el progreso y el resultado por tarea de una operación masiva
+   * @param {Request} req - Petición con el ID en los parámetros
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {NextFunction} next - Función para pasar al siguiente middleware
+   * @returns {Promise<void>}
+   */
+  async getById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { bulkJobId } = req.params as unknown as GetBulkJobParamsDto;
+      const result = await this.bulkJobService.getJobById(bulkJobId);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1 @@
+export { BulkJobController } from './BulkJobController';
@@ -0,0 +1,4 @@
+export * from './controllers/BulkJobController';
+export * from './repositories/BulkJobRepository';
+export * from './routes/BulkJobRoutes';
+export * from './services/BulkJobService';
@@ -0,0 +1,146 @@
+/**
+ * @file Implementación del repositorio de operaciones masivas para MongoDB.
+ * @class BulkJobRepository
+ * @implements {IBulkJobRepository}
+ * @description Proporciona acceso a la colección de operaciones masivas sobre tareas y a los
+ * resultados por tarea que se van registrando mientras se ejecutan.
+ */
+import { Connection, Model } from 'mongoose';
+import { BulkJobEntity, BulkTaskOutcome } from '@domain/entities/BulkJobEntity';
+import { IBulkJobRepository } from '@application/repositories/IBulkJobRepository';
+import { getBulkJobModel } from '@infrastructure/schemas';
+
+export class BulkJobRepository implements IBulkJobRepository {
+  private readonly model: Model<BulkJobEntity>;
+
+  /**
+   * @constructor
+   * @description Inicializa el repositorio obteniendo el modelo de Mongoose para las operaciones masivas.
+   * @param {Connection} db - Conexión a la base de datos de MongoDB.
+   */
+  constructor(db: Connection) {
+    this.model = getBulkJobModel(db);
+  }
+
+  /**
+   * @method create
+   * @description Inserta una nueva operación masiva.
+   * @param {Partial<BulkJobEntity>} job - Datos de la operación.
+   * @returns {Promise<BulkJobEntity>} La entidad recién creada.
+   */
+  async create(job: Partial<BulkJobEntity>): Promise<BulkJobEntity> {
+    const created = await this.model.create(job);
+    return created.toObject();
+  }
+
+  /**
+   * @method findById
+   * @description Busca una operación masiva por su `_id`.
+   * @param {string} id - Identificador de la operación.
+   * @returns {Promise<BulkJobEntity | null>} La entidad si existe, o `null`.
+   */
+  async findById(id: string): Promise<BulkJobEntity | null> {
+    return await this.model.findById(id).lean();
+  }
+
+  /**
+   * @method findByIdempotencyKey
+   * @description Busca una operación masiva utilizando su clave de idempotencia.
+   * @param {string} key - La clave de idempotencia utilizada al crear la operación.
+   * @returns {Promise<BulkJobEntity | null>} La entidad si existe, o `null`.
+   */
+  async findByIdempotencyKey(key: string): Promise<BulkJobEntity | null> {
+    return await this.model.findOne({ idempotencyKey: key }).lean();
+  }
+
+  /**
+   * @method findUnfinished
+   * @description Busca las operaciones que no llegaron a terminar, por ejemplo porque el proceso
+   * se detuvo mientras se ejecutaban. Las más antiguas primero.
+   * @returns {Promise<BulkJobEntity[]>} Operaciones pendientes o en curso.
+   */
+  async findUnfinished(): Promise<BulkJobEntity[]> {
+    return await this.model
+      .find({ status: { $in: ['pending', 'running'] } })
+      .sort({ createdAt: 1 })
+      .lean();
+  }
+
+  /**
+   * @method claim
+   * @description Reclama una operación para ejecutarla. Solo se puede reclamar si está pendiente o
+   * si su reclamación ha vencido, es decir, si la instancia que la ejecutaba dejó de renovarla. La
+   * comprobación y la escritura son una única operación, por lo que solo una instancia la obtiene.
+   * @param {string} id - El ID de la operación.
+   * @param {string} owner - Instancia que la reclama.
+   * @param {Date} leaseUntil - Fecha hasta la que la reclamación es válida.
+   * @returns {Promise<BulkJobEntity | null>} La operación reclamada, o `null` si otra instancia la
+   * tiene reclamada o ya ha terminado.
+   */
+  async claim(id: string, owner: string, leaseUntil: Date): Promise<BulkJobEntity | null> {
+    const now = new Date();
+    return await this.model
+      .findOneAndUpdate(
+        {
+          _id: id,
+          $or: [{ status: 'pending' }, { status: 'running', leaseUntil: { $not: { $gt: now } } }],
+        },
+        [
+          {
+            $set: {
+              status: 'running',
+              owner,
+              leaseUntil,
+              startedAt: { $ifNull: ['$startedAt', now] },
+              updatedAt: now,
+            },
+          },
+        ],
+        { new: true }
+      )
+      .lean();
+  }
+
+  /**
+   * @method appendOutcomes
+   * @description Añade los resultados de un grupo de tareas ya procesadas y renueva la
+   * reclamación, solo si la operación sigue reclamada por la instancia indicada.
+   * @param {string} id - El ID de la operación.
+   * @param {string} owner - Instancia que ejecuta la operación.
+   * @param {BulkTaskOutcome[]} outcomes - Resultados a añadir.
+   * @param {Date} leaseUntil - Nueva fecha hasta la que la reclamación es válida.
+   * @returns {Promise<boolean>} `true` si se han añadido, `false` si otra instancia la ha reclamado.
+   */
+  async appendOutcomes(
+    id: string,
+    owner: string,
+    outcomes: BulkTaskOutcome[],
+    leaseUntil: Date
+  ): Promise<boolean> {
+    const updated = await this.model.findOneAndUpdate(
+      { _id: id, owner },
+      {
+        $push: { outcomes: { $each: outcomes } },
+        $set: { leaseUntil, updatedAt: new Date() },
+      }
+    );
+    return updated !== null;
+  }
+
+  /**
+   * @method release
+   * @description Guarda el estado final de una operación y libera su reclamación, solo si sigue
+   * reclamada por la instancia indicada.
+   * @param {string} id - El ID de la operación.
+   * @param {string} owner - Instancia que ejecuta la operación.
+   * @param {Partial<BulkJobEntity>} data - Campos a actualizar.
+   * @returns {Promise<boolean>} `true` si se ha guardado, `false` si otra instancia la ha reclamado.
+   */
+  async release(id: string, owner: string, data: Partial<BulkJobEntity>): Promise<boolean> {
+    const updated = await this.model.findOneAndUpdate(
+      { _id: id, owner },
+      { $set: { ...data, updatedAt: new Date() }, $unset: { leaseUntil: 1 } }
+    );
+    return updated !== null;
+  }
+}
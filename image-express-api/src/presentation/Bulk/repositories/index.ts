@@ -0,0 +1 @@
+export { BulkJobRepository } from './BulkJobRepository';
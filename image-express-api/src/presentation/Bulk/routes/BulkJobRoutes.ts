@@ -0,0 +1,92 @@
+/**
+ * Configuración de rutas para el módulo de operaciones masivas
+ * @class BulkJobRoutes
+ */
+import { Router } from 'express';
+import { BulkJobController } from '../controllers';
+import { BulkJobRepository } from '../repositories';
+import { BulkJobService } from '../services';
+import { TaskRepository } from '@presentation/Task/repositories';
+import { TaskService } from '@presentation/Task/services/TaskService';
+import { WatermarkRepository } from '@presentation/Watermark/repositories';
+import { TaskQueueProducer } from '@infrastructure/queues';
+import { DatabaseConnector } from '@infrastructure/databases';
+import { ImageDownloadService } from '@application/services';
+import { CacheService } from '@application/services/CacheService';
+import { RedisCache } from '@infrastructure/cache';
+import {
+  validationMiddleware,
+  paramsValidationMiddleware,
+  idempotencyMiddleware,
+} from '@presentation/Bootstrap/middlewares';
+import { CreateBulkJobDto, GetBulkJobParamsDto } from '@domain/dtos';
+
+export class BulkJobRoutes {
+  /**
+   * @static
+   * @getter
+   * @description Construye el router de operaciones masivas con sus dependencias.
+   * @returns {Router} Router con las rutas de operaciones masivas configuradas.
+   */
+  static get routes(): Router {
+    const router = Router();
+    const controller = this.createBulkJobController();
+
+    /**
+     * @route POST /tasks/bulk
+     * @description Reintenta, cancela o elimina en segundo plano las tareas indicadas por ID o por filtro.
+     * @middleware idempotencyMiddleware - Evita crear la operación dos veces si se reintenta la petición.
+     * @middleware validationMiddleware - Valida el cuerpo contra `CreateBulkJobDto`.
+     */
+    router.post(
+      '/tasks/bulk',
+      [idempotencyMiddleware, validationMiddleware(CreateBulkJobDto)],
+      controller.create.bind(controller)
+    );
+
+    /**
+     * @route GET /tasks/bulk/:bulkJobId
+     * @description Consulta el progreso y el resultado por tarea de una operación masiva.
+     * @middleware paramsValidationMiddleware - Valida que el `bulkJobId` sea un ObjectId.
+     */
+    router.get(
+      '/tasks/bulk/:bulkJobId',
+      [paramsValidationMiddleware(GetBulkJobParamsDto)],
+      controller.getById.bind(controller)
+    );
+
+    return router;
+  }
+
+  /**
+   * @static
+   * @method createBulkJobService
+   * @description Crea el `BulkJobService` con sus dependencias. Lo usan las rutas y el arranque,
+   * que reanuda las operaciones sin terminar.
+   * @returns {BulkJobService} Servicio configurado.
+   */
+  static createBulkJobService(): BulkJobService {
+    const db = DatabaseConnector.getImageDb();
+    const taskRepository = new TaskRepository(db);
+    const taskService = new TaskService(
+      taskRepository,
+      new TaskQueueProducer(),
+      new ImageDownloadService(),
+      new WatermarkRepository(db),
+      new CacheService(new RedisCache())
+    );
+
+    return new BulkJobService(new BulkJobRepository(db), taskRepository, taskService);
+  }
+
+  /**
+   * @private
+   * @static
+   * @method createBulkJobController
+   * @description Crea el `BulkJobController` con sus dependencias.
+   * @returns {BulkJobController} Controlador configurado.
+   */
+  private static createBulkJobController(): BulkJobController {
+    return new BulkJobController(this.createBulkJobService());
+  }
+}
@@ -0,0 +1 @@
+export { BulkJobRoutes } from './BulkJobRoutes';
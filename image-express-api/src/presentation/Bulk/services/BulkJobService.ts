@@ -0,0 +1,392 @@
+import os from 'os';
+import { BulkJobRepository } from '../repositories';
+import { TaskRepository } from '@presentation/Task/repositories';
+import { TaskService } from '@presentation/Task/services/TaskService';
+import { BusinessError, NotFoundError } from '@core/errors';
+import { ConcurrencyLimiter } from '@core/helpers/concurrency';
+import { logger } from '@core/helpers/logger';
+import {
+  BulkAction,
+  BulkJobEntity,
+  BulkOutcomeStatus,
+  BulkTaskOutcome,
+  TaskFilter,
+  normalizeTaskFilter,
+} from '@domain/entities';
+import { BulkJobResponseDto, CreateBulkJobDto, TaskFilterDto, BULK_MAX_TASKS } from '@domain/dtos';
+
+/**
+ * @class BulkJobService
+ * @description Aplica una acción (reintentar, cancelar o eliminar) a muchas tareas a la vez.
+ * Las tareas se fijan al crear la operación, por ID o con un filtro, y se procesan en segundo
+ * plano delegando en `TaskService`, de modo que cada una pasa por las mismas validaciones de estado
+ * que la acción individual. Las que no admiten la acción se omiten y el resultado de cada tarea se
+ * registra a medida que se procesa; si el proceso se detiene, la operación se reanuda al arrancar
+ * sin repetir las tareas ya procesadas.
+ *
+ * Cada operación la ejecuta una sola instancia de la API: la reclama antes de empezar y renueva la
+ * reclamación con cada grupo de resultados. Otra instancia solo puede reanudarla cuando la
+ * reclamación vence sin renovarse.
+ */
+export class BulkJobService {
+  private static readonly CHUNK_SIZE = 50;
+  private static readonly CONCURRENCY = 4;
+  private static readonly LEASE_MS = 5 * 60 * 1000;
+  private static readonly OWNER = `api:${os.hostname()}:${process.pid}`;
+  private static readonly SKIPPED_CODES = [
+    'INVALID_RETRY_STATE',
+    'INVALID_CANCEL_STATE',
+    'TASK_IN_PROGRESS',
+    'ORIGINAL_EXPIRED',
+  ];
+
+  /**
+   * @constructor
+   * @param {BulkJobRepository} repository - Repositorio de operaciones masivas
+   * @param {TaskRepository} taskRepository - Repositorio de tareas, para resolver los filtros
+   * @param {TaskService} taskService - Servicio que aplica la acción a cada tarea
+   */
+  constructor(
+    private readonly repository: BulkJobRepository,
+    private readonly taskRepository: TaskRepository,
+    private readonly taskService: TaskService
+  ) {}
+
+  /**
+   * @method createJob
+   * @description Crea una operación masiva y la ejecuta en segundo plano. Si ya existe una con la
+   * misma clave de idempotencia se devuelve esa.
+   * @param {object} request - Datos de la petición
+   * @param {CreateBulkJobDto} request.body - Acción y tareas sobre las que aplicarla
+   * @param {string} [request.idempotencyKey] - Clave de idempotencia de la operación
+   * @returns {Promise<BulkJobResponseDto>} Estado inicial de la operación
+   * @throws {BusinessError} Si no se indican las tareas, el filtro está vacío o selecciona demasiadas
+   */
+  async createJob(request: {
+    body: CreateBulkJobDto;
+    idempotencyKey?: string;
+  }): Promise<BulkJobResponseDto> {
+    const { idempotencyKey } = request;
+
+    if (idempotencyKey) {
+      const existing = await this.repository.findByIdempotencyKey(idempotencyKey);
+      if (existing) {
+        logger.info('Retornando operación masiva existente por idempotencia', {
+          bulkJobId: String(existing._id),
+          idempotencyKey,
+        });
+        return this.buildSummary(existing);
+      }
+    }
+
+    const { action, taskIds, filter } = request.body;
+    const target = await this.resolveTarget(taskIds, filter);
+    const job = await this.repository.create({
+      action,
+      status: 'pending',
+      taskIds: target.taskIds,
+      ...(target.filter && { filter: target.filter }),
+      outcomes: [],
+      ...(idempotencyKey && { idempotencyKey }),
+    });
+
+    logger.info('Operación masiva creada', {
+      bulkJobId: String(job._id),
+      action,
+      total: target.taskIds.length,
+    });
+
+    void this.runJob(job);
+    return this.buildSummary(job);
+  }
+
+  /**
+   * @method getJobById
+   * @description Obtiene el progreso y los resultados de una operación masiva
+   * @param {string} bulkJobId - Identificador de la operación
+   * @returns {Promise<BulkJobResponseDto>} Estado de la operación
+   * @throws {NotFoundError} Si la operación no existe
+   */
+  async getJobById(bulkJobId: string): Promise<BulkJobResponseDto> {
+    const job = await this.repository.findById(bulkJobId);
+
+    if (!job) {
+      throw new NotFoundError(`La operación masiva con ID ${bulkJobId} no existe`);
+    }
+
+    return this.buildSummary(job);
+  }
+
+  /**
+   * @method resumeUnfinished
+   * @description Reanuda en segundo plano las operaciones que quedaron pendientes o en curso al
+   * detenerse el proceso. Las que otra instancia tiene reclamadas solo se ejecutan si su
+   * reclamación vence.
+   * @returns {Promise<number>} Número de operaciones sin terminar
+   */
+  async resumeUnfinished(): Promise<number> {
+    const jobs = await this.repository.findUnfinished();
+
+    for (const job of jobs) {
+      void this.runJob(job);
+    }
+
+    if (jobs.length > 0) {
+      logger.info('Operaciones masivas reanudadas', { count: jobs.length });
+    }
+
+    return jobs.length;
+  }
+
+  /**
+   * @method runJob
+   * @description Reclama la operación y procesa las tareas que aún no tienen resultado, por grupos,
+   * registrando los resultados de cada grupo al terminarlo. Si otra instancia la tiene reclamada no
+   * hace nada. Nunca lanza: un error inesperado marca la operación como fallida.
+   * @param {BulkJobEntity} job - Operación a ejecutar
+   * @returns {Promise<void>}
+   */
+  async runJob(job: BulkJobEntity): Promise<void> {
+    const bulkJobId = String(job._id);
+    const claimed = await this.claim(bulkJobId);
+    if (!claimed) {
+      return;
+    }
+
+    try {
+      const processed = new Set((claimed.outcomes ?? []).map(outcome => outcome.taskId));
+      const pending = claimed.taskIds.filter(taskId => !processed.has(taskId));
+      const limiter = new ConcurrencyLimiter(BulkJobService.CONCURRENCY, BulkJobService.CHUNK_SIZE);
+
+      for (let start = 0; start < pending.length; start += BulkJobService.CHUNK_SIZE) {
+        const chunk = pending.slice(start, start + BulkJobService.CHUNK_SIZE);
+        const outcomes = await Promise.all(
+          chunk.map(taskId => limiter.run(() => this.applyAction(claimed.action, taskId)))
+        );
+        const appended = await this.repository.appendOutcomes(
+          bulkJobId,
+          BulkJobService.OWNER,
+          outcomes,
+          this.getLeaseUntil()
+        );
+        if (!appended) {
+          logger.warn('Operación masiva reclamada por otra instancia', { bulkJobId });
+          return;
+        }
+      }
+
+      await this.repository.release(bulkJobId, BulkJobService.OWNER, {
+        status: 'completed',
+        completedAt: new Date(),
+      });
+      logger.info('Operación masiva completada', {
+        bulkJobId,
+        action: claimed.action,
+        total: claimed.taskIds.length,
+      });
+    } catch (error) {
+      await this.markFailed(bulkJobId, error);
+    }
+  }
+
+  /**
+   * @private
+   * @method claim
+   * @description Reclama la operación para esta instancia. Si otra instancia la está ejecutando, se
+   * vuelve a intentar cuando venza su reclamación, por si se detiene sin terminarla.
+   * @param {string} bulkJobId - Identificador de la operación
+   * @returns {Promise<BulkJobEntity | null>} La operación reclamada, con sus resultados actuales, o
+   * `null` si no se ha podido reclamar
+   */
+  private async claim(bulkJobId: string): Promise<BulkJobEntity | null> {
+    try {
+      const claimed = await this.repository.claim(
+        bulkJobId,
+        BulkJobService.OWNER,
+        this.getLeaseUntil()
+      );
+      if (claimed) {
+        return claimed;
+      }
+
+      const job = await this.repository.findById(bulkJobId);
+      if (job?.status === 'running' && job.leaseUntil) {
+        const delay = Math.max(new Date(job.leaseUntil).getTime() - Date.now(), 0);
+        setTimeout(() => void this.runJob(job), delay + 1000).unref();
+      }
+    } catch (error) {
+      logger.error('No se pudo reclamar la operación masiva', {
+        bulkJobId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return null;
+  }
+
+  /**
+   * @private
+   * @method getLeaseUntil
+   * @description Calcula el vencimiento de una reclamación hecha ahora
+   * @returns {Date} Fecha hasta la que la reclamación es válida
+   */
+  private getLeaseUntil(): Date {
+    return new Date(Date.now() + BulkJobService.LEASE_MS);
+  }
+
+  /**
+   * @private
+   * @method resolveTarget
+   * @description Fija las tareas de la operación: los IDs indicados, sin duplicados, o las que
+   * cumplen el filtro en este momento.
+   * @param {string[] | undefined} taskIds - IDs indicados
+   * @param {TaskFilterDto | undefined} filter - Filtro indicado
+   * @returns {Promise<{ taskIds: string[]; filter?: TaskFilter }>} Tareas y filtro normalizado
+   * @throws {BusinessError} Si no se indica exactamente una de las dos opciones, el filtro está
+   * vacío o selecciona más tareas de las permitidas
+   */
+  private async resolveTarget(
+    taskIds: string[] | undefined,
+    filter: TaskFilterDto | undefined
+  ): Promise<{ taskIds: string[]; filter?: TaskFilter }> {
+    if (taskIds?.length && filter) {
+      throw new BusinessError('Indica taskIds o filter, no ambos', 'INVALID_BULK_TARGET', 400);
+    }
+
+    if (taskIds?.length) {
+      return { taskIds: [...new Set(taskIds)] };
+    }
+
+    if (!filter) {
+      throw new BusinessError('Se requiere taskIds o filter', 'INVALID_BULK_TARGET', 400);
+    }
+
+    const criteria = normalizeTaskFilter({ ...filter });
+    if (Object.keys(criteria).length === 0) {
+      throw new BusinessError(
+        'El filtro debe incluir al menos un criterio',
+        'EMPTY_BULK_FILTER',
+        400
+      );
+    }
+
+    const ids = await this.taskRepository.findIds(criteria, BULK_MAX_TASKS + 1);
+    if (ids.length > BULK_MAX_TASKS) {
+      throw new BusinessError(
+        `Una operación masiva admite como máximo ${BULK_MAX_TASKS} tareas; acota el filtro`,
+        'BULK_TOO_LARGE',
+        400,
+        { max: BULK_MAX_TASKS }
+      );
+    }
+
+    return { taskIds: ids, filter: criteria };
+  }
+
+  /**
+   * @private
+   * @method applyAction
+   * @description Aplica la acción a una tarea. Los errores no se propagan: si el estado de la tarea
+   * no admite la acción o ya no existe se omite, y cualquier otro error se registra como fallo.
+   * @param {BulkAction} action - Acción a aplicar
+   * @param {string} taskId - ID de la tarea
+   * @returns {Promise<BulkTaskOutcome>} Resultado para la tarea
+   */
+  private async applyAction(action: BulkAction, taskId: string): Promise<BulkTaskOutcome> {
+    try {
+      await this.perform(action, taskId);
+      return { taskId, status: 'succeeded' };
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return { taskId, status: 'skipped', code: 'TASK_NOT_FOUND', error: error.message };
+      }
+
+      const code = error instanceof BusinessError ? error.code : undefined;
+      return {
+        taskId,
+        status: code && BulkJobService.SKIPPED_CODES.includes(code) ? 'skipped' : 'failed',
+        ...(code && { code }),
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * @private
+   * @method perform
+   * @description Ejecuta la acción individual equivalente sobre una tarea
+   * @param {BulkAction} action - Acción a aplicar
+   * @param {string} taskId - ID de la tarea
+   * @returns {Promise<unknown>} Resultado de la acción individual
+   */
+  private perform(action: BulkAction, taskId: string): Promise<unknown> {
+    switch (action) {
+      case 'retry':
+        return this.taskService.retryTask(taskId);
+      case 'cancel':
+        return this.taskService.cancelTask(taskId);
+      case 'delete':
+        return this.taskService.deleteTask(taskId);
+    }
+  }
+
+  /**
+   * @private
+   * @method markFailed
+   * @description Marca la operación como fallida si sigue reclamada por esta instancia. Si tampoco
+   * puede guardarse, se reintentará al reanudar las operaciones sin terminar.
+   * @param {string} bulkJobId - Identificador de la operación
+   * @param {unknown} error - Error que interrumpió la operación
+   * @returns {Promise<void>}
+   */
+  private async markFailed(bulkJobId: string, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Error ejecutando operación masiva', { bulkJobId, error: message });
+
+    try {
+      await this.repository.release(bulkJobId, BulkJobService.OWNER, {
+        status: 'failed',
+        error: message,
+        completedAt: new Date(),
+      });
+    } catch (updateError) {
+      logger.error('No se pudo marcar la operación masiva como fallida', {
+        bulkJobId,
+        error: updateError instanceof Error ? updateError.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * @private
+   * @method buildSummary
+   * @description Calcula el progreso de la operación a partir de los resultados registrados. Una
+   * operación sin tareas se considera terminada.
+   * @param {BulkJobEntity} job - Entidad de la operación
+   * @returns {BulkJobResponseDto} Estado de la operación
+   */
+  private buildSummary(job: BulkJobEntity): BulkJobResponseDto {
+    const outcomes = job.outcomes ?? [];
+    const counts: Record<BulkOutcomeStatus, number> = { succeeded: 0, skipped: 0, failed: 0 };
+    for (const outcome of outcomes) {
+      counts[outcome.status]++;
+    }
+
+    const total = job.taskIds.length;
+    return {
+      bulkJobId: String(job._id),
+      action: job.action,
+      status: job.status,
+      total,
+      processed: outcomes.length,
+      progress: total === 0 ? 100 : Math.round((outcomes.length / total) * 100),
+      counts,
+      outcomes,
+      ...(job.filter && { filter: job.filter }),
+      ...(job.error && { error: job.error }),
+      ...(job.createdAt && { createdAt: job.createdAt }),
+      ...(job.startedAt && { startedAt: job.startedAt }),
+      ...(job.completedAt && { completedAt: job.completedAt }),
+    };
+  }
+}
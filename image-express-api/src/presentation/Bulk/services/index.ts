@@ -0,0 +1 @@
+export { BulkJobService } from './BulkJobService';
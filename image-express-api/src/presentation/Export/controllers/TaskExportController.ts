@@ -0,0 +1,114 @@
+import { Request, Response, NextFunction } from 'express';
+import { createReadStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import { TaskExportService } from '../services';
+import { logger } from '@core/helpers/logger';
+import { CreateTaskExportDto, ExportTasksQueryDto, GetTaskExportParamsDto } from '@domain/dtos';
+
+/**
+ * @class TaskExportController
+ * @description Controlador para la exportación de tareas, tanto en streaming como mediante
+ * exportaciones en segundo plano con un archivo descargable.
+ */
+export class TaskExportController {
+  /**
+   * @constructor
+   * @param {TaskExportService} taskExportService - Servicio de exportación de tareas
+   */
+  constructor(private readonly taskExportService: TaskExportService) {}
+
+  /**
+   * @method stream
+   * @async
+   * @description Envía las tareas que cumplen el filtro a medida que se leen de la base de datos.
+   * Si el cursor falla cuando ya se han enviado datos, la conexión se corta para que el cliente no
+   * tome un archivo incompleto por bueno.
+   * @param {Request} req - Petición con el formato y los filtros en la query
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {NextFunction} next - Función para pasar al siguiente middleware
+   * @returns {Promise<void>}
+   */
+  async stream(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const { format = TaskExportService.DEFAULT_FORMAT, ...filter } = (req.validatedQuery ??
+      req.query) as ExportTasksQueryDto;
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+
+    try {
+      res.attachment(`tasks-${timestamp}.${format}`);
+      res.type(this.taskExportService.getContentType(format));
+      await pipeline(this.taskExportService.streamTasks(filter, format), res);
+    } catch (error) {
+      if (!res.headersSent) {
+        res.removeHeader('Content-Disposition');
+        next(error);
+        return;
+      }
+
+      logger.error('Error enviando exportación de tareas', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      res.destroy();
+    }
+  }
+
+  /**
+   * @method create
+   * @async
+   * @description Crea una exportación en segundo plano. Responde con 202; el estado se consulta en
+   * `GET /tasks/exports/:exportId`
+   * @param {Request} req - Petición con el formato y el filtro
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {NextFunction} next - Función para pasar al siguiente middleware
+   * @returns {Promise<void>}
+   */
+  async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await this.taskExportService.createExport(
+        (req.validatedBody ?? req.body) as CreateTaskExportDto
+      );
+      res.status(202).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method getById
+   * @async
+   * @description Obtiene el estado de una exportación y, si ya está terminada, su enlace de descarga
+   * @param {Request} req - Petición con el ID en los parámetros
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {NextFunction} next - Función para pasar al siguiente middleware
+   * @returns {Promise<void>}
+   */
+  async getById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { exportId } = req.params as unknown as GetTaskExportParamsDto;
+      res.json(await this.taskExportService.getExportById(exportId));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method download
+   * @async
+   * @description Descarga el archivo de una exportación terminada
+   * @param {Request} req - Petición con el ID en los parámetros
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {NextFunction} next - Función para pasar al siguiente middleware
+   * @returns {Promise<void>}
+   */
+  async download(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { exportId } = req.params as unknown as GetTaskExportParamsDto;
+      const file = await this.taskExportService.getExportFile(exportId);
+
+      res.attachment(file.fileName);
+      res.set({ 'Content-Type': file.contentType, 'Content-Length': String(file.size) });
+      await pipeline(createReadStream(file.path), res);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1 @@
+export { TaskExportController } from './TaskExportController';
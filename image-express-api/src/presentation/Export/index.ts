@@ -0,0 +1,4 @@
+export * from './controllers/TaskExportController';
+export * from './repositories/TaskExportRepository';
+export * from './routes/TaskExportRoutes';
+export * from './services/TaskExportService';
@@ -0,0 +1,143 @@
+/**
+ * @file Implementación del repositorio de exportaciones de tareas para MongoDB.
+ * @class TaskExportRepository
+ * @implements {ITaskExportRepository}
+ * @description Proporciona acceso a la colección de exportaciones de tareas en segundo plano.
+ */
+import { Connection, Model } from 'mongoose';
+import { TaskExportEntity } from '@domain/entities/TaskExportEntity';
+import { ITaskExportRepository } from '@application/repositories/ITaskExportRepository';
+import { getTaskExportModel } from '@infrastructure/schemas';
+
+export class TaskExportRepository implements ITaskExportRepository {
+  private readonly model: Model<TaskExportEntity>;
+
+  /**
+   * @constructor
+   * @description Inicializa el repositorio obteniendo el modelo de Mongoose para las exportaciones.
+   * @param {Connection} db - Conexión a la base de datos de MongoDB.
+   */
+  constructor(db: Connection) {
+    this.model = getTaskExportModel(db);
+  }
+
+  /**
+   * @method create
+   * @description Inserta una nueva exportación.
+   * @param {Partial<TaskExportEntity>} taskExport - Datos de la exportación.
+   * @returns {Promise<TaskExportEntity>} La entidad recién creada.
+   */
+  async create(taskExport: Partial<TaskExportEntity>): Promise<TaskExportEntity> {
+    const created = await this.model.create(taskExport);
+    return created.toObject();
+  }
+
+  /**
+   * @method findById
+   * @description Busca una exportación por su `_id`.
+   * @param {string} id - Identificador de la exportación.
+   * @returns {Promise<TaskExportEntity | null>} La entidad si existe, o `null`.
+   */
+  async findById(id: string): Promise<TaskExportEntity | null> {
+    return await this.model.findById(id).lean();
+  }
+
+  /**
+   * @method findUnfinished
+   * @description Busca las exportaciones que no llegaron a terminar, por ejemplo porque el proceso
+   * se detuvo mientras se generaba el archivo. Las más antiguas primero.
+   * @returns {Promise<TaskExportEntity[]>} Exportaciones pendientes o en curso.
+   */
+  async findUnfinished(): Promise<TaskExportEntity[]> {
+    return await this.model
+      .find({ status: { $in: ['pending', 'running'] } })
+      .sort({ createdAt: 1 })
+      .lean();
+  }
+
+  /**
+   * @method claim
+   * @description Reclama una exportación para generar su archivo. Solo se puede reclamar si está
+   * pendiente o si su reclamación ha vencido, es decir, si la instancia que la generaba dejó de
+   * renovarla. La comprobación y la escritura son una única operación, por lo que solo una
+   * instancia la obtiene.
+   * @param {string} id - El ID de la exportación.
+   * @param {string} owner - Instancia que la reclama.
+   * @param {Date} leaseUntil - Fecha hasta la que la reclamación es válida.
+   * @returns {Promise<TaskExportEntity | null>} La exportación reclamada, o `null` si otra
+   * instancia la tiene reclamada o ya ha terminado.
+   */
+  async claim(id: string, owner: string, leaseUntil: Date): Promise<TaskExportEntity | null> {
+    const now = new Date();
+    return await this.model
+      .findOneAndUpdate(
+        {
+          _id: id,
+          $or: [{ status: 'pending' }, { status: 'running', leaseUntil: { $not: { $gt: now } } }],
+        },
+        { $set: { status: 'running', owner, leaseUntil, startedAt: now, updatedAt: now } },
+        { new: true }
+      )
+      .lean();
+  }
+
+  /**
+   * @method renewLease
+   * @description Prolonga la reclamación de una exportación, solo si sigue reclamada por la
+   * instancia indicada.
+   * @param {string} id - El ID de la exportación.
+   * @param {string} owner - Instancia que genera la exportación.
+   * @param {Date} leaseUntil - Nueva fecha hasta la que la reclamación es válida.
+   * @returns {Promise<boolean>} `true` si se ha renovado, `false` si otra instancia la ha reclamado.
+   */
+  async renewLease(id: string, owner: string, leaseUntil: Date): Promise<boolean> {
+    const updated = await this.model.findOneAndUpdate(
+      { _id: id, owner, status: 'running' },
+      { $set: { leaseUntil, updatedAt: new Date() } }
+    );
+    return updated !== null;
+  }
+
+  /**
+   * @method release
+   * @description Guarda el estado final de una exportación y libera su reclamación, solo si sigue
+   * reclamada por la instancia indicada.
+   * @param {string} id - El ID de la exportación.
+   * @param {string} owner - Instancia que genera la exportación.
+   * @param {Partial<TaskExportEntity>} data - Campos a actualizar.
+   * @returns {Promise<boolean>} `true` si se ha guardado, `false` si otra instancia la ha reclamado.
+   */
+  async release(id: string, owner: string, data: Partial<TaskExportEntity>): Promise<boolean> {
+    const updated = await this.model.findOneAndUpdate(
+      { _id: id, owner },
+      { $set: { ...data, updatedAt: new Date() }, $unset: { leaseUntil: 1 } }
+    );
+    return updated !== null;
+  }
+
+  /**
+   * @method findExpired
+   * @description Busca las exportaciones terminadas cuyo periodo de conservación ha vencido, las
+   * más antiguas primero.
+   * @param {Date} now - Momento de referencia.
+   * @param {number} limit - Número máximo de exportaciones a devolver.
+   * @returns {Promise<TaskExportEntity[]>} Exportaciones caducadas.
+   */
+  async findExpired(now: Date, limit: number): Promise<TaskExportEntity[]> {
+    return await this.model
+      .find({ expiresAt: { $lte: now } })
+      .sort({ expiresAt: 1 })
+      .limit(limit)
+      .lean();
+  }
+
+  /**
+   * @method deleteById
+   * @description Elimina definitivamente el documento de una exportación.
+   * @param {string} id - El ID de la exportación.
+   * @returns {Promise<void>}
+   */
+  async deleteById(id: string): Promise<void> {
+    await this.model.deleteOne({ _id: id });
+  }
+}
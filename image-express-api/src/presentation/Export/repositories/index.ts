@@ -0,0 +1 @@
+export { TaskExportRepository } from './TaskExportRepository';
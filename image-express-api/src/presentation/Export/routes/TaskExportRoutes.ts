@@ -0,0 +1,99 @@
+/**
+ * Configuración de rutas para el módulo de exportación de tareas
+ * @class TaskExportRoutes
+ */
+import { Router } from 'express';
+import { TaskExportController } from '../controllers';
+import { TaskExportRepository } from '../repositories';
+import { TaskExportService } from '../services';
+import { TaskRepository } from '@presentation/Task/repositories';
+import { DatabaseConnector } from '@infrastructure/databases';
+import {
+  validationMiddleware,
+  paramsValidationMiddleware,
+  queryValidationMiddleware,
+} from '@presentation/Bootstrap/middlewares';
+import { CreateTaskExportDto, ExportTasksQueryDto, GetTaskExportParamsDto } from '@domain/dtos';
+
+export class TaskExportRoutes {
+  /**
+   * @static
+   * @getter
+   * @description Construye el router de exportación de tareas con sus dependencias. Debe
+   * registrarse antes que el de tareas para que `/tasks/export` no se tome por un `taskId`.
+   * @returns {Router} Router con las rutas de exportación configuradas.
+   */
+  static get routes(): Router {
+    const router = Router();
+    const controller = this.createTaskExportController();
+
+    /**
+     * @route GET /tasks/export
+     * @description Descarga en CSV o NDJSON las tareas que cumplen los filtros de `GET /tasks`.
+     * @middleware queryValidationMiddleware - Valida el formato y los filtros contra `ExportTasksQueryDto`.
+     */
+    router.get(
+      '/tasks/export',
+      [queryValidationMiddleware(ExportTasksQueryDto)],
+      controller.stream.bind(controller)
+    );
+
+    /**
+     * @route POST /tasks/exports
+     * @description Genera en segundo plano un archivo descargable con las tareas que cumplen el filtro.
+     * @middleware validationMiddleware - Valida el cuerpo contra `CreateTaskExportDto`.
+     */
+    router.post(
+      '/tasks/exports',
+      [validationMiddleware(CreateTaskExportDto)],
+      controller.create.bind(controller)
+    );
+
+    /**
+     * @route GET /tasks/exports/:exportId
+     * @description Consulta el estado de una exportación en segundo plano.
+     * @middleware paramsValidationMiddleware - Valida que el `exportId` sea un ObjectId.
+     */
+    router.get(
+      '/tasks/exports/:exportId',
+      [paramsValidationMiddleware(GetTaskExportParamsDto)],
+      controller.getById.bind(controller)
+    );
+
+    /**
+     * @route GET /tasks/exports/:exportId/download
+     * @description Descarga el archivo de una exportación terminada.
+     * @middleware paramsValidationMiddleware - Valida que el `exportId` sea un ObjectId.
+     */
+    router.get(
+      '/tasks/exports/:exportId/download',
+      [paramsValidationMiddleware(GetTaskExportParamsDto)],
+      controller.download.bind(controller)
+    );
+
+    return router;
+  }
+
+  /**
+   * @static
+   * @method createTaskExportService
+   * @description Crea el `TaskExportService` con sus dependencias. Lo usan las rutas y el arranque,
+   * que reanuda las exportaciones sin terminar.
+   * @returns {TaskExportService} Servicio configurado.
+   */
+  static createTaskExportService(): TaskExportService {
+    const db = DatabaseConnector.getImageDb();
+    return new TaskExportService(new TaskExportRepository(db), new TaskRepository(db));
+  }
+
+  /**
+   * @private
+   * @static
+   * @method createTaskExportController
+   * @description Crea el `TaskExportController` con sus dependencias.
+   * @returns {TaskExportController} Controlador configurado.
+   */
+  private static createTaskExportController(): TaskExportController {
+    return new TaskExportController(this.createTaskExportService());
+  }
+}
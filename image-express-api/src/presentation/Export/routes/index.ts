@@ -0,0 +1 @@
+export { TaskExportRoutes } from './TaskExportRoutes';
@@ -0,0 +1,526 @@
+import crypto from 'crypto';
+import { createWriteStream } from 'fs';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { TaskExportRepository } from '../repositories';
+import { TaskRepository } from '@presentation/Task/repositories';
+import { BusinessError, NotFoundError } from '@core/errors';
+import { ensureDirectory, getExportStoragePath } from '@core/helpers/fileDirectory';
+import { logger } from '@core/helpers/logger';
+import { envs } from '@config/envs';
+import {
+  ExportFormat,
+  TaskEntity,
+  TaskExportEntity,
+  TaskFilter,
+  TASK_EXPORT_COLUMNS,
+  normalizeTaskFilter,
+} from '@domain/entities';
+import { CreateTaskExportDto, TaskExportResponseDto } from '@domain/dtos';
+
+/**
+ * @interface TaskExportFile
+ * @description Archivo de una exportación terminada, listo para enviarse
+ */
+export interface TaskExportFile {
+  path: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+}
+
+type TaskExportRow = Record<(typeof TASK_EXPORT_COLUMNS)[number], string | number | null>;
+
+/**
+ * @class TaskExportService
+ * @description Exporta las tareas que cumplen un filtro en CSV o NDJSON. Las tareas se leen con un
+ * cursor de MongoDB y se serializan a medida que llegan, tanto al enviarlas directamente en la
+ * respuesta como al generar en segundo plano un archivo descargable para las exportaciones grandes.
+ *
+ * Cada archivo lo genera una sola instancia de la API: reclama la exportación antes de empezar y
+ * renueva la reclamación mientras escribe. Otra instancia solo puede volver a generarla cuando la
+ * reclamación vence sin renovarse.
+ *
+ * Las exportaciones terminadas se conservan `TASK_EXPORT_TTL` segundos; después la purga periódica
+ * borra el archivo y el documento, de modo que el directorio de exportaciones no crece sin límite.
+ */
+export class TaskExportService {
+  static readonly DEFAULT_FORMAT: ExportFormat = 'csv';
+
+  private static readonly LEASE_MS = 5 * 60 * 1000;
+  private static readonly PURGE_BATCH_SIZE = 100;
+  private static readonly OWNER = `api:${os.hostname()}:${process.pid}`;
+
+  private static readonly CONTENT_TYPES: Record<ExportFormat, string> = {
+    csv: 'text/csv; charset=utf-8',
+    ndjson: 'application/x-ndjson; charset=utf-8',
+  };
+
+  private static readonly TASK_FIELDS = [
+    'status',
+    'price',
+    'source',
+    'error',
+    'images',
+    'createdAt',
+    'updatedAt',
+  ];
+
+  /**
+   * @constructor
+   * @param {TaskExportRepository} repository - Repositorio de exportaciones
+   * @param {TaskRepository} taskRepository - Repositorio de tareas
+   */
+  constructor(
+    private readonly repository: TaskExportRepository,
+    private readonly taskRepository: TaskRepository
+  ) {}
+
+  /**
+   * @method streamTasks
+   * @description Devuelve un stream con las tareas que cumplen el filtro ya serializadas. El stream
+   * solo pide más tareas al cursor a medida que se consume.
+   * @param {TaskFilter} filter - Criterios de búsqueda, los mismos que en el listado
+   * @param {ExportFormat} format - Formato de salida
+   * @returns {Readable} Stream con el contenido de la exportación
+   */
+  streamTasks(filter: TaskFilter, format: ExportFormat): Readable {
+    return Readable.from(this.serialize(normalizeTaskFilter(filter), format));
+  }
+
+  /**
+   * @method getContentType
+   * @description Obtiene el tipo de contenido de un formato de exportación
+   * @param {ExportFormat} format - Formato de la exportación
+   * @returns {string} Valor de la cabecera Content-Type
+   */
+  getContentType(format: ExportFormat): string {
+    return TaskExportService.CONTENT_TYPES[format];
+  }
+
+  /**
+   * @method createExport
+   * @description Crea una exportación y genera el archivo en segundo plano
+   * @param {CreateTaskExportDto} body - Formato y filtro de la exportación
+   * @returns {Promise<TaskExportResponseDto>} Estado inicial de la exportación
+   */
+  async createExport(body: CreateTaskExportDto): Promise<TaskExportResponseDto> {
+    const filter = normalizeTaskFilter({ ...body.filter });
+    const taskExport = await this.repository.create({
+      format: body.format ?? TaskExportService.DEFAULT_FORMAT,
+      status: 'pending',
+      ...(Object.keys(filter).length > 0 && { filter }),
+    });
+
+    logger.info('Exportación de tareas creada', {
+      exportId: String(taskExport._id),
+      format: taskExport.format,
+    });
+
+    void this.runExport(taskExport);
+    return this.buildSummary(taskExport);
+  }
+
+  /**
+   * @method getExportById
+   * @description Obtiene el estado de una exportación
+   * @param {string} exportId - Identificador de la exportación
+   * @returns {Promise<TaskExportResponseDto>} Estado de la exportación
+   * @throws {NotFoundError} Si la exportación no existe
+   */
+  async getExportById(exportId: string): Promise<TaskExportResponseDto> {
+    return this.buildSummary(await this.findExport(exportId));
+  }
+
+  /**
+   * @method getExportFile
+   * @description Obtiene el archivo de una exportación terminada
+   * @param {string} exportId - Identificador de la exportación
+   * @returns {Promise<TaskExportFile>} Archivo de la exportación
+   * @throws {NotFoundError} Si la exportación no existe
+   * @throws {BusinessError} Si el archivo todavía no está generado o ya ha caducado
+   */
+  async getExportFile(exportId: string): Promise<TaskExportFile> {
+    const taskExport = await this.findExport(exportId);
+
+    if (taskExport.expiresAt && new Date(taskExport.expiresAt).getTime() <= Date.now()) {
+      throw new BusinessError('La exportación ha caducado; crea una nueva', 'EXPORT_EXPIRED', 410, {
+        expiredAt: taskExport.expiresAt,
+      });
+    }
+
+    if (taskExport.status !== 'completed' || !taskExport.fileName) {
+      throw new BusinessError(
+        `La exportación todavía no está disponible. Estado actual: ${taskExport.status}`,
+        'EXPORT_NOT_READY',
+        409
+      );
+    }
+
+    return {
+      path: path.join(getExportStoragePath(), taskExport.fileName),
+      fileName: taskExport.fileName,
+      contentType: this.getContentType(taskExport.format),
+      size: taskExport.size ?? 0,
+    };
+  }
+
+  /**
+   * @method resumeUnfinished
+   * @description Vuelve a generar en segundo plano las exportaciones que quedaron pendientes o en
+   * curso al detenerse el proceso. El archivo se genera desde el principio. Las que otra instancia
+   * tiene reclamadas solo se generan si su reclamación vence.
+   * @returns {Promise<number>} Número de exportaciones sin terminar
+   */
+  async resumeUnfinished(): Promise<number> {
+    const exports = await this.repository.findUnfinished();
+
+    for (const taskExport of exports) {
+      void this.runExport(taskExport);
+    }
+
+    if (exports.length > 0) {
+      logger.info('Exportaciones de tareas reanudadas', { count: exports.length });
+    }
+
+    return exports.length;
+  }
+
+  /**
+   * @method runExport
+   * @description Reclama la exportación y escribe su archivo con las tareas que cumplen el filtro
+   * en este momento. El archivo se escribe con un nombre temporal propio de esta ejecución y solo
+   * sustituye al definitivo al terminar. Si otra instancia la tiene reclamada no hace nada. Nunca
+   * lanza: un error marca la exportación como fallida y elimina el archivo parcial.
+   * @param {TaskExportEntity} taskExport - Exportación a generar
+   * @returns {Promise<void>}
+   */
+  async runExport(taskExport: TaskExportEntity): Promise<void> {
+    const exportId = String(taskExport._id);
+    const claimed = await this.claim(exportId);
+    if (!claimed) {
+      return;
+    }
+
+    const fileName = `tasks-${exportId}.${claimed.format}`;
+    const filePath = path.join(getExportStoragePath(), fileName);
+    const partialPath = `${filePath}.${crypto.randomBytes(6).toString('hex')}.partial`;
+    const heartbeat = setInterval(
+      () => void this.renewLease(exportId),
+      TaskExportService.LEASE_MS / 3
+    );
+    heartbeat.unref();
+
+    try {
+      await ensureDirectory(getExportStoragePath());
+
+      const counter = { rows: 0 };
+      await pipeline(
+        Readable.from(this.serialize(claimed.filter ?? {}, claimed.format, counter)),
+        createWriteStream(partialPath)
+      );
+      const { size } = await fs.stat(partialPath);
+      await fs.rename(partialPath, filePath);
+
+      const completedAt = new Date();
+      const released = await this.repository.release(exportId, TaskExportService.OWNER, {
+        status: 'completed',
+        fileName,
+        rows: counter.rows,
+        size,
+        completedAt,
+        expiresAt: this.getExpiresAt(completedAt),
+      });
+      if (!released) {
+        logger.warn('Exportación de tareas reclamada por otra instancia', { exportId });
+        return;
+      }
+      logger.info('Exportación de tareas completada', { exportId, rows: counter.rows, size });
+    } catch (error) {
+      await fs.rm(partialPath, { force: true }).catch(() => undefined);
+      await this.markFailed(exportId, error);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * @private
+   * @method claim
+   * @description Reclama la exportación para esta instancia. Si otra instancia la está generando,
+   * se vuelve a intentar cuando venza su reclamación, por si se detiene sin terminarla.
+   * @param {string} exportId - Identificador de la exportación
+   * @returns {Promise<TaskExportEntity | null>} La exportación reclamada, o `null` si no se ha
+   * podido reclamar
+   */
+  private async claim(exportId: string): Promise<TaskExportEntity | null> {
+    try {
+      const claimed = await this.repository.claim(
+        exportId,
+        TaskExportService.OWNER,
+        this.getLeaseUntil()
+      );
+      if (claimed) {
+        return claimed;
+      }
+
+      const taskExport = await this.repository.findById(exportId);
+      if (taskExport?.status === 'running' && taskExport.leaseUntil) {
+        const delay = Math.max(new Date(taskExport.leaseUntil).getTime() - Date.now(), 0);
+        setTimeout(() => void this.runExport(taskExport), delay + 1000).unref();
+      }
+    } catch (error) {
+      logger.error('No se pudo reclamar la exportación de tareas', {
+        exportId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return null;
+  }
+
+  /**
+   * @private
+   * @method renewLease
+   * @description Renueva la reclamación mientras se escribe el archivo. Un fallo solo se registra:
+   * si la reclamación llega a vencer, el estado final no se guarda.
+   * @param {string} exportId - Identificador de la exportación
+   * @returns {Promise<void>}
+   */
+  private async renewLease(exportId: string): Promise<void> {
+    try {
+      const renewed = await this.repository.renewLease(
+        exportId,
+        TaskExportService.OWNER,
+        this.getLeaseUntil()
+      );
+      if (!renewed) {
+        logger.warn('Exportación de tareas reclamada por otra instancia', { exportId });
+      }
+    } catch (error) {
+      logger.warn('No se pudo renovar la reclamación de la exportación', {
+        exportId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * @private
+   * @method getLeaseUntil
+   * @description Calcula el vencimiento de una reclamación hecha ahora
+   * @returns {Date} Fecha hasta la que la reclamación es válida
+   */
+  private getLeaseUntil(): Date {
+    return new Date(Date.now() + TaskExportService.LEASE_MS);
+  }
+
+  /**
+   * @private
+   * @method getExpiresAt
+   * @description Calcula hasta cuándo se conserva una exportación terminada
+   * @param {Date} finishedAt - Momento en que terminó
+   * @returns {Date} Fecha a partir de la que la purga la borra
+   */
+  private getExpiresAt(finishedAt: Date): Date {
+    return new Date(finishedAt.getTime() + envs.TASK_EXPORT.TTL * 1000);
+  }
+
+  /**
+   * @method purgeExpired
+   * @description Borra, por lotes, los archivos y los documentos de las exportaciones cuyo periodo
+   * de conservación ha vencido. El documento se borra después del archivo para que un fallo deje
+   * la exportación pendiente de purgar en la siguiente pasada.
+   * @param {Date} [now] - Momento de referencia
+   * @returns {Promise<number>} Número de exportaciones purgadas
+   */
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    const failed = new Set<string>();
+    let purged = 0;
+
+    for (;;) {
+      const exports = (
+        await this.repository.findExpired(now, TaskExportService.PURGE_BATCH_SIZE + failed.size)
+      ).filter(taskExport => !failed.has(String(taskExport._id)));
+
+      if (exports.length === 0) {
+        break;
+      }
+
+      for (const taskExport of exports) {
+        const exportId = String(taskExport._id);
+        try {
+          if (taskExport.fileName) {
+            await fs.rm(path.join(getExportStoragePath(), taskExport.fileName), { force: true });
+          }
+          await this.repository.deleteById(exportId);
+          purged++;
+        } catch (error) {
+          failed.add(exportId);
+          logger.error('Error purgando exportación caducada', {
+            exportId,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+    }
+
+    if (purged > 0 || failed.size > 0) {
+      logger.info('Purga de exportaciones caducadas completada', { purged, failed: failed.size });
+    }
+
+    return purged;
+  }
+
+  /**
+   * @private
+   * @method serialize
+   * @description Lee las tareas del cursor y genera las líneas de la exportación. En CSV la primera
+   * línea es la cabecera con los nombres de las columnas.
+   * @param {TaskFilter} filter - Criterios de búsqueda normalizados
+   * @param {ExportFormat} format - Formato de salida
+   * @param {{ rows: number }} [counter] - Contador de tareas exportadas
+   * @returns {AsyncGenerator<string>} Líneas de la exportación
+   */
+  private async *serialize(
+    filter: TaskFilter,
+    format: ExportFormat,
+    counter: { rows: number } = { rows: 0 }
+  ): AsyncGenerator<string> {
+    if (format === 'csv') {
+      yield `${TASK_EXPORT_COLUMNS.join(',')}\n`;
+    }
+
+    for await (const task of this.taskRepository.streamByFilter(
+      filter,
+      TaskExportService.TASK_FIELDS
+    )) {
+      const row = this.toRow(task);
+      counter.rows++;
+      yield format === 'csv'
+        ? `${TASK_EXPORT_COLUMNS.map(column => this.toCsvValue(row[column])).join(',')}\n`
+        : `${JSON.stringify(row)}\n`;
+    }
+  }
+
+  /**
+   * @private
+   * @method toRow
+   * @description Extrae de una tarea los campos de la exportación
+   * @param {TaskEntity} task - Tarea a exportar
+   * @returns {TaskExportRow} Fila de la exportación
+   */
+  private toRow(task: TaskEntity): TaskExportRow {
+    return {
+      taskId: String(task._id),
+      status: task.status,
+      price: task.price,
+      createdAt: task.createdAt ? new Date(task.createdAt).toISOString() : null,
+      updatedAt: task.updatedAt ? new Date(task.updatedAt).toISOString() : null,
+      source: task.source ?? null,
+      error: task.error ?? null,
+      variantCount: task.images?.length ?? 0,
+    };
+  }
+
+  /**
+   * @private
+   * @method toCsvValue
+   * @description Escapa un valor para CSV (RFC 4180). Los textos que empiezan por `=`, `+`, `-`,
+   * `@`, tabulador o retorno de carro se prefijan con un apóstrofo para que las hojas de cálculo no
+   * los evalúen como fórmulas.
+   * @param {string | number | null} value - Valor de la columna
+   * @returns {string} Valor escapado
+   */
+  private toCsvValue(value: string | number | null): string {
+    if (value === null) {
+      return '';
+    }
+
+    if (typeof value === 'number') {
+      return String(value);
+    }
+
+    const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  /**
+   * @private
+   * @method findExport
+   * @description Busca una exportación por su ID
+   * @param {string} exportId - Identificador de la exportación
+   * @returns {Promise<TaskExportEntity>} Exportación encontrada
+   * @throws {NotFoundError} Si la exportación no existe
+   */
+  private async findExport(exportId: string): Promise<TaskExportEntity> {
+    const taskExport = await this.repository.findById(exportId);
+
+    if (!taskExport) {
+      throw new NotFoundError(`La exportación con ID ${exportId} no existe`);
+    }
+
+    return taskExport;
+  }
+
+  /**
+   * @private
+   * @method markFailed
+   * @description Marca la exportación como fallida si sigue reclamada por esta instancia. Si
+   * tampoco puede guardarse, se volverá a generar al reanudar las exportaciones sin terminar.
+   * @param {string} exportId - Identificador de la exportación
+   * @param {unknown} error - Error que interrumpió la exportación
+   * @returns {Promise<void>}
+   */
+  private async markFailed(exportId: string, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Error generando exportación de tareas', { exportId, error: message });
+
+    try {
+      const completedAt = new Date();
+      await this.repository.release(exportId, TaskExportService.OWNER, {
+        status: 'failed',
+        error: message,
+        completedAt,
+        expiresAt: this.getExpiresAt(completedAt),
+      });
+    } catch (updateError) {
+      logger.error('No se pudo marcar la exportación como fallida', {
+        exportId,
+        error: updateError instanceof Error ? updateError.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * @private
+   * @method buildSummary
+   * @description Construye la respuesta de una exportación, con el enlace de descarga si ya está
+   * terminada
+   * @param {TaskExportEntity} taskExport - Entidad de la exportación
+   * @returns {TaskExportResponseDto} Estado de la exportación
+   */
+  private buildSummary(taskExport: TaskExportEntity): TaskExportResponseDto {
+    const exportId = String(taskExport._id);
+
+    return {
+      exportId,
+      format: taskExport.format,
+      status: taskExport.status,
+      ...(taskExport.filter && { filter: taskExport.filter }),
+      ...(taskExport.rows !== undefined && { rows: taskExport.rows }),
+      ...(taskExport.size !== undefined && { size: taskExport.size }),
+      ...(taskExport.status === 'completed' && {
+        downloadUrl: `/api/${envs.SERVER.API_VERSION}/tasks/exports/${exportId}/download`,
+      }),
+      ...(taskExport.error && { error: taskExport.error }),
+      ...(taskExport.createdAt && { createdAt: taskExport.createdAt }),
+      ...(taskExport.startedAt && { startedAt: taskExport.startedAt }),
+      ...(taskExport.completedAt && { completedAt: taskExport.completedAt }),
+      ...(taskExport.expiresAt && { expiresAt: taskExport.expiresAt }),
+    };
+  }
+}
@@ -0,0 +1 @@
+export { TaskExportService } from './TaskExportService';
@@ -0,0 +1,217 @@
+import { Request, Response, NextFunction } from 'express';
+import { createReadStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import { ImageService, ImageTransformService } from '../services';
+import type { VariantFile } from '../services/ImageService';
+import {
+  FindImagesQueryDto,
+  GetTaskParamsDto,
+  GetVariantParamsDto,
+  SignUrlsDto,
+  TransformQueryDto,
+} from '@domain/dtos';
+
+/**
+ * @class ImageController
+ * @description Controlador para la consulta de las variantes generadas por el worker, de las
+ * transformaciones bajo demanda y de las URLs firmadas con las que se descargan.
+ */
+export class ImageController {
+  /**
+   * @constructor
+   * @param {ImageService} imageService - Servicio de imágenes
+   * @param {ImageTransformService} transformService - Servicio de transformaciones bajo demanda
+   */
+  constructor(
+    private readonly imageService: ImageService,
+    private readonly transformService: ImageTransformService
+  ) {}
+
+  /**
+   * @method listByTask
+   * @async
+   * @description Lista las variantes generadas para una tarea
+   * @param {Request} req - Petición con el ID de la tarea en los parámetros
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {NextFunction} next - Función para pasar al siguiente middleware
+   * @returns {Promise<void>}
+   */
+  async listByTask(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { taskId } = req.params as unknown as GetTaskParamsDto;
+      const result = await this.imageService.getImagesByTaskId(taskId);
+      res.json({ data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method findByMd5
+   * @async
+   * @description Busca variantes por el hash MD5 de su contenido
+   * @param {Request} req - Petición con el hash en el query parameter `md5`
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {NextFunction} next - Función para pasar al siguiente middleware
+   * @returns {Promise<void>}
+   */
+  async findByMd5(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { md5 } = req.validatedQuery as unknown as FindImagesQueryDto;
+      const result = await this.imageService.findImagesByMd5(md5);
+      res.json({ data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method download
+   * @async
+   * @description Sirve el archivo de una variante. Usa el MD5 del contenido como ETag fuerte
+   * (responde 304 si coincide con `If-None-Match`) y admite un único rango de bytes (206/416).
+   * La respuesta solo se cachea mientras la URL firmada siga vigente.
+   * @param {Request} req - Petición con el ID de la tarea y el identificador de la variante
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {NextFunction} next - Función para pasar al siguiente middleware
+   * @returns {Promise<void>}
+   */
+  async download(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { taskId, variant } = req.params as unknown as GetVariantParamsDto;
+      const file = await this.imageService.getVariantFile(taskId, variant);
+      await this.sendFile(req, res, file);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method downloadOriginal
+   * @async
+   * @description Sirve el archivo original de la tarea con las mismas cabeceras que las variantes
+   * @param {Request} req - Petición con el ID de la tarea en los parámetros
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {NextFunction} next - Función para pasar al siguiente middleware
+   * @returns {Promise<void>}
+   */
+  async downloadOriginal(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { taskId } = req.params as unknown as GetTaskParamsDto;
+      const file = await this.imageService.getOriginalFile(taskId);
+      await this.sendFile(req, res, file);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method issueSignedUrls
+   * @async
+   * @description Emite URLs de descarga firmadas y con caducidad para una tarea
+   * @param {Request} req - Petición con el ID de la tarea y el body validado (`SignUrlsDto`)
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {NextFunction} next - Función para pasar al siguiente middleware
+   * @returns {Promise<void>}
+   */
+  async issueSignedUrls(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { taskId } = req.params as unknown as GetTaskParamsDto;
+      const result = await this.imageService.issueSignedUrls(
+        taskId,
+        req.validatedBody as SignUrlsDto
+      );
+      res.json({ data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method transform
+   * @async
+   * @description Sirve un derivado del original generado bajo demanda (`w`, `h`, `fit`, `fmt`, `q`)
+   * con las mismas cabeceras de caché y rango que las variantes. El ETag identifica los parámetros.
+   * @param {Request} req - Petición con el ID de la tarea y los parámetros de la transformación
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {NextFunction} next - Función para pasar al siguiente middleware
+   * @returns {Promise<void>}
+   */
+  async transform(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { taskId } = req.params as unknown as GetTaskParamsDto;
+      const query = req.validatedQuery as unknown as TransformQueryDto;
+      const file = await this.transformService.getTransformedFile(taskId, query);
+      await this.sendFile(req, res, file);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @private
+   * @method sendFile
+   * @async
+   * @description Envía un archivo: responde 304 si el ETag coincide con `If-None-Match` y atiende
+   * un único rango de bytes (206/416). La caché es privada y dura lo que le queda a la firma, ya
+   * que una caché compartida no comprueba `expires`; solo las URLs por MD5 son inmutables.
+   * @param {Request} req - Petición de Express
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {VariantFile} file - Archivo a enviar
+   * @returns {Promise<void>}
+   */
+  private async sendFile(req: Request, res: Response, file: VariantFile): Promise<void> {
+    res.set({
+      'Content-Type': file.contentType,
+      ETag: file.etag,
+      'Cache-Control': this.getCacheControl(req, file),
+      'Accept-Ranges': 'bytes',
+    });
+
+    if (req.fresh) {
+      res.status(304).end();
+      return;
+    }
+
+    const ifRange = req.get('If-Range');
+    const ranges = !ifRange || ifRange === file.etag ? req.range(file.size) : undefined;
+
+    if (ranges === -1) {
+      res.status(416).set('Content-Range', `bytes */${file.size}`).end();
+      return;
+    }
+
+    const range =
+      Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1
+        ? ranges[0]
+        : { start: 0, end: file.size - 1 };
+
+    if (range.end - range.start + 1 < file.size) {
+      res.status(206).set('Content-Range', `bytes ${range.start}-${range.end}/${file.size}`);
+    }
+    res.set('Content-Length', String(range.end - range.start + 1));
+
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+
+    await pipeline(createReadStream(file.path, range), res);
+  }
+
+  /**
+   * @private
+   * @method getCacheControl
+   * @description Construye la cabecera `Cache-Control` con la vigencia restante de la URL firmada
+   * @param {Request} req - Petición verificada por `signedUrlMiddleware`
+   * @param {VariantFile} file - Archivo a enviar
+   * @returns {string} Valor de la cabecera
+   */
+  private getCacheControl(req: Request, file: VariantFile): string {
+    const remaining = req.signedUrlExpiresAt
+      ? Math.max(0, Math.floor((req.signedUrlExpiresAt.getTime() - Date.now()) / 1000))
+      : 0;
+
+    return `private, max-age=${remaining}${file.immutable ? ', immutable' : ''}`;
+  }
+}
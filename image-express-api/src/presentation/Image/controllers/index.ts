@@ -0,0 +1 @@
+export { ImageController } from './ImageController';
@@ -0,0 +1,4 @@
+export * from './controllers/ImageController';
+export * from './repositories/ImageRepository';
+export * from './routes/ImageRoutes';
+export * from './services/ImageService';
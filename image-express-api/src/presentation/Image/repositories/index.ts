@@ -0,0 +1 @@
+export { ImageRepository } from './ImageRepository';
@@ -0,0 +1,136 @@
+/**
+ * Configuración de rutas para el módulo de imágenes
+ * @class ImageRoutes
+ */
+import { Router } from 'express';
+import { ImageController } from '../controllers';
+import { ImageRepository } from '../repositories';
+import { ImageService, ImageTransformService } from '../services';
+import { DatabaseConnector } from '@infrastructure/databases';
+import { TaskRepository } from '@presentation/Task/repositories';
+import { ConcurrencyLimiter } from '@core/helpers/concurrency';
+import { envs } from '@config/envs';
+import {
+  paramsValidationMiddleware,
+  queryValidationMiddleware,
+  validationMiddleware,
+  signedUrlMiddleware,
+} from '@presentation/Bootstrap/middlewares';
+import {
+  FindImagesQueryDto,
+  GetTaskParamsDto,
+  GetVariantParamsDto,
+  SignUrlsDto,
+  TransformQueryDto,
+} from '@domain/dtos';
+
+export class ImageRoutes {
+  /**
+   * @static
+   * @getter
+   * @description Construye el router de imágenes con sus dependencias.
+   * @returns {Router} Router con las rutas de imágenes configuradas.
+   */
+  static get routes(): Router {
+    const router = Router();
+    const controller = this.createImageController();
+
+    /**
+     * @route GET /tasks/:taskId/images
+     * @description Lista las variantes registradas para una tarea.
+     * @middleware paramsValidationMiddleware - Valida que el `taskId` sea un ObjectId.
+     */
+    router.get(
+      '/tasks/:taskId/images',
+      [paramsValidationMiddleware(GetTaskParamsDto)],
+      controller.listByTask.bind(controller)
+    );
+
+    /**
+     * @route POST /tasks/:taskId/signed-urls
+     * @description Emite URLs firmadas y con caducidad para descargar el original, las variantes y
+     * las transformaciones indicadas.
+     * @middleware paramsValidationMiddleware - Valida que el `taskId` sea un ObjectId.
+     * @middleware validationMiddleware - Valida la validez y las transformaciones contra `SignUrlsDto`.
+     */
+    router.post(
+      '/tasks/:taskId/signed-urls',
+      [paramsValidationMiddleware(GetTaskParamsDto), validationMiddleware(SignUrlsDto)],
+      controller.issueSignedUrls.bind(controller)
+    );
+
+    /**
+     * @route GET /tasks/:taskId/original
+     * @description Descarga el original de la tarea.
+     * @middleware signedUrlMiddleware - Exige una URL firmada y vigente.
+     * @middleware paramsValidationMiddleware - Valida que el `taskId` sea un ObjectId.
+     */
+    router.get(
+      '/tasks/:taskId/original',
+      [signedUrlMiddleware, paramsValidationMiddleware(GetTaskParamsDto)],
+      controller.downloadOriginal.bind(controller)
+    );
+
+    /**
+     * @route GET /tasks/:taskId/images/:variant
+     * @description Descarga una variante con ETag, peticiones de rango y caché limitada a la firma.
+     * @middleware signedUrlMiddleware - Exige una URL firmada y vigente.
+     * @middleware paramsValidationMiddleware - Valida el `taskId` y el identificador de la variante.
+     */
+    router.get(
+      '/tasks/:taskId/images/:variant',
+      [signedUrlMiddleware, paramsValidationMiddleware(GetVariantParamsDto)],
+      controller.download.bind(controller)
+    );
+
+    /**
+     * @route GET /images
+     * @description Busca variantes por el hash MD5 de su contenido.
+     * @middleware queryValidationMiddleware - Valida que `md5` sea un hash MD5.
+     */
+    router.get(
+      '/images',
+      [queryValidationMiddleware(FindImagesQueryDto)],
+      controller.findByMd5.bind(controller)
+    );
+
+    /**
+     * @route GET /images/:taskId/transform
+     * @description Genera (o sirve desde la caché en disco) un derivado del original de la tarea.
+     * @middleware signedUrlMiddleware - Exige una URL firmada y vigente que cubra los parámetros.
+     * @middleware paramsValidationMiddleware - Valida que el `taskId` sea un ObjectId.
+     * @middleware queryValidationMiddleware - Valida los límites de `w`, `h`, `fit`, `fmt` y `q`.
+     */
+    router.get(
+      '/images/:taskId/transform',
+      [
+        signedUrlMiddleware,
+        paramsValidationMiddleware(GetTaskParamsDto),
+        queryValidationMiddleware(TransformQueryDto),
+      ],
+      controller.transform.bind(controller)
+    );
+
+    return router;
+  }
+
+  /**
+   * @private
+   * @static
+   * @method createImageController
+   * @description Crea el `ImageController` con sus dependencias.
+   * @returns {ImageController} Controlador configurado.
+   */
+  private static createImageController(): ImageController {
+    const db = DatabaseConnector.getImageDb();
+    const repository = new ImageRepository(db);
+    const taskRepository = new TaskRepository(db);
+    const service = new ImageService(repository, taskRepository);
+    const transformService = new ImageTransformService(
+      taskRepository,
+      new ConcurrencyLimiter(envs.TRANSFORM.CONCURRENCY, envs.TRANSFORM.MAX_QUEUE)
+    );
+
+    return new ImageController(service, transformService);
+  }
+}
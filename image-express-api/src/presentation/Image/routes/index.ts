@@ -0,0 +1 @@
+export { ImageRoutes } from './ImageRoutes';
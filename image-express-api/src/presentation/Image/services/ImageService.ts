@@ -0,0 +1,235 @@
+import { ImageRepository } from '../repositories';
+import { TaskRepository } from '@presentation/Task/repositories';
+import { NotFoundError } from '@core/errors';
+import { ImageEntity, ProcessedImage, TaskStatus } from '@domain/entities';
+import { ImageResponseDto, SignUrlsDto, SignedUrlsResponseDto } from '@domain/dtos';
+import {
+  buildOriginalUrl,
+  buildTransformUrl,
+  buildVariantUrl,
+  getVariantContentType,
+  getVariantKey,
+  getVariantMd5,
+  toVariantLinks,
+} from '@core/helpers/variantLinks';
+import { getSignedUrlExpiry, signUrl } from '@core/helpers/urlSigning';
+import { generateMD5 } from '@core/helpers/crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * @interface VariantFile
+ * @description Archivo de una variante listo para servirse. `immutable` indica que la URL
+ * identifica el contenido (MD5), por lo que nunca sirve otro archivo
+ */
+export interface VariantFile {
+  path: string;
+  size: number;
+  etag: string;
+  contentType: string;
+  immutable?: boolean;
+}
+
+/**
+ * @class ImageService
+ * @description Consulta las variantes registradas por el worker en la colección de imágenes,
+ * con su hash MD5, tamaño en bytes, formato y dimensiones, resuelve los archivos a descargar
+ * y emite las URLs firmadas con las que se accede a ellos.
+ */
+export class ImageService {
+  /**
+   * @constructor
+   * @param {ImageRepository} repository - Repositorio de imágenes
+   * @param {TaskRepository} taskRepository - Repositorio de tareas
+   */
+  constructor(
+    private readonly repository: ImageRepository,
+    private readonly taskRepository: TaskRepository
+  ) {}
+
+  /**
+   * @method getImagesByTaskId
+   * @description Obtiene las variantes generadas para una tarea
+   * @param {string} taskId - Identificador de la tarea
+   * @returns {Promise<ImageResponseDto[]>} Variantes de la tarea (vacío si aún no se ha procesado)
+   * @throws {NotFoundError} Si la tarea no existe o está eliminada
+   */
+  async getImagesByTaskId(taskId: string): Promise<ImageResponseDto[]> {
+    const task = await this.taskRepository.findById(taskId);
+
+    if (!task || task.deletedAt) {
+      throw new NotFoundError(`La tarea con ID ${taskId} no existe`);
+    }
+
+    const images = await this.repository.findByTaskId(taskId);
+    const expiresAt = getSignedUrlExpiry();
+    return images.map(image => this.mapEntityToDto(image, expiresAt));
+  }
+
+  /**
+   * @method findImagesByMd5
+   * @description Busca las variantes cuyo contenido coincide con el hash MD5. Las variantes de
+   * tareas eliminadas se omiten, igual que en el resto de consultas de imágenes
+   * @param {string} md5 - Hash MD5 del contenido
+   * @returns {Promise<ImageResponseDto[]>} Variantes encontradas
+   */
+  async findImagesByMd5(md5: string): Promise<ImageResponseDto[]> {
+    const images = await this.repository.findByMd5(md5);
+    if (!images.length) {
+      return [];
+    }
+
+    const taskIds = [...new Set(images.map(({ taskId }) => String(taskId)))];
+    const activeTaskIds = new Set(await this.taskRepository.findActiveIds(taskIds));
+    const expiresAt = getSignedUrlExpiry();
+    return images
+      .filter(({ taskId }) => activeTaskIds.has(String(taskId)))
+      .map(image => this.mapEntityToDto(image, expiresAt));
+  }
+
+  /**
+   * @method getVariantFile
+   * @description Resuelve el archivo de una variante de una tarea completada. La variante se
+   * identifica por su resolución o por el MD5 de su contenido, con o sin extensión
+   * (ej: `1024`, `1024.webp`, `{md5}.jpg`). El ETag es el MD5 del nombre de archivo.
+   * @param {string} taskId - Identificador de la tarea
+   * @param {string} variant - Identificador de la variante
+   * @returns {Promise<VariantFile>} Archivo de la variante
+   * @throws {NotFoundError} Si la tarea, la variante o su archivo no existen, o si la tarea está
+   * eliminada
+   */
+  async getVariantFile(taskId: string, variant: string): Promise<VariantFile> {
+    const task = await this.taskRepository.findById(taskId);
+
+    if (!task || task.deletedAt) {
+      throw new NotFoundError(`La tarea con ID ${taskId} no existe`);
+    }
+
+    const images = task.status === TaskStatus.COMPLETED ? (task.images ?? []) : [];
+    const image = images.find(candidate => this.matchesVariant(candidate, variant, images));
+
+    if (!image) {
+      throw new NotFoundError(`La variante ${variant} no existe para la tarea ${taskId}`);
+    }
+
+    const stats = await fs.stat(image.path).catch(() => null);
+    if (!stats?.isFile()) {
+      throw new NotFoundError(`El archivo de la variante ${variant} ya no está disponible`);
+    }
+
+    const md5 = getVariantMd5(image.path);
+    return {
+      path: image.path,
+      size: stats.size,
+      etag: `"${md5}"`,
+      contentType: getVariantContentType(image.path),
+      immutable: variant === md5 || variant === `${md5}${path.extname(image.path)}`,
+    };
+  }
+
+  /**
+   * @method getOriginalFile
+   * @description Resuelve el archivo original subido para una tarea. El nombre del original es
+   * único por subida, por lo que el ETag es el MD5 de su ruta.
+   * @param {string} taskId - Identificador de la tarea
+   * @returns {Promise<VariantFile>} Archivo original
+   * @throws {NotFoundError} Si la tarea o su original no existen o la tarea está eliminada
+   */
+  async getOriginalFile(taskId: string): Promise<VariantFile> {
+    const task = await this.taskRepository.findById(taskId);
+
+    if (!task || task.deletedAt) {
+      throw new NotFoundError(`La tarea con ID ${taskId} no existe`);
+    }
+
+    const stats = await fs.stat(task.originalPath).catch(() => null);
+    if (!stats?.isFile()) {
+      throw new NotFoundError(`El original de la tarea ${taskId} ya no está disponible`);
+    }
+
+    return {
+      path: task.originalPath,
+      size: stats.size,
+      etag: `"${generateMD5(task.originalPath)}"`,
+      contentType: getVariantContentType(task.originalPath),
+    };
+  }
+
+  /**
+   * @method issueSignedUrls
+   * @description Emite URLs firmadas con caducidad para el original, las variantes (si la tarea
+   * está completada) y las transformaciones solicitadas
+   * @param {string} taskId - Identificador de la tarea
+   * @param {SignUrlsDto} request - Validez en segundos y transformaciones a firmar
+   * @returns {Promise<SignedUrlsResponseDto>} URLs firmadas y su fecha de caducidad
+   * @throws {NotFoundError} Si la tarea no existe o está eliminada
+   */
+  async issueSignedUrls(taskId: string, request: SignUrlsDto): Promise<SignedUrlsResponseDto> {
+    const task = await this.taskRepository.findById(taskId);
+
+    if (!task || task.deletedAt) {
+      throw new NotFoundError(`La tarea con ID ${taskId} no existe`);
+    }
+
+    const expiresAt = getSignedUrlExpiry(request.expiresIn);
+    const images = task.status === TaskStatus.COMPLETED ? (task.images ?? []) : [];
+
+    return {
+      taskId,
+      expiresAt,
+      original: signUrl(buildOriginalUrl(taskId), expiresAt),
+      images: toVariantLinks(taskId, images, expiresAt),
+      transforms: (request.transforms ?? []).map(transform => ({
+        ...transform,
+        url: signUrl(buildTransformUrl(taskId, transform), expiresAt),
+      })),
+    };
+  }
+
+  /**
+   * @private
+   * @method matchesVariant
+   * @description Comprueba si el identificador solicitado corresponde a la variante
+   * @param {ProcessedImage} image - Variante candidata
+   * @param {string} variant - Identificador solicitado
+   * @param {ProcessedImage[]} images - Todas las variantes de la tarea
+   * @returns {boolean} true si el identificador corresponde a la variante
+   */
+  private matchesVariant(
+    image: ProcessedImage,
+    variant: string,
+    images: ProcessedImage[]
+  ): boolean {
+    const md5 = getVariantMd5(image.path);
+    const ext = path.extname(image.path);
+
+    return [getVariantKey(image, images), image.resolution, md5, `${md5}${ext}`].includes(variant);
+  }
+
+  /**
+   * @private
+   * @method mapEntityToDto
+   * @description Transforma la entidad de imagen en el DTO de respuesta, exponiendo la URL de
+   * descarga firmada en lugar de la ruta en disco
+   * @param {ImageEntity} image - Entidad de imagen
+   * @param {Date} expiresAt - Caducidad de la URL de descarga
+   * @returns {ImageResponseDto} DTO de respuesta
+   */
+  private mapEntityToDto(image: ImageEntity, expiresAt: Date): ImageResponseDto {
+    const taskId = image.taskId.toString();
+
+    return {
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      imageId: image._id!.toString(),
+      taskId,
+      resolution: image.resolution,
+      url: signUrl(buildVariantUrl(taskId, `${image.md5}${path.extname(image.path)}`), expiresAt),
+      md5: image.md5,
+      ...(image.size !== undefined && { size: image.size }),
+      ...(image.format && { format: image.format }),
+      ...(image.width !== undefined && { width: image.width }),
+      ...(image.height !== undefined && { height: image.height }),
+      ...(image.createdAt && { createdAt: image.createdAt }),
+    };
+  }
+}
@@ -0,0 +1,203 @@
+import { TaskRepository } from '@presentation/Task/repositories';
+import { BusinessError, NotFoundError } from '@core/errors';
+import { ConcurrencyLimiter } from '@core/helpers/concurrency';
+import { generateMD5 } from '@core/helpers/crypto';
+import { getTransformCachePath } from '@core/helpers/fileDirectory';
+import { logger } from '@core/helpers/logger';
+import { getVariantContentType } from '@core/helpers/variantLinks';
+import { envs } from '@config/envs';
+import { VariantSpec } from '@domain/entities';
+import { TransformQueryDto } from '@domain/dtos';
+import { VariantRenderer } from '@infrastructure/image-processing/VariantRenderer';
+import { VariantFile } from './ImageService';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * @class ImageTransformService
+ * @description Genera derivados bajo demanda a partir del original de una tarea con el mismo
+ * redimensionado y codificación que usa el worker. Cada derivado se guarda en
+ * `{cache}/{taskId}/{hash}.{ext}`, donde el hash identifica el original y los parámetros, de modo
+ * que las peticiones repetidas se sirven desde disco. Limita los derivados distintos por original y
+ * las transformaciones simultáneas, y agrupa las peticiones idénticas que llegan a la vez.
+ */
+export class ImageTransformService {
+  private readonly inFlight = new Map<string, Promise<void>>();
+
+  /**
+   * @constructor
+   * @param {TaskRepository} taskRepository - Repositorio de tareas
+   * @param {ConcurrencyLimiter} limiter - Limitador de transformaciones simultáneas
+   * @param {number} [maxDerivatives] - Derivados distintos permitidos por original
+   * @param {VariantRenderer} [renderer] - Constructor del pipeline de Sharp
+   */
+  constructor(
+    private readonly taskRepository: TaskRepository,
+    private readonly limiter: ConcurrencyLimiter,
+    private readonly maxDerivatives: number = envs.TRANSFORM.MAX_DERIVATIVES,
+    private readonly renderer: VariantRenderer = new VariantRenderer()
+  ) {}
+
+  /**
+   * @method getTransformedFile
+   * @description Resuelve el derivado solicitado, generándolo si aún no está en caché.
+   * Sin `fmt` se conserva el formato del original.
+   * @param {string} taskId - Identificador de la tarea
+   * @param {TransformQueryDto} query - Parámetros de la transformación
+   * @returns {Promise<VariantFile>} Archivo del derivado
+   * @throws {NotFoundError} Si la tarea o su original no existen o la tarea está eliminada
+   * @throws {BusinessError} Si se alcanza el límite de derivados o el servicio está saturado
+   */
+  async getTransformedFile(taskId: string, query: TransformQueryDto): Promise<VariantFile> {
+    const task = await this.taskRepository.findById(taskId);
+
+    if (!task || task.deletedAt) {
+      throw new NotFoundError(`La tarea con ID ${taskId} no existe`);
+    }
+
+    const original = await fs.stat(task.originalPath).catch(() => null);
+    if (!original?.isFile()) {
+      throw new NotFoundError(`El original de la tarea ${taskId} ya no está disponible`);
+    }
+
+    const variant: VariantSpec = {
+      width: query.w,
+      ...(query.h !== undefined && { height: query.h }),
+      ...(query.fit && { fit: query.fit }),
+      ...(query.fmt && { format: query.fmt }),
+      ...(query.q !== undefined && { encoder: { quality: query.q } }),
+    };
+    const ext = variant.format
+      ? this.renderer.getExtension(variant.format)
+      : path.extname(task.originalPath).toLowerCase();
+    const hash = generateMD5(JSON.stringify({ source: task.originalPath, ...variant }));
+    const directory = path.join(getTransformCachePath(), taskId);
+    const target = path.join(directory, `${hash}${ext}`);
+
+    const cached = await this.toVariantFile(target, hash);
+    if (cached) {
+      return cached;
+    }
+
+    await this.render(task.originalPath, variant, directory, target);
+
+    const created = await this.toVariantFile(target, hash);
+    if (!created) {
+      throw new NotFoundError(`No se pudo generar la transformación de la tarea ${taskId}`);
+    }
+    return created;
+  }
+
+  /**
+   * @private
+   * @method render
+   * @description Genera el derivado respetando los límites. Si ya hay una petición idéntica en
+   * curso se espera a su resultado en lugar de repetir el trabajo. Los derivados en curso del
+   * mismo original cuentan para el límite, y la comprobación y la reserva se hacen sin esperas
+   * intermedias para que una ráfaga de parámetros distintos no lo supere.
+   * @param {string} originalPath - Ruta del original
+   * @param {VariantSpec} variant - Especificación del derivado
+   * @param {string} directory - Directorio de caché de la tarea
+   * @param {string} target - Ruta final del derivado
+   * @returns {Promise<void>}
+   * @throws {BusinessError} Si se alcanza el límite de derivados o el servicio está saturado
+   */
+  private async render(
+    originalPath: string,
+    variant: VariantSpec,
+    directory: string,
+    target: string
+  ): Promise<void> {
+    const files = await fs.readdir(directory).catch(() => [] as string[]);
+    const derivatives = new Set(files.filter(file => !file.endsWith('.tmp')));
+
+    const pending = this.inFlight.get(target);
+    if (pending) {
+      return pending;
+    }
+
+    const reserved = [...this.inFlight.keys()].filter(
+      key => path.dirname(key) === directory && !derivatives.has(path.basename(key))
+    ).length;
+    if (derivatives.size + reserved >= this.maxDerivatives) {
+      throw new BusinessError(
+        `Se ha alcanzado el límite de ${this.maxDerivatives} transformaciones para esta imagen`,
+        'TRANSFORM_LIMIT_REACHED',
+        409
+      );
+    }
+
+    if (this.limiter.isSaturated) {
+      throw new BusinessError(
+        'Demasiadas transformaciones en curso, inténtelo más tarde',
+        'TRANSFORM_BUSY',
+        503
+      );
+    }
+
+    const job = this.limiter
+      .run(() => this.writeDerivative(originalPath, variant, directory, target))
+      .finally(() => this.inFlight.delete(target));
+
+    this.inFlight.set(target, job);
+    return job;
+  }
+
+  /**
+   * @private
+   * @method writeDerivative
+   * @description Ejecuta Sharp y escribe el derivado en un archivo temporal que después se
+   * renombra, para que nunca se sirva un archivo a medio escribir
+   * @param {string} originalPath - Ruta del original
+   * @param {VariantSpec} variant - Especificación del derivado
+   * @param {string} directory - Directorio de caché de la tarea
+   * @param {string} target - Ruta final del derivado
+   * @returns {Promise<void>}
+   */
+  private async writeDerivative(
+    originalPath: string,
+    variant: VariantSpec,
+    directory: string,
+    target: string
+  ): Promise<void> {
+    const tempPath = `${target}.${process.pid}.tmp`;
+    await fs.mkdir(directory, { recursive: true });
+
+    const resized = this.renderer.resize(originalPath, variant);
+    const encoded = variant.format
+      ? this.renderer.encode(resized, variant.format, variant.encoder)
+      : resized;
+
+    try {
+      await encoded.toFile(tempPath);
+      await fs.rename(tempPath, target);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+
+    logger.info('Generated on-demand transform', { originalPath, target, ...variant });
+  }
+
+  /**
+   * @private
+   * @method toVariantFile
+   * @description Construye la descripción del derivado si existe en disco
+   * @param {string} filePath - Ruta del derivado
+   * @param {string} hash - Hash de los parámetros, usado como ETag
+   * @returns {Promise<VariantFile | null>} Archivo del derivado o null si no existe
+   */
+  private async toVariantFile(filePath: string, hash: string): Promise<VariantFile | null> {
+    const stats = await fs.stat(filePath).catch(() => null);
+    if (!stats?.isFile()) {
+      return null;
+    }
+
+    return {
+      path: filePath,
+      size: stats.size,
+      etag: `"${hash}"`,
+      contentType: getVariantContentType(filePath),
+    };
+  }
+}
@@ -0,0 +1,2 @@
+export { ImageService } from './ImageService';
+export { ImageTransformService } from './ImageTransformService';
@@ -1,6 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
 import { TaskService } from '../services/TaskService';
-import { CreateTaskRequest, GetTaskParamsDto, PaginationDto } from '@domain/dtos';
+import {
+  CreateTaskRequest,
+  GetTaskParamsDto,
+  PaginationDto,
+  ReprocessTaskDto,
+  UpdateTaskPriorityDto,
+} from '@domain/dtos';
+import { parseTaskSort } from '@domain/entities';
 import { TaskQueueProducer } from '@infrastructure/queues';
 import { RedisCache } from '@infrastructure/cache';
 import { Job } from 'bullmq';
@@ -128,6 +135,25 @@ export class TaskController {
     }
   }
 
+  /**
+   * @method quote
+   * @async
+   * @description Calcula el precio de una tarea sin crearla y devuelve un presupuesto canjeable
+   * @param {CreateTaskRequest} req - Petición con los mismos datos que la creación de una tarea
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {NextFunction} next - Función para pasar al siguiente middleware
+   * @returns {Promise<void>}
+   * @throws {BusinessError} Si la imagen o las opciones no son válidas
+   */
+  async quote(req: CreateTaskRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await this.taskService.quoteTask(req);
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * @method createWithUpload
    * @async
@@ -194,10 +220,31 @@ export class TaskController {
     }
   }
 
+  /**
+   * @method getHistory
+   * @async
+   * @description Obtiene el historial de cambios de estado de una tarea
+   * @param {Request} req - Petición HTTP con el ID de la tarea
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {NextFunction} next - Función para pasar al siguiente middleware
+   * @returns {Promise<void>}
+   * @throws {NotFoundError} Si la tarea no existe
+   */
+  async getHistory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { taskId } = req.params as unknown as GetTaskParamsDto;
+      const result = await this.taskService.getTaskHistory(taskId);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * @method list
    * @async
-   * @description Obtiene una lista paginada de tareas con filtros opcionales
+   * @description Obtiene una lista de tareas con filtros opcionales. Con el parámetro `cursor`
+   * (aunque esté vacío) pagina por cursor; si no, por número de página
    * @param {PaginationRequest & Request<unknown, unknown, unknown, PaginationDto>} req - Petición con paginación
    * @param {Response} res - Objeto de respuesta de Express
    * @param {NextFunction} next - Función para pasar al siguiente middleware
@@ -211,12 +258,39 @@ export class TaskController {
     try {
       const page = req.pagination?.page ?? TaskController.DEFAULT_PAGE;
       const limit = req.pagination?.limit ?? TaskController.DEFAULT_LIMIT;
-      const { status } = req.query;
+      const { sort, cursor, includeTotal, ...filter } = (req.validatedQuery ??
+        req.query) as PaginationDto;
+      const criteria = {
+        ...(sort && { sort: parseTaskSort(sort) }),
+        status: filter.status,
+        source: filter.source,
+        externalId: filter.externalId,
+        tags: filter.tags,
+        tagMatch: filter.tagMatch,
+        createdFrom: filter.createdFrom,
+        createdTo: filter.createdTo,
+        updatedFrom: filter.updatedFrom,
+        updatedTo: filter.updatedTo,
+        minPrice: filter.minPrice,
+        maxPrice: filter.maxPrice,
+      };
+
+      if (cursor !== undefined) {
+        res.json(
+          await this.taskService.listTasksByCursor({
+            cursor,
+            limit: Number(limit),
+            includeTotal,
+            ...criteria,
+          })
+        );
+        return;
+      }
 
       const result = await this.taskService.listTasks({
         page: Number(page),
         limit: Number(limit),
-        status,
+        ...criteria,
       });
 
       res.json({
@@ -254,6 +328,135 @@ export class TaskController {
     }
   }
 
+  /**
+   * @method cancel
+   * @async
+   * @description Cancela una tarea pendiente o en proceso
+   * @param {Request} req - Petición HTTP con el ID de la tarea
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {NextFunction} next - Función para pasar al siguiente middleware
+   * @returns {Promise<void>}
+   * @throws {NotFoundError} Si la tarea no existe
+   * @throws {BusinessError} Si la tarea ya ha terminado
+   */
+  async cancel(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { taskId } = req.params as unknown as GetTaskParamsDto;
+      const result = await this.taskService.cancelTask(taskId);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method reprocess
+   * @async
+   * @description Encola una nueva generación de procesamiento de una tarea completada
+   * @param {Request} req - Petición HTTP con el ID de la tarea y las nuevas opciones
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {NextFunction} next - Función para pasar al siguiente middleware
+   * @returns {Promise<void>}
+   * @throws {NotFoundError} Si la tarea no existe
+   * @throws {BusinessError} Si la tarea no está completada o ya se está reprocesando
+   */
+  async reprocess(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { taskId } = req.params as unknown as GetTaskParamsDto;
+      const result = await this.taskService.reprocessTask(taskId, req.body as ReprocessTaskDto);
+      res.status(202).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method delete
+   * @async
+   * @description Elimina lógicamente una tarea terminada
+   * @param {Request} req - Petición HTTP con el ID de la tarea
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {NextFunction} next - Función para pasar al siguiente middleware
+   * @returns {Promise<void>}
+   * @throws {NotFoundError} Si la tarea no existe
+   * @throws {BusinessError} Si la tarea sigue pendiente o en proceso
+   */
+  async delete(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { taskId } = req.params as unknown as GetTaskParamsDto;
+      const result = await this.taskService.deleteTask(taskId);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method restore
+   * @async
+   * @description Restaura una tarea eliminada dentro del periodo de gracia
+   * @param {Request} req - Petición HTTP con el ID de la tarea
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {NextFunction} next - Función para pasar al siguiente middleware
+   * @returns {Promise<void>}
+   * @throws {NotFoundError} Si la tarea no existe
+   * @throws {BusinessError} Si la tarea no está eliminada o el periodo de gracia ha vencido
+   */
+  async restore(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { taskId } = req.params as unknown as GetTaskParamsDto;
+      const result = await this.taskService.restoreTask(taskId);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method reprioritize
+   * @async
+   * @description Cambia la prioridad de una tarea pendiente que sigue esperando en la cola
+   * @param {Request} req - Petición HTTP con el ID de la tarea y la nueva prioridad
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {NextFunction} next - Función para pasar al siguiente middleware
+   * @returns {Promise<void>}
+   * @throws {NotFoundError} Si la tarea no existe
+   * @throws {BusinessError} Si la tarea no está pendiente o su trabajo ya no está en espera
+   * @internal
+   */
+  async reprioritize(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { taskId } = req.params as unknown as GetTaskParamsDto;
+      const { priority } = req.body as UpdateTaskPriorityDto;
+      const result = await this.taskService.reprioritizeTask(taskId, priority);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method promote
+   * @async
+   * @description Adelanta el procesamiento de una tarea programada para más adelante
+   * @param {Request} req - Petición HTTP con el ID de la tarea
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {NextFunction} next - Función para pasar al siguiente middleware
+   * @returns {Promise<void>}
+   * @throws {NotFoundError} Si la tarea no existe
+   * @throws {BusinessError} Si la tarea no está pendiente o su trabajo no está diferido
+   * @internal
+   */
+  async promote(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { taskId } = req.params as unknown as GetTaskParamsDto;
+      const result = await this.taskService.promoteTask(taskId);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * @method getQueueStats
    * @async
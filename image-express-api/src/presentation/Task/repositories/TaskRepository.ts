@@ -5,8 +5,19 @@
  * @description Proporciona una capa de abstracción para interactuar con la colección de tareas en la base de datos,
  * implementando las operaciones definidas en `ITaskRepository`.
  */
-import { Connection, Model } from 'mongoose';
-import { TaskEntity } from '@domain/entities/TaskEntity';
+import { Connection, FilterQuery, Model } from 'mongoose';
+import {
+  TaskEntity,
+  TaskFilter,
+  TaskSort,
+  TaskCursor,
+  DEFAULT_TASK_SORT,
+  TaskGeneration,
+  TaskSchedule,
+  TaskStatus,
+  TaskStatusChange,
+} from '@domain/entities/TaskEntity';
+import { PriceBreakdown } from '@domain/entities/PricingEntity';
 import { ITaskRepository } from '@application/repositories/ITaskRepository';
 import { getTaskModel } from '@infrastructure/schemas';
 
@@ -57,43 +68,155 @@ export class TaskRepository implements ITaskRepository {
   /**
    * @method updateStatus
    * @description Actualiza el estado y opcionalmente otros datos de una tarea existente.
-   * También actualiza el campo `updatedAt` a la fecha y hora actuales.
+   * También actualiza el campo `updatedAt` a la fecha y hora actuales y, si se indica, añade el
+   * cambio al historial de estados en la misma operación. Con un cambio, la actualización solo se
+   * aplica si la tarea sigue en su estado de origen, de modo que un cambio concurrente de la API o
+   * del worker no se sobrescribe.
    * @param {string} id - El ID de la tarea a actualizar.
    * @param {string} status - El nuevo estado para la tarea.
    * @param {Record<string, unknown>} [data] - Un objeto con campos adicionales para actualizar.
-   * @returns {Promise<void>}
+   * @param {TaskStatusChange} [change] - Entrada del historial que describe el cambio.
+   * @returns {Promise<boolean>} `true` si se actualizó; `false` si la tarea no existe o ya no está
+   * en el estado de origen del cambio.
    */
-  async updateStatus(id: string, status: string, data?: Record<string, unknown>): Promise<void> {
+  async updateStatus(
+    id: string,
+    status: string,
+    data?: Record<string, unknown>,
+    change?: TaskStatusChange
+  ): Promise<boolean> {
     const update = {
       status,
       ...data,
       updatedAt: new Date(),
+      ...(change && { $push: { history: change } }),
     };
 
-    await this.model.findByIdAndUpdate(id, update);
+    const updated = await this.model.findOneAndUpdate(
+      { _id: id, ...(change && { status: change.from }) },
+      update
+    );
+    return updated !== null;
   }
 
   /**
    * @method find
-   * @description Realiza una búsqueda de tareas aplicando filtros y paginación.
-   * Los resultados se ordenan por fecha de creación descendente.
-   * @param {Partial<TaskEntity>} filter - Objeto con los criterios de filtro.
+   * @description Realiza una búsqueda de tareas aplicando filtros, orden y paginación.
+   * Por defecto los resultados se ordenan por fecha de creación descendente; el `_id` desempata
+   * para que el orden sea estable entre páginas. Excluye las tareas eliminadas.
+   * @param {TaskFilter} filter - Objeto con los criterios de filtro.
    * @param {number} skip - Número de documentos a omitir (para paginación).
    * @param {number} limit - Número máximo de documentos a devolver.
+   * @param {TaskSort} [sort] - Campo y sentido de ordenación.
    * @returns {Promise<TaskEntity[]>} Un array con las tareas encontradas.
    */
-  async find(filter: Partial<TaskEntity>, skip: number, limit: number): Promise<TaskEntity[]> {
-    return await this.model.find(filter).sort({ createdAt: -1 }).skip(skip).limit(limit).lean();
+  async find(
+    filter: TaskFilter,
+    skip: number,
+    limit: number,
+    sort: TaskSort = DEFAULT_TASK_SORT
+  ): Promise<TaskEntity[]> {
+    const direction = sort.direction === 'asc' ? 1 : -1;
+
+    return await this.model
+      .find(this.buildQuery(filter))
+      .sort({ [sort.field]: direction, _id: direction })
+      .skip(skip)
+      .limit(limit)
+      .lean();
+  }
+
+  /**
+   * @method findByCursor
+   * @description Busca las tareas que siguen a una posición en orden de creación, usando `_id` para
+   * desempatar. A diferencia de `find` no usa `skip`, así que el coste no crece con la profundidad de
+   * la página y las tareas que cambian de estado mientras se pagina no desplazan los resultados.
+   * @param {TaskFilter} filter - Objeto con los criterios de filtro.
+   * @param {TaskCursor | undefined} cursor - Posición a partir de la que buscar; sin ella, desde el principio.
+   * @param {number} limit - Número máximo de documentos a devolver.
+   * @param {TaskSort['direction']} direction - Sentido del recorrido por fecha de creación.
+   * @returns {Promise<TaskEntity[]>} Las tareas encontradas, en el sentido del recorrido.
+   */
+  async findByCursor(
+    filter: TaskFilter,
+    cursor: TaskCursor | undefined,
+    limit: number,
+    direction: TaskSort['direction']
+  ): Promise<TaskEntity[]> {
+    const order = direction === 'asc' ? 1 : -1;
+    const operator = direction === 'asc' ? '$gt' : '$lt';
+
+    return await this.model
+      .find({
+        ...this.buildQuery(filter),
+        ...(cursor && {
+          $or: [
+            { createdAt: { [operator]: cursor.createdAt } },
+            { createdAt: cursor.createdAt, _id: { [operator]: cursor.id } },
+          ],
+        }),
+      })
+      .sort({ createdAt: order, _id: order })
+      .limit(limit)
+      .lean();
+  }
+
+  /**
+   * @method findIds
+   * @description Obtiene los IDs de las tareas que cumplen un filtro, las más recientes primero.
+   * @param {TaskFilter} filter - Objeto con los criterios de filtro.
+   * @param {number} limit - Número máximo de IDs a devolver.
+   * @returns {Promise<string[]>} IDs de las tareas encontradas.
+   */
+  async findIds(filter: TaskFilter, limit: number): Promise<string[]> {
+    const tasks = await this.model
+      .find(this.buildQuery(filter), { _id: 1 })
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit)
+      .lean();
+
+    return tasks.map(task => String(task._id));
+  }
+
+  /**
+   * @method findActiveIds
+   * @description Filtra una lista de IDs dejando solo las tareas que existen y no están eliminadas.
+   * @param {string[]} ids - IDs de las tareas a comprobar.
+   * @returns {Promise<string[]>} IDs de las tareas no eliminadas.
+   */
+  async findActiveIds(ids: string[]): Promise<string[]> {
+    const tasks = await this.model.find({ _id: { $in: ids }, deletedAt: null }, { _id: 1 }).lean();
+
+    return tasks.map(task => String(task._id));
+  }
+
+  /**
+   * @method streamByFilter
+   * @description Recorre con un cursor de MongoDB las tareas que cumplen un filtro, las más
+   * recientes primero. Los documentos se leen por lotes a medida que se consumen, de modo que el
+   * número de tareas no afecta a la memoria.
+   * @param {TaskFilter} filter - Objeto con los criterios de filtro.
+   * @param {string[]} fields - Campos a leer de cada tarea.
+   * @returns {AsyncIterable<TaskEntity>} Las tareas encontradas.
+   */
+  streamByFilter(filter: TaskFilter, fields: string[]): AsyncIterable<TaskEntity> {
+    return this.model
+      .find(this.buildQuery(filter))
+      .select(fields.join(' '))
+      .sort({ createdAt: -1, _id: -1 })
+      .lean<TaskEntity[]>()
+      .cursor();
   }
 
   /**
    * @method count
-   * @description Cuenta el número total de documentos que coinciden con un filtro.
-   * @param {Partial<TaskEntity>} filter - Objeto con los criterios de filtro.
+   * @description Cuenta el número total de documentos que coinciden con un filtro, sin contar
+   * las tareas eliminadas.
+   * @param {TaskFilter} filter - Objeto con los criterios de filtro.
    * @returns {Promise<number>} El número total de tareas que coinciden con el filtro.
    */
-  async count(filter: Partial<TaskEntity>): Promise<number> {
-    return await this.model.countDocuments(filter);
+  async count(filter: TaskFilter): Promise<number> {
+    return await this.model.countDocuments(this.buildQuery(filter));
   }
 
   /**
@@ -106,4 +229,178 @@ export class TaskRepository implements ITaskRepository {
   async updateOriginalPath(id: string, newPath: string): Promise<void> {
     await this.model.findByIdAndUpdate(id, { originalPath: newPath, updatedAt: new Date() });
   }
+
+  /**
+   * @method updateSchedule
+   * @description Actualiza la prioridad o el momento de procesamiento de una tarea y, si cambia
+   * con ellos, su precio.
+   * @param {string} id - El ID de la tarea a actualizar.
+   * @param {TaskSchedule} schedule - Campos de planificación a actualizar.
+   * @param {PriceBreakdown} [pricing] - Nuevo desglose del precio.
+   * @returns {Promise<void>}
+   */
+  async updateSchedule(
+    id: string,
+    schedule: TaskSchedule,
+    pricing?: PriceBreakdown
+  ): Promise<void> {
+    await this.model.findByIdAndUpdate(id, {
+      ...schedule,
+      ...(pricing && { price: pricing.total, pricing }),
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * @method summarizeByBatch
+   * @description Agrupa por estado las tareas de un lote, contando cuántas hay en cada uno y
+   * sumando sus precios.
+   * @param {string} batchId - El ID del lote.
+   * @returns {Promise<Array<{ status: TaskStatus; count: number; price: number }>>} Un elemento por
+   * cada estado presente en el lote.
+   */
+  async summarizeByBatch(
+    batchId: string
+  ): Promise<Array<{ status: TaskStatus; count: number; price: number }>> {
+    return await this.model.aggregate<{ status: TaskStatus; count: number; price: number }>([
+      { $match: { batchId } },
+      { $group: { _id: '$status', count: { $sum: 1 }, price: { $sum: '$price' } } },
+      { $project: { _id: 0, status: '$_id', count: 1, price: 1 } },
+    ]);
+  }
+
+  /**
+   * @method startGeneration
+   * @description Registra una nueva generación de procesamiento sobre una tarea completada. La
+   * condición y la escritura se aplican en una única operación, de modo que dos reprocesados
+   * simultáneos no pueden convivir.
+   * @param {string} id - El ID de la tarea.
+   * @param {TaskGeneration[]} generations - Generaciones a añadir; la última es la que se procesará.
+   * @returns {Promise<boolean>} `false` si la tarea ya no está completada o tiene un reprocesado en curso.
+   */
+  async startGeneration(id: string, generations: TaskGeneration[]): Promise<boolean> {
+    const updated = await this.model.findOneAndUpdate(
+      {
+        _id: id,
+        status: TaskStatus.COMPLETED,
+        deletedAt: null,
+        'generations.status': { $nin: ['pending', 'processing'] },
+      },
+      { $push: { generations: { $each: generations } }, updatedAt: new Date() }
+    );
+
+    return updated !== null;
+  }
+
+  /**
+   * @method softDelete
+   * @description Marca una tarea como eliminada sin borrar el documento, ocultándola de los listados.
+   * @param {string} id - El ID de la tarea.
+   * @param {Date} deletedAt - Fecha de eliminación, a partir de la que cuenta el periodo de gracia.
+   * @returns {Promise<void>}
+   */
+  async softDelete(id: string, deletedAt: Date): Promise<void> {
+    await this.model.findByIdAndUpdate(id, { deletedAt, updatedAt: new Date() });
+  }
+
+  /**
+   * @method restore
+   * @description Deshace la eliminación lógica de una tarea.
+   * @param {string} id - El ID de la tarea.
+   * @returns {Promise<void>}
+   */
+  async restore(id: string): Promise<void> {
+    await this.model.findByIdAndUpdate(id, { deletedAt: null, updatedAt: new Date() });
+  }
+
+  /**
+   * @method findDeletedBefore
+   * @description Busca las tareas eliminadas antes de una fecha, empezando por las más antiguas.
+   * @param {Date} cutoff - Fecha límite de eliminación.
+   * @param {number} limit - Número máximo de tareas a devolver.
+   * @returns {Promise<TaskEntity[]>} Las tareas cuyo periodo de gracia ha vencido.
+   */
+  async findDeletedBefore(cutoff: Date, limit: number): Promise<TaskEntity[]> {
+    return await this.model
+      .find({ deletedAt: { $ne: null, $lte: cutoff } })
+      .sort({ deletedAt: 1 })
+      .limit(limit)
+      .lean();
+  }
+
+  /**
+   * @method isVariantReferenced
+   * @description Comprueba si otra tarea conserva un archivo de variante en sus variantes actuales
+   * o en las de generaciones anteriores. Las tareas cuyas variantes ya ha caducado la retención no
+   * cuentan, porque sus archivos ya no existen.
+   * @param {string} filePath - Ruta del archivo de la variante.
+   * @param {string} excludeTaskId - ID de la tarea que se está limpiando.
+   * @returns {Promise<boolean>} true si alguna otra tarea referencia el archivo.
+   */
+  async isVariantReferenced(filePath: string, excludeTaskId: string): Promise<boolean> {
+    const match = await this.model.exists({
+      _id: { $ne: excludeTaskId },
+      'expiredAt.variants': null,
+      $or: [{ 'images.path': filePath }, { 'generations.images.path': filePath }],
+    });
+    return match !== null;
+  }
+
+  /**
+   * @method deleteById
+   * @description Elimina definitivamente el documento de una tarea.
+   * @param {string} id - El ID de la tarea.
+   * @returns {Promise<void>}
+   */
+  async deleteById(id: string): Promise<void> {
+    await this.model.findByIdAndDelete(id);
+  }
+
+  /**
+   * @private
+   * @method buildQuery
+   * @description Traduce los criterios de búsqueda a una consulta de MongoDB que excluye las tareas
+   * eliminadas.
+   * @param {TaskFilter} filter - Criterios de búsqueda.
+   * @returns {FilterQuery<TaskEntity>} Consulta de MongoDB.
+   */
+  private buildQuery(filter: TaskFilter): FilterQuery<TaskEntity> {
+    const { status, source, externalId, tags, tagMatch } = filter;
+    const createdAt = this.buildRange(filter.createdFrom, filter.createdTo);
+    const updatedAt = this.buildRange(filter.updatedFrom, filter.updatedTo);
+    const price = this.buildRange(filter.minPrice, filter.maxPrice);
+
+    return {
+      ...(status && { status: Array.isArray(status) ? { $in: status } : status }),
+      ...(source && { source: Array.isArray(source) ? { $in: source } : source }),
+      ...(externalId && { externalId }),
+      ...(tags?.length && { tags: tagMatch === 'all' ? { $all: tags } : { $in: tags } }),
+      ...(createdAt && { createdAt }),
+      ...(updatedAt && { updatedAt }),
+      ...(price && { price }),
+      deletedAt: null,
+    };
+  }
+
+  /**
+   * @private
+   * @method buildRange
+   * @description Construye una condición de rango inclusiva.
+   * @param {T} [from] - Límite inferior.
+   * @param {T} [to] - Límite superior.
+   * @returns {{ $gte?: T; $lte?: T } | undefined} Condición o undefined si no hay límites.
+   */
+  private buildRange<T extends Date | number>(
+    from?: T,
+    to?: T
+  ): { $gte?: T; $lte?: T } | undefined {
+    if (from === undefined && to === undefined) {
+      return undefined;
+    }
+
+    return {
+      ...(from !== undefined && { $gte: from }),
+      ...(to !== undefined && { $lte: to }),
+    };
+  }
 }
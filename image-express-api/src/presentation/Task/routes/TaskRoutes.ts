@@ -10,15 +10,25 @@ import { TaskQueueProducer } from '@infrastructure/queues';
 import { DatabaseConnector } from '@infrastructure/databases';
 import { uploadToDisk } from '@infrastructure/upload/MulterConfig';
 import { ImageDownloadService } from '@application/services';
+import { CacheService } from '@application/services/CacheService';
+import { RedisCache } from '@infrastructure/cache';
+import { WatermarkRepository } from '@presentation/Watermark/repositories';
 
 import {
   validationMiddleware,
   paramsValidationMiddleware,
   queryValidationMiddleware,
   idempotencyMiddleware,
+  apiClientMiddleware,
   pagination,
 } from '@presentation/Bootstrap/middlewares';
-import { CreateTaskDto, GetTaskParamsDto, PaginationDto } from '@domain/dtos';
+import {
+  CreateTaskDto,
+  GetTaskParamsDto,
+  PaginationDto,
+  ReprocessTaskDto,
+  UpdateTaskPriorityDto,
+} from '@domain/dtos';
 
 export class TaskRoutes {
   /**
@@ -40,7 +50,7 @@ export class TaskRoutes {
 
     /**
      * @route GET /tasks
-     * @description Obtiene una lista paginada de tareas. Soporta filtros por estado.
+     * @description Obtiene una lista paginada de tareas, por número de página o por cursor.
      * @middleware pagination - Procesa los parámetros de paginación (page, limit).
      * @middleware queryValidationMiddleware - Valida los parámetros de consulta contra `PaginationDto`.
      */
@@ -55,24 +65,44 @@ export class TaskRoutes {
      * @description Crea una nueva tarea de procesamiento de imagen.
      * Acepta datos tanto de un cuerpo JSON (`imageUrl`, `imagePath`) como de un formulario `multipart/form-data` con un campo 'image'.
      * @middleware idempotencyMiddleware - Asegura que la operación no se procese múltiples veces si se reintenta.
+     * @middleware apiClientMiddleware - Identifica al cliente al que se imputa el consumo.
      * @middleware uploadToDisk.single('image') - Procesa la subida de un archivo de imagen.
      * @middleware validationMiddleware - Valida el cuerpo de la solicitud contra `CreateTaskDto`.
      */
     router.post(
       '/tasks',
-      [idempotencyMiddleware, uploadToDisk.single('image'), validationMiddleware(CreateTaskDto)],
+      [
+        idempotencyMiddleware,
+        apiClientMiddleware,
+        uploadToDisk.single('image'),
+        validationMiddleware(CreateTaskDto),
+      ],
       controller.create.bind(controller)
     );
 
+    /**
+     * @route POST /tasks/quote
+     * @description Calcula el precio de una tarea sin crearla y emite un presupuesto canjeable en
+     * `POST /tasks`. Acepta el mismo cuerpo que la creación.
+     * @middleware uploadToDisk.single('image') - Procesa la subida de un archivo de imagen.
+     * @middleware validationMiddleware - Valida el cuerpo de la solicitud contra `CreateTaskDto`.
+     */
+    router.post(
+      '/tasks/quote',
+      [uploadToDisk.single('image'), validationMiddleware(CreateTaskDto)],
+      controller.quote.bind(controller)
+    );
+
     /**
      * @route POST /tasks/upload
      * @description Endpoint específico para la creación de tareas mediante la subida directa de un archivo.
      * @middleware idempotencyMiddleware - Previene la duplicación de tareas.
+     * @middleware apiClientMiddleware - Identifica al cliente al que se imputa el consumo.
      * @middleware uploadToDisk.single('image') - Maneja la subida del archivo.
      */
     router.post(
       '/tasks/upload',
-      [idempotencyMiddleware, uploadToDisk.single('image')],
+      [idempotencyMiddleware, apiClientMiddleware, uploadToDisk.single('image')],
       controller.createWithUpload.bind(controller)
     );
 
@@ -87,6 +117,17 @@ export class TaskRoutes {
       controller.getById.bind(controller)
     );
 
+    /**
+     * @route GET /tasks/:taskId/history
+     * @description Consulta el historial de cambios de estado de una tarea.
+     * @middleware paramsValidationMiddleware - Valida el `taskId`.
+     */
+    router.get(
+      '/tasks/:taskId/history',
+      [paramsValidationMiddleware(GetTaskParamsDto)],
+      controller.getHistory.bind(controller)
+    );
+
     /**
      * @route POST /tasks/:taskId/retry
      * @description Reintenta el procesamiento de una tarea que ha fallado previamente.
@@ -98,6 +139,51 @@ export class TaskRoutes {
       controller.retry.bind(controller)
     );
 
+    /**
+     * @route POST /tasks/:taskId/cancel
+     * @description Cancela una tarea pendiente o en proceso.
+     * @middleware paramsValidationMiddleware - Valida el `taskId`.
+     */
+    router.post(
+      '/tasks/:taskId/cancel',
+      [paramsValidationMiddleware(GetTaskParamsDto)],
+      controller.cancel.bind(controller)
+    );
+
+    /**
+     * @route POST /tasks/:taskId/reprocess
+     * @description Reprocesa una tarea completada con nuevas opciones de variantes.
+     * @middleware paramsValidationMiddleware - Valida el `taskId`.
+     * @middleware validationMiddleware - Valida el cuerpo de la solicitud contra `ReprocessTaskDto`.
+     */
+    router.post(
+      '/tasks/:taskId/reprocess',
+      [paramsValidationMiddleware(GetTaskParamsDto), validationMiddleware(ReprocessTaskDto)],
+      controller.reprocess.bind(controller)
+    );
+
+    /**
+     * @route DELETE /tasks/:taskId
+     * @description Elimina lógicamente una tarea terminada; se purga al vencer el periodo de gracia.
+     * @middleware paramsValidationMiddleware - Valida el `taskId`.
+     */
+    router.delete(
+      '/tasks/:taskId',
+      [paramsValidationMiddleware(GetTaskParamsDto)],
+      controller.delete.bind(controller)
+    );
+
+    /**
+     * @route POST /tasks/:taskId/restore
+     * @description Restaura una tarea eliminada dentro del periodo de gracia.
+     * @middleware paramsValidationMiddleware - Valida el `taskId`.
+     */
+    router.post(
+      '/tasks/:taskId/restore',
+      [paramsValidationMiddleware(GetTaskParamsDto)],
+      controller.restore.bind(controller)
+    );
+
     /**
      * @section Endpoints Internos y de Depuración
      * @description Rutas para la administración, monitoreo y depuración del sistema.
@@ -110,6 +196,16 @@ export class TaskRoutes {
     router.get('/queue/stats', controller.getQueueStats.bind(controller));
     router.get('/queue/jobs/:state', controller.getQueueJobsByState.bind(controller));
     router.delete('/queue/jobs/:id', controller.deleteJobById.bind(controller));
+    router.patch(
+      '/queue/tasks/:taskId/priority',
+      [paramsValidationMiddleware(GetTaskParamsDto), validationMiddleware(UpdateTaskPriorityDto)],
+      controller.reprioritize.bind(controller)
+    );
+    router.post(
+      '/queue/tasks/:taskId/promote',
+      [paramsValidationMiddleware(GetTaskParamsDto)],
+      controller.promote.bind(controller)
+    );
 
     /**
      * @subsection Rutas de Inspección de Caché (Redis)
@@ -137,7 +233,15 @@ export class TaskRoutes {
     const queue = new TaskQueueProducer();
     const repository = new TaskRepository(db);
     const imageDownloadService = new ImageDownloadService();
-    const service = new TaskService(repository, queue, imageDownloadService);
+    const watermarkRepository = new WatermarkRepository(db);
+    const cacheService = new CacheService(new RedisCache());
+    const service = new TaskService(
+      repository,
+      queue,
+      imageDownloadService,
+      watermarkRepository,
+      cacheService
+    );
 
     return new TaskController(service);
   }
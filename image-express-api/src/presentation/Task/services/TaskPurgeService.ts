@@ -0,0 +1,231 @@
+import { TaskRepository } from '../repositories';
+import { ImageRepository } from '@presentation/Image/repositories';
+import { TaskQueueProducer } from '@infrastructure/queues';
+import { CacheService } from '@application/services/CacheService';
+import { TaskEntity } from '@domain/entities';
+import { logger } from '@core/helpers/logger';
+import { getRootPath, getTransformCachePath } from '@core/helpers/fileDirectory';
+import { JobType } from 'bullmq';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * @class TaskPurgeService
+ * @description Purga en segundo plano las tareas eliminadas cuyo periodo de gracia ha vencido.
+ * Por cada tarea borra el original, las variantes que no comparte con otra tarea, los derivados
+ * de la caché de transformaciones, las entradas de Redis y cualquier trabajo que quede en la cola,
+ * buscado por el ID de trabajo de la tarea y de cada generación; por último elimina el documento. Si algo falla, la tarea se reintenta en la siguiente pasada.
+ */
+export class TaskPurgeService {
+  private static readonly STORAGE_BASE_PATH = path.join(getRootPath(), 'storage', 'images');
+  private static readonly BATCH_SIZE = 100;
+  private static readonly LEFTOVER_JOB_STATES: JobType[] = [
+    'waiting',
+    'delayed',
+    'prioritized',
+    'paused',
+    'failed',
+    'completed',
+  ];
+
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  /**
+   * @constructor
+   * @param {TaskRepository} repository - Repositorio de tareas
+   * @param {ImageRepository} imageRepository - Repositorio de variantes
+   * @param {TaskQueueProducer} queue - Productor de la cola de procesamiento
+   * @param {CacheService} cacheService - Caché de consultas de tareas
+   * @param {number} gracePeriod - Segundos durante los que una tarea eliminada puede restaurarse
+   */
+  constructor(
+    private readonly repository: TaskRepository,
+    private readonly imageRepository: ImageRepository,
+    private readonly queue: TaskQueueProducer,
+    private readonly cacheService: CacheService,
+    private readonly gracePeriod: number
+  ) {}
+
+  /**
+   * @method start
+   * @description Programa la purga periódica. El temporizador no mantiene vivo el proceso.
+   * @param {number} intervalMs - Milisegundos entre pasadas
+   * @returns {void}
+   */
+  start(intervalMs: number): void {
+    this.stop();
+    this.timer = setInterval(() => void this.run(), intervalMs);
+    this.timer.unref();
+    logger.info('Purga de tareas eliminadas programada', {
+      intervalMs,
+      gracePeriod: this.gracePeriod,
+    });
+  }
+
+  /**
+   * @method stop
+   * @description Detiene la purga periódica.
+   * @returns {void}
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * @method purgeExpired
+   * @description Purga, por lotes, todas las tareas eliminadas antes del inicio del periodo de gracia.
+   * @param {Date} [now] - Momento de referencia
+   * @returns {Promise<number>} Número de tareas purgadas
+   */
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - this.gracePeriod * 1000);
+    const failed = new Set<string>();
+    let purged = 0;
+
+    for (;;) {
+      const tasks = (
+        await this.repository.findDeletedBefore(cutoff, TaskPurgeService.BATCH_SIZE + failed.size)
+      ).filter(task => !failed.has(String(task._id)));
+
+      if (tasks.length === 0) {
+        break;
+      }
+
+      for (const task of tasks) {
+        const taskId = String(task._id);
+        try {
+          await this.purgeTask(task);
+          purged++;
+        } catch (error) {
+          failed.add(taskId);
+          logger.error('Error purgando tarea eliminada', {
+            taskId,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+    }
+
+    if (purged > 0 || failed.size > 0) {
+      logger.info('Purga de tareas eliminadas completada', { purged, failed: failed.size });
+    }
+
+    return purged;
+  }
+
+  /**
+   * @private
+   * @method run
+   * @description Ejecuta una pasada de purga evitando solapes si la anterior sigue en curso.
+   * @returns {Promise<void>}
+   */
+  private async run(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.purgeExpired();
+    } catch (error) {
+      logger.error('Error en la purga de tareas eliminadas', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * @private
+   * @method purgeTask
+   * @description Elimina todo rastro de una tarea. El documento se borra al final para que un fallo
+   * intermedio deje la tarea pendiente de purgar.
+   * @param {TaskEntity} task - Tarea eliminada
+   * @returns {Promise<void>}
+   */
+  private async purgeTask(task: TaskEntity): Promise<void> {
+    const taskId = String(task._id);
+
+    const removedJobs = await this.queue.removeTask(
+      taskId,
+      TaskPurgeService.LEFTOVER_JOB_STATES,
+      (task.generations ?? []).map(({ number }) => number)
+    );
+    const removedVariants = await this.removeVariantFiles(task);
+
+    await Promise.all([
+      fs.rm(path.join(TaskPurgeService.STORAGE_BASE_PATH, taskId), {
+        recursive: true,
+        force: true,
+      }),
+      fs.rm(path.join(getTransformCachePath(), taskId), { recursive: true, force: true }),
+    ]);
+
+    await this.imageRepository.deleteByTaskId(taskId);
+    await this.invalidateCache(taskId);
+    await this.repository.deleteById(taskId);
+
+    logger.info('Tarea purgada', { taskId, removedJobs, removedVariants });
+  }
+
+  /**
+   * @private
+   * @method removeVariantFiles
+   * @description Borra los archivos de las variantes de la tarea, incluidas las de generaciones
+   * anteriores. Como se nombran por el MD5 de su contenido, se conservan los que también
+   * pertenecen a otra tarea, ya sea en la colección de imágenes o en las variantes y generaciones
+   * guardadas en la propia tarea.
+   * @param {TaskEntity} task - Tarea eliminada
+   * @returns {Promise<number>} Número de archivos borrados
+   */
+  private async removeVariantFiles(task: TaskEntity): Promise<number> {
+    const taskId = String(task._id);
+    const images = await this.imageRepository.findByTaskId(taskId);
+    const paths = new Set([
+      ...(task.images ?? []).map(image => image.path),
+      ...(task.generations ?? []).flatMap(({ images }) => (images ?? []).map(image => image.path)),
+      ...images.map(image => image.path),
+    ]);
+
+    for (const file of [...paths]) {
+      const duplicates = await this.imageRepository.findByMd5(path.parse(file).name);
+      const shared =
+        duplicates.some(other => other.taskId !== taskId && other.path === file) ||
+        (await this.repository.isVariantReferenced(file, taskId));
+      if (shared) {
+        paths.delete(file);
+      }
+    }
+
+    await Promise.all([...paths].map(file => fs.rm(file, { force: true })));
+    return paths.size;
+  }
+
+  /**
+   * @private
+   * @method invalidateCache
+   * @description Invalida las entradas de Redis de la tarea y de los listados. Un fallo de Redis no
+   * impide la purga porque las entradas caducan solas.
+   * @param {string} taskId - ID de la tarea
+   * @returns {Promise<void>}
+   */
+  private async invalidateCache(taskId: string): Promise<void> {
+    try {
+      await Promise.all([
+        this.cacheService.invalidatePattern(`task:${taskId}`),
+        this.cacheService.invalidatePattern('tasks:list:*'),
+        this.cacheService.invalidatePattern('tasks:count:*'),
+      ]);
+    } catch (error) {
+      logger.warn('No se pudo invalidar la caché de la tarea purgada', {
+        taskId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
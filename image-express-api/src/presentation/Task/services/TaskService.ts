@@ -1,11 +1,57 @@
 import { TaskRepository } from '../repositories';
-import { TaskQueueProducer } from '@infrastructure/queues';
+import { WatermarkRepository } from '@presentation/Watermark/repositories';
+import { TaskQueueProducer, TaskJobOptions } from '@infrastructure/queues';
 import { BusinessError, NotFoundError } from '@core/errors';
-import { TaskStatus, TaskStatusTransition, TaskEntity } from '@domain/entities';
-import { TaskResponseDto, CreateTaskRequest } from '@domain/dtos';
+import { envs } from '@config/envs';
+import {
+  TaskStatus,
+  TaskStatusTransition,
+  TaskEntity,
+  VariantSpec,
+  OverlaySpec,
+  MetadataPolicy,
+  TaskProcessingOptions,
+  TaskGeneration,
+  TaskSchedule,
+  TaskLabels,
+  TaskFilter,
+  TaskSort,
+  TaskCursor,
+  TaskSource,
+  TaskMetadataValue,
+  TASK_PRIORITY,
+  TASK_LABEL_LIMITS,
+  DEFAULT_VARIANTS,
+  recordStatusChange,
+  normalizeTaskFilter,
+  DEFAULT_TASK_SORT,
+  encodeTaskCursor,
+  decodeTaskCursor,
+  getVariantLabel,
+  PriceBreakdown,
+  PricingInput,
+} from '@domain/entities';
+import {
+  TaskResponseDto,
+  TaskDeletionResponseDto,
+  TaskHistoryResponseDto,
+  TaskQuoteResponseDto,
+  CreateTaskRequest,
+  CreateTaskDto,
+  VariantSpecDto,
+  OverlaySpecDto,
+  MetadataPolicyDto,
+  ReprocessTaskDto,
+} from '@domain/dtos';
 import { ImageDownloadService } from '@application/services';
-import { generateUUID } from '@core/helpers/crypto';
+import { CacheService } from '@application/services/CacheService';
+import { PricingService } from '@application/services/PricingService';
+import { generateUUID, generateMD5 } from '@core/helpers/crypto';
 import { logger } from '@core/helpers/logger';
+import { toVariantLinks } from '@core/helpers/variantLinks';
+import { signQuoteToken, verifyQuoteToken } from '@core/helpers/quoteToken';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
 import fs from 'fs/promises';
 import path from 'path';
 import { getRootPath } from '@core/helpers/fileDirectory';
@@ -16,17 +62,31 @@ import { getRootPath } from '@core/helpers/fileDirectory';
  * permitiendo un seguimiento consistente a través de las operaciones.
  * @property {string} [taskId] - ID de la tarea asociada al log.
  * @property {string} [idempotencyKey] - Clave de idempotencia de la operación.
- * @property {'upload' | 'url' | 'path'} [source] - Origen de la imagen para la tarea.
+ * @property {TaskSource} [source] - Origen de la imagen para la tarea.
  * @property {TaskStatus} [status] - Estado de la tarea en el momento del log.
  */
 interface LogContext {
   taskId?: string;
   idempotencyKey?: string;
-  source?: 'upload' | 'url' | 'path';
+  source?: TaskSource;
   status?: TaskStatus;
   [key: string]: unknown;
 }
 
+/**
+ * @typedef TaskCreationRequest
+ * @description Datos de la petición que necesita la creación de una tarea. Lo cumplen tanto la
+ * petición HTTP de `POST /tasks` como cada elemento de un lote.
+ * @property {string} [idempotencyKey] - Clave de idempotencia de la tarea.
+ * @property {string} [batchId] - Lote al que pertenece la tarea.
+ * @property {string} [clientId] - Cliente de la API al que se imputa el consumo.
+ */
+export type TaskCreationRequest = Pick<CreateTaskRequest, 'body' | 'file'> & {
+  idempotencyKey?: string;
+  batchId?: string;
+  clientId?: string;
+};
+
 /**
  * @class TaskService
  * @description Servicio principal que orquesta la lógica de negocio para el procesamiento
@@ -34,8 +94,8 @@ interface LogContext {
  * hasta su finalización, coordinando con repositorios, colas y servicios externos.
  */
 export class TaskService {
-  private static readonly MIN_PRICE = 5;
-  private static readonly MAX_PRICE = 50;
+  private static readonly ACTOR = 'api';
+  private static readonly COUNT_TTL = 45;
   private static readonly STORAGE_BASE_PATH = path.join(getRootPath(), 'storage', 'images');
 
   /**
@@ -43,44 +103,62 @@ export class TaskService {
    * @param {TaskRepository} repository - Repositorio para persistencia de tareas
    * @param {TaskQueueProducer} queue - Productor de mensajes para la cola de procesamiento
    * @param {ImageDownloadService} imageDownloadService - Servicio para descarga de imágenes remotas
+   * @param {WatermarkRepository} watermarkRepository - Repositorio para validar las marcas de agua referenciadas
+   * @param {CacheService} [cacheService] - Caché de los totales de los listados paginados por cursor,
+   * que se invalida al eliminar o restaurar tareas
+   * @param {PricingService} [pricingService] - Motor de precios de las tareas
    */
   constructor(
     private readonly repository: TaskRepository,
     private readonly queue: TaskQueueProducer,
-    private readonly imageDownloadService: ImageDownloadService
+    private readonly imageDownloadService: ImageDownloadService,
+    private readonly watermarkRepository: WatermarkRepository,
+    private readonly cacheService?: CacheService,
+    private readonly pricingService: PricingService = new PricingService()
   ) {}
 
   /**
    * @method createTaskFromRequest
    * @description Punto de entrada principal para crear una nueva tarea de procesamiento.
    * Acepta imágenes desde tres fuentes diferentes: upload directo, URL remota o path local.
-   * @param {CreateTaskRequest & { idempotencyKey?: string }} req - Petición con los datos de la imagen
+   * @param {TaskCreationRequest} req - Petición con los datos de la imagen
    * @returns {Promise<TaskResponseDto>} Información de la tarea creada incluyendo ID, estado y precio
    * @throws {BusinessError} Si no se proporciona ninguna fuente válida de imagen
    */
-  async createTaskFromRequest(
-    req: CreateTaskRequest & { idempotencyKey?: string }
-  ): Promise<TaskResponseDto> {
+  async createTaskFromRequest(req: TaskCreationRequest): Promise<TaskResponseDto> {
     const startTime = Date.now();
     const context: LogContext = { idempotencyKey: req.idempotencyKey };
 
     try {
       const { imagePath, source } = await this.resolveImagePath(req);
       context.source = source;
+      const processing = await this.resolveProcessingOptions(req.body);
+      const schedule = this.resolveSchedule(req.body);
+      const labels = this.resolveLabels(req.body);
 
-      const task = await this.createTask(imagePath, req.idempotencyKey);
+      const task = await this.createTask(
+        imagePath,
+        req.idempotencyKey,
+        processing,
+        req.batchId,
+        schedule,
+        labels,
+        source,
+        req.body.quoteToken,
+        req.clientId
+      );
       context.taskId = task.taskId;
       const finalPath = await this.moveImageToTaskDirectory(task.taskId, imagePath);
 
       if (finalPath !== imagePath) {
         await this.repository.updateOriginalPath(task.taskId, finalPath);
-        await this.queue.addTask(task.taskId, finalPath);
+        await this.enqueueTask(task.taskId, finalPath, processing, schedule);
         logger.info('Tarea encolada para procesamiento', {
           taskId: task.taskId,
           destination: finalPath,
         });
       } else {
-        await this.queue.addTask(task.taskId, imagePath);
+        await this.enqueueTask(task.taskId, imagePath, processing, schedule);
         logger.info('Tarea encolada con ruta original', {
           taskId: task.taskId,
           path: imagePath,
@@ -106,12 +184,33 @@ export class TaskService {
   /**
    * @method createTask
    * @description Crea una nueva tarea en la base de datos con soporte para idempotencia.
-   * Si existe una tarea con la misma clave de idempotencia, retorna la existente.
+   * Si existe una tarea con la misma clave de idempotencia, retorna la existente. El precio se
+   * calcula con la tarifa vigente a partir de la cabecera de la imagen, salvo que se canjee un
+   * presupuesto: entonces se usa la tarifa con la que se emitió.
    * @param {string} imagePath - Ruta de la imagen a procesar
    * @param {string} [idempotencyKey] - Clave única para evitar duplicados
+   * @param {TaskProcessingOptions} [processing] - Variantes y superposición solicitadas
+   * @param {string} [batchId] - Lote al que pertenece la tarea
+   * @param {TaskSchedule} [schedule] - Prioridad y momento de procesamiento solicitados
+   * @param {TaskLabels} [labels] - Identificador externo, etiquetas y metadatos del cliente
+   * @param {TaskSource} [source] - Origen de la imagen
+   * @param {string} [quoteToken] - Presupuesto que fija el precio
+   * @param {string} [clientId] - Cliente de la API al que se imputa el consumo
    * @returns {Promise<TaskResponseDto>} Tarea creada o existente
+   * @throws {BusinessError} Si el archivo no es una imagen legible o el presupuesto no es válido,
+   * ha caducado o no corresponde a la imagen y las opciones
    */
-  async createTask(imagePath: string, idempotencyKey?: string): Promise<TaskResponseDto> {
+  async createTask(
+    imagePath: string,
+    idempotencyKey?: string,
+    processing?: TaskProcessingOptions,
+    batchId?: string,
+    schedule?: TaskSchedule,
+    labels?: TaskLabels,
+    source?: TaskSource,
+    quoteToken?: string,
+    clientId?: string
+  ): Promise<TaskResponseDto> {
     if (idempotencyKey) {
       const existing = await this.repository.findByIdempotencyKey(idempotencyKey);
       if (existing) {
@@ -124,19 +223,32 @@ export class TaskService {
       }
     }
 
+    const pricing = await this.resolvePricing(
+      imagePath,
+      { variants: processing?.variants ?? DEFAULT_VARIANTS, source, priority: schedule?.priority },
+      quoteToken
+    );
     const effectiveIdempotencyKey = idempotencyKey ?? generateUUID();
     const task = await this.repository.create({
       status: TaskStatus.PENDING,
-      price: this.generateRandomPrice(),
+      price: pricing.total,
+      pricing,
       originalPath: imagePath,
       images: [],
       idempotencyKey: effectiveIdempotencyKey,
+      ...processing,
+      ...(batchId && { batchId }),
+      ...(clientId && { clientId }),
+      ...schedule,
+      ...labels,
+      ...(source && { source }),
     });
 
     logger.info('Tarea creada en base de datos', {
       // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
       taskId: task._id!.toString(),
       price: task.price,
+      priceTable: pricing.version,
       status: TaskStatus.PENDING,
       imagePath,
     });
@@ -144,6 +256,62 @@ export class TaskService {
     return this.mapEntityToDto(task);
   }
 
+  /**
+   * @method quoteTask
+   * @description Calcula el precio que tendría una tarea sin crearla ni encolarla: lee solo la
+   * cabecera de la imagen y estima las variantes que se generarían. Devuelve un presupuesto firmado
+   * que `POST /tasks` puede canjear hasta su caducidad. Las imágenes subidas o descargadas para el
+   * presupuesto se eliminan al terminar.
+   * @param {TaskCreationRequest} req - Petición con los mismos datos que la creación de una tarea
+   * @returns {Promise<TaskQuoteResponseDto>} Precio, desglose, imagen detectada y variantes
+   * @throws {BusinessError} Si no hay fuente de imagen, las opciones no son válidas o el archivo
+   * no es una imagen legible
+   */
+  async quoteTask(req: TaskCreationRequest): Promise<TaskQuoteResponseDto> {
+    const { imagePath, source } = await this.resolveImagePath(req);
+
+    try {
+      const processing = await this.resolveProcessingOptions(req.body);
+      const schedule = this.resolveSchedule(req.body);
+      const variants = processing?.variants ?? DEFAULT_VARIANTS;
+      const input = await this.pricingService.inspect(imagePath, {
+        variants,
+        source,
+        priority: schedule?.priority,
+      });
+      const pricing = this.pricingService.calculate(input);
+      const expiresAt = new Date(Date.now() + envs.QUOTE.TTL * 1000);
+
+      logger.info('Presupuesto calculado', {
+        source,
+        price: pricing.total,
+        priceTable: pricing.version,
+      });
+
+      return {
+        price: pricing.total,
+        pricing,
+        image: { width: input.width, height: input.height, format: input.format, source },
+        variants: variants.map(variant => ({
+          resolution: getVariantLabel(variant),
+          ...this.pricingService.estimateSize(input, variant),
+          format: variant.format ?? input.format,
+        })),
+        quoteToken: signQuoteToken({
+          fingerprint: this.pricingService.fingerprint(input),
+          version: pricing.version,
+          price: pricing.total,
+          expiresAt,
+        }),
+        expiresAt,
+      };
+    } finally {
+      if (source !== 'path') {
+        await fs.rm(imagePath, { force: true });
+      }
+    }
+  }
+
   /**
    * @method getTaskById
    * @description Obtiene los detalles completos de una tarea específica
@@ -154,7 +322,7 @@ export class TaskService {
   async getTaskById(taskId: string): Promise<TaskResponseDto> {
     const task = await this.repository.findById(taskId);
 
-    if (!task) {
+    if (!task || task.deletedAt) {
       logger.warn('Tarea no encontrada', { taskId });
       throw new NotFoundError(`La tarea con ID ${taskId} no existe`);
     }
@@ -167,16 +335,39 @@ export class TaskService {
     return this.mapEntityToDto(task);
   }
 
+  /**
+   * @method getTaskHistory
+   * @description Obtiene el historial de cambios de estado de una tarea, del más antiguo al más reciente
+   * @param {string} taskId - Identificador único de la tarea
+   * @returns {Promise<TaskHistoryResponseDto>} Estado actual e historial de la tarea
+   * @throws {NotFoundError} Si la tarea no existe
+   */
+  async getTaskHistory(taskId: string): Promise<TaskHistoryResponseDto> {
+    const task = await this.repository.findById(taskId);
+
+    if (!task || task.deletedAt) {
+      logger.warn('Tarea no encontrada', { taskId });
+      throw new NotFoundError(`La tarea con ID ${taskId} no existe`);
+    }
+
+    return {
+      taskId,
+      status: task.status as TaskHistoryResponseDto['status'],
+      history: task.history ?? [],
+    };
+  }
+
   /**
    * @method listTasks
-   * @description Lista tareas con paginación y filtrado opcional por estado
-   * @param {object} options - Opciones de paginación y filtrado
+   * @description Lista tareas con paginación, filtros y orden opcionales
+   * @param {object} options - Opciones de paginación, orden y filtrado
    * @param {number} options.page - Número de página (base 1)
    * @param {number} options.limit - Cantidad de resultados por página
-   * @param {TaskStatus} [options.status] - Filtro opcional por estado
+   * @param {TaskSort} [options.sort] - Campo y sentido de ordenación; por defecto las más recientes primero
+   * @param {TaskFilter} [options] - Filtros por estado, origen, fechas, precio, identificador externo y etiquetas
    * @returns {Promise<object>} Lista paginada de tareas con metadatos
    */
-  async listTasks(options: { page: number; limit: number; status?: TaskStatus }): Promise<{
+  async listTasks(options: { page: number; limit: number; sort?: TaskSort } & TaskFilter): Promise<{
     data: TaskResponseDto[];
     pagination: {
       page: number;
@@ -185,44 +376,111 @@ export class TaskService {
       totalPages: number;
     };
   }> {
-    const skip = (options.page - 1) * options.limit;
-    const filter: Partial<TaskEntity> = options.status ? { status: options.status } : {};
+    const { page, limit, sort = DEFAULT_TASK_SORT, ...criteria } = options;
+    const skip = (page - 1) * limit;
+    const filter = normalizeTaskFilter(criteria);
 
     const [tasks, total] = await Promise.all([
-      this.repository.find(filter, skip, options.limit),
+      this.repository.find(filter, skip, limit, sort),
       this.repository.count(filter),
     ]);
 
     logger.info('Listado de tareas', {
-      page: options.page,
-      limit: options.limit,
+      page,
+      limit,
       total,
-      status: options.status,
+      ...filter,
+      sort,
     });
 
     return {
       data: tasks.map(task => this.mapEntityToDto(task)),
       pagination: {
-        page: options.page,
-        limit: options.limit,
+        page,
+        limit,
         total,
-        totalPages: Math.ceil(total / options.limit),
+        totalPages: Math.ceil(total / limit),
       },
     };
   }
 
+  /**
+   * @method listTasksByCursor
+   * @description Lista tareas paginando por cursor sobre la fecha de creación. Cada página incluye
+   * los cursores para avanzar y retroceder, y el total solo se calcula si se pide
+   * @param {object} options - Opciones de paginación, orden y filtrado
+   * @param {string} [options.cursor] - Cursor de una página anterior; sin él se devuelve la primera
+   * @param {number} options.limit - Cantidad de resultados por página
+   * @param {TaskSort} [options.sort] - Sentido del orden por fecha de creación; por defecto las más recientes primero
+   * @param {boolean} [options.includeTotal] - Si se incluye el total de tareas que cumplen los filtros
+   * @param {TaskFilter} [options] - Filtros por estado, origen, fechas, precio, identificador externo y etiquetas
+   * @returns {Promise<object>} Página de tareas con los cursores de navegación
+   * @throws {BusinessError} Si el cursor no es válido o el orden no es por fecha de creación
+   */
+  async listTasksByCursor(
+    options: {
+      cursor?: string;
+      limit: number;
+      sort?: TaskSort;
+      includeTotal?: boolean;
+    } & TaskFilter
+  ): Promise<{
+    data: TaskResponseDto[];
+    pagination: {
+      limit: number;
+      nextCursor: string | null;
+      prevCursor: string | null;
+      total?: number;
+    };
+  }> {
+    const { cursor: value, limit, sort = DEFAULT_TASK_SORT, includeTotal, ...criteria } = options;
+    const filter = normalizeTaskFilter(criteria);
+    const cursor = this.resolveCursor(value, sort);
+    const backwards = cursor?.direction === 'prev';
+    const reversed = sort.direction === 'asc' ? 'desc' : 'asc';
+
+    const [rows, total] = await Promise.all([
+      this.repository.findByCursor(
+        filter,
+        cursor,
+        limit + 1,
+        backwards ? reversed : sort.direction
+      ),
+      includeTotal ? this.countTasks(filter) : undefined,
+    ]);
+
+    const tasks = rows.slice(0, limit);
+    if (backwards) {
+      tasks.reverse();
+    }
+
+    const links = this.getCursorLinks(tasks, cursor, rows.length > limit);
+
+    logger.info('Listado de tareas por cursor', {
+      limit,
+      returned: tasks.length,
+      ...filter,
+      sort,
+    });
+
+    return {
+      data: tasks.map(task => this.mapEntityToDto(task)),
+      pagination: { limit, ...links, ...(total !== undefined && { total }) },
+    };
+  }
+
   /**
    * @method retryTask
    * @description Reintenta el procesamiento de una tarea fallida
    * @param {string} taskId - ID de la tarea a reintentar
    * @returns {Promise<TaskResponseDto>} Tarea actualizada con estado pending
    * @throws {NotFoundError} Si la tarea no existe
-   * @throws {BusinessError} Si la tarea no está en estado failed
+   * @throws {BusinessError} Si la tarea no está en estado failed o su original ha caducado
    */
   async retryTask(taskId: string): Promise<TaskResponseDto> {
     const task = await this.repository.findById(taskId);
 
-    if (!task) {
+    if (!task || task.deletedAt) {
       logger.warn('Intento de retry en tarea inexistente', { taskId });
       throw new NotFoundError(`La tarea con ID ${taskId} no existe`);
     }
@@ -239,9 +497,19 @@ export class TaskService {
       );
     }
 
+    this.assertOriginalAvailable(task);
+
+    const enqueue = this.enqueueTask(
+      taskId,
+      task.originalPath,
+      this.getProcessingOptions(task),
+      this.getQueuePriority(task)
+    );
+
+    const change = recordStatusChange(task, TaskStatus.PENDING, TaskService.ACTOR);
     await Promise.all([
-      this.repository.updateStatus(taskId, TaskStatus.PENDING),
-      this.queue.addTask(taskId, task.originalPath),
+      this.repository.updateStatus(taskId, TaskStatus.PENDING, undefined, change),
+      enqueue,
     ]);
 
     logger.info('Tarea reintentada', {
@@ -254,6 +522,318 @@ export class TaskService {
     return this.mapEntityToDto(task);
   }
 
+  /**
+   * @method cancelTask
+   * @description Cancela una tarea pendiente o en proceso. Elimina su trabajo de la cola si aún
+   * no ha empezado; si el worker ya lo está procesando, este aborta entre variantes al detectar el
+   * estado cancelled y limpia las salidas parciales
+   * @param {string} taskId - ID de la tarea a cancelar
+   * @returns {Promise<TaskResponseDto>} Tarea actualizada con estado cancelled
+   * @throws {NotFoundError} Si la tarea no existe
+   * @throws {BusinessError} Si la tarea ya ha terminado o el worker cambia su estado mientras se
+   * cancela
+   */
+  async cancelTask(taskId: string): Promise<TaskResponseDto> {
+    const task = await this.repository.findById(taskId);
+
+    if (!task) {
+      logger.warn('Intento de cancelación en tarea inexistente', { taskId });
+      throw new NotFoundError(`La tarea con ID ${taskId} no existe`);
+    }
+
+    if (task.status !== TaskStatus.PENDING && task.status !== TaskStatus.PROCESSING) {
+      logger.warn('Intento de cancelación en estado inválido', {
+        taskId,
+        currentStatus: task.status,
+      });
+      throw new BusinessError(
+        `Solo se pueden cancelar tareas pendientes o en proceso. Estado actual: ${task.status}`,
+        'INVALID_CANCEL_STATE',
+        400
+      );
+    }
+
+    TaskStatusTransition.validateTransition(task.status, TaskStatus.CANCELLED);
+
+    const cancelled = await this.repository.updateStatus(
+      taskId,
+      TaskStatus.CANCELLED,
+      undefined,
+      recordStatusChange(task, TaskStatus.CANCELLED, TaskService.ACTOR)
+    );
+    if (!cancelled) {
+      logger.warn('Cancelación concurrente con un cambio de estado', {
+        taskId,
+        previousStatus: task.status,
+      });
+      throw new BusinessError(
+        `La tarea ha cambiado de estado mientras se cancelaba. Estado anterior: ${task.status}`,
+        'TASK_STATUS_CHANGED',
+        409
+      );
+    }
+
+    const removedJobs = await this.queue.removeTask(taskId);
+
+    logger.info('Tarea cancelada', {
+      taskId,
+      previousStatus: task.status,
+      newStatus: TaskStatus.CANCELLED,
+      removedJobs,
+    });
+
+    task.status = TaskStatus.CANCELLED;
+    return this.mapEntityToDto(task);
+  }
+
+  /**
+   * @method reprocessTask
+   * @description Reprocesa una tarea completada con nuevas opciones. Registra una nueva generación
+   * y la encola; la tarea sigue completada y sirviendo sus variantes actuales hasta que el worker
+   * termina la nueva generación y las sustituye. Las opciones omitidas conservan su valor actual
+   * @param {string} taskId - ID de la tarea a reprocesar
+   * @param {Partial<ReprocessTaskDto>} body - Nuevas variantes, superposición o política de metadatos
+   * @returns {Promise<TaskResponseDto>} Tarea con la nueva generación pendiente
+   * @throws {NotFoundError} Si la tarea no existe
+   * @throws {BusinessError} Si no está completada, su original ha caducado, no se indica ninguna
+   * opción o ya se está reprocesando
+   */
+  async reprocessTask(taskId: string, body: Partial<ReprocessTaskDto>): Promise<TaskResponseDto> {
+    const task = await this.repository.findById(taskId);
+
+    if (!task || task.deletedAt) {
+      logger.warn('Intento de reprocesado en tarea inexistente', { taskId });
+      throw new NotFoundError(`La tarea con ID ${taskId} no existe`);
+    }
+
+    if (task.status !== TaskStatus.COMPLETED) {
+      logger.warn('Intento de reprocesado en estado inválido', {
+        taskId,
+        currentStatus: task.status,
+      });
+      throw new BusinessError(
+        `Solo se pueden reprocesar tareas completadas. Estado actual: ${task.status}`,
+        'INVALID_REPROCESS_STATE',
+        400
+      );
+    }
+
+    this.assertOriginalAvailable(task);
+
+    const requested = await this.resolveProcessingOptions(body);
+    if (!requested) {
+      throw new BusinessError(
+        'Indica al menos variants, overlay o metadataPolicy para reprocesar la tarea',
+        'EMPTY_REPROCESS',
+        400
+      );
+    }
+
+    const generations = task.generations ?? [];
+    if (generations.some(({ status }) => status === 'pending' || status === 'processing')) {
+      throw this.reprocessInProgressError(taskId);
+    }
+
+    const now = new Date();
+    const seed: TaskGeneration[] = generations.length
+      ? []
+      : [
+          {
+            number: 1,
+            status: 'completed',
+            ...this.getProcessingOptions(task),
+            images: task.images,
+            requestedAt: task.createdAt ?? now,
+            completedAt: task.updatedAt ?? now,
+          },
+        ];
+    const processing = this.getProcessingOptions({
+      variants: requested.variants ?? task.variants,
+      overlay: requested.overlay ?? task.overlay,
+      metadataPolicy: requested.metadataPolicy ?? task.metadataPolicy,
+    });
+    const generation: TaskGeneration = {
+      number: (generations.length || seed.length) + 1,
+      status: 'pending',
+      ...processing,
+      requestedAt: now,
+    };
+
+    const started = await this.repository.startGeneration(taskId, [...seed, generation]);
+    if (!started) {
+      throw this.reprocessInProgressError(taskId);
+    }
+
+    await this.queue.addTask(taskId, task.originalPath, processing, {
+      generation: generation.number,
+      ...this.getQueuePriority(task),
+    });
+
+    logger.info('Tarea encolada para reprocesado', { taskId, generation: generation.number });
+
+    task.generations = [...generations, ...seed, generation];
+    return this.mapEntityToDto(task);
+  }
+
+  /**
+   * @method reprioritizeTask
+   * @description Cambia la prioridad de una tarea pendiente cuyo trabajo sigue esperando en la cola.
+   * El precio depende de la prioridad, así que se recalcula con la tarifa de la tarea y se guarda
+   * junto a ella; la tarea todavía no se ha cobrado porque el cargo se anota al completarse
+   * @param {string} taskId - ID de la tarea
+   * @param {number} priority - Nueva prioridad (1 es la más alta)
+   * @returns {Promise<TaskResponseDto>} Tarea con la nueva prioridad y su precio
+   * @throws {NotFoundError} Si la tarea no existe
+   * @throws {BusinessError} Si la tarea no está pendiente, no tiene desglose de precio que
+   * recalcular o su trabajo ya no está en espera
+   */
+  async reprioritizeTask(taskId: string, priority: number): Promise<TaskResponseDto> {
+    const task = await this.findPendingTask(taskId, 'reprioritizar');
+    const resolved = this.resolvePriority(priority) ?? TASK_PRIORITY.DEFAULT;
+
+    if (!task.pricing) {
+      throw new BusinessError(
+        'El precio de la tarea no tiene desglose y no puede recalcularse para otra prioridad',
+        'TASK_PRICE_FIXED',
+        409
+      );
+    }
+    const pricing = this.pricingService.reprice(task.pricing, resolved);
+
+    const updated = await this.queue.changePriority(taskId, resolved);
+    if (updated === 0) {
+      throw new BusinessError(
+        'El trabajo de la tarea ya no está esperando en la cola',
+        'TASK_NOT_QUEUED',
+        409
+      );
+    }
+
+    await this.repository.updateSchedule(taskId, { priority: resolved }, pricing);
+
+    logger.info('Prioridad de la tarea actualizada', {
+      taskId,
+      previousPriority: task.priority,
+      priority: resolved,
+      previousPrice: task.price,
+      price: pricing.total,
+      priceTable: pricing.version,
+    });
+
+    task.priority = resolved;
+    task.price = pricing.total;
+    task.pricing = pricing;
+    return this.mapEntityToDto(task);
+  }
+
+  /**
+   * @method promoteTask
+   * @description Adelanta el procesamiento de una tarea programada para más adelante
+   * @param {string} taskId - ID de la tarea
+   * @returns {Promise<TaskResponseDto>} Tarea con el nuevo momento de procesamiento
+   * @throws {NotFoundError} Si la tarea no existe
+   * @throws {BusinessError} Si la tarea no está pendiente o su trabajo no está diferido
+   */
+  async promoteTask(taskId: string): Promise<TaskResponseDto> {
+    const task = await this.findPendingTask(taskId, 'promover');
+
+    const promoted = await this.queue.promoteTask(taskId);
+    if (promoted === 0) {
+      throw new BusinessError(
+        'La tarea no tiene ningún trabajo programado para más adelante',
+        'TASK_NOT_DELAYED',
+        409
+      );
+    }
+
+    const processAt = new Date();
+    await this.repository.updateSchedule(taskId, { processAt });
+
+    logger.info('Tarea promovida para procesamiento inmediato', {
+      taskId,
+      previousProcessAt: task.processAt,
+    });
+
+    task.processAt = processAt;
+    return this.mapEntityToDto(task);
+  }
+
+  /**
+   * @method deleteTask
+   * @description Elimina lógicamente una tarea terminada. Deja de aparecer en los listados y puede
+   * restaurarse durante el periodo de gracia; después, la purga borra sus archivos y el documento
+   * @param {string} taskId - ID de la tarea a eliminar
+   * @returns {Promise<TaskDeletionResponseDto>} Fecha de eliminación y límite para restaurarla
+   * @throws {NotFoundError} Si la tarea no existe o ya está eliminada
+   * @throws {BusinessError} Si la tarea sigue pendiente o en proceso
+   */
+  async deleteTask(taskId: string): Promise<TaskDeletionResponseDto> {
+    const task = await this.repository.findById(taskId);
+
+    if (!task || task.deletedAt) {
+      logger.warn('Intento de eliminación en tarea inexistente', { taskId });
+      throw new NotFoundError(`La tarea con ID ${taskId} no existe`);
+    }
+
+    if (task.status === TaskStatus.PENDING || task.status === TaskStatus.PROCESSING) {
+      logger.warn('Intento de eliminación de tarea activa', {
+        taskId,
+        currentStatus: task.status,
+      });
+      throw new BusinessError(
+        `No se puede eliminar una tarea activa; cancélala antes. Estado actual: ${task.status}`,
+        'TASK_IN_PROGRESS',
+        409
+      );
+    }
+
+    const deletedAt = new Date();
+    await this.repository.softDelete(taskId, deletedAt);
+    await this.invalidateTaskCache(taskId);
+
+    const restorableUntil = this.getRestoreDeadline(deletedAt);
+    logger.info('Tarea eliminada', { taskId, restorableUntil });
+
+    return { taskId, deletedAt, restorableUntil };
+  }
+
+  /**
+   * @method restoreTask
+   * @description Restaura una tarea eliminada dentro del periodo de gracia
+   * @param {string} taskId - ID de la tarea a restaurar
+   * @returns {Promise<TaskResponseDto>} Tarea restaurada
+   * @throws {NotFoundError} Si la tarea no existe o ya se ha purgado
+   * @throws {BusinessError} Si la tarea no está eliminada o el periodo de gracia ha vencido
+   */
+  async restoreTask(taskId: string): Promise<TaskResponseDto> {
+    const task = await this.repository.findById(taskId);
+
+    if (!task) {
+      logger.warn('Intento de restauración en tarea inexistente', { taskId });
+      throw new NotFoundError(`La tarea con ID ${taskId} no existe`);
+    }
+
+    if (!task.deletedAt) {
+      throw new BusinessError('La tarea no está eliminada', 'TASK_NOT_DELETED', 400);
+    }
+
+    const restorableUntil = this.getRestoreDeadline(new Date(task.deletedAt));
+    if (restorableUntil.getTime() <= Date.now()) {
+      throw new BusinessError(
+        `El periodo de restauración terminó el ${restorableUntil.toISOString()}`,
+        'RESTORE_PERIOD_EXPIRED',
+        410
+      );
+    }
+
+    await this.repository.restore(taskId);
+    await this.invalidateTaskCache(taskId);
+    logger.info('Tarea restaurada', { taskId });
+
+    task.deletedAt = null;
+    return this.mapEntityToDto(task);
+  }
+
   /**
    * @method updateTaskStatus
    * @description Actualiza el estado de una tarea validando las transiciones permitidas
@@ -277,7 +857,18 @@ export class TaskService {
     }
 
     TaskStatusTransition.validateTransition(task.status, newStatus);
-    await this.repository.updateStatus(taskId, newStatus, data);
+    const error = data?.error;
+    await this.repository.updateStatus(
+      taskId,
+      newStatus,
+      data,
+      recordStatusChange(
+        task,
+        newStatus,
+        TaskService.ACTOR,
+        typeof error === 'string' ? error : undefined
+      )
+    );
 
     logger.info('Estado de tarea actualizado', {
       taskId,
@@ -287,16 +878,56 @@ export class TaskService {
     });
   }
 
+  /**
+   * @method resolveProcessingOptions
+   * @description Valida y normaliza las variantes, la superposición y la política de metadatos
+   * indicadas en el cuerpo de la petición
+   * @param {Partial<CreateTaskDto>} [body] - Cuerpo de la petición
+   * @returns {Promise<TaskProcessingOptions | undefined>} Opciones definidas o undefined si no hay ninguna
+   * @throws {BusinessError} Si alguna de las opciones no es válida
+   */
+  async resolveProcessingOptions(
+    body?: Partial<CreateTaskDto>
+  ): Promise<TaskProcessingOptions | undefined> {
+    return this.getProcessingOptions({
+      variants: await this.resolveVariants(body?.variants),
+      overlay: await this.resolveOverlay(body?.overlay),
+      metadataPolicy: await this.resolveMetadataPolicy(body?.metadataPolicy),
+    });
+  }
+
+  /**
+   * @method resolveSchedule
+   * @description Valida la prioridad y el momento de procesamiento indicados en el cuerpo de la
+   * petición. En peticiones multipart ambos llegan como cadenas
+   * @param {Partial<CreateTaskDto>} [body] - Cuerpo de la petición
+   * @returns {TaskSchedule | undefined} Planificación definida o undefined si no hay ninguna
+   * @throws {BusinessError} Si la prioridad o la fecha no son válidas
+   */
+  resolveSchedule(body?: Partial<CreateTaskDto>): TaskSchedule | undefined {
+    const priority = this.resolvePriority(body?.priority);
+    const processAt = this.resolveProcessAt(body?.processAt);
+
+    if (priority === undefined && !processAt) {
+      return undefined;
+    }
+
+    return {
+      ...(priority !== undefined && { priority }),
+      ...(processAt && { processAt }),
+    };
+  }
+
   /**
    * @private
    * @method resolveImagePath
    * @description Determina la fuente de la imagen y obtiene su ruta local
-   * @param {CreateTaskRequest & { idempotencyKey?: string }} req - Petición con datos de imagen
+   * @param {TaskCreationRequest} req - Petición con datos de imagen
    * @returns {Promise<{imagePath: string, source: LogContext['source']}>} Ruta y fuente
    * @throws {BusinessError} Si no hay fuente válida
    */
   private async resolveImagePath(
-    req: CreateTaskRequest & { idempotencyKey?: string }
+    req: TaskCreationRequest
   ): Promise<{ imagePath: string; source: LogContext['source'] }> {
     if (req.file) {
       logger.info('Procesando imagen desde upload', {
@@ -342,55 +973,779 @@ export class TaskService {
 
   /**
    * @private
-   * @method moveImageToTaskDirectory
-   * @description Mueve la imagen desde el directorio temporal al directorio de la tarea
-   * @param {string} taskId - ID de la tarea
-   * @param {string} sourcePath - Ruta origen
-   * @returns {Promise<string>} Ruta final de la imagen
+   * @method resolvePricing
+   * @description Calcula el precio de una tarea nueva. Si se canjea un presupuesto, comprueba que
+   * corresponde a la misma imagen y opciones y recalcula con su tarifa, de modo que el precio no
+   * cambia aunque se haya publicado una tarifa nueva.
+   * @param {string} imagePath - Ruta de la imagen
+   * @param {Omit<PricingInput, 'width' | 'height' | 'format'>} options - Variantes, origen y prioridad
+   * @param {string} [quoteToken] - Presupuesto que fija el precio
+   * @returns {Promise<PriceBreakdown>} Desglose del precio
+   * @throws {BusinessError} Si el presupuesto no es válido, ha caducado o no corresponde
    */
-  private async moveImageToTaskDirectory(taskId: string, sourcePath: string): Promise<string> {
-    try {
-      const taskDir = path.join(TaskService.STORAGE_BASE_PATH, taskId);
-      await fs.mkdir(taskDir, { recursive: true });
-
-      const fileName = path.basename(sourcePath);
-      const destPath = path.join(taskDir, fileName);
+  private async resolvePricing(
+    imagePath: string,
+    options: Omit<PricingInput, 'width' | 'height' | 'format'>,
+    quoteToken?: string
+  ): Promise<PriceBreakdown> {
+    const input = await this.pricingService.inspect(imagePath, options);
+    if (!quoteToken) {
+      return this.pricingService.calculate(input);
+    }
 
-      try {
-        await fs.access(sourcePath);
-        await fs.rename(sourcePath, destPath);
-        return destPath;
-      } catch (accessError) {
-        logger.warn('Archivo origen no accesible', {
-          taskId,
-          originalPath: sourcePath,
-          error: accessError instanceof Error ? accessError.message : 'unknown',
-        });
-        return sourcePath;
-      }
-    } catch (error) {
-      logger.error('Error al mover archivo', {
-        taskId,
-        sourcePath,
-        error: error instanceof Error ? error.message : 'unknown',
-      });
-      return sourcePath;
+    const quote = verifyQuoteToken(quoteToken);
+    if (quote.fingerprint !== this.pricingService.fingerprint(input)) {
+      throw new BusinessError(
+        'El presupuesto no corresponde a esta imagen y opciones',
+        'QUOTE_MISMATCH',
+        409
+      );
     }
+    return this.pricingService.calculate(input, quote.version);
   }
 
   /**
    * @private
-   * @method generateRandomPrice
-   * @description Genera un precio aleatorio entre 5 y 50 unidades monetarias
-   * @returns {number} Precio entero aleatorio
-   */
-  private generateRandomPrice(): number {
-    return (
-      Math.floor(Math.random() * (TaskService.MAX_PRICE - TaskService.MIN_PRICE + 1)) +
-      TaskService.MIN_PRICE
+   * @method resolveVariants
+   * @description Normaliza y valida las variantes solicitadas. En peticiones multipart el campo
+   * llega como cadena JSON y no pasa por `validationMiddleware`, por lo que se valida aquí.
+   * @param {unknown} raw - Valor de `variants` recibido en el body
+   * @returns {Promise<VariantSpec[] | undefined>} Variantes normalizadas o undefined si no se indicaron
+   * @throws {BusinessError} Si el valor no es un array de variantes válido
+   */
+  private async resolveVariants(raw: unknown): Promise<VariantSpec[] | undefined> {
+    if (raw === undefined || raw === null || raw === '') {
+      return undefined;
+    }
+
+    const parsed = this.parseJsonField(raw, 'variants', 'INVALID_VARIANTS');
+
+    if (!Array.isArray(parsed) || parsed.length === 0 || parsed.length > 10) {
+      throw new BusinessError(
+        'variants debe ser un array de entre 1 y 10 variantes',
+        'INVALID_VARIANTS',
+        400
+      );
+    }
+
+    const specs = plainToInstance(VariantSpecDto, parsed as object[]);
+    const errors = (await Promise.all(specs.map(spec => validate(spec)))).flat();
+    if (errors.length > 0) {
+      throw new BusinessError('Especificación de variantes inválida', 'INVALID_VARIANTS', 400, {
+        errors: this.collectConstraints(errors),
+      });
+    }
+
+    return specs.map(({ width, height, fit, position, background, format, encoder }) => ({
+      width,
+      ...(height && { height }),
+      ...(fit && { fit }),
+      ...(position && { position }),
+      ...(background && { background }),
+      ...(format && { format }),
+      ...(encoder && { encoder: { ...encoder } }),
+    }));
+  }
+
+  /**
+   * @private
+   * @method collectConstraints
+   * @description Aplana los mensajes de validación incluyendo los de objetos anidados
+   * @param {ValidationError[]} errors - Errores de class-validator
+   * @returns {string[]} Mensajes de error
+   */
+  private collectConstraints(errors: ValidationError[]): string[] {
+    return errors.flatMap(error => [
+      ...Object.values(error.constraints ?? {}),
+      ...this.collectConstraints(error.children ?? []),
+    ]);
+  }
+
+  /**
+   * @private
+   * @method resolveOverlay
+   * @description Valida la superposición solicitada y comprueba que la marca de agua referenciada exista.
+   * Acepta el objeto directamente o como cadena JSON (multipart/form-data).
+   * @param {unknown} raw - Valor recibido en el cuerpo de la petición
+   * @returns {Promise<OverlaySpec | undefined>} Superposición normalizada o undefined si no se indicó
+   * @throws {BusinessError} Si la superposición no es válida o la marca de agua no existe
+   */
+  private async resolveOverlay(raw: unknown): Promise<OverlaySpec | undefined> {
+    if (raw === undefined || raw === null || raw === '') {
+      return undefined;
+    }
+
+    const parsed = this.parseJsonField(raw, 'overlay', 'INVALID_OVERLAY');
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new BusinessError('overlay debe ser un objeto', 'INVALID_OVERLAY', 400);
+    }
+
+    const spec = plainToInstance(OverlaySpecDto, parsed);
+    const errors = await validate(spec);
+    if (errors.length > 0) {
+      throw new BusinessError('Especificación de superposición inválida', 'INVALID_OVERLAY', 400, {
+        errors: this.collectConstraints(errors),
+      });
+    }
+
+    if (spec.type === 'image') {
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      const watermark = await this.watermarkRepository.findById(spec.watermarkId!);
+      if (!watermark) {
+        throw new BusinessError(
+          `La marca de agua ${spec.watermarkId} no existe`,
+          'WATERMARK_NOT_FOUND',
+          400
+        );
+      }
+    }
+
+    const { type, watermarkId, text, ...options } = spec;
+    const definedOptions = Object.fromEntries(
+      Object.entries(options).filter(([, value]) => value !== undefined)
+    );
+
+    return {
+      type,
+      ...(type === 'image' ? { watermarkId } : { text }),
+      ...definedOptions,
+    };
+  }
+
+  /**
+   * @private
+   * @method resolveMetadataPolicy
+   * @description Valida la política de metadatos solicitada.
+   * Acepta el objeto directamente o como cadena JSON (multipart/form-data).
+   * @param {unknown} raw - Valor recibido en el cuerpo de la petición
+   * @returns {Promise<MetadataPolicy | undefined>} Política normalizada o undefined si no se indicó
+   * @throws {BusinessError} Si la política no es válida
+   */
+  private async resolveMetadataPolicy(raw: unknown): Promise<MetadataPolicy | undefined> {
+    if (raw === undefined || raw === null || raw === '') {
+      return undefined;
+    }
+
+    const parsed = this.parseJsonField(raw, 'metadataPolicy', 'INVALID_METADATA_POLICY');
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new BusinessError('metadataPolicy debe ser un objeto', 'INVALID_METADATA_POLICY', 400);
+    }
+
+    const policy = plainToInstance(MetadataPolicyDto, parsed);
+    const errors = await validate(policy);
+    if (errors.length > 0) {
+      throw new BusinessError('Política de metadatos inválida', 'INVALID_METADATA_POLICY', 400, {
+        errors: this.collectConstraints(errors),
+      });
+    }
+
+    return {
+      mode: policy.mode,
+      ...(policy.keepIcc !== undefined && { keepIcc: policy.keepIcc }),
+    };
+  }
+
+  /**
+   * @private
+   * @method resolvePriority
+   * @description Valida la prioridad solicitada
+   * @param {unknown} raw - Valor recibido
+   * @returns {number | undefined} Prioridad o undefined si no se indica
+   * @throws {BusinessError} Si no es un entero dentro del rango admitido
+   */
+  private resolvePriority(raw: unknown): number | undefined {
+    if (raw === undefined || raw === null || raw === '') {
+      return undefined;
+    }
+
+    const priority = Number(raw);
+    if (
+      !Number.isInteger(priority) ||
+      priority < TASK_PRIORITY.HIGHEST ||
+      priority > TASK_PRIORITY.LOWEST
+    ) {
+      throw new BusinessError(
+        `priority debe ser un entero entre ${TASK_PRIORITY.HIGHEST} y ${TASK_PRIORITY.LOWEST}`,
+        'INVALID_PRIORITY',
+        400
+      );
+    }
+
+    return priority;
+  }
+
+  /**
+   * @private
+   * @method resolveProcessAt
+   * @description Valida el momento de procesamiento solicitado. Una fecha pasada se procesa en cuanto
+   * haya hueco en la cola
+   * @param {unknown} raw - Valor recibido
+   * @returns {Date | undefined} Fecha o undefined si no se indica
+   * @throws {BusinessError} Si no es una fecha válida
+   */
+  private resolveProcessAt(raw: unknown): Date | undefined {
+    if (raw === undefined || raw === null || raw === '') {
+      return undefined;
+    }
+
+    const processAt = typeof raw === 'string' ? new Date(raw) : undefined;
+    if (!processAt || Number.isNaN(processAt.getTime())) {
+      throw new BusinessError(
+        'processAt debe ser una fecha ISO 8601 válida',
+        'INVALID_PROCESS_AT',
+        400
+      );
+    }
+
+    return processAt;
+  }
+
+  /**
+   * @private
+   * @method resolveLabels
+   * @description Valida el identificador externo, las etiquetas y los metadatos indicados en el cuerpo
+   * de la petición
+   * @param {Partial<CreateTaskDto>} [body] - Cuerpo de la petición
+   * @returns {TaskLabels | undefined} Datos definidos o undefined si no hay ninguno
+   * @throws {BusinessError} Si alguno no es válido
+   */
+  private resolveLabels(body?: Partial<CreateTaskDto>): TaskLabels | undefined {
+    const externalId = this.resolveExternalId(body?.externalId);
+    const tags = this.resolveTags(body?.tags);
+    const metadata = this.resolveMetadata(body?.metadata);
+
+    if (!externalId && !tags && !metadata) {
+      return undefined;
+    }
+
+    return {
+      ...(externalId && { externalId }),
+      ...(tags && { tags }),
+      ...(metadata && { metadata }),
+    };
+  }
+
+  /**
+   * @private
+   * @method resolveExternalId
+   * @description Valida el identificador con el que el cliente correlaciona la tarea
+   * @param {unknown} raw - Valor recibido
+   * @returns {string | undefined} Identificador o undefined si no se indica
+   * @throws {BusinessError} Si no es una cadena de longitud válida
+   */
+  private resolveExternalId(raw: unknown): string | undefined {
+    if (raw === undefined || raw === null || raw === '') {
+      return undefined;
+    }
+
+    const externalId = typeof raw === 'string' ? raw.trim() : '';
+    if (!externalId || externalId.length > TASK_LABEL_LIMITS.EXTERNAL_ID_LENGTH) {
+      throw new BusinessError(
+        `externalId debe ser una cadena de entre 1 y ${TASK_LABEL_LIMITS.EXTERNAL_ID_LENGTH} caracteres`,
+        'INVALID_EXTERNAL_ID',
+        400
+      );
+    }
+
+    return externalId;
+  }
+
+  /**
+   * @private
+   * @method resolveTags
+   * @description Valida y normaliza las etiquetas. En peticiones multipart llegan como array JSON o
+   * como lista separada por comas; las repetidas se descartan
+   * @param {unknown} raw - Valor recibido
+   * @returns {string[] | undefined} Etiquetas o undefined si no hay ninguna
+   * @throws {BusinessError} Si alguna etiqueta no es válida o se supera el máximo
+   */
+  private resolveTags(raw: unknown): string[] | undefined {
+    if (raw === undefined || raw === null || raw === '') {
+      return undefined;
+    }
+
+    const parsed =
+      typeof raw === 'string' && !raw.trim().startsWith('[')
+        ? raw.split(',')
+        : this.parseJsonField(raw, 'tags', 'INVALID_TAGS');
+
+    const tags = Array.isArray(parsed)
+      ? parsed.map(tag => (typeof tag === 'string' ? tag.trim() : ''))
+      : [];
+    const invalid = tags.some(
+      tag => !tag || tag.length > TASK_LABEL_LIMITS.TAG_LENGTH || tag.includes(',')
+    );
+
+    if (!Array.isArray(parsed) || invalid) {
+      throw new BusinessError(
+        `tags debe ser una lista de cadenas de entre 1 y ${TASK_LABEL_LIMITS.TAG_LENGTH} caracteres sin comas`,
+        'INVALID_TAGS',
+        400
+      );
+    }
+
+    const unique = [...new Set(tags)];
+    if (unique.length > TASK_LABEL_LIMITS.MAX_TAGS) {
+      throw new BusinessError(
+        `tags admite como máximo ${TASK_LABEL_LIMITS.MAX_TAGS} etiquetas`,
+        'INVALID_TAGS',
+        400
+      );
+    }
+
+    return unique.length ? unique : undefined;
+  }
+
+  /**
+   * @private
+   * @method resolveMetadata
+   * @description Valida los metadatos libres del cliente: un objeto plano acotado en número de
+   * claves y longitud, con valores de tipo cadena, número o booleano
+   * @param {unknown} raw - Valor recibido
+   * @returns {Record<string, TaskMetadataValue> | undefined} Metadatos o undefined si está vacío
+   * @throws {BusinessError} Si no es un objeto válido
+   */
+  private resolveMetadata(raw: unknown): Record<string, TaskMetadataValue> | undefined {
+    if (raw === undefined || raw === null || raw === '') {
+      return undefined;
+    }
+
+    const parsed = this.parseJsonField(raw, 'metadata', 'INVALID_METADATA');
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new BusinessError('metadata debe ser un objeto', 'INVALID_METADATA', 400);
+    }
+
+    const entries = Object.entries(parsed);
+    const errors = [
+      ...(entries.length > TASK_LABEL_LIMITS.MAX_METADATA_KEYS
+        ? [`metadata admite como máximo ${TASK_LABEL_LIMITS.MAX_METADATA_KEYS} claves`]
+        : []),
+      ...entries.flatMap(([key, value]) => this.validateMetadataEntry(key, value)),
+    ];
+
+    if (errors.length > 0) {
+      throw new BusinessError('Metadatos inválidos', 'INVALID_METADATA', 400, { errors });
+    }
+
+    return entries.length ? (parsed as Record<string, TaskMetadataValue>) : undefined;
+  }
+
+  /**
+   * @private
+   * @method validateMetadataEntry
+   * @description Comprueba una clave de los metadatos y su valor. Las claves no pueden empezar por
+   * `$` ni contener `.` porque se guardan tal cual en MongoDB
+   * @param {string} key - Clave
+   * @param {unknown} value - Valor
+   * @returns {string[]} Mensajes de error
+   */
+  private validateMetadataEntry(key: string, value: unknown): string[] {
+    const errors: string[] = [];
+
+    if (!key || key.length > TASK_LABEL_LIMITS.METADATA_KEY_LENGTH || /^\$|\./.test(key)) {
+      errors.push(
+        `La clave "${key}" debe tener entre 1 y ${TASK_LABEL_LIMITS.METADATA_KEY_LENGTH} caracteres, sin "." ni "$" inicial`
+      );
+    }
+
+    const valid =
+      typeof value === 'boolean' ||
+      (typeof value === 'number' && Number.isFinite(value)) ||
+      (typeof value === 'string' && value.length <= TASK_LABEL_LIMITS.METADATA_VALUE_LENGTH);
+
+    if (!valid) {
+      errors.push(
+        `El valor de ${key} debe ser un número, un booleano o una cadena de como máximo ${TASK_LABEL_LIMITS.METADATA_VALUE_LENGTH} caracteres`
+      );
+    }
+
+    return errors;
+  }
+
+  /**
+   * @private
+   * @method parseJsonField
+   * @description Interpreta un campo que puede llegar como cadena JSON en peticiones multipart
+   * @param {unknown} raw - Valor recibido
+   * @param {string} field - Nombre del campo para el mensaje de error
+   * @param {string} code - Código de error a utilizar
+   * @returns {unknown} Valor interpretado
+   * @throws {BusinessError} Si la cadena no es un JSON válido
+   */
+  private parseJsonField(raw: unknown, field: string, code: string): unknown {
+    if (typeof raw !== 'string') {
+      return raw;
+    }
+
+    try {
+      return JSON.parse(raw);
+    } catch {
+      throw new BusinessError(`${field} debe ser un JSON válido`, code, 400);
+    }
+  }
+
+  /**
+   * @private
+   * @method getProcessingOptions
+   * @description Reúne las opciones de procesamiento que deben viajar con el trabajo encolado
+   * @param {TaskProcessingOptions} options - Variantes, superposición y política de metadatos de la tarea
+   * @returns {TaskProcessingOptions | undefined} Opciones definidas o undefined si no hay ninguna
+   */
+  private getProcessingOptions({
+    variants,
+    overlay,
+    metadataPolicy,
+  }: TaskProcessingOptions): TaskProcessingOptions | undefined {
+    if (!variants?.length && !overlay && !metadataPolicy) {
+      return undefined;
+    }
+
+    return {
+      ...(variants?.length && { variants }),
+      ...(overlay && { overlay }),
+      ...(metadataPolicy && { metadataPolicy }),
+    };
+  }
+
+  /**
+   * @private
+   * @method enqueueTask
+   * @description Encola el trabajo de una tarea con sus opciones de procesamiento y su planificación
+   * @param {string} taskId - ID de la tarea
+   * @param {string} imagePath - Ruta de la imagen original
+   * @param {TaskProcessingOptions} [processing] - Opciones de procesamiento
+   * @param {TaskJobOptions} [options] - Prioridad y momento de procesamiento
+   * @returns {Promise<void>}
+   */
+  private enqueueTask(
+    taskId: string,
+    imagePath: string,
+    processing?: TaskProcessingOptions,
+    options?: TaskJobOptions
+  ): Promise<void> {
+    if (options) {
+      return this.queue.addTask(taskId, imagePath, processing, options);
+    }
+
+    return processing
+      ? this.queue.addTask(taskId, imagePath, processing)
+      : this.queue.addTask(taskId, imagePath);
+  }
+
+  /**
+   * @private
+   * @method getQueuePriority
+   * @description Conserva la prioridad de la tarea al volver a encolarla
+   * @param {TaskEntity} task - Tarea a encolar
+   * @returns {TaskSchedule | undefined} Prioridad de la tarea o undefined si no se indicó
+   */
+  private getQueuePriority(task: TaskEntity): TaskSchedule | undefined {
+    return task.priority ? { priority: task.priority } : undefined;
+  }
+
+  /**
+   * @private
+   * @method findPendingTask
+   * @description Obtiene una tarea cuya planificación se quiere modificar
+   * @param {string} taskId - ID de la tarea
+   * @param {string} action - Acción solicitada, para los mensajes de error
+   * @returns {Promise<TaskEntity>} Tarea pendiente
+   * @throws {NotFoundError} Si la tarea no existe
+   * @throws {BusinessError} Si la tarea no está pendiente
+   */
+  private async findPendingTask(taskId: string, action: string): Promise<TaskEntity> {
+    const task = await this.repository.findById(taskId);
+
+    if (!task || task.deletedAt) {
+      throw new NotFoundError(`La tarea con ID ${taskId} no existe`);
+    }
+
+    if (task.status !== TaskStatus.PENDING) {
+      logger.warn('Intento de modificar la planificación de una tarea no pendiente', {
+        taskId,
+        currentStatus: task.status,
+      });
+      throw new BusinessError(
+        `Solo se pueden ${action} tareas pendientes. Estado actual: ${task.status}`,
+        'INVALID_SCHEDULE_STATE',
+        400
+      );
+    }
+
+    return task;
+  }
+
+  /**
+   * @private
+   * @method reprocessInProgressError
+   * @description Construye el error de reprocesado concurrente
+   * @param {string} taskId - ID de la tarea
+   * @returns {BusinessError} Error 409
+   */
+  private reprocessInProgressError(taskId: string): BusinessError {
+    logger.warn('Intento de reprocesado con otra generación en curso', { taskId });
+    return new BusinessError(
+      'La tarea ya tiene un reprocesado en curso',
+      'REPROCESS_IN_PROGRESS',
+      409
     );
   }
 
+  /**
+   * @private
+   * @method invalidateTaskCache
+   * @description Invalida la caché de la tarea y los listados y totales en los que aparece. Un fallo
+   * de Redis no impide la operación porque las entradas caducan solas
+   * @param {string} taskId - ID de la tarea
+   * @returns {Promise<void>}
+   */
+  private async invalidateTaskCache(taskId: string): Promise<void> {
+    if (!this.cacheService) {
+      return;
+    }
+
+    try {
+      await Promise.all([
+        this.cacheService.invalidatePattern(`task:${taskId}`),
+        this.cacheService.invalidatePattern('tasks:list:*'),
+        this.cacheService.invalidatePattern('tasks:count:*'),
+      ]);
+    } catch (error) {
+      logger.warn('No se pudo invalidar la caché de la tarea', {
+        taskId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * @private
+   * @method getRestoreDeadline
+   * @description Calcula hasta cuándo puede restaurarse una tarea eliminada
+   * @param {Date} deletedAt - Fecha de eliminación
+   * @returns {Date} Fin del periodo de gracia
+   */
+  private getRestoreDeadline(deletedAt: Date): Date {
+    return new Date(deletedAt.getTime() + envs.TASK_DELETION.GRACE_PERIOD * 1000);
+  }
+
+  /**
+   * @private
+   * @method moveImageToTaskDirectory
+   * @description Mueve la imagen desde el directorio temporal al directorio de la tarea
+   * @param {string} taskId - ID de la tarea
+   * @param {string} sourcePath - Ruta origen
+   * @returns {Promise<string>} Ruta final de la imagen
+   */
+  private async moveImageToTaskDirectory(taskId: string, sourcePath: string): Promise<string> {
+    try {
+      const taskDir = path.join(TaskService.STORAGE_BASE_PATH, taskId);
+      await fs.mkdir(taskDir, { recursive: true });
+
+      const fileName = path.basename(sourcePath);
+      const destPath = path.join(taskDir, fileName);
+
+      try {
+        await fs.access(sourcePath);
+        await fs.rename(sourcePath, destPath);
+        return destPath;
+      } catch (accessError) {
+        logger.warn('Archivo origen no accesible', {
+          taskId,
+          originalPath: sourcePath,
+          error: accessError instanceof Error ? accessError.message : 'unknown',
+        });
+        return sourcePath;
+      }
+    } catch (error) {
+      logger.error('Error al mover archivo', {
+        taskId,
+        sourcePath,
+        error: error instanceof Error ? error.message : 'unknown',
+      });
+      return sourcePath;
+    }
+  }
+
+  /**
+   * @private
+   * @method mapGenerations
+   * @description Resume las generaciones de procesamiento de una tarea reprocesada. Las rutas en
+   * disco de las imágenes no se exponen.
+   * @param {TaskEntity} task - La entidad de la tarea.
+   * @returns {Pick<TaskResponseDto, 'generation' | 'generations'>} Generación vigente e historial.
+   */
+  private mapGenerations(task: TaskEntity): Pick<TaskResponseDto, 'generation' | 'generations'> {
+    if (!task.generations?.length) {
+      return {};
+    }
+
+    return {
+      generation: task.generation ?? 1,
+      generations: task.generations.map(({ images, ...generation }) => ({
+        ...generation,
+        ...(images?.length && {
+          images: images.map(({ resolution, format }) => ({ resolution, format })),
+        }),
+      })),
+    };
+  }
+
+  /**
+   * @private
+   * @method mapSchedule
+   * @description Extrae la prioridad y el momento de procesamiento de una tarea, si se indicaron.
+   * @param {TaskEntity} task - La entidad de la tarea.
+   * @returns {Pick<TaskResponseDto, 'priority' | 'processAt'>} Planificación de la tarea.
+   */
+  private mapSchedule(task: TaskEntity): Pick<TaskResponseDto, 'priority' | 'processAt'> {
+    return {
+      ...(task.priority && { priority: task.priority }),
+      ...(task.processAt && { processAt: task.processAt }),
+    };
+  }
+
+  /**
+   * @private
+   * @method assertOriginalAvailable
+   * @description Comprueba que la política de retención no ha eliminado el original de la tarea,
+   * necesario para volver a procesarla.
+   * @param {TaskEntity} task - La entidad de la tarea.
+   * @throws {BusinessError} Si el original ha caducado
+   */
+  private assertOriginalAvailable(task: TaskEntity): void {
+    if (task.expiredAt?.original) {
+      throw new BusinessError(
+        'El original de la tarea se eliminó por la política de retención',
+        'ORIGINAL_EXPIRED',
+        410,
+        { expiredAt: task.expiredAt.original }
+      );
+    }
+  }
+
+  /**
+   * @private
+   * @method mapImages
+   * @description Extrae los enlaces de las variantes de una tarea completada, salvo que la política
+   * de retención las haya eliminado, y las fechas de caducidad de sus archivos.
+   * @param {TaskEntity} task - La entidad de la tarea.
+   * @returns {Pick<TaskResponseDto, 'images' | 'expiredAt'>} Variantes y caducidad de la tarea.
+   */
+  private mapImages(task: TaskEntity): Pick<TaskResponseDto, 'images' | 'expiredAt'> {
+    const available = task.status === TaskStatus.COMPLETED && !task.expiredAt?.variants;
+
+    return {
+      ...(available &&
+        task.images?.length && { images: toVariantLinks(String(task._id), task.images) }),
+      ...(task.expiredAt && { expiredAt: task.expiredAt }),
+    };
+  }
+
+  /**
+   * @private
+   * @method mapLabels
+   * @description Extrae el identificador externo, las etiquetas y los metadatos de una tarea, si se indicaron.
+   * @param {TaskEntity} task - La entidad de la tarea.
+   * @returns {TaskLabels} Datos de correlación de la tarea.
+   */
+  private mapLabels(task: TaskEntity): TaskLabels {
+    return {
+      ...(task.externalId && { externalId: task.externalId }),
+      ...(task.tags?.length && { tags: task.tags }),
+      ...(task.metadata && { metadata: task.metadata }),
+    };
+  }
+
+  /**
+   * @private
+   * @method resolveCursor
+   * @description Decodifica el cursor recibido. La paginación por cursor se basa en la fecha de
+   * creación, así que no admite otros campos de orden
+   * @param {string | undefined} value - Cursor recibido; vacío o ausente para la primera página
+   * @param {TaskSort} sort - Orden solicitado
+   * @returns {TaskCursor | undefined} Posición desde la que continuar
+   * @throws {BusinessError} Si el orden no es por fecha de creación o el cursor no es válido
+   */
+  private resolveCursor(value: string | undefined, sort: TaskSort): TaskCursor | undefined {
+    if (sort.field !== 'createdAt') {
+      throw new BusinessError(
+        'La paginación por cursor solo admite ordenar por createdAt',
+        'INVALID_CURSOR_SORT',
+        400
+      );
+    }
+
+    if (!value) {
+      return undefined;
+    }
+
+    const cursor = decodeTaskCursor(value);
+    if (!cursor) {
+      throw new BusinessError('El cursor no es válido', 'INVALID_CURSOR', 400);
+    }
+
+    return cursor;
+  }
+
+  /**
+   * @private
+   * @method getCursorLinks
+   * @description Calcula los cursores de la página siguiente y anterior. Al retroceder siempre hay
+   * página siguiente (la de partida) y la anterior existe si quedaban más resultados; al avanzar es
+   * al revés
+   * @param {TaskEntity[]} tasks - Tareas de la página, en el orden solicitado
+   * @param {TaskCursor | undefined} cursor - Posición de la que parte la página
+   * @param {boolean} hasMore - Si quedaban más tareas en el sentido del recorrido
+   * @returns {{ nextCursor: string | null; prevCursor: string | null }} Cursores de navegación
+   */
+  private getCursorLinks(
+    tasks: TaskEntity[],
+    cursor: TaskCursor | undefined,
+    hasMore: boolean
+  ): { nextCursor: string | null; prevCursor: string | null } {
+    if (tasks.length === 0) {
+      return { nextCursor: null, prevCursor: null };
+    }
+
+    const backwards = cursor?.direction === 'prev';
+    const hasNext = backwards || hasMore;
+    const hasPrev = backwards ? hasMore : cursor !== undefined;
+
+    return {
+      nextCursor: hasNext ? encodeTaskCursor(tasks[tasks.length - 1], 'next') : null,
+      prevCursor: hasPrev ? encodeTaskCursor(tasks[0], 'prev') : null,
+    };
+  }
+
+  /**
+   * @private
+   * @method countTasks
+   * @description Cuenta las tareas que cumplen los filtros sirviendo el total desde la caché, con la
+   * misma clave que `ListTasksQuery`. Si Redis no está disponible se cuenta en la base de datos
+   * @param {TaskFilter} filter - Criterios normalizados
+   * @returns {Promise<number>} Total de tareas
+   */
+  private async countTasks(filter: TaskFilter): Promise<number> {
+    if (!this.cacheService) {
+      return await this.repository.count(filter);
+    }
+
+    const key = `tasks:count:${generateMD5(JSON.stringify(filter)).substring(0, 16)}`;
+    try {
+      return await this.cacheService.getOrSet(
+        key,
+        () => this.repository.count(filter),
+        TaskService.COUNT_TTL
+      );
+    } catch (error) {
+      logger.warn('No se pudo obtener el total de tareas desde la caché', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return await this.repository.count(filter);
+    }
+  }
+
   /**
    * @private
    * @method mapEntityToDto
@@ -402,18 +1757,43 @@ export class TaskService {
     const response: TaskResponseDto = {
       // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
       taskId: task._id!.toString(),
-      status: task.status as 'pending' | 'processing' | 'completed' | 'failed',
+      status: task.status as 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled',
       price: task.price,
+      ...(task.pricing && { pricing: task.pricing }),
     };
 
-    if (task.status === TaskStatus.COMPLETED && task.images?.length) {
-      response.images = task.images;
+    if (task.variants?.length) {
+      response.variants = task.variants;
+    }
+
+    if (task.overlay) {
+      response.overlay = task.overlay;
+    }
+
+    if (task.metadataPolicy) {
+      response.metadataPolicy = task.metadataPolicy;
+    }
+
+    if (task.source) {
+      response.source = task.source;
+    }
+
+    if (task.sourceMetadata) {
+      response.sourceMetadata = task.sourceMetadata;
     }
 
     if (task.status === TaskStatus.FAILED && task.error) {
       response.error = task.error;
     }
 
+    Object.assign(
+      response,
+      this.mapImages(task),
+      this.mapSchedule(task),
+      this.mapLabels(task),
+      this.mapGenerations(task)
+    );
+
     if (task.createdAt) {
       response.createdAt = task.createdAt;
     }
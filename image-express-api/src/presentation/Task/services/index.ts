@@ -1 +1,2 @@
 export { TaskService } from './TaskService';
+export { TaskPurgeService } from './TaskPurgeService';
@@ -0,0 +1,52 @@
+import { Request, Response, NextFunction } from 'express';
+import { WatermarkService } from '../services';
+import { GetWatermarkParamsDto } from '@domain/dtos';
+
+/**
+ * @class WatermarkController
+ * @description Controlador para la subida y consulta de marcas de agua.
+ */
+export class WatermarkController {
+  /**
+   * @constructor
+   * @param {WatermarkService} watermarkService - Servicio de marcas de agua
+   */
+  constructor(private readonly watermarkService: WatermarkService) {}
+
+  /**
+   * @method create
+   * @async
+   * @description Registra una nueva marca de agua a partir del archivo subido
+   * @param {Request} req - Petición con el archivo en el campo 'image'
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {NextFunction} next - Función para pasar al siguiente middleware
+   * @returns {Promise<void>}
+   */
+  async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await this.watermarkService.createFromUpload(req.file);
+      res.status(201).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @method getById
+   * @async
+   * @description Obtiene los datos de una marca de agua
+   * @param {Request} req - Petición con el ID en los parámetros
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {NextFunction} next - Función para pasar al siguiente middleware
+   * @returns {Promise<void>}
+   */
+  async getById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { watermarkId } = req.params as unknown as GetWatermarkParamsDto;
+      const result = await this.watermarkService.getWatermarkById(watermarkId);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
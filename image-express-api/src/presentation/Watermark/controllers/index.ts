@@ -0,0 +1 @@
+export { WatermarkController } from './WatermarkController';
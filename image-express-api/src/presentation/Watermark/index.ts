@@ -0,0 +1,4 @@
+export * from './controllers/WatermarkController';
+export * from './repositories/WatermarkRepository';
+export * from './routes/WatermarkRoutes';
+export * from './services/WatermarkService';
@@ -0,0 +1 @@
+export { WatermarkRepository } from './WatermarkRepository';
@@ -0,0 +1,60 @@
+/**
+ * Configuración de rutas para el módulo de marcas de agua
+ * @class WatermarkRoutes
+ */
+import { Router } from 'express';
+import { WatermarkController } from '../controllers';
+import { WatermarkRepository } from '../repositories';
+import { WatermarkService } from '../services';
+import { DatabaseConnector } from '@infrastructure/databases';
+import { uploadToDisk } from '@infrastructure/upload/MulterConfig';
+import { paramsValidationMiddleware } from '@presentation/Bootstrap/middlewares';
+import { GetWatermarkParamsDto } from '@domain/dtos';
+
+export class WatermarkRoutes {
+  /**
+   * @static
+   * @getter
+   * @description Construye el router de marcas de agua con sus dependencias.
+   * @returns {Router} Router con las rutas de marcas de agua configuradas.
+   */
+  static get routes(): Router {
+    const router = Router();
+    const controller = this.createWatermarkController();
+
+    /**
+     * @route POST /watermarks
+     * @description Sube una imagen para usarla como marca de agua en las tareas.
+     * @middleware uploadToDisk.single('image') - Procesa la subida del archivo.
+     */
+    router.post('/watermarks', [uploadToDisk.single('image')], controller.create.bind(controller));
+
+    /**
+     * @route GET /watermarks/:watermarkId
+     * @description Consulta una marca de agua registrada.
+     * @middleware paramsValidationMiddleware - Valida que el `watermarkId` sea un ObjectId.
+     */
+    router.get(
+      '/watermarks/:watermarkId',
+      [paramsValidationMiddleware(GetWatermarkParamsDto)],
+      controller.getById.bind(controller)
+    );
+
+    return router;
+  }
+
+  /**
+   * @private
+   * @static
+   * @method createWatermarkController
+   * @description Crea el `WatermarkController` con sus dependencias.
+   * @returns {WatermarkController} Controlador configurado.
+   */
+  private static createWatermarkController(): WatermarkController {
+    const db = DatabaseConnector.getImageDb();
+    const repository = new WatermarkRepository(db);
+    const service = new WatermarkService(repository);
+
+    return new WatermarkController(service);
+  }
+}
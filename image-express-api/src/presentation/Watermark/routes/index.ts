@@ -0,0 +1 @@
+export { WatermarkRoutes } from './WatermarkRoutes';
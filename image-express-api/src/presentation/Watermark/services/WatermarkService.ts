@@ -0,0 +1,103 @@
+import { WatermarkRepository } from '../repositories';
+import { BusinessError, NotFoundError } from '@core/errors';
+import { WatermarkEntity } from '@domain/entities';
+import { WatermarkResponseDto } from '@domain/dtos';
+import { logger } from '@core/helpers/logger';
+import { getWatermarkStoragePath } from '@core/helpers/fileDirectory';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * @class WatermarkService
+ * @description Gestiona las marcas de agua subidas por los clientes. Los archivos se guardan
+ * en el almacenamiento de marcas de agua para que el worker pueda componerlos sobre las variantes.
+ */
+export class WatermarkService {
+  private static readonly ALLOWED_MIME_TYPES = ['image/png', 'image/webp', 'image/jpeg'];
+
+  /**
+   * @constructor
+   * @param {WatermarkRepository} repository - Repositorio de marcas de agua
+   */
+  constructor(private readonly repository: WatermarkRepository) {}
+
+  /**
+   * @method createFromUpload
+   * @description Registra una marca de agua a partir de un archivo subido, moviéndolo al
+   * almacenamiento definitivo de marcas de agua. Si el tipo no está soportado, el archivo subido
+   * se elimina.
+   * @param {Express.Multer.File} [file] - Archivo subido por Multer
+   * @returns {Promise<WatermarkResponseDto>} Marca de agua registrada
+   * @throws {BusinessError} Si no se proporciona archivo o su tipo no está soportado
+   */
+  async createFromUpload(file?: Express.Multer.File): Promise<WatermarkResponseDto> {
+    if (!file) {
+      throw new BusinessError('Se requiere un archivo de imagen', 'FILE_REQUIRED', 400);
+    }
+
+    if (!WatermarkService.ALLOWED_MIME_TYPES.includes(file.mimetype)) {
+      await fs.rm(file.path, { force: true });
+      throw new BusinessError(
+        'Tipo de archivo no soportado. Solo se permiten: PNG, WebP, JPEG',
+        'INVALID_FILE_TYPE',
+        400
+      );
+    }
+
+    const storageDir = getWatermarkStoragePath();
+    const destination = path.join(storageDir, path.basename(file.path));
+
+    await fs.mkdir(storageDir, { recursive: true });
+    await fs.rename(file.path, destination);
+
+    const watermark = await this.repository.create({
+      name: file.originalname,
+      path: destination,
+      mimeType: file.mimetype,
+      size: file.size,
+    });
+
+    logger.info('Marca de agua registrada', {
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      watermarkId: watermark._id!.toString(),
+      path: destination,
+    });
+
+    return this.mapEntityToDto(watermark);
+  }
+
+  /**
+   * @method getWatermarkById
+   * @description Obtiene una marca de agua por su ID
+   * @param {string} watermarkId - Identificador de la marca de agua
+   * @returns {Promise<WatermarkResponseDto>} Marca de agua encontrada
+   * @throws {NotFoundError} Si la marca de agua no existe
+   */
+  async getWatermarkById(watermarkId: string): Promise<WatermarkResponseDto> {
+    const watermark = await this.repository.findById(watermarkId);
+
+    if (!watermark) {
+      throw new NotFoundError(`La marca de agua con ID ${watermarkId} no existe`);
+    }
+
+    return this.mapEntityToDto(watermark);
+  }
+
+  /**
+   * @private
+   * @method mapEntityToDto
+   * @description Transforma la entidad en el DTO de respuesta sin exponer la ruta en disco
+   * @param {WatermarkEntity} watermark - Entidad de marca de agua
+   * @returns {WatermarkResponseDto} DTO de respuesta
+   */
+  private mapEntityToDto(watermark: WatermarkEntity): WatermarkResponseDto {
+    return {
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      watermarkId: watermark._id!.toString(),
+      name: watermark.name,
+      mimeType: watermark.mimeType,
+      size: watermark.size,
+      ...(watermark.createdAt && { createdAt: watermark.createdAt }),
+    };
+  }
+}
@@ -0,0 +1 @@
+export { WatermarkService } from './WatermarkService';
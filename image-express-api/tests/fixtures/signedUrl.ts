@@ -0,0 +1,11 @@
+import { expect } from '@jest/globals';
+
+/**
+ * Comprueba que una URL de descarga es la ruta indicada firmada con `expires` y `signature`
+ * @param {string} path - Ruta esperada, sin query parameters
+ * @returns {unknown} Matcher asimétrico de Jest
+ */
+export function signedUrl(path: string): unknown {
+  const escaped = path.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return expect.stringMatching(new RegExp(`^${escaped}\\?expires=\\d+&signature=[\\w-]+$`));
+}
@@ -219,7 +219,10 @@ describe('Task Endpoints Flow', () => {
       expect(response.body).toHaveProperty('images');
       expect(response.body.images).toHaveLength(2);
       expect(response.body.images[0]).toHaveProperty('resolution');
-      expect(response.body.images[0]).toHaveProperty('path');
+      expect(response.body.images[0].url).toMatch(
+        new RegExp(`^/api/v1/tasks/${taskId}/images/1024\\.jpg\\?expires=\\d+&signature=`)
+      );
+      expect(response.body.images[0]).not.toHaveProperty('path');
     });
 
     /**
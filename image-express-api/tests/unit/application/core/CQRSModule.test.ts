@@ -231,13 +231,13 @@ describe('CQRSModule', () => {
       };
       
       mockTaskRepository.findById.mockResolvedValue(existingTask);
-      mockTaskRepository.updateStatus.mockResolvedValue();
+      mockTaskRepository.updateStatus.mockResolvedValue(true);
       mockCacheService.invalidatePattern.mockResolvedValue();
       
       await mediator.send(command);
       
       expect(mockTaskRepository.findById).toHaveBeenCalledWith('task-123');
-      expect(mockTaskRepository.updateStatus).toHaveBeenCalledWith('task-123', TaskStatus.COMPLETED, undefined);
+      expect(mockTaskRepository.updateStatus).toHaveBeenCalledWith('task-123', TaskStatus.COMPLETED, undefined, expect.objectContaining({ to: TaskStatus.COMPLETED }));
       expect(mockCacheService.invalidatePattern).toHaveBeenCalledWith('task:task-123');
     });
 
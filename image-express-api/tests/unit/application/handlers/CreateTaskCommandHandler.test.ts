@@ -5,6 +5,7 @@ import { ITaskRepository } from '../../../../src/application/repositories';
 import { TaskQueueProducer } from '../../../../src/infrastructure/queues';
 import { TaskStatus } from '../../../../src/domain/entities/TaskEntity';
 import * as cryptoHelpers from '../../../../src/core/helpers/crypto';
+import { signedUrl } from '../../../fixtures/signedUrl';
 
 /**
  * Mock factory para crear dependencias de prueba
@@ -172,8 +173,8 @@ describe('CreateTaskCommandHandler', () => {
       const result = await handler.execute(command);
 
       expect(result.images).toEqual([
-        { resolution: '1024' as const, path: '/output/1024/image.jpg' },
-        { resolution: '800' as const, path: '/output/800/image.jpg' },
+        { resolution: '1024', url: signedUrl('/api/v1/tasks/task-with-images/images/1024.jpg') },
+        { resolution: '800', url: signedUrl('/api/v1/tasks/task-with-images/images/800.jpg') },
       ]);
     });
 
@@ -241,7 +242,9 @@ describe('CreateTaskCommandHandler', () => {
         taskId: 'existing-task',
         status: TaskStatus.COMPLETED,
         price: 25,
-        images: [{ resolution: '1024' as const, path: '/output/image.jpg' }],
+        images: [
+          { resolution: '1024', url: signedUrl('/api/v1/tasks/existing-task/images/1024.jpg') },
+        ],
         createdAt: expect.any(Date),
         updatedAt: expect.any(Date),
       });
@@ -6,6 +6,7 @@ import { CacheService } from '../../../../src/application/services/CacheService'
 import { TaskStatus } from '../../../../src/domain/entities/TaskEntity';
 import { NotFoundError } from '../../../../src/core/errors';
 import * as loggerModule from '../../../../src/core/helpers/logger';
+import { signedUrl } from '../../../fixtures/signedUrl';
 
 jest.mock('../../../../src/core/helpers/logger', () => ({
   logger: {
@@ -336,7 +337,11 @@ describe('GetTaskQueryHandler', () => {
 
       const result = await handler.execute(query);
 
-      expect(result.images).toEqual(task.images);
+      expect(result.images).toEqual([
+        { resolution: '1024', url: signedUrl(`/api/v1/tasks/${taskId}/images/mapping.jpg`) },
+        { resolution: '1024', url: signedUrl(`/api/v1/tasks/${taskId}/images/mapping.jpg`) },
+        { resolution: '800', url: signedUrl(`/api/v1/tasks/${taskId}/images/800.jpg`) },
+      ]);
       expect(result.status).toBe('completed');
     });
 
@@ -5,6 +5,7 @@ import { ITaskRepository } from '../../../../src/application/repositories';
 import { CacheService } from '../../../../src/application/services/CacheService';
 import { TaskStatus } from '../../../../src/domain/entities/TaskEntity';
 import * as loggerModule from '../../../../src/core/helpers/logger';
+import { signedUrl } from '../../../fixtures/signedUrl';
 
 jest.mock('../../../../src/core/helpers/logger', () => ({
   logger: {
@@ -110,13 +111,13 @@ describe('ListTasksQueryHandler', () => {
       const result = await handler.execute(query);
 
       expect(mockCacheService.getOrSet).toHaveBeenCalledTimes(2);
-      expect(mockRepository.find).toHaveBeenCalledWith({}, 0, 10);
+      expect(mockRepository.find).toHaveBeenCalledWith({}, 0, 10, { field: 'createdAt', direction: 'desc' });
       expect(mockRepository.count).toHaveBeenCalledWith({});
       expect(mockLogger.info).toHaveBeenCalledWith('Lista de tareas procesada', {
         page: 1,
         limit: 10,
         total: totalCount,
-        status: undefined,
+        sort: { field: 'createdAt', direction: 'desc' },
       });
 
       expect(result).toEqual({
@@ -132,7 +133,9 @@ describe('ListTasksQueryHandler', () => {
             taskId: 'task-2',
             status: 'completed',
             price: 30,
-            images: [{ resolution: '1024' as const, path: '/output/1024/2.jpg' }],
+            images: [
+              { resolution: '1024', url: signedUrl('/api/v1/tasks/task-2/images/1024.jpg') },
+            ],
             createdAt: tasks[1].createdAt,
             updatedAt: tasks[1].updatedAt,
           },
@@ -183,7 +186,12 @@ describe('ListTasksQueryHandler', () => {
             taskId: 'task-completed-1',
             status: 'completed',
             price: 40,
-            images: [{ resolution: '800' as const, path: '/output/800/comp1.jpg' }],
+            images: [
+              {
+                resolution: '800',
+                url: signedUrl('/api/v1/tasks/task-completed-1/images/800.jpg'),
+              },
+            ],
             createdAt: cachedTasks[0].createdAt,
             updatedAt: cachedTasks[0].updatedAt,
           },
@@ -214,7 +222,7 @@ describe('ListTasksQueryHandler', () => {
 
       await handler.execute(query);
 
-      expect(mockRepository.find).toHaveBeenCalledWith({}, 16, 8);
+      expect(mockRepository.find).toHaveBeenCalledWith({}, 16, 8, { field: 'createdAt', direction: 'desc' });
     });
 
     /**
@@ -307,6 +315,82 @@ describe('ListTasksQueryHandler', () => {
       expect(calls[0][0]).toBe(calls[2][0]);
       expect(calls[1][0]).toBe(calls[3][0]);
     });
+
+    /**
+     * @test Debe generar la misma clave sin importar el orden de las etiquetas
+     * @given Dos queries con las mismas etiquetas en distinto orden
+     * @when Se ejecutan las queries
+     * @then Debe generar las mismas claves de cache y filtrar por etiquetas
+     */
+    it('debe ignorar el orden de las etiquetas en la clave', async () => {
+      const query1 = new ListTasksQuery(1, 10, undefined, { tags: ['sku', 'summer'] });
+      const query2 = new ListTasksQuery(1, 10, undefined, { tags: ['summer', 'sku'] });
+      const query3 = new ListTasksQuery(1, 10, undefined, {
+        tags: ['summer', 'sku'],
+        tagMatch: 'all',
+      });
+
+      mockCacheService.getOrSet.mockImplementation(async (_, fn) => {
+        return await fn();
+      });
+      mockRepository.find.mockResolvedValue([]);
+      mockRepository.count.mockResolvedValue(0);
+
+      await handler.execute(query1);
+      await handler.execute(query2);
+      await handler.execute(query3);
+
+      const calls = mockCacheService.getOrSet.mock.calls;
+
+      expect(calls[0][0]).toBe(calls[2][0]);
+      expect(calls[0][0]).not.toBe(calls[4][0]);
+      expect(mockRepository.find).toHaveBeenCalledWith(
+        { tags: ['sku', 'summer'], tagMatch: 'any' },
+        0,
+        10,
+        { field: 'createdAt', direction: 'desc' }
+      );
+    });
+
+    /**
+     * @test Debe separar en cache los listados con distinto orden
+     * @given Queries con los mismos estados en distinto orden y con distinta ordenación
+     * @when Se ejecutan las queries
+     * @then Solo la ordenación cambia la clave del listado y nunca la del total
+     */
+    it('debe incluir la ordenación en la clave del listado', async () => {
+      const query1 = new ListTasksQuery(1, 10, [TaskStatus.FAILED, TaskStatus.PENDING]);
+      const query2 = new ListTasksQuery(1, 10, [TaskStatus.PENDING, TaskStatus.FAILED]);
+      const query3 = new ListTasksQuery(
+        1,
+        10,
+        [TaskStatus.PENDING, TaskStatus.FAILED],
+        {},
+        { field: 'price', direction: 'asc' }
+      );
+
+      mockCacheService.getOrSet.mockImplementation(async (_, fn) => {
+        return await fn();
+      });
+      mockRepository.find.mockResolvedValue([]);
+      mockRepository.count.mockResolvedValue(0);
+
+      await handler.execute(query1);
+      await handler.execute(query2);
+      await handler.execute(query3);
+
+      const calls = mockCacheService.getOrSet.mock.calls;
+
+      expect(calls[0][0]).toBe(calls[2][0]);
+      expect(calls[0][0]).not.toBe(calls[4][0]);
+      expect(calls[1][0]).toBe(calls[5][0]);
+      expect(mockRepository.find).toHaveBeenLastCalledWith(
+        { status: [TaskStatus.FAILED, TaskStatus.PENDING] },
+        0,
+        10,
+        { field: 'price', direction: 'asc' }
+      );
+    });
   });
 
   /**
@@ -430,7 +514,9 @@ describe('ListTasksQueryHandler', () => {
           taskId: 'task-completed',
           status: 'completed',
           price: 30,
-          images: [{ resolution: '1024' as const, path: '/output/1024/completed.jpg' }],
+          images: [
+            { resolution: '1024', url: signedUrl('/api/v1/tasks/task-completed/images/1024.jpg') },
+          ],
           createdAt: tasks[1].createdAt,
           updatedAt: tasks[1].updatedAt,
         },
@@ -585,7 +671,7 @@ describe('ListTasksQueryHandler', () => {
 
       await handler.execute(query);
 
-      expect(mockRepository.find).toHaveBeenCalledWith({}, 1980, 20);
+      expect(mockRepository.find).toHaveBeenCalledWith({}, 1980, 20, { field: 'createdAt', direction: 'desc' });
     });
 
     /**
@@ -102,7 +102,7 @@ describe('UpdateTaskStatusCommandHandler', () => {
       };
 
       mockRepository.findById.mockResolvedValue(existingTask);
-      mockRepository.updateStatus.mockResolvedValue();
+      mockRepository.updateStatus.mockResolvedValue(true);
       mockCacheService.invalidatePattern.mockResolvedValue();
 
       await handler.execute(command);
@@ -111,7 +111,8 @@ describe('UpdateTaskStatusCommandHandler', () => {
       expect(mockRepository.updateStatus).toHaveBeenCalledWith(
         taskId,
         TaskStatus.PROCESSING,
-        undefined
+        undefined,
+        expect.objectContaining({ to: TaskStatus.PROCESSING })
       );
       expect(mockCacheService.invalidatePattern).toHaveBeenCalledTimes(3);
       expect(mockCacheService.invalidatePattern).toHaveBeenCalledWith(`task:${taskId}`);
@@ -145,7 +146,7 @@ describe('UpdateTaskStatusCommandHandler', () => {
       };
 
       mockRepository.findById.mockResolvedValue(existingTask);
-      mockRepository.updateStatus.mockResolvedValue();
+      mockRepository.updateStatus.mockResolvedValue(true);
       mockCacheService.invalidatePattern.mockResolvedValue();
 
       await handler.execute(command);
@@ -153,7 +154,8 @@ describe('UpdateTaskStatusCommandHandler', () => {
       expect(mockRepository.updateStatus).toHaveBeenCalledWith(
         taskId,
         TaskStatus.COMPLETED,
-        imageData
+        imageData,
+        expect.objectContaining({ to: TaskStatus.COMPLETED })
       );
       expect(mockLogger.info).toHaveBeenCalledWith('Estado de tarea actualizado', {
         taskId,
@@ -183,7 +185,7 @@ describe('UpdateTaskStatusCommandHandler', () => {
       };
 
       mockRepository.findById.mockResolvedValue(existingTask);
-      mockRepository.updateStatus.mockResolvedValue();
+      mockRepository.updateStatus.mockResolvedValue(true);
       mockCacheService.invalidatePattern.mockResolvedValue();
 
       await handler.execute(command);
@@ -191,7 +193,8 @@ describe('UpdateTaskStatusCommandHandler', () => {
       expect(mockRepository.updateStatus).toHaveBeenCalledWith(
         taskId,
         TaskStatus.FAILED,
-        undefined
+        undefined,
+        expect.objectContaining({ to: TaskStatus.FAILED })
       );
       expect(mockLogger.info).toHaveBeenCalledWith('Estado de tarea actualizado', {
         taskId,
@@ -201,6 +204,63 @@ describe('UpdateTaskStatusCommandHandler', () => {
     });
   });
 
+  /**
+   * @description Suite de pruebas para el historial de estados
+   */
+  describe('execute - Historial de estados', () => {
+    /**
+     * @test Debe registrar actor, intento y error del cambio
+     * @given Una tarea reintentada una vez que vuelve a fallar
+     * @when El worker ejecuta el comando con el error
+     * @then Debe añadir la entrada con el segundo intento
+     */
+    it('debe registrar actor, intento y error del cambio', async () => {
+      const taskId = 'task-history';
+      const command = new UpdateTaskStatusCommand(
+        taskId,
+        TaskStatus.FAILED,
+        { error: 'Timeout' },
+        'worker:host:42'
+      );
+      const existingTask = {
+        _id: taskId,
+        status: TaskStatus.PROCESSING,
+        price: 25,
+        originalPath: '/test/image.jpg',
+        images: [],
+        history: [
+          {
+            from: TaskStatus.FAILED,
+            to: TaskStatus.PENDING,
+            timestamp: new Date(),
+            actor: 'api',
+            attempt: 2,
+          },
+        ],
+      };
+
+      mockRepository.findById.mockResolvedValue(existingTask);
+      mockRepository.updateStatus.mockResolvedValue(true);
+      mockCacheService.invalidatePattern.mockResolvedValue();
+
+      await handler.execute(command);
+
+      expect(mockRepository.updateStatus).toHaveBeenCalledWith(
+        taskId,
+        TaskStatus.FAILED,
+        { error: 'Timeout' },
+        {
+          from: TaskStatus.PROCESSING,
+          to: TaskStatus.FAILED,
+          timestamp: expect.any(Date),
+          actor: 'worker:host:42',
+          attempt: 2,
+          error: 'Timeout',
+        }
+      );
+    });
+  });
+
   /**
    * @description Suite de pruebas para manejo de errores
    */
@@ -295,7 +355,7 @@ describe('UpdateTaskStatusCommandHandler', () => {
       };
 
       mockRepository.findById.mockResolvedValue(existingTask);
-      mockRepository.updateStatus.mockResolvedValue();
+      mockRepository.updateStatus.mockResolvedValue(true);
       mockCacheService.invalidatePattern.mockResolvedValue();
 
       await handler.execute(command);
@@ -325,7 +385,7 @@ describe('UpdateTaskStatusCommandHandler', () => {
       };
 
       mockRepository.findById.mockResolvedValue(existingTask);
-      mockRepository.updateStatus.mockResolvedValue();
+      mockRepository.updateStatus.mockResolvedValue(true);
       mockCacheService.invalidatePattern.mockRejectedValue(new Error('Cache service down'));
 
       await expect(handler.execute(command)).rejects.toThrow('Cache service down');
@@ -357,7 +417,7 @@ describe('UpdateTaskStatusCommandHandler', () => {
       };
 
       mockRepository.findById.mockResolvedValue(existingTask);
-      mockRepository.updateStatus.mockResolvedValue();
+      mockRepository.updateStatus.mockResolvedValue(true);
       mockCacheService.invalidatePattern.mockResolvedValue();
 
       await handler.execute(command);
@@ -365,7 +425,8 @@ describe('UpdateTaskStatusCommandHandler', () => {
       expect(mockRepository.updateStatus).toHaveBeenCalledWith(
         taskId,
         TaskStatus.PROCESSING,
-        undefined
+        undefined,
+        expect.objectContaining({ to: TaskStatus.PROCESSING })
       );
     });
 
@@ -389,7 +450,7 @@ describe('UpdateTaskStatusCommandHandler', () => {
       };
 
       mockRepository.findById.mockResolvedValue(existingTask);
-      mockRepository.updateStatus.mockResolvedValue();
+      mockRepository.updateStatus.mockResolvedValue(true);
       mockCacheService.invalidatePattern.mockResolvedValue();
 
       await handler.execute(command);
@@ -425,7 +486,7 @@ describe('UpdateTaskStatusCommandHandler', () => {
       };
 
       mockRepository.findById.mockResolvedValue(completeTask);
-      mockRepository.updateStatus.mockResolvedValue();
+      mockRepository.updateStatus.mockResolvedValue(true);
       mockCacheService.invalidatePattern.mockResolvedValue();
 
       await handler.execute(command);
@@ -434,7 +495,8 @@ describe('UpdateTaskStatusCommandHandler', () => {
       expect(mockRepository.updateStatus).toHaveBeenCalledWith(
         taskId,
         TaskStatus.FAILED,
-        undefined
+        undefined,
+        expect.objectContaining({ to: TaskStatus.FAILED })
       );
     });
   });
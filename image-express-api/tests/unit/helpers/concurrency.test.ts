@@ -0,0 +1,59 @@
+import { describe, it, expect } from '@jest/globals';
+import { ConcurrencyLimiter } from '../../../src/core/helpers/concurrency';
+
+describe('ConcurrencyLimiter', () => {
+  const deferred = () => {
+    let resolve!: () => void;
+    const promise = new Promise<void>(r => (resolve = r));
+    return { promise, resolve };
+  };
+
+  it('should run at most maxConcurrent tasks at once', async () => {
+    const limiter = new ConcurrencyLimiter(2, 10);
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const runs = gates.map((gate, index) =>
+      limiter.run(async () => {
+        started.push(index);
+        await gate.promise;
+        return index;
+      })
+    );
+    await Promise.resolve();
+
+    expect(started).toEqual([0, 1]);
+
+    gates[0].resolve();
+    await runs[0];
+    await Promise.resolve();
+
+    expect(started).toEqual([0, 1, 2]);
+
+    gates[1].resolve();
+    gates[2].resolve();
+    await expect(Promise.all(runs)).resolves.toEqual([0, 1, 2]);
+  });
+
+  it('should report saturation when both slots and queue are full', async () => {
+    const limiter = new ConcurrencyLimiter(1, 1);
+    const gate = deferred();
+
+    const first = limiter.run(() => gate.promise);
+    expect(limiter.isSaturated).toBe(false);
+
+    const second = limiter.run(() => Promise.resolve());
+    expect(limiter.isSaturated).toBe(true);
+
+    gate.resolve();
+    await Promise.all([first, second]);
+    expect(limiter.isSaturated).toBe(false);
+  });
+
+  it('should release the slot when a task fails', async () => {
+    const limiter = new ConcurrencyLimiter(1, 1);
+
+    await expect(limiter.run(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    await expect(limiter.run(() => Promise.resolve('ok'))).resolves.toBe('ok');
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from '@jest/globals';
+import { signQuoteToken, verifyQuoteToken } from '../../../src/core/helpers/quoteToken';
+import { BusinessError } from '../../../src/core/errors';
+
+describe('Quote Token Helpers', () => {
+  const secret = 'test-secret';
+  const now = new Date('2026-10-01T00:00:00.000Z');
+  const quote = {
+    fingerprint: 'a'.repeat(64),
+    version: '2026-10',
+    price: 10.32,
+    expiresAt: new Date('2026-10-01T00:15:00.000Z'),
+  };
+
+  const rejection = (token: string, at: Date = now): BusinessError | undefined => {
+    try {
+      verifyQuoteToken(token, at, secret);
+      return undefined;
+    } catch (error) {
+      expect(error).toBeInstanceOf(BusinessError);
+      return error as BusinessError;
+    }
+  };
+
+  it('should round-trip the signed quote', () => {
+    const token = signQuoteToken(quote, secret);
+
+    expect(token).toMatch(/^[\w-]+\.[\w-]+$/);
+    expect(verifyQuoteToken(token, now, secret)).toEqual(quote);
+  });
+
+  it('should reject malformed, tampered or foreign tokens', () => {
+    const token = signQuoteToken(quote, secret);
+    const [, signature] = token.split('.');
+    const tampered = Buffer.from(
+      JSON.stringify({ fingerprint: quote.fingerprint, version: '2026-10', price: 1, expires: 0 })
+    ).toString('base64url');
+
+    expect(rejection('not-a-token')?.code).toBe('INVALID_QUOTE_TOKEN');
+    expect(rejection(`${token}.extra`)?.code).toBe('INVALID_QUOTE_TOKEN');
+    expect(rejection(`${tampered}.${signature}`)?.code).toBe('INVALID_QUOTE_TOKEN');
+    expect(rejection(signQuoteToken(quote, 'other-secret'))?.statusCode).toBe(400);
+  });
+
+  it('should reject expired tokens with the expiry in the details', () => {
+    const error = rejection(signQuoteToken(quote, secret), quote.expiresAt);
+
+    expect(error?.code).toBe('QUOTE_EXPIRED');
+    expect(error?.statusCode).toBe(410);
+    expect(error?.details).toEqual({ expiredAt: quote.expiresAt.toISOString() });
+  });
+});
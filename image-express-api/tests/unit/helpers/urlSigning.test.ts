@@ -0,0 +1,58 @@
+import { describe, it, expect } from '@jest/globals';
+import { signUrl, verifySignedUrl } from '../../../src/core/helpers/urlSigning';
+import { SignatureError } from '../../../src/core/errors';
+
+describe('URL Signing Helpers', () => {
+  const secret = 'test-secret';
+  const path = '/api/v1/tasks/507f1f77bcf86cd799439011/images/1024.jpg';
+  const now = new Date('2025-01-01T00:00:00.000Z');
+  const expiresAt = new Date('2025-01-01T01:00:00.000Z');
+
+  const rejectionCode = (url: string, at: Date = now): string | undefined => {
+    try {
+      verifySignedUrl(url, at, secret);
+      return undefined;
+    } catch (error) {
+      expect(error).toBeInstanceOf(SignatureError);
+      return (error as SignatureError).code;
+    }
+  };
+
+  it('should append expires and signature to the url', () => {
+    const signed = signUrl(path, expiresAt, secret);
+
+    expect(signed).toMatch(new RegExp(`^${path}\\?expires=1735693200&signature=[\\w-]+$`));
+    expect(rejectionCode(signed)).toBeUndefined();
+  });
+
+  it('should cover existing query parameters regardless of their order', () => {
+    const signed = signUrl('/api/v1/images/abc/transform?w=300&fmt=webp', expiresAt, secret);
+    const reordered = signed.replace('w=300&fmt=webp', 'fmt=webp&w=300');
+
+    expect(rejectionCode(reordered)).toBeUndefined();
+    expect(rejectionCode(signed.replace('w=300', 'w=4000'))).toBe('SIGNATURE_INVALID');
+  });
+
+  it('should reject missing, tampered or foreign signatures', () => {
+    const signed = signUrl(path, expiresAt, secret);
+
+    expect(rejectionCode(path)).toBe('SIGNATURE_REQUIRED');
+    expect(rejectionCode(signed.replace('1024.jpg', '800.jpg'))).toBe('SIGNATURE_INVALID');
+    expect(rejectionCode(signed.replace('expires=1735693200', 'expires=1735696800'))).toBe(
+      'SIGNATURE_INVALID'
+    );
+    expect(rejectionCode(signUrl(path, expiresAt, 'other-secret'))).toBe('SIGNATURE_INVALID');
+  });
+
+  it('should reject expired signatures with the expiry in the details', () => {
+    const signed = signUrl(path, expiresAt, secret);
+
+    expect(rejectionCode(signed, new Date('2025-01-01T01:00:00.000Z'))).toBe('SIGNATURE_EXPIRED');
+    try {
+      verifySignedUrl(signed, new Date('2025-01-02T00:00:00.000Z'), secret);
+    } catch (error) {
+      expect((error as SignatureError).statusCode).toBe(403);
+      expect((error as SignatureError).details).toEqual({ expiredAt: expiresAt.toISOString() });
+    }
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  getVariantKey,
+  getVariantMd5,
+  buildVariantUrl,
+  toVariantLinks,
+} from '../../../src/core/helpers/variantLinks';
+import { verifySignedUrl } from '../../../src/core/helpers/urlSigning';
+
+describe('Variant Link Helpers', () => {
+  const md5 = 'f322b730b287da77e1c519c7ffef4fc2';
+
+  it('should extract the md5 from the variant filename', () => {
+    expect(getVariantMd5(`/app/output/image1/1024/${md5}.jpg`)).toBe(md5);
+  });
+
+  it('should identify a variant by resolution and extension', () => {
+    expect(
+      getVariantKey({ resolution: '640x480', path: `/app/output/a/640x480/${md5}.webp` })
+    ).toBe('640x480.webp');
+  });
+
+  it('should fall back to the md5 when resolution and extension collide', () => {
+    const images = [
+      { resolution: '640x480', path: `/app/output/a/640x480/${md5}.jpg` },
+      { resolution: '640x480', path: '/app/output/a/640x480/0123456789abcdef0123456789abcdef.jpg' },
+    ];
+
+    expect(getVariantKey(images[0], images)).toBe(`${md5}.jpg`);
+  });
+
+  it('should build signed download urls without exposing filesystem paths', () => {
+    const expiresAt = new Date(Date.now() + 60_000);
+    const links = toVariantLinks(
+      '65d4a54b89c5e342b2c2c5f6',
+      [{ resolution: '1024', path: `/app/output/a/1024/${md5}.avif`, format: 'heif' }],
+      expiresAt
+    );
+
+    expect(links).toEqual([
+      {
+        resolution: '1024',
+        url: expect.stringContaining(buildVariantUrl('65d4a54b89c5e342b2c2c5f6', '1024.avif')),
+        format: 'heif',
+      },
+    ]);
+    const expires = Math.floor(expiresAt.getTime() / 1000);
+    expect(links[0].url).toMatch(
+      `/api/v1/tasks/65d4a54b89c5e342b2c2c5f6/images/1024.avif?expires=${expires}&signature=`
+    );
+    expect(() => verifySignedUrl(links[0].url)).not.toThrow();
+  });
+});
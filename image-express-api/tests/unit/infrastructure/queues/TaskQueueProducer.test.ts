@@ -32,6 +32,8 @@ describe('TaskQueueProducer', () => {
     
     mockQueueInstance = {
       add: jest.fn(),
+      getJob: jest.fn().mockResolvedValue(undefined),
+      remove: jest.fn().mockResolvedValue(1),
       close: jest.fn(),
     } as unknown as jest.Mocked<Queue>;
     
@@ -213,12 +215,78 @@ describe('TaskQueueProducer', () => {
             type: 'exponential',
             delay: 2000,
           },
+          priority: 5,
+          jobId: mockTaskId,
           removeOnComplete: true,
           removeOnFail: false,
         }
       );
     });
 
+    /**
+     * @test Debe identificar los trabajos de reprocesado por tarea y generación
+     */
+    it('debe identificar los trabajos de reprocesado por tarea y generación', async () => {
+      await producer.addTask(mockTaskId, mockImagePath, undefined, { generation: 2 });
+
+      const options = mockQueueInstance.add.mock.calls[0][2] as { jobId: string };
+      expect(options.jobId).toBe(`${mockTaskId}-generation-2`);
+    });
+
+    /**
+     * @test Debe sustituir el trabajo fallido de un intento anterior al reintentar
+     */
+    it('debe sustituir el trabajo fallido de un intento anterior al reintentar', async () => {
+      mockQueueInstance.getJob.mockResolvedValue({
+        getState: jest.fn().mockResolvedValue('failed'),
+      } as unknown as Job);
+
+      await producer.addTask(mockTaskId, mockImagePath);
+
+      expect(mockQueueInstance.getJob).toHaveBeenCalledWith(mockTaskId);
+      expect(mockQueueInstance.remove).toHaveBeenCalledWith(mockTaskId);
+      expect(mockQueueInstance.add).toHaveBeenCalled();
+    });
+
+    /**
+     * @test No debe eliminar el trabajo de la tarea si sigue pendiente
+     */
+    it('no debe eliminar el trabajo de la tarea si sigue pendiente', async () => {
+      mockQueueInstance.getJob.mockResolvedValue({
+        getState: jest.fn().mockResolvedValue('waiting'),
+      } as unknown as Job);
+
+      await producer.addTask(mockTaskId, mockImagePath);
+
+      expect(mockQueueInstance.remove).not.toHaveBeenCalled();
+    });
+
+    /**
+     * @test Debe aplicar la prioridad y diferir los trabajos programados
+     */
+    it('debe aplicar la prioridad y diferir los trabajos programados', async () => {
+      const processAt = new Date(Date.now() + 60_000);
+
+      await producer.addTask(mockTaskId, mockImagePath, undefined, { priority: 1, processAt });
+
+      const options = mockQueueInstance.add.mock.calls[0][2] as { priority: number; delay: number };
+      expect(options.priority).toBe(1);
+      expect(options.delay).toBeGreaterThan(0);
+      expect(options.delay).toBeLessThanOrEqual(60_000);
+    });
+
+    /**
+     * @test No debe diferir los trabajos programados en el pasado
+     */
+    it('no debe diferir los trabajos programados en el pasado', async () => {
+      await producer.addTask(mockTaskId, mockImagePath, undefined, {
+        processAt: new Date(Date.now() - 60_000),
+      });
+
+      const options = mockQueueInstance.add.mock.calls[0][2] as Record<string, unknown>;
+      expect(options).not.toHaveProperty('delay');
+    });
+
     /**
      * @test Debe incluir timestamp actual
      */
@@ -275,6 +343,105 @@ describe('TaskQueueProducer', () => {
     });
   });
 
+  describe('removeTask', () => {
+    let producer: TaskQueueProducer;
+
+    const jobs: Record<string, string> = {
+      'task-123': 'waiting',
+      'task-123-generation-2': 'failed',
+      'task-456': 'active',
+    };
+
+    beforeEach(() => {
+      producer = new TaskQueueProducer();
+      mockQueueInstance.getJob.mockImplementation(async (jobId: string) =>
+        jobs[jobId] ? ({ getState: jest.fn().mockResolvedValue(jobs[jobId]) } as unknown as Job) : undefined
+      );
+    });
+
+    /**
+     * @test Debe buscar el trabajo de la tarea por su ID sin recorrer la cola
+     */
+    it('debe eliminar el trabajo pendiente de la tarea buscándolo por su ID', async () => {
+      const removed = await producer.removeTask('task-123');
+
+      expect(mockQueueInstance.getJob).toHaveBeenCalledWith('task-123');
+      expect(mockQueueInstance.remove).toHaveBeenCalledTimes(1);
+      expect(mockQueueInstance.remove).toHaveBeenCalledWith('task-123');
+      expect(removed).toBe(1);
+    });
+
+    /**
+     * @test Debe eliminar también los trabajos de las generaciones indicadas
+     */
+    it('debe eliminar también los trabajos de las generaciones indicadas', async () => {
+      const removed = await producer.removeTask('task-123', ['waiting', 'failed'], [2, 3]);
+
+      expect(mockQueueInstance.remove).toHaveBeenCalledWith('task-123');
+      expect(mockQueueInstance.remove).toHaveBeenCalledWith('task-123-generation-2');
+      expect(removed).toBe(2);
+    });
+
+    /**
+     * @test Debe devolver 0 si el trabajo de la tarea no está en espera
+     */
+    it('debe devolver 0 si el trabajo de la tarea no está en espera', async () => {
+      expect(await producer.removeTask('task-456')).toBe(0);
+      expect(await producer.removeTask('task-789')).toBe(0);
+      expect(mockQueueInstance.remove).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changePriority y promoteTask', () => {
+    let producer: TaskQueueProducer;
+    const job = {
+      getState: jest.fn(),
+      changePriority: jest.fn(),
+      promote: jest.fn(),
+    };
+
+    beforeEach(() => {
+      producer = new TaskQueueProducer();
+      mockQueueInstance.getJob.mockImplementation(async (jobId: string) =>
+        jobId === 'task-123' ? (job as unknown as Job) : undefined
+      );
+    });
+
+    /**
+     * @test Debe cambiar la prioridad del trabajo en espera de la tarea
+     */
+    it('debe cambiar la prioridad del trabajo en espera de la tarea', async () => {
+      job.getState.mockResolvedValue('prioritized');
+
+      const updated = await producer.changePriority('task-123', 2);
+
+      expect(mockQueueInstance.getJob).toHaveBeenCalledWith('task-123');
+      expect(job.changePriority).toHaveBeenCalledWith({ priority: 2 });
+      expect(updated).toBe(1);
+    });
+
+    /**
+     * @test Debe promover solo el trabajo diferido de la tarea
+     */
+    it('debe promover solo el trabajo diferido de la tarea', async () => {
+      job.getState.mockResolvedValue('delayed');
+      expect(await producer.promoteTask('task-123')).toBe(1);
+      expect(job.promote).toHaveBeenCalledTimes(1);
+
+      job.getState.mockResolvedValue('waiting');
+      expect(await producer.promoteTask('task-123')).toBe(0);
+      expect(job.promote).toHaveBeenCalledTimes(1);
+    });
+
+    /**
+     * @test Debe devolver 0 si la tarea no tiene trabajos
+     */
+    it('debe devolver 0 si la tarea no tiene trabajos', async () => {
+      expect(await producer.promoteTask('task-789')).toBe(0);
+      expect(await producer.changePriority('task-789', 2)).toBe(0);
+    });
+  });
+
   describe('Error handling', () => {
     /**
      * @test Debe propagar error en entorno de producción
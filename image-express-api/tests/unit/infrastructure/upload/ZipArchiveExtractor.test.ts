@@ -0,0 +1,194 @@
+import { ZipArchiveExtractor } from '../../../../src/infrastructure/upload/ZipArchiveExtractor';
+import { BusinessError } from '../../../../src/core/errors';
+import { ZipFile } from 'yazl';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01]);
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d]);
+
+/**
+ * Construye un ZIP en memoria con las entradas indicadas
+ * @param {Array<[string, Buffer]>} entries - Nombre y contenido de cada entrada
+ * @returns {Promise<Buffer>} Contenido del ZIP
+ */
+function buildZip(entries: Array<[string, Buffer]>): Promise<Buffer> {
+  const zip = new ZipFile();
+  entries.forEach(([name, content]) => zip.addBuffer(content, name));
+  zip.end();
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    zip.outputStream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    zip.outputStream.on('end', () => resolve(Buffer.concat(chunks)));
+    zip.outputStream.on('error', reject);
+  });
+}
+
+/**
+ * Suite de pruebas para ZipArchiveExtractor
+ * Verifica la extracción de imágenes y las protecciones frente a archivos maliciosos
+ */
+describe('ZipArchiveExtractor', () => {
+  const limits = { maxEntries: 10, maxTotalBytes: 1024, maxEntryBytes: 512 };
+  let workDir: string;
+  let outputDir: string;
+  let extractor: ZipArchiveExtractor;
+
+  /**
+   * Escribe el ZIP en el directorio de trabajo
+   * @param {Buffer} zip - Contenido del ZIP
+   * @returns {Promise<string>} Ruta del archivo
+   */
+  const writeArchive = async (zip: Buffer): Promise<string> => {
+    const archivePath = path.join(workDir, 'archive.zip');
+    await fs.writeFile(archivePath, zip);
+    return archivePath;
+  };
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'zip-extractor-'));
+    outputDir = path.join(workDir, 'input');
+    extractor = new ZipArchiveExtractor(limits);
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  /**
+   * @test Debe extraer las imágenes y descartar el resto de entradas
+   */
+  it('debe extraer las imágenes y descartar el resto de entradas', async () => {
+    const archivePath = await writeArchive(
+      await buildZip([
+        ['catalog/shoe.jpg', JPEG],
+        ['catalog/readme.txt', Buffer.from('hello')],
+        ['catalog/nested.zip', Buffer.from('PK')],
+        ['catalog/bag.png', PNG],
+        ['__MACOSX/catalog/._shoe.jpg', Buffer.from('meta')],
+      ])
+    );
+
+    const result = await extractor.extract(archivePath, outputDir);
+
+    expect(result.files.map(file => [file.index, file.entryName])).toEqual([
+      [0, 'catalog/shoe.jpg'],
+      [3, 'catalog/bag.png'],
+    ]);
+    expect(await fs.readFile(result.files[0].path)).toEqual(JPEG);
+    expect(path.dirname(result.files[1].path)).toBe(outputDir);
+    expect(result.rejected).toEqual([
+      expect.objectContaining({
+        index: 1,
+        entryName: 'catalog/readme.txt',
+        code: 'UNSUPPORTED_ENTRY',
+      }),
+      expect.objectContaining({
+        index: 2,
+        entryName: 'catalog/nested.zip',
+        code: 'NESTED_ARCHIVE',
+      }),
+    ]);
+  });
+
+  /**
+   * @test Debe rechazar las entradas con rutas que escapan del destino (zip-slip)
+   */
+  it('debe rechazar las rutas zip-slip', async () => {
+    const zip = await buildZip([
+      ['aa/evil.jpg', JPEG],
+      ['safe.jpg', JPEG],
+    ]);
+    const archivePath = await writeArchive(
+      Buffer.from(zip.toString('latin1').replaceAll('aa/evil.jpg', '../evil.jpg'), 'latin1')
+    );
+
+    const result = await extractor.extract(archivePath, outputDir);
+
+    expect(result.files.map(file => file.entryName)).toEqual(['safe.jpg']);
+    expect(result.rejected).toEqual([
+      expect.objectContaining({ entryName: '../evil.jpg', code: 'UNSAFE_PATH' }),
+    ]);
+    await expect(fs.access(path.join(workDir, 'evil.jpg'))).rejects.toThrow();
+  });
+
+  /**
+   * @test Debe rechazar las entradas cuyo contenido no es una imagen
+   */
+  it('debe comprobar la firma del contenido', async () => {
+    const archivePath = await writeArchive(
+      await buildZip([
+        ['fake.jpg', Buffer.from('not really an image')],
+        ['archive.jpg', Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x00])],
+      ])
+    );
+
+    const result = await extractor.extract(archivePath, outputDir);
+
+    expect(result.files).toEqual([]);
+    expect(result.rejected.map(entry => entry.code)).toEqual([
+      'UNSUPPORTED_ENTRY',
+      'NESTED_ARCHIVE',
+    ]);
+    expect(await fs.readdir(outputDir)).toEqual([]);
+  });
+
+  /**
+   * @test Debe descartar las imágenes que superan el tamaño máximo por entrada
+   */
+  it('debe descartar las imágenes demasiado grandes', async () => {
+    const archivePath = await writeArchive(
+      await buildZip([['big.jpg', Buffer.concat([JPEG, Buffer.alloc(600)])]])
+    );
+
+    const result = await extractor.extract(archivePath, outputDir);
+
+    expect(result.rejected).toEqual([expect.objectContaining({ code: 'ENTRY_TOO_LARGE' })]);
+  });
+
+  /**
+   * @test Debe abortar y limpiar lo extraído si se supera el tamaño total
+   */
+  it('debe abortar si se supera el tamaño total', async () => {
+    const image = Buffer.concat([JPEG, Buffer.alloc(388)]);
+    const archivePath = await writeArchive(
+      await buildZip([
+        ['a.jpg', image],
+        ['b.jpg', image],
+        ['c.jpg', image],
+      ])
+    );
+
+    await expect(extractor.extract(archivePath, outputDir)).rejects.toMatchObject({
+      code: 'ARCHIVE_TOO_LARGE',
+      statusCode: 413,
+    });
+    expect(await fs.readdir(outputDir)).toEqual([]);
+  });
+
+  /**
+   * @test Debe rechazar archivos con demasiadas entradas
+   */
+  it('debe rechazar archivos con demasiadas entradas', async () => {
+    const entries = Array.from({ length: 11 }, (_, i): [string, Buffer] => [`${i}.jpg`, JPEG]);
+    const archivePath = await writeArchive(await buildZip(entries));
+
+    await expect(extractor.extract(archivePath, outputDir)).rejects.toMatchObject({
+      code: 'ARCHIVE_TOO_MANY_ENTRIES',
+    });
+  });
+
+  /**
+   * @test Debe rechazar archivos que no son ZIP
+   */
+  it('debe rechazar archivos que no son ZIP', async () => {
+    const archivePath = await writeArchive(Buffer.from('definitely not a zip file'));
+
+    const promise = extractor.extract(archivePath, outputDir);
+
+    await expect(promise).rejects.toBeInstanceOf(BusinessError);
+    await expect(promise).rejects.toMatchObject({ code: 'INVALID_ARCHIVE' });
+  });
+});
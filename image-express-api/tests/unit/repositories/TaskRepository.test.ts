@@ -18,12 +18,16 @@ describe('TaskRepository', () => {
       findById: jest.fn().mockReturnThis(),
       findOne: jest.fn().mockReturnThis(),
       findByIdAndUpdate: jest.fn(),
+      findByIdAndDelete: jest.fn(),
+      findOneAndUpdate: jest.fn(),
       find: jest.fn().mockReturnThis(),
       sort: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
       skip: jest.fn().mockReturnThis(),
       limit: jest.fn().mockReturnThis(),
       lean: jest.fn(),
       countDocuments: jest.fn(),
+      aggregate: jest.fn(),
     };
     (getTaskModel as jest.Mock).mockReturnValue(mockModel);
     taskRepository = new TaskRepository({} as Connection);
@@ -63,19 +67,249 @@ describe('TaskRepository', () => {
     expect(result).toEqual(mockTask);
   });
 
-  it('should call findByIdAndUpdate with the correct update payload', async () => {
+  it('should call findOneAndUpdate with the correct update payload', async () => {
     const taskId = 'mockId';
     const status = 'completed';
     const data = { some: 'data' };
+    mockModel.findOneAndUpdate.mockResolvedValue({ _id: taskId });
 
-    await taskRepository.updateStatus(taskId, status, data);
+    const result = await taskRepository.updateStatus(taskId, status, data);
 
-    expect(mockModel.findByIdAndUpdate).toHaveBeenCalledWith(
-      taskId,
+    expect(result).toBe(true);
+    expect(mockModel.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: taskId },
       expect.objectContaining({
         status,
         ...data,
       })
     );
   });
+
+  it('should aggregate the tasks of a batch by status', async () => {
+    const summary = [{ status: TaskStatus.PENDING, count: 2, price: 30 }];
+    mockModel.aggregate.mockResolvedValue(summary);
+
+    const result = await taskRepository.summarizeByBatch('batchId');
+
+    expect(mockModel.aggregate).toHaveBeenCalledWith([
+      { $match: { batchId: 'batchId' } },
+      { $group: { _id: '$status', count: { $sum: 1 }, price: { $sum: '$price' } } },
+      { $project: { _id: 0, status: '$_id', count: 1, price: 1 } },
+    ]);
+    expect(result).toEqual(summary);
+  });
+
+  it('should exclude soft-deleted tasks when listing and counting', async () => {
+    mockModel.lean.mockResolvedValue([]);
+
+    await taskRepository.find({ status: TaskStatus.COMPLETED }, 0, 10);
+    await taskRepository.count({ status: TaskStatus.COMPLETED });
+
+    expect(mockModel.find).toHaveBeenCalledWith({ status: TaskStatus.COMPLETED, deletedAt: null });
+    expect(mockModel.countDocuments).toHaveBeenCalledWith({
+      status: TaskStatus.COMPLETED,
+      deletedAt: null,
+    });
+  });
+
+  it('should match any or all of the requested tags', async () => {
+    mockModel.lean.mockResolvedValue([]);
+
+    await taskRepository.find({ externalId: 'SKU-1', tags: ['a', 'b'] }, 0, 10);
+    await taskRepository.count({ tags: ['a', 'b'], tagMatch: 'all' });
+
+    expect(mockModel.find).toHaveBeenCalledWith({
+      externalId: 'SKU-1',
+      tags: { $in: ['a', 'b'] },
+      deletedAt: null,
+    });
+    expect(mockModel.countDocuments).toHaveBeenCalledWith({
+      tags: { $all: ['a', 'b'] },
+      deletedAt: null,
+    });
+  });
+
+  it('should combine multi-value, date range and price range filters', async () => {
+    const createdFrom = new Date('2024-01-01T00:00:00.000Z');
+    const createdTo = new Date('2024-01-31T23:59:59.999Z');
+    mockModel.lean.mockResolvedValue([]);
+
+    await taskRepository.find(
+      {
+        status: [TaskStatus.FAILED, TaskStatus.PENDING],
+        source: 'url',
+        createdFrom,
+        createdTo,
+        minPrice: 10,
+      },
+      0,
+      10
+    );
+
+    expect(mockModel.find).toHaveBeenCalledWith({
+      status: { $in: [TaskStatus.FAILED, TaskStatus.PENDING] },
+      source: 'url',
+      createdAt: { $gte: createdFrom, $lte: createdTo },
+      price: { $gte: 10 },
+      deletedAt: null,
+    });
+  });
+
+  it('should sort by the requested field with the id as tie-breaker', async () => {
+    mockModel.lean.mockResolvedValue([]);
+
+    await taskRepository.find({}, 0, 10);
+    await taskRepository.find({}, 0, 10, { field: 'price', direction: 'asc' });
+
+    expect(mockModel.sort).toHaveBeenNthCalledWith(1, { createdAt: -1, _id: -1 });
+    expect(mockModel.sort).toHaveBeenNthCalledWith(2, { price: 1, _id: 1 });
+  });
+
+  it('should continue after the cursor position using the id as tie-breaker', async () => {
+    const createdAt = new Date('2024-01-01T00:00:00.000Z');
+    mockModel.lean.mockResolvedValue([]);
+
+    await taskRepository.findByCursor(
+      { status: TaskStatus.COMPLETED },
+      { createdAt, id: '507f1f77bcf86cd799439011', direction: 'next' },
+      11,
+      'desc'
+    );
+
+    expect(mockModel.find).toHaveBeenCalledWith({
+      status: TaskStatus.COMPLETED,
+      deletedAt: null,
+      $or: [
+        { createdAt: { $lt: createdAt } },
+        { createdAt, _id: { $lt: '507f1f77bcf86cd799439011' } },
+      ],
+    });
+    expect(mockModel.sort).toHaveBeenCalledWith({ createdAt: -1, _id: -1 });
+    expect(mockModel.limit).toHaveBeenCalledWith(11);
+  });
+
+  it('should start from the beginning without a cursor', async () => {
+    mockModel.lean.mockResolvedValue([]);
+
+    await taskRepository.findByCursor({}, undefined, 11, 'asc');
+
+    expect(mockModel.find).toHaveBeenCalledWith({ deletedAt: null });
+    expect(mockModel.sort).toHaveBeenCalledWith({ createdAt: 1, _id: 1 });
+  });
+
+  it('should return only the ids of the matching tasks, newest first', async () => {
+    mockModel.lean.mockResolvedValue([{ _id: '507f1f77bcf86cd799439011' }]);
+
+    const result = await taskRepository.findIds({ status: [TaskStatus.FAILED] }, 1001);
+
+    expect(mockModel.find).toHaveBeenCalledWith(
+      { status: { $in: [TaskStatus.FAILED] }, deletedAt: null },
+      { _id: 1 }
+    );
+    expect(mockModel.sort).toHaveBeenCalledWith({ createdAt: -1, _id: -1 });
+    expect(mockModel.limit).toHaveBeenCalledWith(1001);
+    expect(result).toEqual(['507f1f77bcf86cd799439011']);
+  });
+
+  it('should keep only the ids of the tasks that are not deleted', async () => {
+    mockModel.lean.mockResolvedValue([{ _id: '507f1f77bcf86cd799439011' }]);
+
+    const result = await taskRepository.findActiveIds([
+      '507f1f77bcf86cd799439011',
+      '507f1f77bcf86cd799439022',
+    ]);
+
+    expect(mockModel.find).toHaveBeenCalledWith(
+      { _id: { $in: ['507f1f77bcf86cd799439011', '507f1f77bcf86cd799439022'] }, deletedAt: null },
+      { _id: 1 }
+    );
+    expect(result).toEqual(['507f1f77bcf86cd799439011']);
+  });
+
+  it('should stream the matching tasks with a cursor, newest first', async () => {
+    const cursor = { [Symbol.asyncIterator]: jest.fn() };
+    mockModel.lean.mockReturnValue({ cursor: () => cursor });
+
+    const result = taskRepository.streamByFilter({ source: ['url'] }, ['status', 'price']);
+
+    expect(mockModel.find).toHaveBeenCalledWith({ source: { $in: ['url'] }, deletedAt: null });
+    expect(mockModel.select).toHaveBeenCalledWith('status price');
+    expect(mockModel.sort).toHaveBeenCalledWith({ createdAt: -1, _id: -1 });
+    expect(result).toBe(cursor);
+  });
+
+  it('should find the tasks deleted before the cutoff, oldest first', async () => {
+    const cutoff = new Date('2024-01-01T00:00:00.000Z');
+    mockModel.lean.mockResolvedValue([]);
+
+    await taskRepository.findDeletedBefore(cutoff, 100);
+
+    expect(mockModel.find).toHaveBeenCalledWith({ deletedAt: { $ne: null, $lte: cutoff } });
+    expect(mockModel.sort).toHaveBeenCalledWith({ deletedAt: 1 });
+    expect(mockModel.limit).toHaveBeenCalledWith(100);
+  });
+
+  it('should only start a generation on a completed task without a reprocess in progress', async () => {
+    const generation = {
+      number: 2,
+      status: 'pending' as const,
+      requestedAt: new Date('2024-01-01T00:00:00.000Z'),
+    };
+    mockModel.findOneAndUpdate.mockResolvedValueOnce({ _id: 'mockId' }).mockResolvedValueOnce(null);
+
+    await expect(taskRepository.startGeneration('mockId', [generation])).resolves.toBe(true);
+    await expect(taskRepository.startGeneration('mockId', [generation])).resolves.toBe(false);
+
+    expect(mockModel.findOneAndUpdate).toHaveBeenCalledWith(
+      {
+        _id: 'mockId',
+        status: TaskStatus.COMPLETED,
+        deletedAt: null,
+        'generations.status': { $nin: ['pending', 'processing'] },
+      },
+      expect.objectContaining({ $push: { generations: { $each: [generation] } } })
+    );
+  });
+
+  it('should append the status change to the history in the same update', async () => {
+    const change = {
+      from: TaskStatus.PENDING,
+      to: TaskStatus.PROCESSING,
+      timestamp: new Date(),
+      actor: 'worker:host:1',
+      attempt: 1,
+    };
+
+    mockModel.findOneAndUpdate.mockResolvedValue({ _id: 'mockId' });
+
+    await taskRepository.updateStatus('mockId', TaskStatus.PROCESSING, undefined, change);
+
+    expect(mockModel.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: 'mockId', status: TaskStatus.PENDING },
+      expect.objectContaining({
+        status: TaskStatus.PROCESSING,
+        $push: { history: change },
+      })
+    );
+  });
+
+  it('should not update a task that is no longer in the status the change comes from', async () => {
+    const change = {
+      from: TaskStatus.PROCESSING,
+      to: TaskStatus.CANCELLED,
+      timestamp: new Date(),
+      actor: 'api',
+      attempt: 1,
+    };
+    mockModel.findOneAndUpdate.mockResolvedValue(null);
+
+    const result = await taskRepository.updateStatus(
+      'mockId',
+      TaskStatus.CANCELLED,
+      undefined,
+      change
+    );
+
+    expect(result).toBe(false);
+  });
 });
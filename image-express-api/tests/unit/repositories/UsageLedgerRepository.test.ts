@@ -0,0 +1,50 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { UsageLedgerRepository } from '../../../src/presentation/Billing/repositories/UsageLedgerRepository';
+import { getUsageLedgerModel } from '../../../src/infrastructure/schemas';
+import { Connection } from 'mongoose';
+
+jest.mock('../../../src/infrastructure/schemas', () => ({
+  getUsageLedgerModel: jest.fn(),
+}));
+
+describe('UsageLedgerRepository', () => {
+  let repository: UsageLedgerRepository;
+  let mockModel: any;
+
+  beforeEach(() => {
+    mockModel = {
+      aggregate: jest.fn(),
+    };
+    (getUsageLedgerModel as jest.Mock).mockReturnValue(mockModel);
+    repository = new UsageLedgerRepository({} as Connection);
+  });
+
+  it('should aggregate the entries of a client and period into lines and totals', async () => {
+    const lines = [
+      { taskId: 'task-1', attempt: 1, type: 'charge', amount: 10.32, occurredAt: new Date() },
+    ];
+    const totals = { charges: 10.32, refunds: 0, net: 10.32, entries: 1, tasks: 1 };
+    mockModel.aggregate.mockResolvedValue([{ lines, totals: [totals] }]);
+
+    const result = await repository.aggregateStatement('client-a', '2026-10');
+
+    const [pipeline] = mockModel.aggregate.mock.calls[0];
+    expect(pipeline[0]).toEqual({ $match: { clientId: 'client-a', period: '2026-10' } });
+    expect(pipeline[1]).toEqual({ $sort: { occurredAt: 1, _id: 1 } });
+    expect(pipeline[2].$facet).toEqual(
+      expect.objectContaining({ lines: expect.any(Array), totals: expect.any(Array) })
+    );
+    expect(result).toEqual({ lines, totals });
+  });
+
+  it('should return zero totals for a period without entries', async () => {
+    mockModel.aggregate.mockResolvedValue([{ lines: [], totals: [] }]);
+
+    const result = await repository.aggregateStatement('client-a', '2020-01');
+
+    expect(result).toEqual({
+      lines: [],
+      totals: { charges: 0, refunds: 0, net: 0, entries: 0, tasks: 0 },
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import express from 'express';
+import request from 'supertest';
+import mongoose from 'mongoose';
+import { ImageRoutes } from '../../../src/presentation/Image/routes/ImageRoutes';
+import { errorMiddleware } from '../../../src/presentation/Bootstrap/middlewares/errorMiddleware';
+import { DatabaseConnector } from '../../../src/infrastructure/databases/DatabaseConnector';
+import { ImageService } from '../../../src/presentation/Image/services/ImageService';
+import { signUrl } from '../../../src/core/helpers/urlSigning';
+
+describe('ImageRoutes', () => {
+  const taskId = '507f1f77bcf86cd799439011';
+  const transformPath = `/images/${taskId}/transform?w=300&fmt=webp`;
+  const connection = mongoose.createConnection();
+  let app: express.Application;
+
+  beforeAll(() => {
+    jest.spyOn(DatabaseConnector, 'getImageDb').mockReturnValue(connection);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    app = express();
+    app.use(ImageRoutes.routes);
+    app.use(errorMiddleware);
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await connection.close();
+  });
+
+  describe('GET /tasks/:taskId/images/:variant', () => {
+    const md5 = 'd41d8cd98f00b204e9800998ecf8427e';
+    let filePath: string;
+
+    beforeAll(async () => {
+      filePath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'variants-')), `${md5}.jpg`);
+      await fs.writeFile(filePath, 'jpeg');
+    });
+
+    afterAll(async () => {
+      await fs.rm(path.dirname(filePath), { recursive: true, force: true });
+    });
+
+    it('should limit private caching to the remaining lifetime of the signature', async () => {
+      jest.spyOn(ImageService.prototype, 'getVariantFile').mockResolvedValueOnce({
+        path: filePath,
+        size: 4,
+        etag: `"${md5}"`,
+        contentType: 'image/jpeg',
+        immutable: false,
+      });
+      const signed = signUrl(`/tasks/${taskId}/images/1024.jpg`, new Date(Date.now() + 60_000));
+
+      const response = await request(app).get(signed);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['cache-control']).toMatch(/^private, max-age=(59|60)$/);
+    });
+
+    it('should only mark md5-keyed variants as immutable', async () => {
+      jest.spyOn(ImageService.prototype, 'getVariantFile').mockResolvedValueOnce({
+        path: filePath,
+        size: 4,
+        etag: `"${md5}"`,
+        contentType: 'image/jpeg',
+        immutable: true,
+      });
+      const signed = signUrl(`/tasks/${taskId}/images/${md5}.jpg`, new Date(Date.now() + 60_000));
+
+      const response = await request(app).get(signed);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['cache-control']).toMatch(/^private, max-age=(59|60), immutable$/);
+    });
+  });
+
+  describe('GET /images/:taskId/transform', () => {
+    it('should reject unsigned requests before touching the task', async () => {
+      const response = await request(app).get(transformPath);
+
+      expect(response.status).toBe(403);
+      expect(response.body).toMatchObject({ error: 'SIGNATURE_REQUIRED', statusCode: 403 });
+    });
+
+    it('should reject signed urls whose transform parameters were altered', async () => {
+      const signed = signUrl(transformPath, new Date(Date.now() + 60_000));
+
+      const response = await request(app).get(signed.replace('w=300', 'w=2000'));
+
+      expect(response.status).toBe(403);
+      expect(response.body).toMatchObject({ error: 'SIGNATURE_INVALID', statusCode: 403 });
+    });
+
+    it('should reject expired signed urls', async () => {
+      const signed = signUrl(transformPath, new Date(Date.now() - 1000));
+
+      const response = await request(app).get(signed);
+
+      expect(response.status).toBe(403);
+      expect(response.body).toMatchObject({ error: 'SIGNATURE_EXPIRED', statusCode: 403 });
+    });
+  });
+});
@@ -0,0 +1,331 @@
+import { BatchService } from '../../../src/presentation/Batch/services/BatchService';
+import { BatchRepository } from '../../../src/presentation/Batch/repositories/BatchRepository';
+import { TaskRepository } from '../../../src/presentation/Task/repositories/TaskRepository';
+import { TaskService } from '../../../src/presentation/Task/services/TaskService';
+import { ZipArchiveExtractor } from '../../../src/infrastructure/upload/ZipArchiveExtractor';
+import { BatchEntity, TaskStatus } from '../../../src/domain/entities';
+import { CreateBatchDto } from '../../../src/domain/dtos';
+import { BusinessError, NotFoundError } from '../../../src/core/errors';
+import fs from 'fs/promises';
+
+jest.mock('../../../src/presentation/Batch/repositories/BatchRepository');
+jest.mock('../../../src/presentation/Task/repositories/TaskRepository');
+jest.mock('../../../src/presentation/Task/services/TaskService');
+jest.mock('../../../src/infrastructure/upload/ZipArchiveExtractor');
+jest.mock('fs/promises');
+
+/**
+ * Suite de pruebas para BatchService
+ * Verifica la creación de lotes, su idempotencia y el resumen agregado de sus tareas
+ */
+describe('BatchService', () => {
+  let batchService: BatchService;
+  let mockRepository: jest.Mocked<BatchRepository>;
+  let mockTaskRepository: jest.Mocked<TaskRepository>;
+  let mockTaskService: jest.Mocked<TaskService>;
+  let mockArchiveExtractor: jest.Mocked<ZipArchiveExtractor>;
+
+  const batchId = '507f1f77bcf86cd7994390b1';
+
+  const mockBatch: BatchEntity = {
+    _id: batchId,
+    taskIds: [],
+    failures: [],
+    idempotencyKey: 'batch-key',
+  };
+
+  const mockFile = {
+    originalname: 'puppy.jpg',
+    path: '/app/storage/images/input/puppy.jpg',
+  } as Express.Multer.File;
+
+  /**
+   * Configuración inicial para cada test
+   */
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockRepository = {
+      create: jest.fn().mockResolvedValue(mockBatch),
+      findById: jest.fn(),
+      findByIdempotencyKey: jest.fn().mockResolvedValue(null),
+      update: jest.fn(),
+    } as unknown as jest.Mocked<BatchRepository>;
+
+    mockTaskRepository = {
+      summarizeByBatch: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<TaskRepository>;
+
+    mockTaskService = {
+      createTaskFromRequest: jest.fn(),
+      resolveProcessingOptions: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<TaskService>;
+
+    mockArchiveExtractor = {
+      extract: jest.fn(),
+    } as unknown as jest.Mocked<ZipArchiveExtractor>;
+
+    batchService = new BatchService(
+      mockRepository,
+      mockTaskRepository,
+      mockTaskService,
+      mockArchiveExtractor
+    );
+  });
+
+  describe('createBatch', () => {
+    /**
+     * @test Debe crear una tarea hija por cada archivo y URL con claves derivadas del lote
+     */
+    it('debe crear una tarea hija por cada archivo y URL', async () => {
+      mockTaskService.createTaskFromRequest
+        .mockResolvedValueOnce({ taskId: 'task-1', status: TaskStatus.PENDING, price: 10 })
+        .mockResolvedValueOnce({ taskId: 'task-2', status: TaskStatus.PENDING, price: 20 });
+      mockTaskRepository.summarizeByBatch.mockResolvedValue([
+        { status: TaskStatus.PENDING, count: 2, price: 30 },
+      ]);
+
+      const result = await batchService.createBatch({
+        body: { imageUrls: ['https://example.com/a.jpg'] } as CreateBatchDto,
+        files: [mockFile],
+        idempotencyKey: 'batch-key',
+      });
+
+      expect(mockTaskService.createTaskFromRequest).toHaveBeenCalledWith(
+        expect.objectContaining({ file: mockFile, idempotencyKey: 'batch-key:0', batchId })
+      );
+      expect(mockTaskService.createTaskFromRequest).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: expect.objectContaining({ imageUrl: 'https://example.com/a.jpg' }),
+          idempotencyKey: 'batch-key:1',
+          batchId,
+        })
+      );
+      expect(mockRepository.update).toHaveBeenCalledWith(batchId, {
+        taskIds: ['task-1', 'task-2'],
+        failures: [],
+      });
+      expect(result).toEqual(
+        expect.objectContaining({
+          batchId,
+          total: 2,
+          counts: { pending: 2, processing: 0, completed: 0, failed: 0, cancelled: 0 },
+          progress: 0,
+          totalPrice: 30,
+          taskIds: ['task-1', 'task-2'],
+        })
+      );
+    });
+
+    /**
+     * @test Debe registrar los elementos fallidos sin interrumpir el resto del lote
+     */
+    it('debe registrar los elementos fallidos sin interrumpir el lote', async () => {
+      mockTaskService.createTaskFromRequest
+        .mockRejectedValueOnce(new BusinessError('Error descargando imagen', 'DOWNLOAD_ERROR', 500))
+        .mockResolvedValueOnce({ taskId: 'task-2', status: TaskStatus.PENDING, price: 20 });
+
+      const result = await batchService.createBatch({
+        body: {
+          imageUrls: ['https://example.com/missing.jpg', 'https://example.com/b.jpg'],
+        } as CreateBatchDto,
+      });
+
+      expect(result.taskIds).toEqual(['task-2']);
+      expect(result.failures).toEqual([
+        {
+          item: 0,
+          source: 'https://example.com/missing.jpg',
+          code: 'DOWNLOAD_ERROR',
+          error: 'Error descargando imagen',
+        },
+      ]);
+    });
+
+    /**
+     * @test Debe devolver el lote existente y descartar los archivos si la clave ya se usó
+     */
+    it('debe devolver el lote existente por idempotencia', async () => {
+      mockRepository.findByIdempotencyKey.mockResolvedValue({ ...mockBatch, taskIds: ['task-1'] });
+
+      const result = await batchService.createBatch({
+        body: {} as CreateBatchDto,
+        files: [mockFile],
+        idempotencyKey: 'batch-key',
+      });
+
+      expect(mockRepository.create).not.toHaveBeenCalled();
+      expect(mockTaskService.createTaskFromRequest).not.toHaveBeenCalled();
+      expect(fs.rm).toHaveBeenCalledWith(mockFile.path, { force: true });
+      expect(result.taskIds).toEqual(['task-1']);
+    });
+
+    /**
+     * @test Debe rechazar un lote sin archivos ni URLs
+     */
+    it('debe rechazar un lote vacío', async () => {
+      await expect(batchService.createBatch({ body: {} as CreateBatchDto })).rejects.toMatchObject({
+        code: 'EMPTY_BATCH',
+      });
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+
+    /**
+     * @test Debe aceptar imageUrls como cadena JSON en peticiones multipart
+     */
+    it('debe aceptar imageUrls como cadena JSON', async () => {
+      mockTaskService.createTaskFromRequest.mockResolvedValue({
+        taskId: 'task-1',
+        status: TaskStatus.PENDING,
+        price: 10,
+      });
+
+      await batchService.createBatch({
+        body: { imageUrls: '["https://example.com/a.jpg"]' } as unknown as CreateBatchDto,
+      });
+
+      expect(mockTaskService.createTaskFromRequest).toHaveBeenCalledTimes(1);
+    });
+
+    /**
+     * @test Debe rechazar URLs no válidas y eliminar los archivos subidos
+     */
+    it('debe rechazar URLs no válidas', async () => {
+      await expect(
+        batchService.createBatch({
+          body: { imageUrls: ['not-a-url'] } as CreateBatchDto,
+          files: [mockFile],
+        })
+      ).rejects.toMatchObject({ code: 'INVALID_IMAGE_URLS' });
+      expect(fs.rm).toHaveBeenCalledWith(mockFile.path, { force: true });
+    });
+  });
+
+  describe('createBatchFromArchive', () => {
+    const mockArchive = {
+      originalname: 'photos.zip',
+      path: '/app/storage/images/input/photos.zip',
+    } as Express.Multer.File;
+
+    /**
+     * @test Debe crear una tarea por imagen y registrar las entradas descartadas
+     */
+    it('debe crear una tarea por imagen y registrar las entradas descartadas', async () => {
+      mockArchiveExtractor.extract.mockResolvedValue({
+        files: [
+          {
+            index: 0,
+            entryName: 'catalog/shoe.jpg',
+            path: '/app/storage/images/input/shoe-1.jpg',
+            filename: 'shoe-1.jpg',
+            size: 1024,
+          },
+          {
+            index: 2,
+            entryName: 'catalog/bag.png',
+            path: '/app/storage/images/input/bag-1.png',
+            filename: 'bag-1.png',
+            size: 2048,
+          },
+        ],
+        rejected: [
+          {
+            index: 1,
+            entryName: 'catalog/readme.txt',
+            code: 'UNSUPPORTED_ENTRY',
+            reason: 'Tipo de archivo no soportado',
+          },
+        ],
+      });
+      mockTaskService.createTaskFromRequest
+        .mockResolvedValueOnce({ taskId: 'task-1', status: TaskStatus.PENDING, price: 10 })
+        .mockResolvedValueOnce({ taskId: 'task-2', status: TaskStatus.PENDING, price: 20 });
+
+      const result = await batchService.createBatchFromArchive({
+        body: {} as CreateBatchDto,
+        file: mockArchive,
+        idempotencyKey: 'archive-key',
+      });
+
+      expect(mockTaskService.createTaskFromRequest).toHaveBeenCalledWith(
+        expect.objectContaining({
+          file: expect.objectContaining({
+            path: '/app/storage/images/input/bag-1.png',
+            originalname: 'bag.png',
+          }),
+          idempotencyKey: 'archive-key:2',
+        })
+      );
+      expect(fs.rm).toHaveBeenCalledWith(mockArchive.path, { force: true });
+      expect(result.taskIds).toEqual(['task-1', 'task-2']);
+      expect(result.failures).toEqual([
+        {
+          item: 1,
+          source: 'catalog/readme.txt',
+          code: 'UNSUPPORTED_ENTRY',
+          error: 'Tipo de archivo no soportado',
+        },
+      ]);
+    });
+
+    /**
+     * @test Debe rechazar un ZIP sin imágenes soportadas
+     */
+    it('debe rechazar un ZIP sin imágenes', async () => {
+      mockArchiveExtractor.extract.mockResolvedValue({ files: [], rejected: [] });
+
+      await expect(
+        batchService.createBatchFromArchive({ body: {} as CreateBatchDto, file: mockArchive })
+      ).rejects.toMatchObject({ code: 'EMPTY_ARCHIVE' });
+      expect(mockRepository.create).not.toHaveBeenCalled();
+      expect(fs.rm).toHaveBeenCalledWith(mockArchive.path, { force: true });
+    });
+
+    /**
+     * @test Debe exigir el archivo ZIP
+     */
+    it('debe exigir el archivo ZIP', async () => {
+      await expect(
+        batchService.createBatchFromArchive({ body: {} as CreateBatchDto })
+      ).rejects.toMatchObject({ code: 'FILE_REQUIRED' });
+      expect(mockArchiveExtractor.extract).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getBatchById', () => {
+    /**
+     * @test Debe calcular el progreso y el precio total a partir de las tareas
+     */
+    it('debe agregar el estado de las tareas del lote', async () => {
+      mockRepository.findById.mockResolvedValue({ ...mockBatch, taskIds: ['a', 'b', 'c', 'd'] });
+      mockTaskRepository.summarizeByBatch.mockResolvedValue([
+        { status: TaskStatus.COMPLETED, count: 2, price: 40 },
+        { status: TaskStatus.FAILED, count: 1, price: 10 },
+        { status: TaskStatus.PROCESSING, count: 1, price: 15 },
+      ]);
+
+      const result = await batchService.getBatchById(batchId);
+
+      expect(mockTaskRepository.summarizeByBatch).toHaveBeenCalledWith(batchId);
+      expect(result.counts).toEqual({
+        pending: 0,
+        processing: 1,
+        completed: 2,
+        failed: 1,
+        cancelled: 0,
+      });
+      expect(result.total).toBe(4);
+      expect(result.progress).toBe(75);
+      expect(result.totalPrice).toBe(65);
+    });
+
+    /**
+     * @test Debe lanzar NotFoundError si el lote no existe
+     */
+    it('debe lanzar NotFoundError si el lote no existe', async () => {
+      mockRepository.findById.mockResolvedValue(null);
+
+      await expect(batchService.getBatchById(batchId)).rejects.toThrow(NotFoundError);
+    });
+  });
+});
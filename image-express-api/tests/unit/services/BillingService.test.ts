@@ -0,0 +1,82 @@
+import { BillingService } from '../../../src/presentation/Billing/services/BillingService';
+import { UsageLedgerRepository } from '../../../src/presentation/Billing/repositories/UsageLedgerRepository';
+import { CacheService } from '../../../src/application/services/CacheService';
+import { UsageStatement } from '../../../src/domain/entities';
+
+jest.mock('../../../src/presentation/Billing/repositories/UsageLedgerRepository');
+jest.mock('../../../src/core/helpers/logger');
+
+/**
+ * Suite de pruebas para BillingService
+ * Verifica la generación de los extractos mensuales y su caché en Redis
+ */
+describe('BillingService', () => {
+  let service: BillingService;
+  let mockRepository: jest.Mocked<UsageLedgerRepository>;
+  let mockCacheService: jest.Mocked<CacheService>;
+
+  const statement: UsageStatement = {
+    lines: [
+      {
+        taskId: '507f1f77bcf86cd799439011',
+        attempt: 1,
+        type: 'charge',
+        amount: 10.32,
+        priceTable: '2026-10',
+        occurredAt: new Date('2026-10-03T10:00:00.000Z'),
+      },
+      {
+        taskId: '507f1f77bcf86cd799439012',
+        attempt: 1,
+        type: 'charge',
+        amount: 15.48,
+        priceTable: '2026-10',
+        occurredAt: new Date('2026-10-04T10:00:00.000Z'),
+      },
+    ],
+    totals: { charges: 25.8, refunds: 0, net: 25.8, entries: 2, tasks: 2 },
+  };
+
+  beforeEach(() => {
+    mockRepository = new UsageLedgerRepository({} as never) as jest.Mocked<UsageLedgerRepository>;
+    mockCacheService = {
+      getOrSet: jest.fn(async (_key: string, fn: () => Promise<unknown>) => fn()),
+    } as unknown as jest.Mocked<CacheService>;
+    service = new BillingService(mockRepository, mockCacheService);
+  });
+
+  /**
+   * @test Debe agregar los apuntes del cliente y el periodo y cachear el extracto
+   */
+  it('debe generar el extracto del cliente y guardarlo en caché', async () => {
+    mockRepository.aggregateStatement.mockResolvedValue(statement);
+
+    const result = await service.getStatement('client-a', '2026-10');
+
+    expect(mockRepository.aggregateStatement).toHaveBeenCalledWith('client-a', '2026-10');
+    expect(mockCacheService.getOrSet).toHaveBeenCalledWith(
+      'billing:statement:client-a:2026-10',
+      expect.any(Function),
+      300
+    );
+    expect(result).toEqual({
+      clientId: 'client-a',
+      period: '2026-10',
+      ...statement,
+      generatedAt: expect.any(Date),
+    });
+  });
+
+  /**
+   * @test Debe servir el extracto en caché sin repetir la agregación
+   */
+  it('debe devolver el extracto en caché', async () => {
+    const cached = { clientId: 'client-a', period: '2026-10', ...statement };
+    mockCacheService.getOrSet.mockResolvedValue(cached);
+
+    const result = await service.getStatement('client-a', '2026-10');
+
+    expect(result).toBe(cached);
+    expect(mockRepository.aggregateStatement).not.toHaveBeenCalled();
+  });
+});
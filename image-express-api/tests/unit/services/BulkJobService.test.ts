@@ -0,0 +1,373 @@
+import { BulkJobService } from '../../../src/presentation/Bulk/services/BulkJobService';
+import { BulkJobRepository } from '../../../src/presentation/Bulk/repositories/BulkJobRepository';
+import { TaskRepository } from '../../../src/presentation/Task/repositories/TaskRepository';
+import { TaskService } from '../../../src/presentation/Task/services/TaskService';
+import { BulkJobEntity, TaskStatus } from '../../../src/domain/entities';
+import { CreateBulkJobDto, TaskFilterDto } from '../../../src/domain/dtos';
+import { BusinessError, NotFoundError } from '../../../src/core/errors';
+
+jest.mock('../../../src/presentation/Bulk/repositories/BulkJobRepository');
+jest.mock('../../../src/presentation/Task/repositories/TaskRepository');
+jest.mock('../../../src/presentation/Task/services/TaskService');
+jest.mock('../../../src/core/helpers/logger');
+
+/**
+ * Suite de pruebas para BulkJobService
+ * Verifica la selección de tareas, la ejecución en segundo plano y el resultado por tarea
+ */
+describe('BulkJobService', () => {
+  let bulkJobService: BulkJobService;
+  let mockRepository: jest.Mocked<BulkJobRepository>;
+  let mockTaskRepository: jest.Mocked<TaskRepository>;
+  let mockTaskService: jest.Mocked<TaskService>;
+
+  const bulkJobId = '507f1f77bcf86cd7994390c1';
+  const taskIds = ['507f1f77bcf86cd799439011', '507f1f77bcf86cd799439012'];
+
+  const buildJob = (overrides: Partial<BulkJobEntity> = {}): BulkJobEntity => ({
+    _id: bulkJobId,
+    action: 'retry',
+    status: 'pending',
+    taskIds,
+    outcomes: [],
+    ...overrides,
+  });
+
+  const flushBackground = (): Promise<void> => new Promise(resolve => setImmediate(resolve));
+
+  /**
+   * Ejecuta una operación que la instancia consigue reclamar tal y como se indica
+   */
+  const runClaimed = (job: BulkJobEntity): Promise<void> => {
+    mockRepository.claim.mockResolvedValue({ ...job, status: 'running' });
+    return bulkJobService.runJob(job);
+  };
+
+  /**
+   * Configuración inicial para cada test
+   */
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockRepository = {
+      create: jest.fn(async (job: Partial<BulkJobEntity>) => ({ _id: bulkJobId, ...job })),
+      findById: jest.fn(),
+      findByIdempotencyKey: jest.fn().mockResolvedValue(null),
+      findUnfinished: jest.fn().mockResolvedValue([]),
+      claim: jest.fn(async () => buildJob({ status: 'running' })),
+      appendOutcomes: jest.fn().mockResolvedValue(true),
+      release: jest.fn().mockResolvedValue(true),
+    } as unknown as jest.Mocked<BulkJobRepository>;
+
+    mockTaskRepository = {
+      findIds: jest.fn().mockResolvedValue(taskIds),
+    } as unknown as jest.Mocked<TaskRepository>;
+
+    mockTaskService = {
+      retryTask: jest.fn(),
+      cancelTask: jest.fn(),
+      deleteTask: jest.fn(),
+    } as unknown as jest.Mocked<TaskService>;
+
+    bulkJobService = new BulkJobService(mockRepository, mockTaskRepository, mockTaskService);
+  });
+
+  describe('createJob', () => {
+    /**
+     * @test Debe fijar los IDs indicados sin duplicados y procesarlos en segundo plano
+     */
+    it('debe crear la operación con los IDs indicados', async () => {
+      mockRepository.claim.mockResolvedValue(buildJob({ action: 'cancel', status: 'running' }));
+
+      const result = await bulkJobService.createJob({
+        body: { action: 'cancel', taskIds: [...taskIds, taskIds[0]] } as CreateBulkJobDto,
+        idempotencyKey: 'bulk-key',
+      });
+
+      expect(mockRepository.create).toHaveBeenCalledWith({
+        action: 'cancel',
+        status: 'pending',
+        taskIds,
+        outcomes: [],
+        idempotencyKey: 'bulk-key',
+      });
+      expect(result).toEqual(
+        expect.objectContaining({ bulkJobId, status: 'pending', total: 2, processed: 0 })
+      );
+
+      await flushBackground();
+      expect(mockTaskService.cancelTask).toHaveBeenCalledTimes(2);
+    });
+
+    /**
+     * @test Debe resolver el filtro en el momento de crear la operación
+     */
+    it('debe seleccionar las tareas con el filtro de GET /tasks', async () => {
+      const createdFrom = new Date('2024-06-01T11:00:00.000Z');
+      const filter = Object.assign(new TaskFilterDto(), {
+        status: [TaskStatus.FAILED],
+        createdFrom,
+      });
+
+      await bulkJobService.createJob({
+        body: { action: 'retry', filter } as CreateBulkJobDto,
+      });
+
+      expect(mockTaskRepository.findIds).toHaveBeenCalledWith(
+        { status: [TaskStatus.FAILED], createdFrom },
+        1001
+      );
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ taskIds, filter: { status: [TaskStatus.FAILED], createdFrom } })
+      );
+      await flushBackground();
+    });
+
+    /**
+     * @test Debe exigir exactamente una forma de seleccionar las tareas
+     */
+    it('debe rechazar selecciones de tareas no válidas', async () => {
+      await expect(
+        bulkJobService.createJob({ body: { action: 'retry' } as CreateBulkJobDto })
+      ).rejects.toMatchObject({ code: 'INVALID_BULK_TARGET' });
+      await expect(
+        bulkJobService.createJob({
+          body: { action: 'retry', taskIds, filter: new TaskFilterDto() } as CreateBulkJobDto,
+        })
+      ).rejects.toMatchObject({ code: 'INVALID_BULK_TARGET' });
+      await expect(
+        bulkJobService.createJob({
+          body: { action: 'delete', filter: new TaskFilterDto() } as CreateBulkJobDto,
+        })
+      ).rejects.toMatchObject({ code: 'EMPTY_BULK_FILTER' });
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+
+    /**
+     * @test Debe rechazar filtros que seleccionan demasiadas tareas
+     */
+    it('debe rechazar filtros que superan el máximo de tareas', async () => {
+      mockTaskRepository.findIds.mockResolvedValue(new Array(1001).fill(taskIds[0]));
+
+      await expect(
+        bulkJobService.createJob({
+          body: {
+            action: 'delete',
+            filter: Object.assign(new TaskFilterDto(), { tags: ['summer'] }),
+          } as CreateBulkJobDto,
+        })
+      ).rejects.toMatchObject({ code: 'BULK_TOO_LARGE', statusCode: 400 });
+    });
+
+    /**
+     * @test Debe devolver la operación existente si se repite la clave de idempotencia
+     */
+    it('debe respetar la idempotencia', async () => {
+      mockRepository.findByIdempotencyKey.mockResolvedValue(buildJob({ status: 'completed' }));
+
+      const result = await bulkJobService.createJob({
+        body: { action: 'retry', taskIds } as CreateBulkJobDto,
+        idempotencyKey: 'bulk-key',
+      });
+
+      expect(result.status).toBe('completed');
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runJob', () => {
+    /**
+     * @test Debe omitir las tareas cuyo estado no admite la acción y registrar los fallos
+     */
+    it('debe registrar el resultado de cada tarea', async () => {
+      mockTaskService.retryTask
+        .mockResolvedValueOnce({ taskId: taskIds[0], status: TaskStatus.PENDING, price: 10 })
+        .mockRejectedValueOnce(
+          new BusinessError('Solo se pueden reintentar tareas fallidas', 'INVALID_RETRY_STATE', 400)
+        )
+        .mockRejectedValueOnce(new NotFoundError('La tarea no existe'))
+        .mockRejectedValueOnce(new Error('Redis down'));
+
+      await runClaimed(
+        buildJob({ taskIds: [...taskIds, '507f1f77bcf86cd799439013', '507f1f77bcf86cd799439014'] })
+      );
+
+      expect(mockRepository.claim).toHaveBeenCalledWith(
+        bulkJobId,
+        expect.stringMatching(/^api:/),
+        expect.any(Date)
+      );
+      const owner = mockRepository.claim.mock.calls[0][1];
+      expect(mockRepository.appendOutcomes).toHaveBeenCalledWith(
+        bulkJobId,
+        owner,
+        [
+          { taskId: taskIds[0], status: 'succeeded' },
+          {
+            taskId: taskIds[1],
+            status: 'skipped',
+            code: 'INVALID_RETRY_STATE',
+            error: 'Solo se pueden reintentar tareas fallidas',
+          },
+          {
+            taskId: '507f1f77bcf86cd799439013',
+            status: 'skipped',
+            code: 'TASK_NOT_FOUND',
+            error: 'La tarea no existe',
+          },
+          { taskId: '507f1f77bcf86cd799439014', status: 'failed', error: 'Redis down' },
+        ],
+        expect.any(Date)
+      );
+      expect(mockRepository.release).toHaveBeenLastCalledWith(
+        bulkJobId,
+        owner,
+        expect.objectContaining({ status: 'completed' })
+      );
+    });
+
+    /**
+     * @test Al reanudar no debe repetir las tareas ya procesadas
+     */
+    it('debe continuar desde las tareas sin resultado', async () => {
+      await runClaimed(
+        buildJob({
+          action: 'delete',
+          status: 'running',
+          outcomes: [{ taskId: taskIds[0], status: 'succeeded' }],
+        })
+      );
+
+      expect(mockTaskService.deleteTask).toHaveBeenCalledTimes(1);
+      expect(mockTaskService.deleteTask).toHaveBeenCalledWith(taskIds[1]);
+    });
+
+    /**
+     * @test Un error inesperado debe marcar la operación como fallida sin propagarse
+     */
+    it('debe marcar la operación como fallida ante un error inesperado', async () => {
+      mockRepository.appendOutcomes.mockRejectedValue(new Error('Mongo unavailable'));
+
+      await expect(runClaimed(buildJob())).resolves.toBeUndefined();
+
+      expect(mockRepository.release).toHaveBeenLastCalledWith(
+        bulkJobId,
+        expect.any(String),
+        expect.objectContaining({ status: 'failed', error: 'Mongo unavailable' })
+      );
+    });
+
+    /**
+     * @test Debe procesar los resultados actuales de la operación reclamada, no los de la copia
+     * leída antes de reclamarla
+     */
+    it('debe procesar solo las tareas sin resultado en la operación reclamada', async () => {
+      mockRepository.claim.mockResolvedValue(
+        buildJob({
+          action: 'delete',
+          status: 'running',
+          outcomes: [{ taskId: taskIds[0], status: 'succeeded' }],
+        })
+      );
+
+      await bulkJobService.runJob(buildJob({ action: 'delete' }));
+
+      expect(mockTaskService.deleteTask).toHaveBeenCalledTimes(1);
+      expect(mockTaskService.deleteTask).toHaveBeenCalledWith(taskIds[1]);
+    });
+
+    /**
+     * @test No debe ejecutar una operación reclamada por otra instancia
+     */
+    it('no debe ejecutar una operación que otra instancia tiene reclamada', async () => {
+      jest.useFakeTimers({ now: new Date('2024-06-01T12:00:00.000Z') });
+      try {
+        const leased = buildJob({
+          status: 'running',
+          owner: 'api:other-host:1',
+          leaseUntil: new Date('2024-06-01T12:05:00.000Z'),
+        });
+        mockRepository.claim.mockResolvedValue(null);
+        mockRepository.findById.mockResolvedValue(leased);
+
+        await bulkJobService.runJob(leased);
+
+        expect(mockTaskService.retryTask).not.toHaveBeenCalled();
+        expect(mockRepository.release).not.toHaveBeenCalled();
+
+        mockRepository.claim.mockResolvedValue(leased);
+        await jest.advanceTimersByTimeAsync(5 * 60 * 1000 + 1000);
+
+        expect(mockRepository.claim).toHaveBeenCalledTimes(2);
+        expect(mockTaskService.retryTask).toHaveBeenCalledTimes(2);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    /**
+     * @test Debe dejar de procesar si otra instancia reclama la operación
+     */
+    it('debe detenerse si pierde la reclamación de la operación', async () => {
+      mockRepository.appendOutcomes.mockResolvedValue(false);
+
+      await runClaimed(
+        buildJob({
+          taskIds: Array.from(
+            { length: 60 },
+            (_, index) => `507f1f77bcf86cd7994390${String(index).padStart(2, '0')}`
+          ),
+        })
+      );
+
+      expect(mockRepository.appendOutcomes).toHaveBeenCalledTimes(1);
+      expect(mockTaskService.retryTask).toHaveBeenCalledTimes(50);
+      expect(mockRepository.release).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getJobById', () => {
+    /**
+     * @test Debe calcular el progreso a partir de los resultados registrados
+     */
+    it('debe devolver el progreso de la operación', async () => {
+      mockRepository.findById.mockResolvedValue(
+        buildJob({ status: 'running', outcomes: [{ taskId: taskIds[0], status: 'skipped' }] })
+      );
+
+      const result = await bulkJobService.getJobById(bulkJobId);
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          total: 2,
+          processed: 1,
+          progress: 50,
+          counts: { succeeded: 0, skipped: 1, failed: 0 },
+        })
+      );
+    });
+
+    /**
+     * @test Debe lanzar NotFoundError si la operación no existe
+     */
+    it('debe lanzar NotFoundError si no existe', async () => {
+      mockRepository.findById.mockResolvedValue(null);
+
+      await expect(bulkJobService.getJobById(bulkJobId)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('resumeUnfinished', () => {
+    /**
+     * @test Debe reanudar las operaciones pendientes o en curso
+     */
+    it('debe reanudar las operaciones sin terminar', async () => {
+      mockRepository.findUnfinished.mockResolvedValue([buildJob({ status: 'running' })]);
+
+      await expect(bulkJobService.resumeUnfinished()).resolves.toBe(1);
+
+      await flushBackground();
+      expect(mockTaskService.retryTask).toHaveBeenCalledTimes(2);
+    });
+  });
+});
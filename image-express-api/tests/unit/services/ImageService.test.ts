@@ -0,0 +1,361 @@
+import { ImageService } from '../../../src/presentation/Image/services/ImageService';
+import { ImageRepository } from '../../../src/presentation/Image/repositories/ImageRepository';
+import { TaskRepository } from '../../../src/presentation/Task/repositories/TaskRepository';
+import { ImageEntity, TaskEntity, TaskStatus } from '../../../src/domain/entities';
+import { NotFoundError } from '../../../src/core/errors';
+import { verifySignedUrl } from '../../../src/core/helpers/urlSigning';
+import fs from 'fs/promises';
+import { signedUrl } from '../../fixtures/signedUrl';
+
+jest.mock('../../../src/presentation/Image/repositories/ImageRepository');
+jest.mock('../../../src/presentation/Task/repositories/TaskRepository');
+jest.mock('fs/promises');
+
+/**
+ * Suite de pruebas para ImageService
+ * Verifica la consulta de las variantes registradas por el worker
+ */
+describe('ImageService', () => {
+  let imageService: ImageService;
+  let mockRepository: jest.Mocked<ImageRepository>;
+  let mockTaskRepository: jest.Mocked<TaskRepository>;
+
+  const taskId = '507f1f77bcf86cd799439011';
+
+  const mockTask: TaskEntity = {
+    _id: taskId,
+    status: TaskStatus.COMPLETED,
+    price: 25.5,
+    originalPath: '/app/storage/images/tasks/507f1f77bcf86cd799439011/test.jpg',
+    images: [],
+  };
+
+  const mockImage: ImageEntity = {
+    _id: '507f1f77bcf86cd7994390aa',
+    taskId,
+    resolution: '1024',
+    path: '/app/output/test/1024/d41d8cd98f00b204e9800998ecf8427e.jpg',
+    md5: 'd41d8cd98f00b204e9800998ecf8427e',
+    size: 183204,
+    format: 'jpeg',
+    width: 1024,
+    height: 768,
+    createdAt: new Date('2023-01-01T00:00:00.000Z'),
+  };
+
+  /**
+   * Configuración inicial para cada test
+   */
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockRepository = {
+      create: jest.fn(),
+      findByTaskId: jest.fn(),
+      findByMd5: jest.fn(),
+      deleteByTaskId: jest.fn(),
+    } as unknown as jest.Mocked<ImageRepository>;
+
+    mockTaskRepository = {
+      findById: jest.fn(),
+      findActiveIds: jest.fn().mockImplementation(async ids => ids),
+    } as unknown as jest.Mocked<TaskRepository>;
+
+    imageService = new ImageService(mockRepository, mockTaskRepository);
+  });
+
+  describe('getImagesByTaskId', () => {
+    /**
+     * @test Debe devolver las variantes registradas de la tarea
+     */
+    it('debe devolver las variantes registradas de la tarea', async () => {
+      mockTaskRepository.findById.mockResolvedValue(mockTask);
+      mockRepository.findByTaskId.mockResolvedValue([mockImage]);
+
+      const result = await imageService.getImagesByTaskId(taskId);
+
+      expect(mockRepository.findByTaskId).toHaveBeenCalledWith(taskId);
+      expect(result).toEqual([
+        {
+          imageId: mockImage._id,
+          taskId,
+          resolution: '1024',
+          url: signedUrl(`/api/v1/tasks/${taskId}/images/${mockImage.md5}.jpg`),
+          md5: mockImage.md5,
+          size: 183204,
+          format: 'jpeg',
+          width: 1024,
+          height: 768,
+          createdAt: mockImage.createdAt,
+        },
+      ]);
+    });
+
+    /**
+     * @test Debe devolver una lista vacía si la tarea aún no se ha procesado
+     */
+    it('debe devolver una lista vacía si la tarea aún no se ha procesado', async () => {
+      mockTaskRepository.findById.mockResolvedValue({ ...mockTask, status: TaskStatus.PENDING });
+      mockRepository.findByTaskId.mockResolvedValue([]);
+
+      await expect(imageService.getImagesByTaskId(taskId)).resolves.toEqual([]);
+    });
+
+    /**
+     * @test Debe fallar cuando la tarea no existe
+     */
+    it('debe fallar cuando la tarea no existe', async () => {
+      mockTaskRepository.findById.mockResolvedValue(null);
+
+      await expect(imageService.getImagesByTaskId(taskId)).rejects.toThrow(NotFoundError);
+      expect(mockRepository.findByTaskId).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findImagesByMd5', () => {
+    /**
+     * @test Debe buscar las variantes por hash MD5
+     */
+    it('debe buscar las variantes por hash MD5', async () => {
+      mockRepository.findByMd5.mockResolvedValue([mockImage]);
+
+      const result = await imageService.findImagesByMd5(mockImage.md5);
+
+      expect(mockRepository.findByMd5).toHaveBeenCalledWith(mockImage.md5);
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({ imageId: mockImage._id, md5: mockImage.md5 });
+    });
+
+    /**
+     * @test Debe omitir las variantes de tareas eliminadas
+     */
+    it('debe omitir las variantes de tareas eliminadas', async () => {
+      const deletedTaskId = '507f1f77bcf86cd799439022';
+      mockRepository.findByMd5.mockResolvedValue([
+        mockImage,
+        { ...mockImage, _id: '507f1f77bcf86cd7994390bb', taskId: deletedTaskId },
+      ]);
+      mockTaskRepository.findActiveIds.mockResolvedValue([taskId]);
+
+      const result = await imageService.findImagesByMd5(mockImage.md5);
+
+      expect(mockTaskRepository.findActiveIds).toHaveBeenCalledWith([taskId, deletedTaskId]);
+      expect(result.map(image => image.taskId)).toEqual([taskId]);
+    });
+
+    /**
+     * @test No debe consultar las tareas si no hay variantes con ese hash
+     */
+    it('no debe consultar las tareas si no hay variantes con ese hash', async () => {
+      mockRepository.findByMd5.mockResolvedValue([]);
+
+      await expect(imageService.findImagesByMd5(mockImage.md5)).resolves.toEqual([]);
+      expect(mockTaskRepository.findActiveIds).not.toHaveBeenCalled();
+    });
+
+    /**
+     * @test Debe omitir los campos opcionales ausentes
+     */
+    it('debe omitir los campos opcionales ausentes', async () => {
+      const {
+        size: _size,
+        format: _format,
+        width: _width,
+        height: _height,
+        ...minimal
+      } = mockImage;
+      mockRepository.findByMd5.mockResolvedValue([minimal]);
+
+      const [result] = await imageService.findImagesByMd5(mockImage.md5);
+
+      expect(result).not.toHaveProperty('size');
+      expect(result).not.toHaveProperty('format');
+      expect(result).not.toHaveProperty('width');
+    });
+  });
+
+  describe('getVariantFile', () => {
+    const completedTask: TaskEntity = {
+      ...mockTask,
+      images: [
+        {
+          resolution: '1024',
+          path: '/app/output/test/1024/aaaabbbbccccddddeeeeffff00001111.webp',
+          format: 'webp',
+        },
+        { resolution: '800', path: '/app/output/test/800/22223333444455556666777788889999.jpg' },
+      ],
+    };
+
+    beforeEach(() => {
+      jest.mocked(fs.stat).mockResolvedValue({ isFile: () => true, size: 4096 } as any);
+    });
+
+    /**
+     * @test Debe resolver la variante por resolución, extensión o MD5 (inmutable solo por MD5)
+     */
+    it('debe resolver la variante por resolución, extensión o MD5', async () => {
+      mockTaskRepository.findById.mockResolvedValue(completedTask);
+
+      for (const [variant, immutable] of [
+        ['1024', false],
+        ['1024.webp', false],
+        ['aaaabbbbccccddddeeeeffff00001111.webp', true],
+      ] as const) {
+        await expect(imageService.getVariantFile(taskId, variant)).resolves.toEqual({
+          path: completedTask.images[0].path,
+          size: 4096,
+          etag: '"aaaabbbbccccddddeeeeffff00001111"',
+          contentType: 'image/webp',
+          immutable,
+        });
+      }
+      await expect(imageService.getVariantFile(taskId, '800.jpg')).resolves.toMatchObject({
+        contentType: 'image/jpeg',
+      });
+    });
+
+    /**
+     * @test Debe fallar si la variante no existe o la tarea no está completada
+     */
+    it('debe fallar si la variante no existe o la tarea no está completada', async () => {
+      mockTaskRepository.findById.mockResolvedValue(completedTask);
+      await expect(imageService.getVariantFile(taskId, '1024.png')).rejects.toThrow(NotFoundError);
+
+      mockTaskRepository.findById.mockResolvedValue({
+        ...completedTask,
+        status: TaskStatus.PROCESSING,
+      });
+      await expect(imageService.getVariantFile(taskId, '1024')).rejects.toThrow(NotFoundError);
+
+      mockTaskRepository.findById.mockResolvedValue(null);
+      await expect(imageService.getVariantFile(taskId, '1024')).rejects.toThrow(NotFoundError);
+    });
+
+    /**
+     * @test Debe fallar si el archivo ya no está en disco
+     */
+    it('debe fallar si el archivo ya no está en disco', async () => {
+      mockTaskRepository.findById.mockResolvedValue(completedTask);
+      jest.mocked(fs.stat).mockRejectedValue(new Error('ENOENT'));
+
+      await expect(imageService.getVariantFile(taskId, '1024')).rejects.toThrow(
+        'ya no está disponible'
+      );
+    });
+  });
+
+  describe('getOriginalFile', () => {
+    /**
+     * @test Debe resolver el original de la tarea
+     */
+    it('debe resolver el original de la tarea', async () => {
+      mockTaskRepository.findById.mockResolvedValue(mockTask);
+      jest.mocked(fs.stat).mockResolvedValue({ isFile: () => true, size: 2048 } as any);
+
+      const file = await imageService.getOriginalFile(taskId);
+
+      expect(file).toMatchObject({
+        path: mockTask.originalPath,
+        size: 2048,
+        contentType: 'image/jpeg',
+      });
+      expect(file.etag).toMatch(/^"[a-f0-9]{32}"$/);
+    });
+
+    /**
+     * @test Debe fallar si la tarea o su original no existen
+     */
+    it('debe fallar si la tarea o su original no existen', async () => {
+      mockTaskRepository.findById.mockResolvedValue(null);
+      await expect(imageService.getOriginalFile(taskId)).rejects.toThrow(NotFoundError);
+
+      mockTaskRepository.findById.mockResolvedValue(mockTask);
+      jest.mocked(fs.stat).mockRejectedValue(new Error('ENOENT'));
+      await expect(imageService.getOriginalFile(taskId)).rejects.toThrow('ya no está disponible');
+    });
+  });
+
+  describe('issueSignedUrls', () => {
+    const completedTask: TaskEntity = {
+      ...mockTask,
+      images: [
+        { resolution: '800', path: '/app/output/test/800/22223333444455556666777788889999.jpg' },
+      ],
+    };
+
+    /**
+     * @test Debe firmar el original, las variantes y las transformaciones con la misma caducidad
+     */
+    it('debe firmar el original, las variantes y las transformaciones con la misma caducidad', async () => {
+      mockTaskRepository.findById.mockResolvedValue(completedTask);
+
+      const result = await imageService.issueSignedUrls(taskId, {
+        expiresIn: 600,
+        transforms: [{ w: 300, fmt: 'webp' }],
+      });
+
+      const expires = Math.floor(result.expiresAt.getTime() / 1000);
+      expect(expires - Math.floor(Date.now() / 1000)).toBeGreaterThanOrEqual(599);
+      expect(result.original).toMatch(
+        new RegExp(`^/api/v1/tasks/${taskId}/original\\?expires=${expires}&signature=`)
+      );
+      expect(result.images[0].url).toMatch(`/api/v1/tasks/${taskId}/images/800.jpg?expires=`);
+      expect(result.transforms[0]).toMatchObject({ w: 300, fmt: 'webp' });
+      expect(result.transforms[0].url).toMatch(
+        `/api/v1/images/${taskId}/transform?w=300&fmt=webp&expires=`
+      );
+
+      for (const url of [result.original, result.images[0].url, result.transforms[0].url]) {
+        expect(() => verifySignedUrl(url)).not.toThrow();
+      }
+    });
+
+    /**
+     * @test Debe omitir las variantes si la tarea no está completada
+     */
+    it('debe omitir las variantes si la tarea no está completada', async () => {
+      mockTaskRepository.findById.mockResolvedValue({
+        ...completedTask,
+        status: TaskStatus.PROCESSING,
+      });
+
+      const result = await imageService.issueSignedUrls(taskId, {});
+
+      expect(result.images).toEqual([]);
+      expect(result.transforms).toEqual([]);
+      expect(result.original).toContain('signature=');
+    });
+
+    /**
+     * @test Debe fallar cuando la tarea no existe
+     */
+    it('debe fallar cuando la tarea no existe', async () => {
+      mockTaskRepository.findById.mockResolvedValue(null);
+
+      await expect(imageService.issueSignedUrls(taskId, {})).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('tareas eliminadas', () => {
+    /**
+     * @test Debe tratar una tarea eliminada como inexistente en todas las descargas
+     */
+    it('debe tratar una tarea eliminada como inexistente en todas las descargas', async () => {
+      mockTaskRepository.findById.mockResolvedValue({
+        ...mockTask,
+        images: [
+          { resolution: '800', path: '/app/output/test/800/22223333444455556666777788889999.jpg' },
+        ],
+        deletedAt: new Date('2024-01-02T00:00:00Z'),
+      });
+      jest.mocked(fs.stat).mockResolvedValue({ isFile: () => true, size: 4096 } as any);
+
+      await expect(imageService.getImagesByTaskId(taskId)).rejects.toThrow(NotFoundError);
+      await expect(imageService.getVariantFile(taskId, '800')).rejects.toThrow(NotFoundError);
+      await expect(imageService.getOriginalFile(taskId)).rejects.toThrow(NotFoundError);
+      await expect(imageService.issueSignedUrls(taskId, {})).rejects.toThrow(NotFoundError);
+      expect(mockRepository.findByTaskId).not.toHaveBeenCalled();
+    });
+  });
+});
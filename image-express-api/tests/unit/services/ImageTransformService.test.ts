@@ -0,0 +1,165 @@
+import { ImageTransformService } from '../../../src/presentation/Image/services/ImageTransformService';
+import { TaskRepository } from '../../../src/presentation/Task/repositories/TaskRepository';
+import { ConcurrencyLimiter } from '../../../src/core/helpers/concurrency';
+import { TaskEntity, TaskStatus } from '../../../src/domain/entities';
+import { TransformQueryDto } from '../../../src/domain/dtos';
+import { BusinessError, NotFoundError } from '../../../src/core/errors';
+import sharp from 'sharp';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+jest.mock('../../../src/presentation/Task/repositories/TaskRepository');
+
+/**
+ * Suite de pruebas para ImageTransformService
+ * Verifica la generación, caché y límites de las transformaciones bajo demanda
+ */
+describe('ImageTransformService', () => {
+  let service: ImageTransformService;
+  let mockTaskRepository: jest.Mocked<TaskRepository>;
+  let workDir: string;
+  let mockTask: TaskEntity;
+
+  const taskId = '507f1f77bcf86cd799439011';
+
+  /**
+   * Crea un original JPEG de 800x600 y un directorio de caché temporal para cada test
+   */
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'transforms-'));
+    process.env.STORAGE_TRANSFORM_CACHE_PATH = path.join(workDir, 'cache');
+
+    const originalPath = path.join(workDir, 'original.jpg');
+    await sharp({ create: { width: 800, height: 600, channels: 3, background: '#336699' } })
+      .jpeg()
+      .toFile(originalPath);
+
+    mockTask = { _id: taskId, status: TaskStatus.COMPLETED, price: 25.5, originalPath, images: [] };
+    mockTaskRepository = { findById: jest.fn() } as unknown as jest.Mocked<TaskRepository>;
+    mockTaskRepository.findById.mockResolvedValue(mockTask);
+
+    service = new ImageTransformService(mockTaskRepository, new ConcurrencyLimiter(2, 2), 2);
+  });
+
+  afterEach(async () => {
+    delete process.env.STORAGE_TRANSFORM_CACHE_PATH;
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  const query = (params: Partial<TransformQueryDto>): TransformQueryDto =>
+    ({ w: 200, ...params }) as TransformQueryDto;
+
+  /**
+   * @test Debe generar el derivado en caché conservando el formato del original
+   */
+  it('debe generar el derivado en caché conservando el formato del original', async () => {
+    const file = await service.getTransformedFile(taskId, query({}));
+
+    expect(file.path.startsWith(path.join(workDir, 'cache', taskId))).toBe(true);
+    expect(file.path.endsWith('.jpg')).toBe(true);
+    expect(file.contentType).toBe('image/jpeg');
+    expect(file.etag).toMatch(/^"[a-f0-9]{32}"$/);
+
+    const metadata = await sharp(file.path).metadata();
+    expect([metadata.format, metadata.width, metadata.height]).toEqual(['jpeg', 200, 150]);
+  });
+
+  /**
+   * @test Debe aplicar ajuste, formato y calidad
+   */
+  it('debe aplicar ajuste, formato y calidad', async () => {
+    const file = await service.getTransformedFile(
+      taskId,
+      query({ w: 100, h: 100, fit: 'cover', fmt: 'webp', q: 60 })
+    );
+
+    expect(file.contentType).toBe('image/webp');
+    const metadata = await sharp(file.path).metadata();
+    expect([metadata.format, metadata.width, metadata.height]).toEqual(['webp', 100, 100]);
+  });
+
+  /**
+   * @test Debe reutilizar el derivado en caché y agrupar peticiones simultáneas
+   */
+  it('debe reutilizar el derivado en caché y agrupar peticiones simultáneas', async () => {
+    const [first, second] = await Promise.all([
+      service.getTransformedFile(taskId, query({})),
+      service.getTransformedFile(taskId, query({})),
+    ]);
+    const cached = await service.getTransformedFile(taskId, query({}));
+
+    expect(second).toEqual(first);
+    expect(cached).toEqual(first);
+    await expect(fs.readdir(path.join(workDir, 'cache', taskId))).resolves.toHaveLength(1);
+  });
+
+  /**
+   * @test Debe rechazar nuevos derivados al alcanzar el límite por original
+   */
+  it('debe rechazar nuevos derivados al alcanzar el límite por original', async () => {
+    await service.getTransformedFile(taskId, query({ w: 100 }));
+    await service.getTransformedFile(taskId, query({ w: 200 }));
+
+    await expect(service.getTransformedFile(taskId, query({ w: 300 }))).rejects.toMatchObject({
+      code: 'TRANSFORM_LIMIT_REACHED',
+      statusCode: 409,
+    });
+    await expect(service.getTransformedFile(taskId, query({ w: 100 }))).resolves.toBeDefined();
+  });
+
+  /**
+   * @test Debe contar los derivados en curso para el límite por original
+   */
+  it('debe contar los derivados en curso para el límite por original', async () => {
+    const results = await Promise.allSettled(
+      [100, 200, 300, 400].map(w => service.getTransformedFile(taskId, query({ w })))
+    );
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(2);
+    expect(
+      results
+        .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+        .map(result => result.reason.code)
+    ).toEqual(['TRANSFORM_LIMIT_REACHED', 'TRANSFORM_LIMIT_REACHED']);
+    await expect(fs.readdir(path.join(workDir, 'cache', taskId))).resolves.toHaveLength(2);
+  });
+
+  /**
+   * @test Debe rechazar la transformación si el limitador está saturado
+   */
+  it('debe rechazar la transformación si el limitador está saturado', async () => {
+    const limiter = new ConcurrencyLimiter(1, 0);
+    service = new ImageTransformService(mockTaskRepository, limiter, 2);
+    jest.spyOn(limiter, 'isSaturated', 'get').mockReturnValue(true);
+
+    const error = await service.getTransformedFile(taskId, query({})).catch(e => e);
+
+    expect(error).toBeInstanceOf(BusinessError);
+    expect(error).toMatchObject({ code: 'TRANSFORM_BUSY', statusCode: 503 });
+  });
+
+  /**
+   * @test Debe fallar si la tarea o su original no existen
+   */
+  it('debe fallar si la tarea o su original no existen', async () => {
+    mockTaskRepository.findById.mockResolvedValueOnce(null);
+    await expect(service.getTransformedFile(taskId, query({}))).rejects.toThrow(NotFoundError);
+
+    mockTaskRepository.findById.mockResolvedValueOnce({
+      ...mockTask,
+      originalPath: path.join(workDir, 'missing.jpg'),
+    });
+    await expect(service.getTransformedFile(taskId, query({}))).rejects.toThrow(NotFoundError);
+  });
+
+  /**
+   * @test Debe tratar una tarea eliminada como inexistente
+   */
+  it('debe tratar una tarea eliminada como inexistente', async () => {
+    mockTaskRepository.findById.mockResolvedValueOnce({ ...mockTask, deletedAt: new Date() });
+
+    await expect(service.getTransformedFile(taskId, query({}))).rejects.toThrow(NotFoundError);
+    await expect(fs.readdir(path.join(workDir, 'cache'))).rejects.toThrow();
+  });
+});
@@ -0,0 +1,169 @@
+import { PricingService } from '../../../src/application/services/PricingService';
+import { ImageProbe } from '../../../src/infrastructure/image-processing/ImageProbe';
+import { PricingInput } from '../../../src/domain/entities';
+
+jest.mock('../../../src/infrastructure/image-processing/ImageProbe');
+
+/**
+ * Suite de pruebas para PricingService
+ * Verifica el cálculo determinista del precio y su desglose con la tarifa versionada
+ */
+describe('PricingService', () => {
+  let service: PricingService;
+  let mockProbe: jest.Mocked<ImageProbe>;
+
+  const buildInput = (overrides: Partial<PricingInput> = {}): PricingInput => ({
+    width: 4000,
+    height: 3000,
+    format: 'jpeg',
+    variants: [{ width: 1024 }, { width: 800 }],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockProbe = new ImageProbe() as jest.Mocked<ImageProbe>;
+    service = new PricingService(mockProbe);
+  });
+
+  describe('calculate', () => {
+    /**
+     * @test Debe desglosar base, megapíxeles de entrada, variantes y megapíxeles de salida
+     */
+    it('debe desglosar el precio de la tarifa vigente', () => {
+      expect(service.calculate(buildInput())).toEqual({
+        version: '2026-10',
+        lines: [
+          { concept: 'base', quantity: 1, unitPrice: 2, amount: 2 },
+          { concept: 'input-megapixels', quantity: 12, unitPrice: 0.5, amount: 6 },
+          { concept: 'variants', quantity: 2, unitPrice: 1, amount: 2 },
+          { concept: 'output-megapixels', quantity: 1.27, unitPrice: 0.25, amount: 0.32 },
+        ],
+        subtotal: 10.32,
+        multiplier: 1,
+        total: 10.32,
+      });
+    });
+
+    /**
+     * @test Debe dar siempre el mismo resultado para los mismos datos
+     */
+    it('debe ser determinista', () => {
+      const input = buildInput({ source: 'url', priority: 3 });
+
+      expect(service.calculate(input)).toEqual(service.calculate(input));
+    });
+
+    /**
+     * @test Debe aplicar los recargos de formato, origen y el multiplicador de prioridad
+     */
+    it('debe aplicar recargos de formato, origen y prioridad', () => {
+      const result = service.calculate(
+        buildInput({
+          variants: [
+            { width: 1024, format: 'avif' },
+            { width: 800, format: 'webp' },
+            { width: 400, format: 'avif' },
+          ],
+          source: 'url',
+          priority: 1,
+        })
+      );
+
+      expect(result.lines).toEqual(
+        expect.arrayContaining([
+          { concept: 'format', detail: 'avif', quantity: 2, unitPrice: 0.75, amount: 1.5 },
+          { concept: 'format', detail: 'webp', quantity: 1, unitPrice: 0.25, amount: 0.25 },
+          { concept: 'source', detail: 'url', quantity: 1, unitPrice: 1, amount: 1 },
+        ])
+      );
+      expect(result.multiplier).toBe(1.5);
+      expect(result.total).toBe(Math.round(result.subtotal * 1.5 * 100) / 100);
+    });
+
+    /**
+     * @test Las variantes no deben ampliar el original y los recortes deben usar el tamaño pedido
+     */
+    it('debe estimar los megapíxeles de salida sin ampliar el original', () => {
+      const result = service.calculate(
+        buildInput({
+          width: 1000,
+          height: 500,
+          variants: [{ width: 2000 }, { width: 400, height: 400, fit: 'cover' }],
+        })
+      );
+
+      expect(result.lines).toContainEqual({
+        concept: 'output-megapixels',
+        quantity: 0.66,
+        unitPrice: 0.25,
+        amount: 0.17,
+      });
+    });
+
+    /**
+     * @test Debe aplicar el mínimo de la tarifa
+     */
+    it('debe aplicar el precio mínimo', () => {
+      const result = service.calculate(
+        buildInput({ width: 200, height: 200, variants: [{ width: 100 }] })
+      );
+
+      expect(result.subtotal).toBeLessThan(5);
+      expect(result.total).toBe(5);
+    });
+
+    /**
+     * @test Debe rechazar una versión de tarifa inexistente
+     */
+    it('debe fallar con una tarifa inexistente', () => {
+      expect(() => service.calculate(buildInput(), '1999-01')).toThrow(
+        expect.objectContaining({ code: 'UNKNOWN_PRICE_TABLE' })
+      );
+    });
+  });
+
+  describe('reprice', () => {
+    /**
+     * @test Debe cambiar solo el multiplicador y el total con la tarifa del desglose
+     */
+    it('debe recalcular el precio para otra prioridad', () => {
+      const pricing = service.calculate(buildInput({ priority: 5 }));
+
+      expect(service.reprice(pricing, 1)).toEqual({ ...pricing, multiplier: 1.5, total: 15.48 });
+      expect(service.reprice(pricing, 4)).toEqual(service.calculate(buildInput({ priority: 4 })));
+    });
+
+    /**
+     * @test Debe respetar el mínimo de la tarifa
+     */
+    it('debe aplicar el precio mínimo', () => {
+      const pricing = service.calculate(
+        buildInput({ width: 200, height: 200, variants: [{ width: 100 }], priority: 1 })
+      );
+
+      expect(service.reprice(pricing, 10).total).toBe(5);
+    });
+  });
+
+  describe('priceImage', () => {
+    /**
+     * @test Debe calcular el precio a partir de la cabecera de la imagen
+     */
+    it('debe leer la cabecera y calcular el precio', async () => {
+      mockProbe.probe.mockResolvedValue({ width: 4000, height: 3000, format: 'png' });
+
+      const result = await service.priceImage('/tmp/image.png', {
+        variants: [{ width: 1024 }],
+      });
+
+      expect(mockProbe.probe).toHaveBeenCalledWith('/tmp/image.png');
+      expect(result.lines).toContainEqual({
+        concept: 'format',
+        detail: 'png',
+        quantity: 1,
+        unitPrice: 0.25,
+        amount: 0.25,
+      });
+    });
+  });
+});
@@ -0,0 +1,380 @@
+import { TaskExportService } from '../../../src/presentation/Export/services/TaskExportService';
+import { TaskExportRepository } from '../../../src/presentation/Export/repositories/TaskExportRepository';
+import { TaskRepository } from '../../../src/presentation/Task/repositories/TaskRepository';
+import { TaskEntity, TaskExportEntity, TaskStatus } from '../../../src/domain/entities';
+import { TaskFilterDto } from '../../../src/domain/dtos';
+import { NotFoundError } from '../../../src/core/errors';
+import { Readable } from 'stream';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+jest.mock('../../../src/presentation/Export/repositories/TaskExportRepository');
+jest.mock('../../../src/presentation/Task/repositories/TaskRepository');
+jest.mock('../../../src/core/helpers/logger');
+
+/**
+ * Suite de pruebas para TaskExportService
+ * Verifica la serialización en CSV y NDJSON y la generación del archivo en segundo plano
+ */
+describe('TaskExportService', () => {
+  let service: TaskExportService;
+  let mockRepository: jest.Mocked<TaskExportRepository>;
+  let mockTaskRepository: jest.Mocked<TaskRepository>;
+  let workDir: string;
+
+  const exportId = '507f1f77bcf86cd7994390e1';
+
+  const buildTasks = (): TaskEntity[] => [
+    {
+      _id: '507f1f77bcf86cd799439011',
+      status: TaskStatus.COMPLETED,
+      price: 25.5,
+      originalPath: '',
+      source: 'url',
+      images: [
+        { resolution: '1024', path: '/output/a/1024/a.jpg' },
+        { resolution: '800', path: '/output/a/800/a.jpg' },
+      ],
+      createdAt: new Date('2024-06-01T12:00:00.000Z'),
+      updatedAt: new Date('2024-06-01T12:05:00.000Z'),
+    },
+    {
+      _id: '507f1f77bcf86cd799439012',
+      status: TaskStatus.FAILED,
+      price: 10,
+      originalPath: '',
+      images: [],
+      error: '=HYPERLINK("x"), timeout',
+      createdAt: new Date('2024-06-01T11:00:00.000Z'),
+    },
+  ];
+
+  const read = async (stream: Readable): Promise<string> => {
+    let content = '';
+    for await (const chunk of stream) {
+      content += chunk;
+    }
+    return content;
+  };
+
+  const cursorOf = (tasks: TaskEntity[]): AsyncIterable<TaskEntity> => Readable.from(tasks);
+
+  /**
+   * Configuración inicial para cada test, con un directorio de exportaciones temporal
+   */
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'exports-'));
+    process.env.STORAGE_EXPORT_PATH = workDir;
+
+    mockRepository = {
+      create: jest.fn(async (data: Partial<TaskExportEntity>) => ({ _id: exportId, ...data })),
+      findById: jest.fn(),
+      findUnfinished: jest.fn().mockResolvedValue([]),
+      claim: jest.fn(async (id: string) => ({ _id: id, format: 'csv', status: 'running' })),
+      renewLease: jest.fn().mockResolvedValue(true),
+      release: jest.fn().mockResolvedValue(true),
+      findExpired: jest.fn().mockResolvedValue([]),
+      deleteById: jest.fn(),
+    } as unknown as jest.Mocked<TaskExportRepository>;
+
+    mockTaskRepository = {
+      streamByFilter: jest.fn(() => cursorOf(buildTasks())),
+    } as unknown as jest.Mocked<TaskRepository>;
+
+    service = new TaskExportService(mockRepository, mockTaskRepository);
+  });
+
+  afterEach(async () => {
+    delete process.env.STORAGE_EXPORT_PATH;
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  describe('streamTasks', () => {
+    /**
+     * @test Debe escribir la cabecera y escapar los valores del CSV
+     */
+    it('debe exportar en CSV con cabecera y valores escapados', async () => {
+      const content = await read(
+        service.streamTasks({ status: [TaskStatus.FAILED, TaskStatus.COMPLETED] }, 'csv')
+      );
+
+      expect(mockTaskRepository.streamByFilter).toHaveBeenCalledWith(
+        { status: [TaskStatus.COMPLETED, TaskStatus.FAILED] },
+        expect.arrayContaining(['status', 'price', 'images'])
+      );
+      expect(content.split('\n')).toEqual([
+        'taskId,status,price,createdAt,updatedAt,source,error,variantCount',
+        '507f1f77bcf86cd799439011,completed,25.5,2024-06-01T12:00:00.000Z,' +
+          '2024-06-01T12:05:00.000Z,url,,2',
+        '507f1f77bcf86cd799439012,failed,10,2024-06-01T11:00:00.000Z,,,' +
+          '"\'=HYPERLINK(""x""), timeout",0',
+        '',
+      ]);
+    });
+
+    /**
+     * @test Debe neutralizar las fórmulas que empiezan por tabulador o retorno de carro
+     */
+    it('debe neutralizar las fórmulas precedidas de tabulador o retorno de carro', async () => {
+      const [task] = buildTasks();
+      mockTaskRepository.streamByFilter.mockReturnValue(
+        cursorOf([
+          { ...task, source: undefined, error: '\t=cmd|calc' },
+          { ...task, source: undefined, error: '\r=cmd|calc' },
+        ])
+      );
+
+      const rows = (await read(service.streamTasks({}, 'csv'))).split('\n').slice(1, -1);
+
+      expect(rows.map(row => row.split(',').slice(6, -1).join(','))).toEqual([
+        "'\t=cmd|calc",
+        '"\'\r=cmd|calc"',
+      ]);
+    });
+
+    /**
+     * @test Debe escribir un objeto JSON por línea
+     */
+    it('debe exportar en NDJSON una tarea por línea', async () => {
+      const lines = (await read(service.streamTasks({}, 'ndjson'))).trim().split('\n');
+
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[1])).toEqual({
+        taskId: '507f1f77bcf86cd799439012',
+        status: 'failed',
+        price: 10,
+        createdAt: '2024-06-01T11:00:00.000Z',
+        updatedAt: null,
+        source: null,
+        error: '=HYPERLINK("x"), timeout',
+        variantCount: 0,
+      });
+    });
+  });
+
+  describe('runExport', () => {
+    /**
+     * @test Debe generar el archivo y guardar el número de filas y el tamaño
+     */
+    it('debe generar el archivo de la exportación', async () => {
+      const taskExport: TaskExportEntity = {
+        _id: exportId,
+        format: 'ndjson',
+        status: 'pending',
+        filter: { tags: ['summer'], tagMatch: 'any' },
+      };
+      mockRepository.claim.mockResolvedValue({ ...taskExport, status: 'running' });
+
+      await service.runExport(taskExport);
+
+      const filePath = path.join(workDir, `tasks-${exportId}.ndjson`);
+      const { size } = await fs.stat(filePath);
+      await expect(fs.readdir(workDir)).resolves.toEqual([`tasks-${exportId}.ndjson`]);
+      expect(mockRepository.claim).toHaveBeenCalledWith(
+        exportId,
+        expect.stringMatching(/^api:/),
+        expect.any(Date)
+      );
+      expect(mockTaskRepository.streamByFilter).toHaveBeenCalledWith(
+        { tags: ['summer'], tagMatch: 'any' },
+        expect.any(Array)
+      );
+      expect(mockRepository.release).toHaveBeenLastCalledWith(
+        exportId,
+        mockRepository.claim.mock.calls[0][1],
+        expect.objectContaining({
+          status: 'completed',
+          fileName: `tasks-${exportId}.ndjson`,
+          rows: 2,
+          size,
+        })
+      );
+      const { completedAt, expiresAt } = mockRepository.release.mock.calls[0][2];
+      expect(expiresAt!.getTime() - completedAt!.getTime()).toBe(7 * 24 * 3600 * 1000);
+    });
+
+    /**
+     * @test Un error del cursor debe marcar la exportación como fallida y borrar el archivo parcial
+     */
+    it('debe marcar la exportación como fallida si el cursor falla', async () => {
+      mockTaskRepository.streamByFilter.mockImplementation(() =>
+        (async function* () {
+          yield buildTasks()[0];
+          throw new Error('Cursor killed');
+        })()
+      );
+
+      await expect(
+        service.runExport({ _id: exportId, format: 'csv', status: 'pending' })
+      ).resolves.toBeUndefined();
+
+      expect(mockRepository.release).toHaveBeenLastCalledWith(
+        exportId,
+        expect.any(String),
+        expect.objectContaining({ status: 'failed', error: 'Cursor killed' })
+      );
+      await expect(fs.readdir(workDir)).resolves.toEqual([]);
+    });
+
+    /**
+     * @test No debe generar una exportación que otra instancia tiene reclamada
+     */
+    it('no debe generar una exportación que otra instancia tiene reclamada', async () => {
+      jest.useFakeTimers({ now: new Date('2024-06-01T12:00:00.000Z') });
+      try {
+        const leased: TaskExportEntity = {
+          _id: exportId,
+          format: 'csv',
+          status: 'running',
+          owner: 'api:other-host:1',
+          leaseUntil: new Date('2024-06-01T12:05:00.000Z'),
+        };
+        mockRepository.claim.mockResolvedValue(null);
+        mockRepository.findById.mockResolvedValue(leased);
+
+        await service.runExport(leased);
+
+        expect(mockTaskRepository.streamByFilter).not.toHaveBeenCalled();
+        expect(mockRepository.release).not.toHaveBeenCalled();
+        await expect(fs.readdir(workDir)).resolves.toEqual([]);
+
+        mockRepository.findById.mockResolvedValue({ ...leased, status: 'completed' });
+        await jest.advanceTimersByTimeAsync(5 * 60 * 1000 + 1000);
+
+        expect(mockRepository.claim).toHaveBeenCalledTimes(2);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('createExport', () => {
+    /**
+     * @test Debe guardar el filtro normalizado y usar CSV por defecto
+     */
+    it('debe crear la exportación con el filtro normalizado', async () => {
+      const runExport = jest.spyOn(service, 'runExport').mockResolvedValue();
+
+      const result = await service.createExport({
+        filter: Object.assign(new TaskFilterDto(), { status: [TaskStatus.FAILED], externalId: '' }),
+      });
+
+      expect(mockRepository.create).toHaveBeenCalledWith({
+        format: 'csv',
+        status: 'pending',
+        filter: { status: [TaskStatus.FAILED] },
+      });
+      expect(result).toEqual(expect.objectContaining({ exportId, status: 'pending' }));
+      expect(result.downloadUrl).toBeUndefined();
+      expect(runExport).toHaveBeenCalledWith(expect.objectContaining({ _id: exportId }));
+    });
+  });
+
+  describe('getExportFile', () => {
+    /**
+     * @test Solo debe devolver el archivo de las exportaciones terminadas
+     */
+    it('debe rechazar la descarga si la exportación no ha terminado', async () => {
+      mockRepository.findById.mockResolvedValue({
+        _id: exportId,
+        format: 'csv',
+        status: 'running',
+      });
+
+      await expect(service.getExportFile(exportId)).rejects.toMatchObject({
+        code: 'EXPORT_NOT_READY',
+        statusCode: 409,
+      });
+    });
+
+    /**
+     * @test Debe devolver la ruta, el nombre y el tipo de contenido del archivo
+     */
+    it('debe devolver el archivo de una exportación terminada', async () => {
+      mockRepository.findById.mockResolvedValue({
+        _id: exportId,
+        format: 'csv',
+        status: 'completed',
+        fileName: `tasks-${exportId}.csv`,
+        rows: 2,
+        size: 128,
+      });
+
+      await expect(service.getExportFile(exportId)).resolves.toEqual({
+        path: path.join(workDir, `tasks-${exportId}.csv`),
+        fileName: `tasks-${exportId}.csv`,
+        contentType: 'text/csv; charset=utf-8',
+        size: 128,
+      });
+      await expect(service.getExportById(exportId)).resolves.toEqual(
+        expect.objectContaining({ downloadUrl: `/api/v1/tasks/exports/${exportId}/download` })
+      );
+    });
+
+    /**
+     * @test Debe lanzar NotFoundError si la exportación no existe
+     */
+    it('debe lanzar NotFoundError si no existe', async () => {
+      mockRepository.findById.mockResolvedValue(null);
+
+      await expect(service.getExportFile(exportId)).rejects.toThrow(NotFoundError);
+    });
+
+    /**
+     * @test Debe rechazar la descarga de una exportación caducada aunque la purga no haya pasado
+     */
+    it('debe rechazar la descarga si la exportación ha caducado', async () => {
+      mockRepository.findById.mockResolvedValue({
+        _id: exportId,
+        format: 'csv',
+        status: 'completed',
+        fileName: `tasks-${exportId}.csv`,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await expect(service.getExportFile(exportId)).rejects.toMatchObject({
+        code: 'EXPORT_EXPIRED',
+        statusCode: 410,
+      });
+    });
+  });
+
+  describe('purgeExpired', () => {
+    const now = new Date('2024-06-08T12:00:00.000Z');
+
+    /**
+     * @test Debe borrar el archivo y el documento de las exportaciones caducadas
+     */
+    it('debe borrar los archivos y los documentos caducados', async () => {
+      const fileName = `tasks-${exportId}.csv`;
+      await fs.writeFile(path.join(workDir, fileName), 'taskId\n');
+      mockRepository.findExpired
+        .mockResolvedValueOnce([
+          { _id: exportId, format: 'csv', status: 'completed', fileName },
+          { _id: '507f1f77bcf86cd7994390e2', format: 'csv', status: 'failed' },
+        ])
+        .mockResolvedValue([]);
+
+      await expect(service.purgeExpired(now)).resolves.toBe(2);
+
+      expect(mockRepository.findExpired).toHaveBeenCalledWith(now, expect.any(Number));
+      await expect(fs.readdir(workDir)).resolves.toEqual([]);
+      expect(mockRepository.deleteById).toHaveBeenCalledWith(exportId);
+      expect(mockRepository.deleteById).toHaveBeenCalledWith('507f1f77bcf86cd7994390e2');
+    });
+
+    /**
+     * @test Un fallo no debe detener la purga ni repetirse en la misma pasada
+     */
+    it('debe conservar el documento si no se puede purgar', async () => {
+      const expired: TaskExportEntity = { _id: exportId, format: 'csv', status: 'failed' };
+      mockRepository.findExpired.mockResolvedValue([expired]);
+      mockRepository.deleteById.mockRejectedValue(new Error('Mongo unavailable'));
+
+      await expect(service.purgeExpired(now)).resolves.toBe(0);
+      expect(mockRepository.deleteById).toHaveBeenCalledTimes(1);
+    });
+  });
+});
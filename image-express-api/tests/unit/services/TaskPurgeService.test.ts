@@ -0,0 +1,236 @@
+import { TaskPurgeService } from '../../../src/presentation/Task/services/TaskPurgeService';
+import { TaskRepository } from '../../../src/presentation/Task/repositories/TaskRepository';
+import { ImageRepository } from '../../../src/presentation/Image/repositories/ImageRepository';
+import { TaskQueueProducer } from '../../../src/infrastructure/queues/TaskQueueProducer';
+import { CacheService } from '../../../src/application/services/CacheService';
+import { TaskEntity, TaskStatus } from '../../../src/domain/entities';
+import fs from 'fs/promises';
+import path from 'path';
+
+jest.mock('../../../src/presentation/Task/repositories/TaskRepository');
+jest.mock('../../../src/presentation/Image/repositories/ImageRepository');
+jest.mock('../../../src/infrastructure/queues/TaskQueueProducer');
+jest.mock('../../../src/application/services/CacheService');
+jest.mock('../../../src/core/helpers/logger');
+jest.mock('fs/promises');
+
+/**
+ * Suite de pruebas para TaskPurgeService
+ * Verifica la purga de las tareas eliminadas cuyo periodo de gracia ha vencido
+ */
+describe('TaskPurgeService', () => {
+  let purgeService: TaskPurgeService;
+  let mockRepository: jest.Mocked<TaskRepository>;
+  let mockImageRepository: jest.Mocked<ImageRepository>;
+  let mockQueue: jest.Mocked<TaskQueueProducer>;
+  let mockCacheService: jest.Mocked<CacheService>;
+
+  const gracePeriod = 3600;
+  const now = new Date('2024-06-01T12:00:00.000Z');
+
+  const deletedTask: TaskEntity = {
+    _id: '507f1f77bcf86cd799439011',
+    status: TaskStatus.COMPLETED,
+    price: 25,
+    originalPath: '/app/storage/images/507f1f77bcf86cd799439011/puppy.jpg',
+    images: [
+      { resolution: '1024', path: '/app/output/puppy/1024/aaa.jpg' },
+      { resolution: '800', path: '/app/output/puppy/800/bbb.jpg' },
+    ],
+    generations: [
+      { number: 1, status: 'completed', requestedAt: new Date('2024-04-01T00:00:00.000Z') },
+      { number: 2, status: 'failed', requestedAt: new Date('2024-04-15T00:00:00.000Z') },
+    ],
+    deletedAt: new Date('2024-05-01T00:00:00.000Z'),
+  };
+
+  /**
+   * Configuración inicial para cada test
+   */
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockRepository = {
+      findDeletedBefore: jest.fn().mockResolvedValueOnce([deletedTask]).mockResolvedValue([]),
+      isVariantReferenced: jest.fn().mockResolvedValue(false),
+      deleteById: jest.fn(),
+    } as unknown as jest.Mocked<TaskRepository>;
+
+    mockImageRepository = {
+      findByTaskId: jest.fn().mockResolvedValue([
+        {
+          taskId: deletedTask._id,
+          path: '/app/output/puppy/1024/aaa.jpg',
+          resolution: '1024',
+          md5: 'aaa',
+        },
+        {
+          taskId: deletedTask._id,
+          path: '/app/output/puppy/800/bbb.jpg',
+          resolution: '800',
+          md5: 'bbb',
+        },
+      ]),
+      findByMd5: jest.fn().mockResolvedValue([]),
+      deleteByTaskId: jest.fn(),
+    } as unknown as jest.Mocked<ImageRepository>;
+
+    mockQueue = {
+      removeTask: jest.fn().mockResolvedValue(1),
+    } as unknown as jest.Mocked<TaskQueueProducer>;
+
+    mockCacheService = {
+      invalidatePattern: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<CacheService>;
+
+    jest.mocked(fs.rm).mockResolvedValue(undefined);
+
+    purgeService = new TaskPurgeService(
+      mockRepository,
+      mockImageRepository,
+      mockQueue,
+      mockCacheService,
+      gracePeriod
+    );
+  });
+
+  /**
+   * @test Debe buscar solo las tareas eliminadas antes del inicio del periodo de gracia
+   */
+  it('debe respetar el periodo de gracia', async () => {
+    await purgeService.purgeExpired(now);
+
+    expect(mockRepository.findDeletedBefore).toHaveBeenCalledWith(
+      new Date('2024-06-01T11:00:00.000Z'),
+      expect.any(Number)
+    );
+  });
+
+  /**
+   * @test Debe eliminar archivos, registros, cachés y trabajos de la tarea
+   */
+  it('debe eliminar todo rastro de la tarea', async () => {
+    const purged = await purgeService.purgeExpired(now);
+
+    expect(purged).toBe(1);
+    expect(mockQueue.removeTask).toHaveBeenCalledWith(
+      deletedTask._id,
+      expect.arrayContaining(['waiting', 'failed']),
+      [1, 2]
+    );
+    expect(fs.rm).toHaveBeenCalledWith('/app/output/puppy/1024/aaa.jpg', { force: true });
+    expect(fs.rm).toHaveBeenCalledWith('/app/output/puppy/800/bbb.jpg', { force: true });
+    expect(fs.rm).toHaveBeenCalledWith(
+      expect.stringContaining(path.join('storage', 'images', deletedTask._id as string)),
+      { recursive: true, force: true }
+    );
+    expect(fs.rm).toHaveBeenCalledWith(
+      expect.stringContaining(path.join('transforms', deletedTask._id as string)),
+      { recursive: true, force: true }
+    );
+    expect(mockImageRepository.deleteByTaskId).toHaveBeenCalledWith(deletedTask._id);
+    expect(mockCacheService.invalidatePattern).toHaveBeenCalledWith(`task:${deletedTask._id}`);
+    expect(mockRepository.deleteById).toHaveBeenCalledWith(deletedTask._id);
+  });
+
+  /**
+   * @test Debe conservar las variantes que comparte con otra tarea
+   */
+  it('debe conservar las variantes compartidas', async () => {
+    mockImageRepository.findByMd5.mockImplementation(async md5 =>
+      md5 === 'aaa'
+        ? [
+            {
+              taskId: 'other-task',
+              path: '/app/output/puppy/1024/aaa.jpg',
+              resolution: '1024',
+              md5,
+            },
+          ]
+        : []
+    );
+
+    await purgeService.purgeExpired(now);
+
+    expect(fs.rm).not.toHaveBeenCalledWith('/app/output/puppy/1024/aaa.jpg', expect.anything());
+    expect(fs.rm).toHaveBeenCalledWith('/app/output/puppy/800/bbb.jpg', { force: true });
+  });
+
+  /**
+   * @test Debe conservar las variantes que otra tarea guarda solo en su documento
+   */
+  it('debe conservar las variantes referenciadas solo por el documento de otra tarea', async () => {
+    mockRepository.isVariantReferenced.mockImplementation(
+      async file => file === '/app/output/puppy/800/bbb.jpg'
+    );
+
+    await purgeService.purgeExpired(now);
+
+    expect(mockRepository.isVariantReferenced).toHaveBeenCalledWith(
+      '/app/output/puppy/800/bbb.jpg',
+      deletedTask._id
+    );
+    expect(fs.rm).toHaveBeenCalledWith('/app/output/puppy/1024/aaa.jpg', { force: true });
+    expect(fs.rm).not.toHaveBeenCalledWith('/app/output/puppy/800/bbb.jpg', expect.anything());
+  });
+
+  /**
+   * @test Debe borrar también las variantes de generaciones anteriores
+   */
+  it('debe eliminar las variantes de generaciones anteriores', async () => {
+    mockRepository.findDeletedBefore.mockReset();
+    mockRepository.findDeletedBefore
+      .mockResolvedValueOnce([
+        {
+          ...deletedTask,
+          generation: 2,
+          generations: [
+            {
+              number: 1,
+              status: 'completed',
+              images: [{ resolution: '640', path: '/app/output/puppy/640/ccc.jpg' }],
+              requestedAt: new Date('2024-04-01T00:00:00.000Z'),
+            },
+            {
+              number: 2,
+              status: 'completed',
+              images: deletedTask.images,
+              requestedAt: new Date('2024-04-02T00:00:00.000Z'),
+            },
+          ],
+        },
+      ])
+      .mockResolvedValue([]);
+
+    await purgeService.purgeExpired(now);
+
+    expect(mockImageRepository.findByMd5).toHaveBeenCalledWith('ccc');
+    expect(fs.rm).toHaveBeenCalledWith('/app/output/puppy/640/ccc.jpg', { force: true });
+  });
+
+  /**
+   * @test Debe conservar el documento si falla la limpieza para reintentarla en la siguiente pasada
+   */
+  it('debe conservar el documento si falla la limpieza', async () => {
+    mockImageRepository.deleteByTaskId.mockRejectedValue(new Error('Mongo unavailable'));
+    mockRepository.findDeletedBefore.mockReset();
+    mockRepository.findDeletedBefore.mockResolvedValue([deletedTask]);
+
+    const purged = await purgeService.purgeExpired(now);
+
+    expect(purged).toBe(0);
+    expect(mockRepository.deleteById).not.toHaveBeenCalled();
+  });
+
+  /**
+   * @test Un fallo de Redis no debe impedir la purga
+   */
+  it('debe purgar aunque falle la invalidación de caché', async () => {
+    mockCacheService.invalidatePattern.mockRejectedValue(new Error('Redis down'));
+
+    const purged = await purgeService.purgeExpired(now);
+
+    expect(purged).toBe(1);
+    expect(mockRepository.deleteById).toHaveBeenCalledWith(deletedTask._id);
+  });
+});
@@ -2,19 +2,30 @@ import { TaskService } from '../../../src/application/services/TaskService';
 import { TaskRepository } from '../../../src/presentation/Task/repositories/TaskRepository';
 import { TaskQueueProducer } from '../../../src/infrastructure/queues/TaskQueueProducer';
 import { ImageDownloadService } from '../../../src/application/services/ImageDownloadService';
-import { TaskStatus, TaskStatusTransition, TaskEntity } from '../../../src/domain/entities';
-import { ProcessedImage } from '../../../src/domain/entities/TaskEntity';
+import { WatermarkRepository } from '../../../src/presentation/Watermark/repositories/WatermarkRepository';
+import {
+  TaskStatus,
+  TaskStatusTransition,
+  TaskEntity,
+  PriceBreakdown,
+} from '../../../src/domain/entities';
+import { ProcessedImage, encodeTaskCursor } from '../../../src/domain/entities/TaskEntity';
 import { CreateTaskRequest } from '../../../src/domain/dtos';
 import { BusinessError, NotFoundError } from '../../../src/core/errors';
-import { generateUUID } from '../../../src/core/helpers/crypto';
+import { generateUUID, generateMD5, generateSHA256 } from '../../../src/core/helpers/crypto';
+import { CacheService } from '../../../src/application/services/CacheService';
+import { ImageProbe } from '../../../src/infrastructure/image-processing/ImageProbe';
 import { logger } from '../../../src/core/helpers/logger';
 import fs from 'fs/promises';
+import { signedUrl } from '../../fixtures/signedUrl';
 
 jest.mock('../../../src/presentation/Task/repositories/TaskRepository');
 jest.mock('../../../src/infrastructure/queues/TaskQueueProducer');
 jest.mock('../../../src/application/services/ImageDownloadService');
+jest.mock('../../../src/presentation/Watermark/repositories/WatermarkRepository');
 jest.mock('../../../src/core/helpers/crypto');
 jest.mock('../../../src/core/helpers/logger');
+jest.mock('../../../src/infrastructure/image-processing/ImageProbe');
 jest.mock('fs/promises');
 jest.mock('../../../src/domain/entities/TaskEntity', () => ({
   ...jest.requireActual('../../../src/domain/entities/TaskEntity'),
@@ -32,6 +43,7 @@ describe('TaskService', () => {
   let mockRepository: jest.Mocked<TaskRepository>;
   let mockQueue: jest.Mocked<TaskQueueProducer>;
   let mockImageDownloadService: jest.Mocked<ImageDownloadService>;
+  let mockWatermarkRepository: jest.Mocked<WatermarkRepository>;
 
   const mockTaskEntity: TaskEntity = {
     _id: '507f1f77bcf86cd799439011',
@@ -93,24 +105,45 @@ describe('TaskService', () => {
       findByIdempotencyKey: jest.fn(),
       updateStatus: jest.fn(),
       updateOriginalPath: jest.fn(),
+      updateSchedule: jest.fn(),
+      softDelete: jest.fn(),
+      restore: jest.fn(),
+      startGeneration: jest.fn(),
       find: jest.fn(),
+      findByCursor: jest.fn(),
       count: jest.fn(),
     } as unknown as jest.Mocked<TaskRepository>;
 
     mockQueue = {
       addTask: jest.fn(),
+      removeTask: jest.fn(),
+      changePriority: jest.fn(),
+      promoteTask: jest.fn(),
     } as unknown as jest.Mocked<TaskQueueProducer>;
 
     mockImageDownloadService = {
       download: jest.fn(),
     } as unknown as jest.Mocked<ImageDownloadService>;
 
+    mockWatermarkRepository = {
+      create: jest.fn(),
+      findById: jest.fn(),
+    } as unknown as jest.Mocked<WatermarkRepository>;
+
     jest.mocked(generateUUID).mockReturnValue('generated-uuid');
     jest.mocked(fs.mkdir).mockResolvedValue(undefined);
     jest.mocked(fs.access).mockResolvedValue(undefined);
     jest.mocked(fs.rename).mockResolvedValue(undefined);
-
-    taskService = new TaskService(mockRepository, mockQueue, mockImageDownloadService);
+    jest
+      .mocked(ImageProbe.prototype.probe)
+      .mockResolvedValue({ width: 4000, height: 3000, format: 'jpeg' });
+
+    taskService = new TaskService(
+      mockRepository,
+      mockQueue,
+      mockImageDownloadService,
+      mockWatermarkRepository
+    );
   });
 
   /**
@@ -121,7 +154,12 @@ describe('TaskService', () => {
      * @test Debe crear instancia con dependencias inyectadas
      */
     it('debe crear instancia con dependencias inyectadas', () => {
-      const service = new TaskService(mockRepository, mockQueue, mockImageDownloadService);
+      const service = new TaskService(
+      mockRepository,
+      mockQueue,
+      mockImageDownloadService,
+      mockWatermarkRepository
+    );
       expect(service).toBeInstanceOf(TaskService);
     });
   });
@@ -149,292 +187,1575 @@ describe('TaskService', () => {
       expect(mockRepository.create).toHaveBeenCalledWith({
         status: TaskStatus.PENDING,
         price: expect.any(Number),
+        pricing: expect.objectContaining({ version: '2026-10' }),
         originalPath: '/tmp/uploaded-image.jpg',
         images: [],
         idempotencyKey: 'test-key',
+        source: 'upload',
+      });
+      expect(mockQueue.addTask).toHaveBeenCalled();
+      expect(result.taskId).toBe('507f1f77bcf86cd799439011');
+    });
+
+    /**
+     * @test Debe crear tarea desde URL de imagen
+     */
+    it('debe crear tarea desde URL de imagen', async () => {
+      const req = createMockRequest({
+        body: { imageUrl: 'https://example.com/image.jpg' },
+        idempotencyKey: 'test-key',
+      });
+
+      const downloadedPath = '/tmp/downloaded-image.jpg';
+      mockImageDownloadService.download.mockResolvedValue(downloadedPath);
+      mockRepository.findByIdempotencyKey.mockResolvedValue(null);
+      mockRepository.create.mockResolvedValue(mockTaskEntity);
+
+      const result = await taskService.createTaskFromRequest(req);
+
+      expect(mockImageDownloadService.download).toHaveBeenCalledWith('https://example.com/image.jpg');
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          originalPath: downloadedPath,
+        })
+      );
+      expect(result.taskId).toBe('507f1f77bcf86cd799439011');
+    });
+
+    /**
+     * @test Debe crear tarea desde path local
+     */
+    it('debe crear tarea desde path local', async () => {
+      const req = createMockRequest({
+        body: { imagePath: '/local/path/image.jpg' },
+        idempotencyKey: 'test-key',
+      });
+
+      mockRepository.findByIdempotencyKey.mockResolvedValue(null);
+      mockRepository.create.mockResolvedValue(mockTaskEntity);
+
+      const result = await taskService.createTaskFromRequest(req);
+
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          originalPath: '/local/path/image.jpg',
+        })
+      );
+      expect(result.taskId).toBe('507f1f77bcf86cd799439011');
+    });
+
+    /**
+     * @test Debe persistir y encolar las variantes solicitadas
+     */
+    it('debe persistir y encolar las variantes solicitadas', async () => {
+      const variants = [{ width: 320, height: 320, fit: 'cover' }];
+      const req = createMockRequest({
+        body: { imagePath: '/local/path/image.jpg', variants } as any,
+        idempotencyKey: 'test-key',
+      });
+
+      mockRepository.findByIdempotencyKey.mockResolvedValue(null);
+      mockRepository.create.mockResolvedValue(mockTaskEntity);
+
+      await taskService.createTaskFromRequest(req);
+
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ variants })
+      );
+      expect(mockQueue.addTask).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        expect.any(String),
+        { variants }
+      );
+    });
+
+    /**
+     * @test Debe persistir y encolar la prioridad y el momento de procesamiento
+     */
+    it('debe persistir y encolar la planificación solicitada', async () => {
+      const req = createMockRequest({
+        file: mockFile,
+        body: { priority: '2', processAt: '2030-01-01T08:00:00.000Z' } as any,
+      });
+      const processAt = new Date('2030-01-01T08:00:00.000Z');
+
+      mockRepository.create.mockResolvedValue({ ...mockTaskEntity, priority: 2, processAt });
+
+      const result = await taskService.createTaskFromRequest(req);
+
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ priority: 2, processAt })
+      );
+      expect(mockQueue.addTask).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        expect.any(String),
+        undefined,
+        { priority: 2, processAt }
+      );
+      expect(result.priority).toBe(2);
+      expect(result.processAt).toEqual(processAt);
+    });
+
+    /**
+     * @test Debe persistir el identificador externo, las etiquetas y los metadatos
+     */
+    it('debe persistir los datos de correlación del cliente', async () => {
+      const req = createMockRequest({
+        file: mockFile,
+        body: {
+          externalId: ' SKU-1 ',
+          tags: 'summer, sku,summer',
+          metadata: '{"sku":"A-1","stock":3,"featured":true}',
+        } as any,
+      });
+      const labels = {
+        externalId: 'SKU-1',
+        tags: ['summer', 'sku'],
+        metadata: { sku: 'A-1', stock: 3, featured: true },
+      };
+
+      mockRepository.create.mockResolvedValue({ ...mockTaskEntity, ...labels });
+
+      const result = await taskService.createTaskFromRequest(req);
+
+      expect(mockRepository.create).toHaveBeenCalledWith(expect.objectContaining(labels));
+      expect(result).toEqual(expect.objectContaining(labels));
+    });
+
+    /**
+     * @test Debe rechazar etiquetas y metadatos inválidos
+     */
+    it('debe rechazar etiquetas y metadatos inválidos', async () => {
+      const tooManyTags = Array.from({ length: 21 }, (_, i) => `tag-${i}`);
+
+      await expect(
+        taskService.createTaskFromRequest(
+          createMockRequest({ file: mockFile, body: { tags: tooManyTags } as any })
+        )
+      ).rejects.toMatchObject({ code: 'INVALID_TAGS' });
+      await expect(
+        taskService.createTaskFromRequest(
+          createMockRequest({ file: mockFile, body: { metadata: { $where: { nested: 1 } } } as any })
+        )
+      ).rejects.toMatchObject({
+        code: 'INVALID_METADATA',
+        details: { errors: expect.arrayContaining([expect.stringContaining('$where')]) },
+      });
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+
+    /**
+     * @test Debe rechazar una prioridad fuera de rango
+     */
+    it('debe rechazar una prioridad fuera de rango', async () => {
+      const req = createMockRequest({ file: mockFile, body: { priority: '11' } as any });
+
+      await expect(taskService.createTaskFromRequest(req)).rejects.toMatchObject({
+        code: 'INVALID_PRIORITY',
+        statusCode: 400,
+      });
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+
+    /**
+     * @test Debe rechazar una fecha de procesamiento inválida
+     */
+    it('debe rechazar una fecha de procesamiento inválida', async () => {
+      const req = createMockRequest({ file: mockFile, body: { processAt: 'mañana' } as any });
+
+      await expect(taskService.createTaskFromRequest(req)).rejects.toMatchObject({
+        code: 'INVALID_PROCESS_AT',
+      });
+    });
+
+    /**
+     * @test Debe aceptar variantes como cadena JSON (multipart)
+     */
+    it('debe aceptar variantes como cadena JSON (multipart)', async () => {
+      const req = createMockRequest({
+        file: mockFile,
+        body: { variants: '[{"width":640}]' } as any,
+        idempotencyKey: 'test-key',
+      });
+
+      mockRepository.findByIdempotencyKey.mockResolvedValue(null);
+      mockRepository.create.mockResolvedValue(mockTaskEntity);
+
+      await taskService.createTaskFromRequest(req);
+
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ variants: [{ width: 640 }] })
+      );
+    });
+
+    /**
+     * @test Debe persistir formato y opciones de codificador de cada variante
+     */
+    it('debe persistir formato y opciones de codificador de cada variante', async () => {
+      const variants = [
+        { width: 1280, format: 'avif', encoder: { quality: 60, lossless: false, effort: 4 } },
+        { width: 320, format: 'jpeg', encoder: { progressive: true } },
+      ];
+      const req = createMockRequest({
+        file: mockFile,
+        body: { variants } as any,
+        idempotencyKey: 'test-key',
+      });
+
+      mockRepository.findByIdempotencyKey.mockResolvedValue(null);
+      mockRepository.create.mockResolvedValue(mockTaskEntity);
+
+      await taskService.createTaskFromRequest(req);
+
+      expect(mockRepository.create).toHaveBeenCalledWith(expect.objectContaining({ variants }));
+      expect(mockQueue.addTask).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.any(String),
+        { variants }
+      );
+    });
+
+    /**
+     * @test Debe persistir gravedad, recorte inteligente y color de relleno
+     */
+    it('debe persistir gravedad, recorte inteligente y color de relleno', async () => {
+      const variants = [
+        { width: 320, height: 320, position: 'attention' },
+        { width: 1200, height: 400, fit: 'cover', position: 'north' },
+        { width: 800, height: 800, fit: 'contain', background: '#00000080' },
+      ];
+      const req = createMockRequest({
+        file: mockFile,
+        body: { variants } as any,
+        idempotencyKey: 'test-key',
+      });
+
+      mockRepository.findByIdempotencyKey.mockResolvedValue(null);
+      mockRepository.create.mockResolvedValue(mockTaskEntity);
+
+      await taskService.createTaskFromRequest(req);
+
+      expect(mockRepository.create).toHaveBeenCalledWith(expect.objectContaining({ variants }));
+    });
+
+    /**
+     * @test Debe rechazar variantes inválidas
+     */
+    it('debe rechazar variantes inválidas', async () => {
+      const invalidBodies = [
+        { variants: 'not-json' },
+        { variants: [] },
+        { variants: [{ width: 5 }] },
+        { variants: [{ width: 640, fit: 'stretch' }] },
+        { variants: [{ width: 640, format: 'gif' }] },
+        { variants: [{ width: 640, height: 480, fit: 'contain', position: 'entropy' }] },
+        { variants: [{ width: 640, fit: 'contain', background: 'white' }] },
+        { variants: [{ width: 640, format: 'webp', encoder: { quality: 150 } }] },
+      ];
+
+      for (const body of invalidBodies) {
+        const req = createMockRequest({ file: mockFile, body: body as any });
+        await expect(taskService.createTaskFromRequest(req)).rejects.toMatchObject({
+          code: 'INVALID_VARIANTS',
+        });
+      }
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+
+    /**
+     * @test Debe persistir y encolar la superposición de texto
+     */
+    it('debe persistir y encolar la superposición de texto', async () => {
+      const overlay = { type: 'text', text: '© ACME', position: 'southeast', opacity: 0.5 };
+      const req = createMockRequest({
+        file: mockFile,
+        body: { overlay: JSON.stringify(overlay) } as any,
+        idempotencyKey: 'test-key',
+      });
+
+      mockRepository.findByIdempotencyKey.mockResolvedValue(null);
+      mockRepository.create.mockResolvedValue(mockTaskEntity);
+
+      await taskService.createTaskFromRequest(req);
+
+      expect(mockRepository.create).toHaveBeenCalledWith(expect.objectContaining({ overlay }));
+      expect(mockQueue.addTask).toHaveBeenCalledWith(expect.any(String), expect.any(String), {
+        overlay,
+      });
+      expect(mockWatermarkRepository.findById).not.toHaveBeenCalled();
+    });
+
+    /**
+     * @test Debe verificar que la marca de agua referenciada exista
+     */
+    it('debe verificar que la marca de agua referenciada exista', async () => {
+      const overlay = { type: 'image', watermarkId: '507f1f77bcf86cd799439099', tile: true };
+      mockWatermarkRepository.findById.mockResolvedValue({
+        _id: overlay.watermarkId,
+        name: 'logo.png',
+        path: '/storage/watermarks/logo.png',
+        mimeType: 'image/png',
+        size: 1024,
+      });
+      mockRepository.findByIdempotencyKey.mockResolvedValue(null);
+      mockRepository.create.mockResolvedValue(mockTaskEntity);
+
+      await taskService.createTaskFromRequest(
+        createMockRequest({ file: mockFile, body: { overlay } as any })
+      );
+
+      expect(mockWatermarkRepository.findById).toHaveBeenCalledWith(overlay.watermarkId);
+      expect(mockRepository.create).toHaveBeenCalledWith(expect.objectContaining({ overlay }));
+    });
+
+    /**
+     * @test Debe rechazar superposiciones inválidas o con marca de agua inexistente
+     */
+    it('debe rechazar superposiciones inválidas o con marca de agua inexistente', async () => {
+      mockWatermarkRepository.findById.mockResolvedValue(null);
+      const invalid = [
+        { body: { overlay: '{invalid' }, code: 'INVALID_OVERLAY' },
+        { body: { overlay: { type: 'text' } }, code: 'INVALID_OVERLAY' },
+        { body: { overlay: { type: 'image', watermarkId: 'abc' } }, code: 'INVALID_OVERLAY' },
+        { body: { overlay: { type: 'text', text: 'x', opacity: 2 } }, code: 'INVALID_OVERLAY' },
+        {
+          body: { overlay: { type: 'image', watermarkId: '507f1f77bcf86cd799439099' } },
+          code: 'WATERMARK_NOT_FOUND',
+        },
+      ];
+
+      for (const { body, code } of invalid) {
+        const req = createMockRequest({ file: mockFile, body: body as any });
+        await expect(taskService.createTaskFromRequest(req)).rejects.toMatchObject({ code });
+      }
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+
+    /**
+     * @test Debe persistir y encolar la política de metadatos
+     */
+    it('debe persistir y encolar la política de metadatos', async () => {
+      const metadataPolicy = { mode: 'strip-gps', keepIcc: false };
+      const req = createMockRequest({
+        file: mockFile,
+        body: { metadataPolicy: JSON.stringify(metadataPolicy) } as any,
+      });
+
+      mockRepository.findByIdempotencyKey.mockResolvedValue(null);
+      mockRepository.create.mockResolvedValue(mockTaskEntity);
+
+      await taskService.createTaskFromRequest(req);
+
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ metadataPolicy })
+      );
+      expect(mockQueue.addTask).toHaveBeenCalledWith(expect.any(String), expect.any(String), {
+        metadataPolicy,
+      });
+    });
+
+    /**
+     * @test Debe rechazar políticas de metadatos inválidas
+     */
+    it('debe rechazar políticas de metadatos inválidas', async () => {
+      const invalid = [
+        '{invalid',
+        { mode: 'keep-all' },
+        { keepIcc: true },
+        { mode: 'strip', keepIcc: 'no' },
+      ];
+
+      for (const metadataPolicy of invalid) {
+        const req = createMockRequest({ file: mockFile, body: { metadataPolicy } as any });
+        await expect(taskService.createTaskFromRequest(req)).rejects.toMatchObject({
+          code: 'INVALID_METADATA_POLICY',
+        });
+      }
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+
+    /**
+     * @test Debe fallar cuando no se proporciona fuente de imagen
+     */
+    it('debe fallar cuando no se proporciona fuente de imagen', async () => {
+      const req = createMockRequest({
+        body: {},
+        idempotencyKey: 'test-key',
+      });
+
+      await expect(taskService.createTaskFromRequest(req)).rejects.toThrow(BusinessError);
+      await expect(taskService.createTaskFromRequest(req)).rejects.toThrow('Se requiere imagePath, imageUrl o archivo');
+    });
+
+    /**
+     * @test Debe retornar tarea existente cuando hay idempotencyKey duplicado
+     */
+    it('debe retornar tarea existente cuando hay idempotencyKey duplicado', async () => {
+      const req = createMockRequest({
+        file: mockFile,
+        body: {},
+        idempotencyKey: 'existing-key',
+      });
+
+      mockRepository.findByIdempotencyKey.mockResolvedValue(mockTaskEntity);
+
+      const result = await taskService.createTaskFromRequest(req);
+
+      expect(mockRepository.findByIdempotencyKey).toHaveBeenCalledWith('existing-key');
+      expect(mockRepository.create).not.toHaveBeenCalled();
+      expect(result.taskId).toBe('507f1f77bcf86cd799439011');
+    });
+
+    /**
+     * @test Debe manejar errores y logear apropiadamente
+     */
+    it('debe manejar errores y logear apropiadamente', async () => {
+      const req = createMockRequest({
+        file: mockFile,
+        body: {},
+        idempotencyKey: 'test-key',
+      });
+
+      const error = new Error('Database error');
+      mockRepository.findByIdempotencyKey.mockRejectedValue(error);
+
+      await expect(taskService.createTaskFromRequest(req)).rejects.toThrow('Database error');
+      expect(logger.error).toHaveBeenCalledWith(
+        'Error creando tarea desde request',
+        expect.objectContaining({
+          error: 'Database error',
+          idempotencyKey: 'test-key',
+        })
+      );
+    });
+
+    /**
+     * @test Debe guardar el cliente de la API al que se imputa el consumo
+     */
+    it('debe guardar el cliente de la tarea', async () => {
+      mockRepository.create.mockResolvedValue(mockTaskEntity);
+
+      await taskService.createTaskFromRequest(
+        createMockRequest({ body: { imagePath: '/data/image.jpg' }, clientId: 'client-a' } as any)
+      );
+
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ clientId: 'client-a' })
+      );
+    });
+  });
+
+  /**
+   * Pruebas del método createTask
+   */
+  describe('createTask', () => {
+    /**
+     * @test Debe crear nueva tarea con idempotencyKey
+     */
+    it('debe crear nueva tarea con idempotencyKey', async () => {
+      mockRepository.findByIdempotencyKey.mockResolvedValue(null);
+      mockRepository.create.mockResolvedValue(mockTaskEntity);
+
+      const result = await taskService.createTask('/path/to/image.jpg', 'unique-key');
+
+      expect(mockRepository.findByIdempotencyKey).toHaveBeenCalledWith('unique-key');
+      expect(mockRepository.create).toHaveBeenCalledWith({
+        status: TaskStatus.PENDING,
+        price: expect.any(Number),
+        pricing: expect.objectContaining({ version: '2026-10' }),
+        originalPath: '/path/to/image.jpg',
+        images: [],
+        idempotencyKey: 'unique-key',
+      });
+      expect(result.taskId).toBe('507f1f77bcf86cd799439011');
+    });
+
+    /**
+     * @test Debe generar UUID cuando no se proporciona idempotencyKey
+     */
+    it('debe generar UUID cuando no se proporciona idempotencyKey', async () => {
+      mockRepository.create.mockResolvedValue(mockTaskEntity);
+
+      await taskService.createTask('/path/to/image.jpg');
+
+      expect(mockRepository.create).toHaveBeenCalledWith({
+        status: TaskStatus.PENDING,
+        price: expect.any(Number),
+        pricing: expect.objectContaining({ version: '2026-10' }),
+        originalPath: '/path/to/image.jpg',
+        images: [],
+        idempotencyKey: 'generated-uuid',
+      });
+    });
+
+    /**
+     * @test Debe asociar la tarea al lote indicado
+     */
+    it('debe asociar la tarea al lote indicado', async () => {
+      mockRepository.create.mockResolvedValue(mockTaskEntity);
+
+      await taskService.createTask('/path/to/image.jpg', 'batch-key:0', undefined, 'batch-id');
+
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ idempotencyKey: 'batch-key:0', batchId: 'batch-id' })
+      );
+    });
+
+    /**
+     * @test Debe calcular el precio con la tarifa vigente y guardar el desglose
+     */
+    it('debe calcular el precio con la tarifa vigente', async () => {
+      mockRepository.create.mockResolvedValue(mockTaskEntity);
+
+      await taskService.createTask('/path/to/image.jpg', undefined, undefined, undefined, {
+        priority: 1,
+      });
+
+      const createCall = mockRepository.create.mock.calls[0][0];
+      expect(ImageProbe.prototype.probe).toHaveBeenCalledWith('/path/to/image.jpg');
+      expect(createCall.price).toBe(15.48);
+      expect(createCall.pricing).toEqual(
+        expect.objectContaining({ version: '2026-10', subtotal: 10.32, multiplier: 1.5 })
+      );
+    });
+
+    /**
+     * @test Debe rechazar archivos cuya cabecera no puede leerse sin crear la tarea
+     */
+    it('debe fallar si el archivo no es una imagen', async () => {
+      jest
+        .mocked(ImageProbe.prototype.probe)
+        .mockRejectedValue(
+          new BusinessError('No se pudo leer la cabecera de la imagen', 'INVALID_IMAGE', 400)
+        );
+
+      await expect(taskService.createTask('/path/to/file.txt')).rejects.toMatchObject({
+        code: 'INVALID_IMAGE',
+      });
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  /**
+   * Pruebas del presupuesto y su canje al crear la tarea
+   */
+  describe('quoteTask', () => {
+    beforeEach(() => {
+      jest
+        .mocked(generateSHA256)
+        .mockImplementation(jest.requireActual('../../../src/core/helpers/crypto').generateSHA256);
+    });
+
+    /**
+     * @test Debe devolver precio, imagen detectada y variantes sin crear ni encolar la tarea
+     */
+    it('debe presupuestar sin crear la tarea y borrar la subida', async () => {
+      const req = createMockRequest({ file: mockFile });
+
+      const result = await taskService.quoteTask(req);
+
+      expect(result).toEqual({
+        price: 10.32,
+        pricing: expect.objectContaining({ version: '2026-10', total: 10.32 }),
+        image: { width: 4000, height: 3000, format: 'jpeg', source: 'upload' },
+        variants: [
+          { resolution: '1024', width: 1024, height: 768, format: 'jpeg' },
+          { resolution: '800', width: 800, height: 600, format: 'jpeg' },
+        ],
+        quoteToken: expect.any(String),
+        expiresAt: expect.any(Date),
+      });
+      expect(mockRepository.create).not.toHaveBeenCalled();
+      expect(mockQueue.addTask).not.toHaveBeenCalled();
+      expect(fs.rm).toHaveBeenCalledWith(mockFile.path, { force: true });
+    });
+
+    /**
+     * @test No debe borrar las imágenes indicadas por ruta local
+     */
+    it('no debe borrar la imagen de una ruta local', async () => {
+      await taskService.quoteTask(createMockRequest({ body: { imagePath: '/data/image.jpg' } }));
+
+      expect(fs.rm).not.toHaveBeenCalled();
+    });
+
+    /**
+     * @test Canjear el presupuesto debe fijar su precio en la tarea creada
+     */
+    it('debe fijar el precio al canjear el presupuesto', async () => {
+      const body = { imagePath: '/data/image.jpg', priority: 1 };
+      const { quoteToken, price } = await taskService.quoteTask(createMockRequest({ body }));
+      mockRepository.create.mockResolvedValue(mockTaskEntity);
+
+      await taskService.createTaskFromRequest(createMockRequest({ body: { ...body, quoteToken } }));
+
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ price, pricing: expect.objectContaining({ total: price }) })
+      );
+    });
+
+    /**
+     * @test Debe rechazar un presupuesto emitido para otras opciones
+     */
+    it('debe rechazar un presupuesto de otras opciones', async () => {
+      const { quoteToken } = await taskService.quoteTask(
+        createMockRequest({ body: { imagePath: '/data/image.jpg' } })
+      );
+
+      await expect(
+        taskService.createTaskFromRequest(
+          createMockRequest({ body: { imagePath: '/data/image.jpg', priority: 1, quoteToken } })
+        )
+      ).rejects.toMatchObject({ code: 'QUOTE_MISMATCH', statusCode: 409 });
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  /**
+   * Pruebas del método getTaskById
+   */
+  describe('getTaskById', () => {
+    /**
+     * @test Debe retornar tarea existente
+     */
+    it('debe retornar tarea existente', async () => {
+      mockRepository.findById.mockResolvedValue(mockTaskEntity);
+
+      const result = await taskService.getTaskById('507f1f77bcf86cd799439011');
+
+      expect(mockRepository.findById).toHaveBeenCalledWith('507f1f77bcf86cd799439011');
+      expect(result.taskId).toBe('507f1f77bcf86cd799439011');
+      expect(result.status).toBe('pending');
+    });
+
+    /**
+     * @test No debe enlazar las variantes eliminadas por la política de retención
+     */
+    it('debe omitir las variantes caducadas', async () => {
+      const expiredAt = { variants: new Date('2024-01-01T00:00:00.000Z') };
+      mockRepository.findById.mockResolvedValue({
+        ...mockTaskEntity,
+        status: TaskStatus.COMPLETED,
+        images: [{ resolution: '1024', path: '/app/output/test/1024/aaa.jpg' }],
+        expiredAt,
+      });
+
+      const result = await taskService.getTaskById('507f1f77bcf86cd799439011');
+
+      expect(result.images).toBeUndefined();
+      expect(result.expiredAt).toEqual(expiredAt);
+    });
+
+    /**
+     * @test Debe fallar cuando tarea no existe
+     */
+    it('debe fallar cuando tarea no existe', async () => {
+      mockRepository.findById.mockResolvedValue(null);
+
+      await expect(taskService.getTaskById('nonexistent')).rejects.toThrow(NotFoundError);
+      await expect(taskService.getTaskById('nonexistent')).rejects.toThrow('La tarea con ID nonexistent no existe');
+    });
+  });
+
+  /**
+   * Pruebas del método getTaskHistory
+   */
+  describe('getTaskHistory', () => {
+    /**
+     * @test Debe devolver el historial de estados de la tarea
+     */
+    it('debe devolver el historial de la tarea', async () => {
+      const history = [
+        {
+          from: TaskStatus.PENDING,
+          to: TaskStatus.PROCESSING,
+          timestamp: new Date('2023-01-01T00:00:01.000Z'),
+          actor: 'worker:host:1',
+          attempt: 1,
+        },
+        {
+          from: TaskStatus.PROCESSING,
+          to: TaskStatus.FAILED,
+          timestamp: new Date('2023-01-01T00:00:02.000Z'),
+          actor: 'worker:host:1',
+          attempt: 1,
+          error: 'Formato no soportado',
+        },
+      ];
+      mockRepository.findById.mockResolvedValue({
+        ...mockTaskEntity,
+        status: TaskStatus.FAILED,
+        history,
+      });
+
+      const result = await taskService.getTaskHistory('507f1f77bcf86cd799439011');
+
+      expect(result).toEqual({
+        taskId: '507f1f77bcf86cd799439011',
+        status: 'failed',
+        history,
+      });
+    });
+
+    /**
+     * @test Debe devolver un historial vacío para tareas sin cambios registrados
+     */
+    it('debe devolver historial vacío', async () => {
+      mockRepository.findById.mockResolvedValue(mockTaskEntity);
+
+      const result = await taskService.getTaskHistory('507f1f77bcf86cd799439011');
+
+      expect(result.history).toEqual([]);
+    });
+
+    /**
+     * @test Debe fallar cuando la tarea está eliminada
+     */
+    it('debe fallar cuando la tarea está eliminada', async () => {
+      mockRepository.findById.mockResolvedValue({ ...mockTaskEntity, deletedAt: new Date() });
+
+      await expect(taskService.getTaskHistory('507f1f77bcf86cd799439011')).rejects.toThrow(
+        NotFoundError
+      );
+    });
+  });
+
+  /**
+   * Pruebas del método listTasks
+   */
+  describe('listTasks', () => {
+    const mockTasks = [mockTaskEntity, { ...mockTaskEntity, _id: 'task2' }];
+
+    /**
+     * @test Debe listar tareas con paginación
+     */
+    it('debe listar tareas con paginación', async () => {
+      mockRepository.find.mockResolvedValue(mockTasks);
+      mockRepository.count.mockResolvedValue(10);
+
+      const result = await taskService.listTasks({ page: 1, limit: 5 });
+
+      expect(mockRepository.find).toHaveBeenCalledWith({}, 0, 5, {
+        field: 'createdAt',
+        direction: 'desc',
+      });
+      expect(mockRepository.count).toHaveBeenCalledWith({});
+      expect(result.data).toHaveLength(2);
+      expect(result.pagination).toEqual({
+        page: 1,
+        limit: 5,
+        total: 10,
+        totalPages: 2,
+      });
+    });
+
+    /**
+     * @test Debe filtrar por estado
+     */
+    it('debe filtrar por estado', async () => {
+      mockRepository.find.mockResolvedValue([mockTaskEntity]);
+      mockRepository.count.mockResolvedValue(1);
+
+      const result = await taskService.listTasks({ page: 1, limit: 5, status: TaskStatus.PENDING });
+
+      expect(mockRepository.find).toHaveBeenCalledWith(
+        { status: TaskStatus.PENDING },
+        0,
+        5,
+        { field: 'createdAt', direction: 'desc' }
+      );
+      expect(mockRepository.count).toHaveBeenCalledWith({ status: TaskStatus.PENDING });
+      expect(result.data).toHaveLength(1);
+    });
+
+    /**
+     * @test Debe filtrar por identificador externo y etiquetas
+     */
+    it('debe filtrar por identificador externo y etiquetas', async () => {
+      mockRepository.find.mockResolvedValue([]);
+      mockRepository.count.mockResolvedValue(0);
+
+      await taskService.listTasks({ page: 1, limit: 5, externalId: 'SKU-1', tags: ['summer'] });
+
+      expect(mockRepository.find).toHaveBeenCalledWith(
+        { externalId: 'SKU-1', tags: ['summer'], tagMatch: 'any' },
+        0,
+        5,
+        { field: 'createdAt', direction: 'desc' }
+      );
+    });
+
+    /**
+     * @test Debe combinar varios estados, rangos y ordenación
+     */
+    it('debe combinar filtros de estado, fecha y precio con la ordenación', async () => {
+      const createdFrom = new Date('2024-01-01T00:00:00.000Z');
+      mockRepository.find.mockResolvedValue([]);
+      mockRepository.count.mockResolvedValue(0);
+
+      await taskService.listTasks({
+        page: 1,
+        limit: 5,
+        status: [TaskStatus.PENDING, TaskStatus.FAILED],
+        source: [],
+        createdFrom,
+        maxPrice: 30,
+        sort: { field: 'price', direction: 'asc' },
+      });
+
+      expect(mockRepository.find).toHaveBeenCalledWith(
+        { status: [TaskStatus.FAILED, TaskStatus.PENDING], createdFrom, maxPrice: 30 },
+        0,
+        5,
+        { field: 'price', direction: 'asc' }
+      );
+      expect(mockRepository.count).toHaveBeenCalledWith({
+        status: [TaskStatus.FAILED, TaskStatus.PENDING],
+        createdFrom,
+        maxPrice: 30,
+      });
+    });
+
+    /**
+     * @test Debe calcular skip correctamente para páginas
+     */
+    it('debe calcular skip correctamente para páginas', async () => {
+      mockRepository.find.mockResolvedValue([]);
+      mockRepository.count.mockResolvedValue(0);
+
+      await taskService.listTasks({ page: 3, limit: 10 });
+
+      expect(mockRepository.find).toHaveBeenCalledWith({}, 20, 10, {
+        field: 'createdAt',
+        direction: 'desc',
+      });
+    });
+  });
+
+  /**
+   * Pruebas del método listTasksByCursor
+   */
+  describe('listTasksByCursor', () => {
+    const buildTask = (day: number): TaskEntity => ({
+      ...mockTaskEntity,
+      _id: `507f1f77bcf86cd79943901${day}`,
+      createdAt: new Date(`2023-01-0${day}T00:00:00.000Z`),
+    });
+
+    /**
+     * @test Debe devolver la primera página con cursor siguiente y sin anterior
+     */
+    it('debe devolver la primera página', async () => {
+      mockRepository.findByCursor.mockResolvedValue([buildTask(5), buildTask(4), buildTask(3)]);
+
+      const result = await taskService.listTasksByCursor({ cursor: '', limit: 2 });
+
+      expect(mockRepository.findByCursor).toHaveBeenCalledWith({}, undefined, 3, 'desc');
+      expect(mockRepository.count).not.toHaveBeenCalled();
+      expect(result.data.map(task => task.taskId)).toEqual([
+        '507f1f77bcf86cd799439015',
+        '507f1f77bcf86cd799439014',
+      ]);
+      expect(result.pagination).toEqual({
+        limit: 2,
+        nextCursor: encodeTaskCursor(buildTask(4), 'next'),
+        prevCursor: null,
+      });
+    });
+
+    /**
+     * @test Debe continuar desde el cursor siguiente
+     */
+    it('debe avanzar desde un cursor siguiente', async () => {
+      mockRepository.findByCursor.mockResolvedValue([buildTask(3), buildTask(2)]);
+
+      const result = await taskService.listTasksByCursor({
+        cursor: encodeTaskCursor(buildTask(4), 'next'),
+        limit: 2,
+        status: TaskStatus.COMPLETED,
+      });
+
+      expect(mockRepository.findByCursor).toHaveBeenCalledWith(
+        { status: TaskStatus.COMPLETED },
+        { createdAt: buildTask(4).createdAt, id: '507f1f77bcf86cd799439014', direction: 'next' },
+        3,
+        'desc'
+      );
+      expect(result.pagination).toEqual({
+        limit: 2,
+        nextCursor: null,
+        prevCursor: encodeTaskCursor(buildTask(3), 'prev'),
+      });
+    });
+
+    /**
+     * @test Debe retroceder recorriendo en sentido inverso y devolver la página en el orden solicitado
+     */
+    it('debe retroceder desde un cursor anterior', async () => {
+      mockRepository.findByCursor.mockResolvedValue([buildTask(4), buildTask(5), buildTask(6)]);
+
+      const result = await taskService.listTasksByCursor({
+        cursor: encodeTaskCursor(buildTask(3), 'prev'),
+        limit: 2,
+      });
+
+      expect(mockRepository.findByCursor).toHaveBeenCalledWith({}, expect.any(Object), 3, 'asc');
+      expect(result.data.map(task => task.taskId)).toEqual([
+        '507f1f77bcf86cd799439015',
+        '507f1f77bcf86cd799439014',
+      ]);
+      expect(result.pagination).toEqual({
+        limit: 2,
+        nextCursor: encodeTaskCursor(buildTask(4), 'next'),
+        prevCursor: encodeTaskCursor(buildTask(5), 'prev'),
+      });
+    });
+
+    /**
+     * @test Debe rechazar cursores manipulados y órdenes distintos de createdAt
+     */
+    it('debe rechazar cursores inválidos y órdenes no admitidos', async () => {
+      await expect(
+        taskService.listTasksByCursor({ cursor: 'not-a-cursor', limit: 10 })
+      ).rejects.toMatchObject({ code: 'INVALID_CURSOR', statusCode: 400 });
+      await expect(
+        taskService.listTasksByCursor({ limit: 10, sort: { field: 'price', direction: 'asc' } })
+      ).rejects.toMatchObject({ code: 'INVALID_CURSOR_SORT', statusCode: 400 });
+      expect(mockRepository.findByCursor).not.toHaveBeenCalled();
+    });
+
+    /**
+     * @test Debe servir el total desde la caché solo si se pide
+     */
+    it('debe incluir el total cacheado si se solicita', async () => {
+      const mockCacheService = {
+        getOrSet: jest.fn(async (_key: string, fn: () => Promise<number>) => fn()),
+      } as unknown as jest.Mocked<CacheService>;
+      const service = new TaskService(
+        mockRepository,
+        mockQueue,
+        mockImageDownloadService,
+        mockWatermarkRepository,
+        mockCacheService
+      );
+      jest.mocked(generateMD5).mockReturnValue('0123456789abcdef0123456789abcdef');
+      mockRepository.findByCursor.mockResolvedValue([]);
+      mockRepository.count.mockResolvedValue(42);
+
+      const result = await service.listTasksByCursor({ limit: 10, includeTotal: true });
+
+      expect(mockCacheService.getOrSet).toHaveBeenCalledWith(
+        'tasks:count:0123456789abcdef',
+        expect.any(Function),
+        45
+      );
+      expect(result.pagination).toEqual({
+        limit: 10,
+        nextCursor: null,
+        prevCursor: null,
+        total: 42,
+      });
+    });
+
+    /**
+     * @test Un fallo de Redis no debe impedir obtener el total
+     */
+    it('debe contar en base de datos si falla la caché', async () => {
+      const mockCacheService = {
+        getOrSet: jest.fn().mockRejectedValue(new Error('Redis down')),
+      } as unknown as jest.Mocked<CacheService>;
+      const service = new TaskService(
+        mockRepository,
+        mockQueue,
+        mockImageDownloadService,
+        mockWatermarkRepository,
+        mockCacheService
+      );
+      jest.mocked(generateMD5).mockReturnValue('0123456789abcdef0123456789abcdef');
+      mockRepository.findByCursor.mockResolvedValue([]);
+      mockRepository.count.mockResolvedValue(7);
+
+      const result = await service.listTasksByCursor({ limit: 10, includeTotal: true });
+
+      expect(result.pagination.total).toBe(7);
+      expect(logger.warn).toHaveBeenCalled();
+    });
+  });
+
+  /**
+   * Pruebas del método retryTask
+   */
+  describe('retryTask', () => {
+    const failedTask = { ...mockTaskEntity, status: TaskStatus.FAILED };
+
+    /**
+     * @test Debe reintentar tarea fallida
+     */
+    it('debe reintentar tarea fallida', async () => {
+      mockRepository.findById.mockResolvedValue(failedTask);
+      mockRepository.updateStatus.mockResolvedValue(true);
+      mockQueue.addTask.mockResolvedValue();
+
+      const result = await taskService.retryTask('507f1f77bcf86cd799439011');
+
+      expect(mockRepository.findById).toHaveBeenCalledWith('507f1f77bcf86cd799439011');
+      expect(mockRepository.updateStatus).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        TaskStatus.PENDING,
+        undefined,
+        expect.objectContaining({
+          from: TaskStatus.FAILED,
+          to: TaskStatus.PENDING,
+          actor: 'api',
+          attempt: 2,
+        })
+      );
+      expect(mockQueue.addTask).toHaveBeenCalledWith('507f1f77bcf86cd799439011', failedTask.originalPath);
+      expect(result.status).toBe('pending');
+    });
+
+    /**
+     * @test Debe conservar la prioridad de la tarea al reencolarla
+     */
+    it('debe conservar la prioridad al reintentar', async () => {
+      mockRepository.findById.mockResolvedValue({
+        ...mockTaskEntity,
+        status: TaskStatus.FAILED,
+        priority: 2,
+      });
+
+      await taskService.retryTask('507f1f77bcf86cd799439011');
+
+      expect(mockQueue.addTask).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        mockTaskEntity.originalPath,
+        undefined,
+        { priority: 2 }
+      );
+    });
+
+    /**
+     * @test Debe fallar cuando tarea no existe
+     */
+    it('debe fallar cuando tarea no existe', async () => {
+      mockRepository.findById.mockResolvedValue(null);
+
+      await expect(taskService.retryTask('nonexistent')).rejects.toThrow(NotFoundError);
+    });
+
+    /**
+     * @test Debe fallar cuando tarea no está en estado FAILED
+     */
+    it('debe fallar cuando tarea no está en estado FAILED', async () => {
+      mockRepository.findById.mockResolvedValue(mockTaskEntity);
+
+      await expect(taskService.retryTask('507f1f77bcf86cd799439011')).rejects.toThrow(BusinessError);
+      await expect(taskService.retryTask('507f1f77bcf86cd799439011')).rejects.toThrow('Solo se pueden reintentar tareas fallidas');
+    });
+
+    /**
+     * @test Debe rechazar el reintento si la retención eliminó el original
+     */
+    it('debe fallar cuando el original ha caducado', async () => {
+      const expiredAt = new Date('2024-01-01T00:00:00.000Z');
+      mockRepository.findById.mockResolvedValue({
+        ...mockTaskEntity,
+        status: TaskStatus.FAILED,
+        expiredAt: { original: expiredAt },
+      });
+
+      await expect(taskService.retryTask('507f1f77bcf86cd799439011')).rejects.toMatchObject({
+        code: 'ORIGINAL_EXPIRED',
+        statusCode: 410,
+        details: { expiredAt },
+      });
+      expect(mockQueue.addTask).not.toHaveBeenCalled();
+    });
+  });
+
+  /**
+   * Pruebas de reprioritizeTask y promoteTask
+   */
+  describe('reprioritizeTask y promoteTask', () => {
+    /**
+     * @test Debe cambiar la prioridad del trabajo en espera y guardarla
+     */
+    const pricing: PriceBreakdown = {
+      version: '2026-10',
+      lines: [{ concept: 'base', quantity: 1, unitPrice: 2, amount: 10.32 }],
+      subtotal: 10.32,
+      multiplier: 1,
+      total: 10.32,
+    };
+
+    /**
+     * @test Debe cambiar la prioridad del trabajo en espera y guardarla con el precio recalculado
+     */
+    it('debe cambiar la prioridad de una tarea pendiente y recalcular su precio', async () => {
+      mockRepository.findById.mockResolvedValue({
+        ...mockTaskEntity,
+        priority: 5,
+        price: pricing.total,
+        pricing,
+      });
+      mockQueue.changePriority.mockResolvedValue(1);
+
+      const result = await taskService.reprioritizeTask('507f1f77bcf86cd799439011', 1);
+
+      const repriced = { ...pricing, multiplier: 1.5, total: 15.48 };
+      expect(mockQueue.changePriority).toHaveBeenCalledWith('507f1f77bcf86cd799439011', 1);
+      expect(mockRepository.updateSchedule).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        { priority: 1 },
+        repriced
+      );
+      expect(result).toMatchObject({ priority: 1, price: 15.48, pricing: repriced });
+    });
+
+    /**
+     * @test Debe rechazar el cambio de prioridad si el precio no puede recalcularse
+     */
+    it('debe rechazar tareas sin desglose de precio', async () => {
+      mockRepository.findById.mockResolvedValue({ ...mockTaskEntity });
+
+      await expect(
+        taskService.reprioritizeTask('507f1f77bcf86cd799439011', 1)
+      ).rejects.toMatchObject({ code: 'TASK_PRICE_FIXED', statusCode: 409 });
+      expect(mockQueue.changePriority).not.toHaveBeenCalled();
+      expect(mockRepository.updateSchedule).not.toHaveBeenCalled();
+    });
+
+    /**
+     * @test Debe rechazar tareas que no están pendientes
+     */
+    it('debe rechazar tareas que no están pendientes', async () => {
+      mockRepository.findById.mockResolvedValue({
+        ...mockTaskEntity,
+        status: TaskStatus.PROCESSING,
+      });
+
+      await expect(
+        taskService.reprioritizeTask('507f1f77bcf86cd799439011', 1)
+      ).rejects.toMatchObject({ code: 'INVALID_SCHEDULE_STATE', statusCode: 400 });
+      expect(mockQueue.changePriority).not.toHaveBeenCalled();
+    });
+
+    /**
+     * @test Debe devolver 409 si el trabajo ya no está en la cola
+     */
+    it('debe fallar si el trabajo ya no está en espera', async () => {
+      mockRepository.findById.mockResolvedValue({ ...mockTaskEntity, pricing });
+      mockQueue.changePriority.mockResolvedValue(0);
+
+      await expect(
+        taskService.reprioritizeTask('507f1f77bcf86cd799439011', 1)
+      ).rejects.toMatchObject({ code: 'TASK_NOT_QUEUED', statusCode: 409 });
+      expect(mockRepository.updateSchedule).not.toHaveBeenCalled();
+    });
+
+    /**
+     * @test Debe promover una tarea diferida y registrar el nuevo momento de procesamiento
+     */
+    it('debe promover una tarea diferida', async () => {
+      mockRepository.findById.mockResolvedValue({
+        ...mockTaskEntity,
+        processAt: new Date('2030-01-01T08:00:00.000Z'),
+      });
+      mockQueue.promoteTask.mockResolvedValue(1);
+
+      const result = await taskService.promoteTask('507f1f77bcf86cd799439011');
+
+      expect(mockQueue.promoteTask).toHaveBeenCalledWith('507f1f77bcf86cd799439011');
+      expect(mockRepository.updateSchedule).toHaveBeenCalledWith('507f1f77bcf86cd799439011', {
+        processAt: expect.any(Date),
       });
-      expect(mockQueue.addTask).toHaveBeenCalled();
-      expect(result.taskId).toBe('507f1f77bcf86cd799439011');
+      expect(result.processAt!.getTime()).toBeLessThanOrEqual(Date.now());
     });
 
     /**
-     * @test Debe crear tarea desde URL de imagen
+     * @test Debe devolver 409 si la tarea no está diferida
      */
-    it('debe crear tarea desde URL de imagen', async () => {
-      const req = createMockRequest({
-        body: { imageUrl: 'https://example.com/image.jpg' },
-        idempotencyKey: 'test-key',
+    it('debe fallar si la tarea no está diferida', async () => {
+      mockRepository.findById.mockResolvedValue({ ...mockTaskEntity });
+      mockQueue.promoteTask.mockResolvedValue(0);
+
+      await expect(taskService.promoteTask('507f1f77bcf86cd799439011')).rejects.toMatchObject({
+        code: 'TASK_NOT_DELAYED',
+        statusCode: 409,
       });
+    });
 
-      const downloadedPath = '/tmp/downloaded-image.jpg';
-      mockImageDownloadService.download.mockResolvedValue(downloadedPath);
-      mockRepository.findByIdempotencyKey.mockResolvedValue(null);
-      mockRepository.create.mockResolvedValue(mockTaskEntity);
+    /**
+     * @test Debe fallar cuando la tarea no existe
+     */
+    it('debe fallar cuando la tarea no existe', async () => {
+      mockRepository.findById.mockResolvedValue(null);
 
-      const result = await taskService.createTaskFromRequest(req);
+      await expect(taskService.promoteTask('nonexistent')).rejects.toThrow(NotFoundError);
+    });
+  });
 
-      expect(mockImageDownloadService.download).toHaveBeenCalledWith('https://example.com/image.jpg');
-      expect(mockRepository.create).toHaveBeenCalledWith(
-        expect.objectContaining({
-          originalPath: downloadedPath,
-        })
+  /**
+   * Pruebas del método cancelTask
+   */
+  describe('cancelTask', () => {
+    /**
+     * @test Debe cancelar una tarea pendiente y eliminar su trabajo de la cola
+     */
+    it('debe cancelar tarea pendiente', async () => {
+      mockRepository.findById.mockResolvedValue({ ...mockTaskEntity });
+      mockRepository.updateStatus.mockResolvedValue(true);
+      mockQueue.removeTask.mockResolvedValue(1);
+
+      const result = await taskService.cancelTask('507f1f77bcf86cd799439011');
+
+      expect(TaskStatusTransition.validateTransition).toHaveBeenCalledWith(
+        TaskStatus.PENDING,
+        TaskStatus.CANCELLED
       );
-      expect(result.taskId).toBe('507f1f77bcf86cd799439011');
+      expect(mockQueue.removeTask).toHaveBeenCalledWith('507f1f77bcf86cd799439011');
+      expect(mockRepository.updateStatus).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        TaskStatus.CANCELLED,
+        undefined,
+        expect.objectContaining({ to: TaskStatus.CANCELLED, actor: 'api' })
+      );
+      expect(result.status).toBe('cancelled');
     });
 
     /**
-     * @test Debe crear tarea desde path local
+     * @test Debe cancelar una tarea en proceso aunque su trabajo ya no esté en espera
      */
-    it('debe crear tarea desde path local', async () => {
-      const req = createMockRequest({
-        body: { imagePath: '/local/path/image.jpg' },
-        idempotencyKey: 'test-key',
+    it('debe cancelar tarea en proceso', async () => {
+      mockRepository.findById.mockResolvedValue({
+        ...mockTaskEntity,
+        status: TaskStatus.PROCESSING,
       });
+      mockRepository.updateStatus.mockResolvedValue(true);
+      mockQueue.removeTask.mockResolvedValue(0);
 
-      mockRepository.findByIdempotencyKey.mockResolvedValue(null);
-      mockRepository.create.mockResolvedValue(mockTaskEntity);
-
-      const result = await taskService.createTaskFromRequest(req);
+      const result = await taskService.cancelTask('507f1f77bcf86cd799439011');
 
-      expect(mockRepository.create).toHaveBeenCalledWith(
-        expect.objectContaining({
-          originalPath: '/local/path/image.jpg',
-        })
+      expect(mockRepository.updateStatus).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        TaskStatus.CANCELLED,
+        undefined,
+        expect.objectContaining({ to: TaskStatus.CANCELLED, actor: 'api' })
       );
-      expect(result.taskId).toBe('507f1f77bcf86cd799439011');
+      expect(result.status).toBe('cancelled');
     });
 
     /**
-     * @test Debe fallar cuando no se proporciona fuente de imagen
+     * @test Debe fallar cuando tarea no existe
      */
-    it('debe fallar cuando no se proporciona fuente de imagen', async () => {
-      const req = createMockRequest({
-        body: {},
-        idempotencyKey: 'test-key',
-      });
+    it('debe fallar cuando tarea no existe', async () => {
+      mockRepository.findById.mockResolvedValue(null);
 
-      await expect(taskService.createTaskFromRequest(req)).rejects.toThrow(BusinessError);
-      await expect(taskService.createTaskFromRequest(req)).rejects.toThrow('Se requiere imagePath, imageUrl o archivo');
+      await expect(taskService.cancelTask('nonexistent')).rejects.toThrow(NotFoundError);
     });
 
     /**
-     * @test Debe retornar tarea existente cuando hay idempotencyKey duplicado
+     * @test Debe fallar sin eliminar el trabajo si el worker cambia el estado durante la cancelación
      */
-    it('debe retornar tarea existente cuando hay idempotencyKey duplicado', async () => {
-      const req = createMockRequest({
-        file: mockFile,
-        body: {},
-        idempotencyKey: 'existing-key',
+    it('debe fallar con 409 si la tarea cambia de estado mientras se cancela', async () => {
+      mockRepository.findById.mockResolvedValue({
+        ...mockTaskEntity,
+        status: TaskStatus.PROCESSING,
       });
+      mockRepository.updateStatus.mockResolvedValue(false);
 
-      mockRepository.findByIdempotencyKey.mockResolvedValue(mockTaskEntity);
+      await expect(taskService.cancelTask('507f1f77bcf86cd799439011')).rejects.toMatchObject({
+        code: 'TASK_STATUS_CHANGED',
+        statusCode: 409,
+      });
+      expect(mockRepository.updateStatus).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        TaskStatus.CANCELLED,
+        undefined,
+        expect.objectContaining({ from: TaskStatus.PROCESSING, to: TaskStatus.CANCELLED })
+      );
+      expect(mockQueue.removeTask).not.toHaveBeenCalled();
+    });
 
-      const result = await taskService.createTaskFromRequest(req);
+    /**
+     * @test Debe fallar cuando la tarea ya ha terminado
+     */
+    it('debe fallar cuando la tarea ya ha terminado', async () => {
+      mockRepository.findById.mockResolvedValue({
+        ...mockTaskEntity,
+        status: TaskStatus.COMPLETED,
+      });
 
-      expect(mockRepository.findByIdempotencyKey).toHaveBeenCalledWith('existing-key');
-      expect(mockRepository.create).not.toHaveBeenCalled();
-      expect(result.taskId).toBe('507f1f77bcf86cd799439011');
+      await expect(taskService.cancelTask('507f1f77bcf86cd799439011')).rejects.toMatchObject({
+        code: 'INVALID_CANCEL_STATE',
+      });
+      expect(mockQueue.removeTask).not.toHaveBeenCalled();
+      expect(mockRepository.updateStatus).not.toHaveBeenCalled();
     });
+  });
+
+  describe('reprocessTask', () => {
+    const completedTask: TaskEntity = {
+      ...mockTaskEntity,
+      status: TaskStatus.COMPLETED,
+      images: [{ resolution: '1024', path: '/app/output/test/1024/aaa.jpg', format: 'jpeg' }],
+      metadataPolicy: { mode: 'strip' },
+    };
 
     /**
-     * @test Debe manejar errores y logear apropiadamente
+     * @test Debe registrar la generación inicial y encolar la nueva sin tocar el estado de la tarea
      */
-    it('debe manejar errores y logear apropiadamente', async () => {
-      const req = createMockRequest({
-        file: mockFile,
-        body: {},
-        idempotencyKey: 'test-key',
-      });
+    it('debe encolar una nueva generación conservando las opciones omitidas', async () => {
+      mockRepository.findById.mockResolvedValue({ ...completedTask });
+      mockRepository.startGeneration.mockResolvedValue(true);
 
-      const error = new Error('Database error');
-      mockRepository.findByIdempotencyKey.mockRejectedValue(error);
+      const result = await taskService.reprocessTask('507f1f77bcf86cd799439011', {
+        variants: [{ width: 640, format: 'webp' }],
+      });
 
-      await expect(taskService.createTaskFromRequest(req)).rejects.toThrow('Database error');
-      expect(logger.error).toHaveBeenCalledWith(
-        'Error creando tarea desde request',
+      expect(mockRepository.startGeneration).toHaveBeenCalledWith('507f1f77bcf86cd799439011', [
         expect.objectContaining({
-          error: 'Database error',
-          idempotencyKey: 'test-key',
-        })
+          number: 1,
+          status: 'completed',
+          images: completedTask.images,
+          metadataPolicy: { mode: 'strip' },
+        }),
+        expect.objectContaining({
+          number: 2,
+          status: 'pending',
+          variants: [{ width: 640, format: 'webp' }],
+          metadataPolicy: { mode: 'strip' },
+        }),
+      ]);
+      expect(mockQueue.addTask).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        completedTask.originalPath,
+        { variants: [{ width: 640, format: 'webp' }], metadataPolicy: { mode: 'strip' } },
+        { generation: 2 }
       );
+      expect(mockRepository.updateStatus).not.toHaveBeenCalled();
+      expect(result.status).toBe('completed');
+      expect(result.generation).toBe(1);
+      expect(result.generations?.map(({ number, status }) => [number, status])).toEqual([
+        [1, 'completed'],
+        [2, 'pending'],
+      ]);
     });
-  });
 
-  /**
-   * Pruebas del método createTask
-   */
-  describe('createTask', () => {
     /**
-     * @test Debe crear nueva tarea con idempotencyKey
+     * @test Debe numerar la generación a continuación de las existentes
      */
-    it('debe crear nueva tarea con idempotencyKey', async () => {
-      mockRepository.findByIdempotencyKey.mockResolvedValue(null);
-      mockRepository.create.mockResolvedValue(mockTaskEntity);
-
-      const result = await taskService.createTask('/path/to/image.jpg', 'unique-key');
+    it('debe continuar la numeración de generaciones', async () => {
+      mockRepository.findById.mockResolvedValue({
+        ...completedTask,
+        generation: 2,
+        generations: [
+          { number: 1, status: 'completed', requestedAt: new Date() },
+          { number: 2, status: 'completed', requestedAt: new Date() },
+        ],
+      });
+      mockRepository.startGeneration.mockResolvedValue(true);
 
-      expect(mockRepository.findByIdempotencyKey).toHaveBeenCalledWith('unique-key');
-      expect(mockRepository.create).toHaveBeenCalledWith({
-        status: TaskStatus.PENDING,
-        price: expect.any(Number),
-        originalPath: '/path/to/image.jpg',
-        images: [],
-        idempotencyKey: 'unique-key',
+      await taskService.reprocessTask('507f1f77bcf86cd799439011', {
+        metadataPolicy: { mode: 'preserve' },
       });
-      expect(result.taskId).toBe('507f1f77bcf86cd799439011');
+
+      expect(mockRepository.startGeneration).toHaveBeenCalledWith('507f1f77bcf86cd799439011', [
+        expect.objectContaining({ number: 3, status: 'pending' }),
+      ]);
+      expect(mockQueue.addTask).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        completedTask.originalPath,
+        { metadataPolicy: { mode: 'preserve' } },
+        { generation: 3 }
+      );
     });
 
     /**
-     * @test Debe generar UUID cuando no se proporciona idempotencyKey
+     * @test Debe rechazar tareas que no están completadas
      */
-    it('debe generar UUID cuando no se proporciona idempotencyKey', async () => {
-      mockRepository.create.mockResolvedValue(mockTaskEntity);
-
-      await taskService.createTask('/path/to/image.jpg');
+    it('debe fallar cuando la tarea no está completada', async () => {
+      mockRepository.findById.mockResolvedValue(mockTaskEntity);
 
-      expect(mockRepository.create).toHaveBeenCalledWith({
-        status: TaskStatus.PENDING,
-        price: expect.any(Number),
-        originalPath: '/path/to/image.jpg',
-        images: [],
-        idempotencyKey: 'generated-uuid',
-      });
+      await expect(
+        taskService.reprocessTask('507f1f77bcf86cd799439011', { variants: [{ width: 640 }] })
+      ).rejects.toMatchObject({ code: 'INVALID_REPROCESS_STATE' });
+      expect(mockRepository.startGeneration).not.toHaveBeenCalled();
     });
 
     /**
-     * @test Debe generar precio en rango válido
+     * @test Debe exigir al menos una opción de procesamiento
      */
-    it('debe generar precio en rango válido', async () => {
-      mockRepository.create.mockResolvedValue(mockTaskEntity);
+    it('debe fallar sin opciones de procesamiento', async () => {
+      mockRepository.findById.mockResolvedValue(completedTask);
 
-      await taskService.createTask('/path/to/image.jpg');
+      await expect(
+        taskService.reprocessTask('507f1f77bcf86cd799439011', {})
+      ).rejects.toMatchObject({ code: 'EMPTY_REPROCESS' });
+    });
 
-      const createCall = mockRepository.create.mock.calls[0][0];
-      expect(createCall.price).toBeGreaterThanOrEqual(5);
-      expect(createCall.price).toBeLessThanOrEqual(50);
+    /**
+     * @test Debe rechazar un segundo reprocesado mientras otro sigue en curso
+     */
+    it('debe fallar cuando ya hay un reprocesado en curso', async () => {
+      mockRepository.findById.mockResolvedValue(completedTask);
+      mockRepository.startGeneration.mockResolvedValue(false);
+
+      await expect(
+        taskService.reprocessTask('507f1f77bcf86cd799439011', { variants: [{ width: 640 }] })
+      ).rejects.toMatchObject({ code: 'REPROCESS_IN_PROGRESS', statusCode: 409 });
+      expect(mockQueue.addTask).not.toHaveBeenCalled();
     });
   });
 
   /**
-   * Pruebas del método getTaskById
+   * Pruebas de los métodos deleteTask y restoreTask
    */
-  describe('getTaskById', () => {
+  describe('deleteTask', () => {
     /**
-     * @test Debe retornar tarea existente
+     * @test Debe eliminar lógicamente una tarea terminada
      */
-    it('debe retornar tarea existente', async () => {
-      mockRepository.findById.mockResolvedValue(mockTaskEntity);
+    it('debe eliminar lógicamente una tarea terminada', async () => {
+      mockRepository.findById.mockResolvedValue({
+        ...mockTaskEntity,
+        status: TaskStatus.COMPLETED,
+      });
 
-      const result = await taskService.getTaskById('507f1f77bcf86cd799439011');
+      const result = await taskService.deleteTask('507f1f77bcf86cd799439011');
 
-      expect(mockRepository.findById).toHaveBeenCalledWith('507f1f77bcf86cd799439011');
-      expect(result.taskId).toBe('507f1f77bcf86cd799439011');
-      expect(result.status).toBe('pending');
+      expect(mockRepository.softDelete).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        result.deletedAt
+      );
+      expect(result.restorableUntil.getTime()).toBeGreaterThan(result.deletedAt.getTime());
     });
 
     /**
-     * @test Debe fallar cuando tarea no existe
+     * @test Debe invalidar la caché de la tarea, los listados y los totales
      */
-    it('debe fallar cuando tarea no existe', async () => {
-      mockRepository.findById.mockResolvedValue(null);
+    it('debe invalidar la caché de la tarea, los listados y los totales', async () => {
+      const mockCacheService = {
+        invalidatePattern: jest.fn().mockResolvedValue(undefined),
+      } as unknown as jest.Mocked<CacheService>;
+      taskService = new TaskService(
+        mockRepository,
+        mockQueue,
+        mockImageDownloadService,
+        mockWatermarkRepository,
+        mockCacheService
+      );
+      mockRepository.findById.mockResolvedValue({
+        ...mockTaskEntity,
+        status: TaskStatus.COMPLETED,
+      });
 
-      await expect(taskService.getTaskById('nonexistent')).rejects.toThrow(NotFoundError);
-      await expect(taskService.getTaskById('nonexistent')).rejects.toThrow('La tarea con ID nonexistent no existe');
-    });
-  });
+      await taskService.deleteTask('507f1f77bcf86cd799439011');
 
-  /**
-   * Pruebas del método listTasks
-   */
-  describe('listTasks', () => {
-    const mockTasks = [mockTaskEntity, { ...mockTaskEntity, _id: 'task2' }];
+      expect(mockCacheService.invalidatePattern).toHaveBeenCalledWith(
+        'task:507f1f77bcf86cd799439011'
+      );
+      expect(mockCacheService.invalidatePattern).toHaveBeenCalledWith('tasks:list:*');
+      expect(mockCacheService.invalidatePattern).toHaveBeenCalledWith('tasks:count:*');
+    });
 
     /**
-     * @test Debe listar tareas con paginación
+     * @test Debe rechazar la eliminación de una tarea activa
      */
-    it('debe listar tareas con paginación', async () => {
-      mockRepository.find.mockResolvedValue(mockTasks);
-      mockRepository.count.mockResolvedValue(10);
-
-      const result = await taskService.listTasks({ page: 1, limit: 5 });
+    it('debe rechazar la eliminación de una tarea activa', async () => {
+      mockRepository.findById.mockResolvedValue(mockTaskEntity);
 
-      expect(mockRepository.find).toHaveBeenCalledWith({}, 0, 5);
-      expect(mockRepository.count).toHaveBeenCalledWith({});
-      expect(result.data).toHaveLength(2);
-      expect(result.pagination).toEqual({
-        page: 1,
-        limit: 5,
-        total: 10,
-        totalPages: 2,
+      await expect(taskService.deleteTask('507f1f77bcf86cd799439011')).rejects.toMatchObject({
+        code: 'TASK_IN_PROGRESS',
+        statusCode: 409,
       });
+      expect(mockRepository.softDelete).not.toHaveBeenCalled();
     });
 
     /**
-     * @test Debe filtrar por estado
+     * @test Debe fallar cuando la tarea ya está eliminada
      */
-    it('debe filtrar por estado', async () => {
-      mockRepository.find.mockResolvedValue([mockTaskEntity]);
-      mockRepository.count.mockResolvedValue(1);
-
-      const result = await taskService.listTasks({ page: 1, limit: 5, status: TaskStatus.PENDING });
+    it('debe fallar cuando la tarea ya está eliminada', async () => {
+      mockRepository.findById.mockResolvedValue({
+        ...mockTaskEntity,
+        status: TaskStatus.FAILED,
+        deletedAt: new Date(),
+      });
 
-      expect(mockRepository.find).toHaveBeenCalledWith({ status: TaskStatus.PENDING }, 0, 5);
-      expect(mockRepository.count).toHaveBeenCalledWith({ status: TaskStatus.PENDING });
-      expect(result.data).toHaveLength(1);
+      await expect(taskService.deleteTask('507f1f77bcf86cd799439011')).rejects.toThrow(
+        NotFoundError
+      );
     });
+  });
 
+  describe('restoreTask', () => {
     /**
-     * @test Debe calcular skip correctamente para páginas
+     * @test Debe restaurar una tarea dentro del periodo de gracia
      */
-    it('debe calcular skip correctamente para páginas', async () => {
-      mockRepository.find.mockResolvedValue([]);
-      mockRepository.count.mockResolvedValue(0);
+    it('debe restaurar una tarea dentro del periodo de gracia', async () => {
+      mockRepository.findById.mockResolvedValue({
+        ...mockTaskEntity,
+        status: TaskStatus.COMPLETED,
+        deletedAt: new Date(Date.now() - 60 * 1000),
+      });
 
-      await taskService.listTasks({ page: 3, limit: 10 });
+      const result = await taskService.restoreTask('507f1f77bcf86cd799439011');
 
-      expect(mockRepository.find).toHaveBeenCalledWith({}, 20, 10);
+      expect(mockRepository.restore).toHaveBeenCalledWith('507f1f77bcf86cd799439011');
+      expect(result.status).toBe('completed');
     });
-  });
-
-  /**
-   * Pruebas del método retryTask
-   */
-  describe('retryTask', () => {
-    const failedTask = { ...mockTaskEntity, status: TaskStatus.FAILED };
 
     /**
-     * @test Debe reintentar tarea fallida
+     * @test Debe restaurar la tarea aunque falle la invalidación de la caché
      */
-    it('debe reintentar tarea fallida', async () => {
-      mockRepository.findById.mockResolvedValue(failedTask);
-      mockRepository.updateStatus.mockResolvedValue();
-      mockQueue.addTask.mockResolvedValue();
-
-      const result = await taskService.retryTask('507f1f77bcf86cd799439011');
+    it('debe restaurar la tarea aunque falle la invalidación de la caché', async () => {
+      const mockCacheService = {
+        invalidatePattern: jest.fn().mockRejectedValue(new Error('Redis unavailable')),
+      } as unknown as jest.Mocked<CacheService>;
+      taskService = new TaskService(
+        mockRepository,
+        mockQueue,
+        mockImageDownloadService,
+        mockWatermarkRepository,
+        mockCacheService
+      );
+      mockRepository.findById.mockResolvedValue({
+        ...mockTaskEntity,
+        status: TaskStatus.COMPLETED,
+        deletedAt: new Date(Date.now() - 60 * 1000),
+      });
 
-      expect(mockRepository.findById).toHaveBeenCalledWith('507f1f77bcf86cd799439011');
-      expect(mockRepository.updateStatus).toHaveBeenCalledWith('507f1f77bcf86cd799439011', TaskStatus.PENDING);
-      expect(mockQueue.addTask).toHaveBeenCalledWith('507f1f77bcf86cd799439011', failedTask.originalPath);
-      expect(result.status).toBe('pending');
+      await expect(taskService.restoreTask('507f1f77bcf86cd799439011')).resolves.toMatchObject({
+        status: 'completed',
+      });
+      expect(mockCacheService.invalidatePattern).toHaveBeenCalledWith('tasks:count:*');
     });
 
     /**
-     * @test Debe fallar cuando tarea no existe
+     * @test Debe rechazar la restauración cuando el periodo de gracia ha vencido
      */
-    it('debe fallar cuando tarea no existe', async () => {
-      mockRepository.findById.mockResolvedValue(null);
+    it('debe rechazar la restauración fuera del periodo de gracia', async () => {
+      mockRepository.findById.mockResolvedValue({
+        ...mockTaskEntity,
+        status: TaskStatus.COMPLETED,
+        deletedAt: new Date('2023-01-01T00:00:00.000Z'),
+      });
 
-      await expect(taskService.retryTask('nonexistent')).rejects.toThrow(NotFoundError);
+      await expect(taskService.restoreTask('507f1f77bcf86cd799439011')).rejects.toMatchObject({
+        code: 'RESTORE_PERIOD_EXPIRED',
+        statusCode: 410,
+      });
+      expect(mockRepository.restore).not.toHaveBeenCalled();
     });
 
     /**
-     * @test Debe fallar cuando tarea no está en estado FAILED
+     * @test Debe rechazar la restauración de una tarea no eliminada
      */
-    it('debe fallar cuando tarea no está en estado FAILED', async () => {
+    it('debe rechazar la restauración de una tarea no eliminada', async () => {
       mockRepository.findById.mockResolvedValue(mockTaskEntity);
 
-      await expect(taskService.retryTask('507f1f77bcf86cd799439011')).rejects.toThrow(BusinessError);
-      await expect(taskService.retryTask('507f1f77bcf86cd799439011')).rejects.toThrow('Solo se pueden reintentar tareas fallidas');
+      await expect(taskService.restoreTask('507f1f77bcf86cd799439011')).rejects.toMatchObject({
+        code: 'TASK_NOT_DELETED',
+      });
     });
   });
 
@@ -448,13 +1769,13 @@ describe('TaskService', () => {
     it('debe actualizar estado válido', async () => {
       mockRepository.findById.mockResolvedValue(mockTaskEntity);
       jest.mocked(TaskStatusTransition.validateTransition).mockReturnValue(undefined);
-      mockRepository.updateStatus.mockResolvedValue();
+      mockRepository.updateStatus.mockResolvedValue(true);
 
       await taskService.updateTaskStatus('507f1f77bcf86cd799439011', TaskStatus.PROCESSING);
 
       expect(mockRepository.findById).toHaveBeenCalledWith('507f1f77bcf86cd799439011');
       expect(TaskStatusTransition.validateTransition).toHaveBeenCalledWith(TaskStatus.PENDING, TaskStatus.PROCESSING);
-      expect(mockRepository.updateStatus).toHaveBeenCalledWith('507f1f77bcf86cd799439011', TaskStatus.PROCESSING, undefined);
+      expect(mockRepository.updateStatus).toHaveBeenCalledWith('507f1f77bcf86cd799439011', TaskStatus.PROCESSING, undefined, expect.objectContaining({ to: TaskStatus.PROCESSING }));
     });
 
     /**
@@ -464,11 +1785,11 @@ describe('TaskService', () => {
       const additionalData = { images: ['image1.jpg', 'image2.jpg'] };
       mockRepository.findById.mockResolvedValue(mockTaskEntity);
       jest.mocked(TaskStatusTransition.validateTransition).mockReturnValue(undefined);
-      mockRepository.updateStatus.mockResolvedValue();
+      mockRepository.updateStatus.mockResolvedValue(true);
 
       await taskService.updateTaskStatus('507f1f77bcf86cd799439011', TaskStatus.COMPLETED, additionalData);
 
-      expect(mockRepository.updateStatus).toHaveBeenCalledWith('507f1f77bcf86cd799439011', TaskStatus.COMPLETED, additionalData);
+      expect(mockRepository.updateStatus).toHaveBeenCalledWith('507f1f77bcf86cd799439011', TaskStatus.COMPLETED, additionalData, expect.objectContaining({ to: TaskStatus.COMPLETED }));
     });
 
     /**
@@ -544,17 +1865,15 @@ describe('TaskService', () => {
     });
 
     /**
-     * @test generateRandomPrice - debe generar precio en rango correcto múltiples veces
+     * @test El precio debe ser determinista para la misma imagen y opciones
      */
-    it('debe generar precios en rango correcto múltiples veces', async () => {
+    it('debe calcular el mismo precio para la misma imagen', async () => {
       mockRepository.create.mockResolvedValue(mockTaskEntity);
 
       for (let i = 0; i < 10; i++) {
         await taskService.createTask('/path/to/image.jpg');
         const createCall = mockRepository.create.mock.calls[i][0];
-        expect(createCall.price).toBeGreaterThanOrEqual(5);
-        expect(createCall.price).toBeLessThanOrEqual(50);
-        expect(Number.isInteger(createCall.price)).toBe(true);
+        expect(createCall.price).toBe(10.32);
       }
     });
   });
@@ -602,9 +1921,47 @@ describe('TaskService', () => {
       expect(result).toEqual(
         expect.objectContaining({
           status: 'completed',
-          images: processedImages,
+          images: [
+            {
+              resolution: '1024',
+              url: signedUrl('/api/v1/tasks/507f1f77bcf86cd799439011/images/1024.jpg'),
+            },
+            {
+              resolution: '800',
+              url: signedUrl('/api/v1/tasks/507f1f77bcf86cd799439011/images/800.jpg'),
+            },
+          ],
         })
       );
+      expect(JSON.stringify(result)).not.toContain('/path/to');
+    });
+
+    /**
+     * @test Debe mapear los metadatos extraídos del original
+     */
+    it('debe mapear los metadatos extraídos del original', async () => {
+      const sourceMetadata = {
+        width: 3024,
+        height: 4032,
+        format: 'jpeg',
+        colorSpace: 'srgb',
+        orientation: 6,
+        hasGps: true,
+        camera: { make: 'Apple', model: 'iPhone 13' },
+        takenAt: new Date('2024-05-01T10:20:30Z'),
+      };
+      mockRepository.findById.mockResolvedValue({
+        ...mockTaskEntity,
+        status: TaskStatus.COMPLETED,
+        metadataPolicy: { mode: 'preserve' },
+        sourceMetadata,
+      });
+
+      const result = await taskService.getTaskById('507f1f77bcf86cd799439011');
+
+      expect(result).toEqual(
+        expect.objectContaining({ metadataPolicy: { mode: 'preserve' }, sourceMetadata })
+      );
     });
 
     /**
@@ -700,8 +2057,8 @@ describe('TaskService', () => {
       for (let i = 0; i < 20; i++) {
         await taskService.createTask('/path/to/image.jpg');
         const createCall = mockRepository.create.mock.calls[i][0];
-        expect(createCall.price).toBeGreaterThanOrEqual(5);
-        expect(createCall.price).toBeLessThanOrEqual(50);
+        expect(createCall.pricing?.version).toBe('2026-10');
+        expect(createCall.price).toBe(createCall.pricing?.total);
       }
     });
   });
@@ -0,0 +1,129 @@
+import { WatermarkService } from '../../../src/presentation/Watermark/services/WatermarkService';
+import { WatermarkRepository } from '../../../src/presentation/Watermark/repositories/WatermarkRepository';
+import { WatermarkEntity } from '../../../src/domain/entities';
+import { BusinessError, NotFoundError } from '../../../src/core/errors';
+import fs from 'fs/promises';
+
+jest.mock('../../../src/presentation/Watermark/repositories/WatermarkRepository');
+jest.mock('../../../src/core/helpers/logger');
+jest.mock('fs/promises');
+
+/**
+ * Suite de pruebas para WatermarkService
+ * Verifica el registro de marcas de agua subidas y su consulta
+ */
+describe('WatermarkService', () => {
+  let watermarkService: WatermarkService;
+  let mockRepository: jest.Mocked<WatermarkRepository>;
+
+  const mockWatermark: WatermarkEntity = {
+    _id: '507f1f77bcf86cd799439099',
+    name: 'logo.png',
+    path: '/app/storage/watermarks/logo-1700000000000-a1b2c3d4e5f6.png',
+    mimeType: 'image/png',
+    size: 2048,
+    createdAt: new Date('2023-01-01T00:00:00.000Z'),
+  };
+
+  const mockFile = {
+    fieldname: 'image',
+    originalname: 'logo.png',
+    mimetype: 'image/png',
+    filename: 'logo-1700000000000-a1b2c3d4e5f6.png',
+    path: '/app/storage/images/input/logo-1700000000000-a1b2c3d4e5f6.png',
+    size: 2048,
+  } as Express.Multer.File;
+
+  /**
+   * Configuración inicial para cada test
+   */
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockRepository = {
+      create: jest.fn(),
+      findById: jest.fn(),
+    } as unknown as jest.Mocked<WatermarkRepository>;
+
+    jest.mocked(fs.mkdir).mockResolvedValue(undefined);
+    jest.mocked(fs.rename).mockResolvedValue(undefined);
+    jest.mocked(fs.rm).mockResolvedValue(undefined);
+
+    watermarkService = new WatermarkService(mockRepository);
+  });
+
+  describe('createFromUpload', () => {
+    /**
+     * @test Debe mover el archivo al almacenamiento de marcas de agua y registrarlo
+     */
+    it('debe mover el archivo al almacenamiento de marcas de agua y registrarlo', async () => {
+      mockRepository.create.mockResolvedValue(mockWatermark);
+
+      const result = await watermarkService.createFromUpload(mockFile);
+
+      expect(fs.rename).toHaveBeenCalledWith(
+        mockFile.path,
+        expect.stringContaining(`watermarks/${mockFile.filename}`)
+      );
+      expect(mockRepository.create).toHaveBeenCalledWith({
+        name: 'logo.png',
+        path: expect.stringContaining(`watermarks/${mockFile.filename}`),
+        mimeType: 'image/png',
+        size: 2048,
+      });
+      expect(result).toEqual({
+        watermarkId: '507f1f77bcf86cd799439099',
+        name: 'logo.png',
+        mimeType: 'image/png',
+        size: 2048,
+        createdAt: mockWatermark.createdAt,
+      });
+    });
+
+    /**
+     * @test Debe fallar si no se proporciona archivo
+     */
+    it('debe fallar si no se proporciona archivo', async () => {
+      await expect(watermarkService.createFromUpload()).rejects.toMatchObject({
+        code: 'FILE_REQUIRED',
+      });
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+
+    /**
+     * @test Debe rechazar tipos de archivo no soportados y eliminar el archivo subido
+     */
+    it('debe rechazar tipos de archivo no soportados', async () => {
+      const gif = { ...mockFile, mimetype: 'image/gif' } as Express.Multer.File;
+
+      await expect(watermarkService.createFromUpload(gif)).rejects.toThrow(BusinessError);
+      expect(fs.rename).not.toHaveBeenCalled();
+      expect(fs.rm).toHaveBeenCalledWith(gif.path, { force: true });
+    });
+  });
+
+  describe('getWatermarkById', () => {
+    /**
+     * @test Debe retornar la marca de agua sin exponer la ruta en disco
+     */
+    it('debe retornar la marca de agua sin exponer la ruta en disco', async () => {
+      mockRepository.findById.mockResolvedValue(mockWatermark);
+
+      const result = await watermarkService.getWatermarkById('507f1f77bcf86cd799439099');
+
+      expect(result.watermarkId).toBe('507f1f77bcf86cd799439099');
+      expect(result).not.toHaveProperty('path');
+    });
+
+    /**
+     * @test Debe lanzar NotFoundError si no existe
+     */
+    it('debe lanzar NotFoundError si no existe', async () => {
+      mockRepository.findById.mockResolvedValue(null);
+
+      await expect(watermarkService.getWatermarkById('507f1f77bcf86cd799439099')).rejects.toThrow(
+        NotFoundError
+      );
+    });
+  });
+});
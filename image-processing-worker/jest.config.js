@@ -2,26 +2,25 @@
 module.exports = {
   preset: 'ts-jest',
   testEnvironment: 'node',
-  rootDir: './src',
+  rootDir: '.',
   testMatch: [
-    '**/__tests__/**/*.test.ts',
-    '**/?(*.)+(spec|test).ts'
+    '<rootDir>/tests/**/*.test.ts'
   ],
   transform: {
     '^.+\\.ts$': 'ts-jest'
   },
-  moduleNameMapping: {
-    '^@domain/(.*)$': '<rootDir>/domain/$1',
-    '^@application/(.*)$': '<rootDir>/application/$1',
-    '^@infrastructure/(.*)$': '<rootDir>/infrastructure/$1',
-    '^@presentation/(.*)$': '<rootDir>/presentation/$1',
-    '^@core/(.*)$': '<rootDir>/core/$1',
-    '^@config/(.*)$': '<rootDir>/config/$1'
+  moduleNameMapper: {
+    '^@domain/(.*)$': '<rootDir>/src/domain/$1',
+    '^@application/(.*)$': '<rootDir>/src/application/$1',
+    '^@infrastructure/(.*)$': '<rootDir>/src/infrastructure/$1',
+    '^@presentation/(.*)$': '<rootDir>/src/presentation/$1',
+    '^@core/(.*)$': '<rootDir>/src/core/$1',
+    '^@config/(.*)$': '<rootDir>/src/config/$1'
   },
   collectCoverage: true,
   collectCoverageFrom: [
-    '**/*.ts',
-    '!**/*.d.ts',
+    'src/**/*.ts',
+    '!src/**/*.d.ts',
     '!**/*.test.ts',
     '!**/*.spec.ts',
     '!**/node_modules/**',
@@ -38,7 +37,7 @@ module.exports = {
       statements: 80
     }
   },
-  setupFilesAfterEnv: ['<rootDir>/../tests/setup.ts'],
+  setupFiles: ['reflect-metadata'],
   testTimeout: 10000,
   testPathIgnorePatterns: [
     '/node_modules/',
@@ -0,0 +1,19 @@
+import { ICommand } from '@application/tasks';
+import { GenerationStatus, ImageMetadata, ProcessedImage } from '@domain/entities/TaskEntity';
+
+/**
+ * Comando para actualizar el estado de una generación de procesamiento
+ * @class UpdateTaskGenerationCommand
+ */
+export class UpdateTaskGenerationCommand implements ICommand {
+  constructor(
+    public readonly taskId: string,
+    public readonly generation: number,
+    public readonly status: GenerationStatus,
+    public readonly data?: {
+      images?: ProcessedImage[];
+      sourceMetadata?: ImageMetadata;
+      error?: string;
+    }
+  ) {}
+}
@@ -1,3 +1,4 @@
 export { CreateTaskCommand } from './CreateTaskCommand';
 export { ProcessImageCommand } from './ProcessImageCommand';
 export { UpdateTaskStatusCommand } from './UpdateTaskStatusCommand';
+export { UpdateTaskGenerationCommand } from './UpdateTaskGenerationCommand';
@@ -63,7 +63,7 @@ export class GetTaskQueryHandler implements IQueryHandler<GetTaskQuery, TaskResp
   private mapToDto(task: any): TaskResponseDto {
     return {
       taskId: task._id!,
-      status: task.status as 'pending' | 'processing' | 'completed' | 'failed',
+      status: task.status as 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled',
       price: task.price,
       ...(task.status === TaskStatus.COMPLETED &&
         task.images?.length > 0 && { images: task.images }),
@@ -32,19 +32,16 @@ export class ListTasksQueryHandler implements IQueryHandler<ListTasksQuery, List
    */
   async execute(query: ListTasksQuery): Promise<ListTasksResult> {
     const skip = query.getSkip();
-    const filter: Partial<TaskEntity> = {};
+    const filter = query.getFilter();
 
-    if (query.status) {
-      filter.status = query.status;
-    }
-
-    const listKey = this.generateCacheKey('list', { filter, skip, limit: query.limit });
+    const { sort } = query;
+    const listKey = this.generateCacheKey('list', { filter, sort, skip, limit: query.limit });
     const countKey = this.generateCacheKey('count', filter);
 
     const [tasks, total] = await Promise.all([
       this.cacheService.getOrSet(
         listKey,
-        () => this.repository.find(filter, skip, query.limit),
+        () => this.repository.find(filter, skip, query.limit, sort),
         this.LIST_TTL
       ),
       this.cacheService.getOrSet(countKey, () => this.repository.count(filter), this.COUNT_TTL),
@@ -54,7 +51,8 @@ export class ListTasksQueryHandler implements IQueryHandler<ListTasksQuery, List
       page: query.page,
       limit: query.limit,
       total,
-      status: query.status,
+      ...filter,
+      sort,
     });
 
     return {
@@ -94,7 +92,7 @@ export class ListTasksQueryHandler implements IQueryHandler<ListTasksQuery, List
   private mapToDto(task: TaskEntity): any {
     return {
       taskId: task._id!,
-      status: task.status as 'pending' | 'processing' | 'completed' | 'failed',
+      status: task.status as 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled',
       price: task.price,
       ...(task.images?.length > 0 && { images: task.images }),
       ...(task.error && { error: task.error }),
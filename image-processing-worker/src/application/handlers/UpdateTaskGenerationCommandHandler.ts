@@ -0,0 +1,89 @@
+/**
+ * Handler para comando UpdateTaskGeneration
+ * @class UpdateTaskGenerationCommandHandler
+ */
+import { ICommandHandler } from '@application/tasks';
+import { UpdateTaskGenerationCommand } from '@application/commands';
+import { ITaskRepository } from '@application/repositories';
+import { CacheService } from '@application/services/CacheService';
+import { TaskEntity, TaskGeneration } from '@domain/entities';
+import { NotFoundError } from '@core/errors';
+import { logger } from '@core/helpers/logger';
+
+export class UpdateTaskGenerationCommandHandler
+  implements ICommandHandler<UpdateTaskGenerationCommand, void>
+{
+  /**
+   * Constructor del handler
+   * @param {ITaskRepository} repository - Repositorio de tareas
+   * @param {CacheService} cacheService - Servicio de caché
+   */
+  constructor(
+    private readonly repository: ITaskRepository,
+    private readonly cacheService: CacheService
+  ) {}
+
+  /**
+   * Ejecuta el comando. Al completarse la generación, sus imágenes y opciones sustituyen a las de
+   * la tarea en la misma escritura que la marca como completada, y las variantes dejan de constar
+   * como caducadas por la política de retención
+   * @param {UpdateTaskGenerationCommand} command - Comando con datos
+   * @returns {Promise<void>}
+   */
+  async execute(command: UpdateTaskGenerationCommand): Promise<void> {
+    const task = await this.repository.findById(command.taskId);
+    const generation = task?.generations?.find(({ number }) => number === command.generation);
+
+    if (!task || !generation) {
+      throw new NotFoundError(
+        `Generación ${command.generation} de la tarea ${command.taskId} no encontrada`
+      );
+    }
+
+    const fields: Partial<TaskGeneration> = { status: command.status };
+    let swap: Partial<TaskEntity> | undefined;
+
+    if (command.data?.error) {
+      fields.error = command.data.error;
+    }
+
+    if (command.status === 'completed') {
+      fields.images = command.data?.images ?? [];
+      fields.completedAt = new Date();
+      swap = {
+        images: fields.images,
+        generation: generation.number,
+        ...(command.data?.sourceMetadata && { sourceMetadata: command.data.sourceMetadata }),
+        ...(generation.variants?.length && { variants: generation.variants }),
+        ...(generation.overlay && { overlay: generation.overlay }),
+        ...(generation.metadataPolicy && { metadataPolicy: generation.metadataPolicy }),
+        ...(task.expiredAt?.variants && { expiredAt: { original: task.expiredAt.original } }),
+      };
+    }
+
+    await this.repository.updateGeneration(command.taskId, command.generation, fields, swap);
+
+    await this.invalidateTaskCache(command.taskId);
+
+    logger.info('Generación de tarea actualizada', {
+      taskId: command.taskId,
+      generation: command.generation,
+      previousStatus: generation.status,
+      newStatus: command.status,
+    });
+  }
+
+  /**
+   * Invalida caché relacionado con la tarea
+   * @private
+   * @param {string} taskId - ID de la tarea
+   * @returns {Promise<void>}
+   */
+  private async invalidateTaskCache(taskId: string): Promise<void> {
+    await Promise.all([
+      this.cacheService.invalidatePattern(`task:${taskId}`),
+      this.cacheService.invalidatePattern('tasks:list:*'),
+      this.cacheService.invalidatePattern('tasks:count:*'),
+    ]);
+  }
+}
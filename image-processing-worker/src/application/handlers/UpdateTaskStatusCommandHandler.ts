@@ -6,27 +6,37 @@ import { ICommandHandler } from '@application/tasks';
 import { UpdateTaskStatusCommand } from '@application/commands';
 import { ITaskRepository } from '@application/repositories';
 import { CacheService } from '@application/services/CacheService';
-import { TaskStatusTransition } from '@domain/entities';
-import { NotFoundError } from '@core/errors';
+import { UsageLedgerService } from '@application/services/UsageLedgerService';
+import { TaskEntity, TaskStatus, TaskStatusTransition, recordStatusChange } from '@domain/entities';
+import { BusinessError, NotFoundError } from '@core/errors';
 import { logger } from '@core/helpers/logger';
 
 export class UpdateTaskStatusCommandHandler
   implements ICommandHandler<UpdateTaskStatusCommand, void>
 {
+  private static readonly DEFAULT_ACTOR = 'system';
+
   /**
    * Constructor del handler
    * @param {ITaskRepository} repository - Repositorio de tareas
    * @param {CacheService} cacheService - Servicio de caché
+   * @param {UsageLedgerService} [usageLedgerService] - Registro de consumo de las tareas completadas
    */
   constructor(
     private readonly repository: ITaskRepository,
-    private readonly cacheService: CacheService
+    private readonly cacheService: CacheService,
+    private readonly usageLedgerService?: UsageLedgerService
   ) {}
 
   /**
-   * Ejecuta el comando de actualización de estado
+   * Ejecuta el comando de actualización de estado y registra el cambio en el historial. El cargo de
+   * una tarea se anota antes de guardarla como completada, de modo que si no puede anotarse la
+   * tarea no se completa; si una tarea con cargo termina fallida o la API la cancela antes de
+   * guardarla como completada, se abona
    * @param {UpdateTaskStatusCommand} command - Comando con datos
    * @returns {Promise<void>}
+   * @throws {Error} Si el cargo de una tarea completada no puede anotarse
+   * @throws {BusinessError} Si otro proceso cambia el estado de la tarea antes de guardarlo
    */
   async execute(command: UpdateTaskStatusCommand): Promise<void> {
     const task = await this.repository.findById(command.taskId);
@@ -37,9 +47,39 @@ export class UpdateTaskStatusCommandHandler
 
     TaskStatusTransition.validateTransition(task.status, command.status);
 
-    await this.repository.updateStatus(command.taskId, command.status, command.data);
+    const error = command.data?.error;
+    const change = recordStatusChange(
+      task,
+      command.status,
+      command.actor ?? UpdateTaskStatusCommandHandler.DEFAULT_ACTOR,
+      typeof error === 'string' ? error : undefined
+    );
+
+    if (command.status === TaskStatus.COMPLETED) {
+      await this.usageLedgerService?.recordCharge(task, change.attempt);
+    }
+
+    const updated = await this.repository.updateStatus(
+      command.taskId,
+      command.status,
+      command.data,
+      change
+    );
+    if (!updated) {
+      if (command.status === TaskStatus.COMPLETED) {
+        await this.refundSupersededCharge(command.taskId, change.attempt);
+      }
+      throw new BusinessError(
+        `La tarea ${command.taskId} ya no está en estado ${task.status}`,
+        'TASK_STATUS_CHANGED',
+        409
+      );
+    }
 
     await this.invalidateTaskCache(command.taskId);
+    if (command.status === TaskStatus.FAILED) {
+      await this.refundUsage(task, change.attempt);
+    }
 
     logger.info('Estado de tarea actualizado', {
       taskId: command.taskId,
@@ -48,6 +88,45 @@ export class UpdateTaskStatusCommandHandler
     });
   }
 
+  /**
+   * Abona el cargo del intento fallido, que solo existe si se anotó pero la tarea no llegó a
+   * guardarse como completada. El estado ya está guardado, por lo que un fallo del registro se
+   * informa con el importe a compensar sin deshacerlo
+   * @private
+   * @param {TaskEntity} task - Tarea antes del cambio de estado
+   * @param {number} attempt - Intento que falla
+   * @returns {Promise<void>}
+   */
+  private async refundUsage(task: TaskEntity, attempt: number): Promise<void> {
+    try {
+      await this.usageLedgerService?.refundCharge(task, attempt);
+    } catch (error) {
+      logger.error('No se pudo abonar el cargo de la tarea fallida', {
+        taskId: task._id,
+        attempt,
+        clientId: task.clientId,
+        price: task.price,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Abona el cargo de un intento que no pudo guardarse como completado porque otro proceso cambió
+   * antes el estado de la tarea, normalmente una cancelación desde la API. Si la tarea ya está
+   * completada, el cargo del intento le corresponde y se conserva
+   * @private
+   * @param {string} taskId - ID de la tarea
+   * @param {number} attempt - Intento que no llegó a completarse
+   * @returns {Promise<void>}
+   */
+  private async refundSupersededCharge(taskId: string, attempt: number): Promise<void> {
+    const current = await this.repository.findById(taskId);
+    if (current && current.status !== TaskStatus.COMPLETED) {
+      await this.refundUsage(current, attempt);
+    }
+  }
+
   /**
    * Invalida caché relacionado con la tarea
    * @private
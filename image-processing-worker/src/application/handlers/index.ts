@@ -1,4 +1,5 @@
 export { CreateTaskCommandHandler } from './CreateTaskCommandHandler';
 export { UpdateTaskStatusCommandHandler } from './UpdateTaskStatusCommandHandler';
+export { UpdateTaskGenerationCommandHandler } from './UpdateTaskGenerationCommandHandler';
 export { GetTaskQueryHandler } from './GetTaskQueryHandler';
 export { ListTasksQueryHandler } from './ListTasksQueryHandler';
@@ -0,0 +1,14 @@
+import { UsageLedgerEntity, UsageEntryType } from '@domain/entities/UsageLedgerEntity';
+
+/**
+ * Interfaz del registro de consumo. Solo admite inserciones
+ * @interface IUsageLedgerRepository
+ */
+export interface IUsageLedgerRepository {
+  append(entry: UsageLedgerEntity): Promise<boolean>;
+  findEntry(
+    taskId: string,
+    attempt: number,
+    type: UsageEntryType
+  ): Promise<UsageLedgerEntity | null>;
+}
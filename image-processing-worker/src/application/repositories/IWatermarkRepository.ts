@@ -0,0 +1,10 @@
+import { WatermarkEntity } from '@domain/entities/WatermarkEntity';
+
+/**
+ * Interfaz del repositorio de marcas de agua
+ * @interface IWatermarkRepository
+ */
+export interface IWatermarkRepository {
+  create(watermark: Partial<WatermarkEntity>): Promise<WatermarkEntity>;
+  findById(id: string): Promise<WatermarkEntity | null>;
+}
@@ -1,2 +1,5 @@
 export type { ITaskRepository } from './ITaskRepository';
 export type { IImageRepository } from './IImageRepository';
+export type { IWatermarkRepository } from './IWatermarkRepository';
+export type { IBatchRepository } from './IBatchRepository';
+export type { IUsageLedgerRepository } from './IUsageLedgerRepository';
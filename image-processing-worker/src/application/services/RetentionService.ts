@@ -0,0 +1,340 @@
+import { ITaskRepository } from '@application/repositories/ITaskRepository';
+import { IImageRepository } from '@application/repositories/IImageRepository';
+import { CacheService } from '@application/services/CacheService';
+import { TaskEntity, TaskStatus, RetentionTarget } from '@domain/entities';
+import { logger } from '@core/helpers/logger';
+import { getRootPath, getTransformCachePath } from '@core/helpers/fileDirectory';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Política de retención: caduca los archivos indicados de las tareas en un estado que no se han
+ * modificado en el número de días configurado
+ * @interface RetentionPolicy
+ */
+export interface RetentionPolicy {
+  name: 'originals' | 'variants' | 'failed';
+  status: TaskStatus;
+  days: number;
+  targets: RetentionTarget[];
+}
+
+/**
+ * Configuración de los días de retención. Un valor de 0 desactiva la política
+ * @interface RetentionSettings
+ */
+export interface RetentionSettings {
+  originalsDays: number;
+  variantsDays: number;
+  failedDays: number;
+}
+
+/**
+ * Tarea caducada en una pasada de retención
+ * @interface RetentionReportItem
+ */
+export interface RetentionReportItem {
+  taskId: string;
+  policy: RetentionPolicy['name'];
+  targets: RetentionTarget[];
+  files: number;
+  bytes: number;
+}
+
+/**
+ * Informe de una pasada de retención
+ * @interface RetentionReport
+ */
+export interface RetentionReport {
+  dryRun: boolean;
+  startedAt: Date;
+  completedAt: Date;
+  policies: Array<Pick<RetentionPolicy, 'name' | 'days'> & { cutoff: Date; tasks: number }>;
+  tasks: number;
+  files: number;
+  bytes: number;
+  failures: number;
+  items: RetentionReportItem[];
+  truncated: boolean;
+}
+
+/**
+ * @class RetentionService
+ * @description Aplica las políticas de retención: elimina el original de las tareas completadas,
+ * sus variantes o todos los archivos de las fallidas cuando ha pasado el plazo configurado, y
+ * marca la tarea con la fecha de caducidad de cada tipo de archivo. El documento de la tarea se
+ * conserva. En modo simulación solo se calcula el informe.
+ */
+export class RetentionService {
+  private static readonly STORAGE_BASE_PATH = path.join(getRootPath(), 'storage', 'images');
+  private static readonly MAX_REPORT_ITEMS = 100;
+  private static readonly DAY_MS = 24 * 3600 * 1000;
+
+  /**
+   * @constructor
+   * @param {ITaskRepository} repository - Repositorio de tareas
+   * @param {IImageRepository} imageRepository - Repositorio de variantes
+   * @param {CacheService} cacheService - Caché de consultas de tareas
+   * @param {RetentionSettings} settings - Días de retención de cada política
+   */
+  constructor(
+    private readonly repository: ITaskRepository,
+    private readonly imageRepository: IImageRepository,
+    private readonly cacheService: CacheService,
+    private readonly settings: RetentionSettings
+  ) {}
+
+  /**
+   * @method getPolicies
+   * @description Devuelve las políticas activas.
+   * @returns {RetentionPolicy[]} Políticas con un plazo mayor que cero
+   */
+  getPolicies(): RetentionPolicy[] {
+    const policies: RetentionPolicy[] = [
+      {
+        name: 'originals',
+        status: TaskStatus.COMPLETED,
+        days: this.settings.originalsDays,
+        targets: ['original'],
+      },
+      {
+        name: 'variants',
+        status: TaskStatus.COMPLETED,
+        days: this.settings.variantsDays,
+        targets: ['variants'],
+      },
+      {
+        name: 'failed',
+        status: TaskStatus.FAILED,
+        days: this.settings.failedDays,
+        targets: ['original', 'variants'],
+      },
+    ];
+
+    return policies.filter(policy => policy.days > 0);
+  }
+
+  /**
+   * @method run
+   * @description Ejecuta una pasada de todas las políticas activas. Un fallo en una tarea se
+   * registra y la tarea se reintenta en la siguiente pasada.
+   * @param {boolean} dryRun - Si es true no se elimina ni se marca nada
+   * @param {Date} [now] - Momento de referencia
+   * @returns {Promise<RetentionReport>} Informe de la pasada
+   */
+  async run(dryRun: boolean, now: Date = new Date()): Promise<RetentionReport> {
+    const report: RetentionReport = {
+      dryRun,
+      startedAt: new Date(),
+      completedAt: new Date(),
+      policies: [],
+      tasks: 0,
+      files: 0,
+      bytes: 0,
+      failures: 0,
+      items: [],
+      truncated: false,
+    };
+
+    for (const policy of this.getPolicies()) {
+      const cutoff = new Date(now.getTime() - policy.days * RetentionService.DAY_MS);
+      const summary = { name: policy.name, days: policy.days, cutoff, tasks: 0 };
+      report.policies.push(summary);
+
+      const candidates = this.repository.streamRetentionCandidates(
+        policy.status,
+        cutoff,
+        policy.targets[0]
+      );
+
+      for await (const task of candidates) {
+        const taskId = String(task._id);
+        const targets = policy.targets.filter(target => !task.expiredAt?.[target]);
+
+        try {
+          const { files, bytes } = await this.expireTask(task, targets, dryRun, now);
+          summary.tasks++;
+          report.tasks++;
+          report.files += files;
+          report.bytes += bytes;
+          this.addItem(report, { taskId, policy: policy.name, targets, files, bytes });
+        } catch (error) {
+          report.failures++;
+          logger.error('Error aplicando la retención a la tarea', {
+            taskId,
+            policy: policy.name,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+    }
+
+    report.completedAt = new Date();
+    logger.info('Pasada de retención completada', {
+      dryRun,
+      policies: report.policies.map(({ name, tasks }) => ({ name, tasks })),
+      tasks: report.tasks,
+      files: report.files,
+      bytes: report.bytes,
+      failures: report.failures,
+    });
+
+    return report;
+  }
+
+  /**
+   * @private
+   * @method expireTask
+   * @description Elimina los archivos indicados de una tarea y la marca como caducada.
+   * @param {TaskEntity} task - Tarea a caducar
+   * @param {RetentionTarget[]} targets - Archivos a eliminar
+   * @param {boolean} dryRun - Si es true solo se miden los archivos
+   * @param {Date} now - Momento de la caducidad
+   * @returns {Promise<{ files: number; bytes: number }>} Archivos y bytes liberados
+   */
+  private async expireTask(
+    task: TaskEntity,
+    targets: RetentionTarget[],
+    dryRun: boolean,
+    now: Date
+  ): Promise<{ files: number; bytes: number }> {
+    const taskId = String(task._id);
+    const paths = [
+      ...(targets.includes('original') ? this.getOriginalPaths(task) : []),
+      ...(targets.includes('variants') ? await this.getVariantPaths(task) : []),
+    ];
+
+    let files = 0;
+    let bytes = 0;
+    for (const target of paths) {
+      const usage = await this.measure(target);
+      files += usage.files;
+      bytes += usage.bytes;
+    }
+
+    if (dryRun) {
+      return { files, bytes };
+    }
+
+    await Promise.all(paths.map(target => fs.rm(target, { recursive: true, force: true })));
+    if (targets.includes('variants')) {
+      await this.imageRepository.deleteByTaskId(taskId);
+    }
+    await this.repository.markExpired(taskId, targets, now);
+    await this.invalidateCache(taskId);
+
+    return { files, bytes };
+  }
+
+  /**
+   * @private
+   * @method getOriginalPaths
+   * @description Rutas del original de la tarea: el archivo subido, su directorio de
+   * almacenamiento y los derivados de la caché de transformaciones, que se generan a partir de él.
+   * @param {TaskEntity} task - Tarea
+   * @returns {string[]} Rutas a eliminar
+   */
+  private getOriginalPaths(task: TaskEntity): string[] {
+    const taskId = String(task._id);
+    return [
+      ...(task.originalPath ? [task.originalPath] : []),
+      path.join(RetentionService.STORAGE_BASE_PATH, taskId),
+      path.join(getTransformCachePath(), taskId),
+    ];
+  }
+
+  /**
+   * @private
+   * @method getVariantPaths
+   * @description Rutas de las variantes de la tarea, incluidas las de generaciones anteriores.
+   * Como se nombran por el MD5 de su contenido, se excluyen las que también pertenecen a otra tarea,
+   * ya sea en la colección de imágenes o en las variantes y generaciones guardadas en la tarea.
+   * @param {TaskEntity} task - Tarea
+   * @returns {Promise<string[]>} Rutas a eliminar
+   */
+  private async getVariantPaths(task: TaskEntity): Promise<string[]> {
+    const taskId = String(task._id);
+    const images = await this.imageRepository.findByTaskId(taskId);
+    const paths = new Set([
+      ...(task.images ?? []).map(image => image.path),
+      ...(task.generations ?? []).flatMap(({ images }) => (images ?? []).map(image => image.path)),
+      ...images.map(image => image.path),
+    ]);
+
+    for (const file of [...paths]) {
+      const duplicates = await this.imageRepository.findByMd5(path.parse(file).name);
+      const shared =
+        duplicates.some(other => other.taskId !== taskId && other.path === file) ||
+        (await this.repository.isVariantReferenced(file, taskId));
+      if (shared) {
+        paths.delete(file);
+      }
+    }
+
+    return [...paths];
+  }
+
+  /**
+   * @private
+   * @method measure
+   * @description Cuenta los archivos y bytes de una ruta, recorriendo los directorios. Las rutas
+   * que no existen no cuentan.
+   * @param {string} target - Archivo o directorio
+   * @returns {Promise<{ files: number; bytes: number }>} Archivos y bytes
+   */
+  private async measure(target: string): Promise<{ files: number; bytes: number }> {
+    const stats = await fs.stat(target).catch(() => null);
+    if (!stats) {
+      return { files: 0, bytes: 0 };
+    }
+    if (!stats.isDirectory()) {
+      return { files: 1, bytes: stats.size };
+    }
+
+    const usage = { files: 0, bytes: 0 };
+    for (const entry of await fs.readdir(target)) {
+      const { files, bytes } = await this.measure(path.join(target, entry));
+      usage.files += files;
+      usage.bytes += bytes;
+    }
+    return usage;
+  }
+
+  /**
+   * @private
+   * @method addItem
+   * @description Añade una tarea al informe sin superar el máximo de elementos.
+   * @param {RetentionReport} report - Informe
+   * @param {RetentionReportItem} item - Tarea caducada
+   * @returns {void}
+   */
+  private addItem(report: RetentionReport, item: RetentionReportItem): void {
+    if (report.items.length < RetentionService.MAX_REPORT_ITEMS) {
+      report.items.push(item);
+    } else {
+      report.truncated = true;
+    }
+  }
+
+  /**
+   * @private
+   * @method invalidateCache
+   * @description Invalida las entradas de Redis de la tarea y de los listados. Un fallo de Redis no
+   * impide la retención porque las entradas caducan solas.
+   * @param {string} taskId - ID de la tarea
+   * @returns {Promise<void>}
+   */
+  private async invalidateCache(taskId: string): Promise<void> {
+    try {
+      await Promise.all([
+        this.cacheService.invalidatePattern(`task:${taskId}`),
+        this.cacheService.invalidatePattern('tasks:list:*'),
+      ]);
+    } catch (error) {
+      logger.warn('No se pudo invalidar la caché de la tarea caducada', {
+        taskId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
@@ -0,0 +1,171 @@
+import { IUsageLedgerRepository } from '@application/repositories/IUsageLedgerRepository';
+import { CacheService } from '@application/services/CacheService';
+import { TaskEntity, UsageEntryType, DEFAULT_CLIENT_ID, getBillingPeriod } from '@domain/entities';
+import { logger } from '@core/helpers/logger';
+
+/**
+ * Identifica un apunte: cada intento de una tarea tiene como máximo uno de cada tipo
+ * @interface UsageEntryKey
+ */
+interface UsageEntryKey {
+  taskId: string;
+  attempt: number;
+  type: UsageEntryType;
+}
+
+/**
+ * @class UsageLedgerService
+ * @description Anota en el registro de consumo el cargo de cada tarea antes de darla por completada
+ * y, si después la tarea termina fallida, el abono de ese cargo. Los apuntes se anotan por intento
+ * de la tarea y cada intento tiene como máximo uno de cada tipo: los reintentos de la escritura y de
+ * la cola no cobran dos veces, y una tarea abonada que se reintenta desde la API se cobra de nuevo
+ * en su siguiente intento.
+ */
+export class UsageLedgerService {
+  private static readonly MAX_ATTEMPTS = 3;
+  private static readonly RETRY_DELAY_MS = 200;
+
+  /**
+   * @constructor
+   * @param {IUsageLedgerRepository} repository - Registro de consumo
+   * @param {CacheService} cacheService - Caché de los extractos mensuales
+   */
+  constructor(
+    private readonly repository: IUsageLedgerRepository,
+    private readonly cacheService: CacheService
+  ) {}
+
+  /**
+   * @method recordCharge
+   * @description Anota el cargo del precio de la tarea. Se llama antes de guardar el estado
+   * COMPLETED, de modo que una tarea nunca queda completada sin su cargo.
+   * @param {TaskEntity} task - Tarea que va a completarse
+   * @param {number} attempt - Intento de la tarea que se completa
+   * @param {Date} [at] - Momento del apunte
+   * @returns {Promise<void>}
+   * @throws {Error} Si el apunte no puede guardarse tras los reintentos
+   */
+  async recordCharge(task: TaskEntity, attempt: number, at: Date = new Date()): Promise<void> {
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    const taskId = task._id!.toString();
+    await this.append(
+      { taskId, attempt, type: 'charge' },
+      task.price,
+      task.clientId,
+      task.pricing?.version,
+      at
+    );
+  }
+
+  /**
+   * @method refundCharge
+   * @description Abona el cargo del intento de una tarea que termina fallida. Solo hay cargo si el
+   * intento llegó a anotarlo y la tarea no pudo guardarse como completada, por lo que el abono lo
+   * compensa.
+   * @param {TaskEntity} task - Tarea fallida
+   * @param {number} attempt - Intento de la tarea que falla
+   * @param {Date} [at] - Momento del apunte
+   * @returns {Promise<boolean>} true si el intento tenía un cargo que abonar
+   * @throws {Error} Si el apunte no puede guardarse tras los reintentos
+   */
+  async refundCharge(task: TaskEntity, attempt: number, at: Date = new Date()): Promise<boolean> {
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    const taskId = task._id!.toString();
+    const charge = await this.withRetries(() =>
+      this.repository.findEntry(taskId, attempt, 'charge')
+    );
+    if (!charge) {
+      return false;
+    }
+
+    await this.append(
+      { taskId, attempt, type: 'refund' },
+      -charge.amount,
+      charge.clientId,
+      charge.priceTable,
+      at
+    );
+    return true;
+  }
+
+  /**
+   * @private
+   * @method append
+   * @description Anota un apunte, reintentando los fallos transitorios, e invalida el extracto en
+   * caché de su cliente y periodo. Un fallo de Redis no invalida el apunte porque el extracto
+   * caduca solo.
+   * @param {UsageEntryKey} key - Tarea, intento y tipo del apunte
+   * @param {number} amount - Importe; negativo en los abonos
+   * @param {string | undefined} clientId - Cliente de la tarea
+   * @param {string | undefined} priceTable - Versión de la tarifa del precio
+   * @param {Date} at - Momento del apunte
+   * @returns {Promise<void>}
+   */
+  private async append(
+    key: UsageEntryKey,
+    amount: number,
+    clientId: string | undefined,
+    priceTable: string | undefined,
+    at: Date
+  ): Promise<void> {
+    const client = clientId ?? DEFAULT_CLIENT_ID;
+    const period = getBillingPeriod(at);
+    const appended = await this.withRetries(() =>
+      this.repository.append({
+        ...key,
+        clientId: client,
+        amount,
+        ...(priceTable && { priceTable }),
+        period,
+        occurredAt: at,
+      })
+    );
+
+    if (!appended) {
+      logger.info('Apunte de consumo ya registrado', key);
+      return;
+    }
+
+    logger.info('Apunte de consumo registrado', { ...key, amount, clientId: client, period });
+
+    try {
+      await this.cacheService.invalidatePattern(`billing:statement:${client}:${period}`);
+    } catch (error) {
+      logger.warn('No se pudo invalidar el extracto en caché', {
+        clientId: client,
+        period,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * @private
+   * @method withRetries
+   * @description Ejecuta una operación del registro reintentándola con espera exponencial. Es seguro
+   * porque las escrituras son idempotentes por tarea, intento y tipo.
+   * @template T
+   * @param {() => Promise<T>} operation - Operación a ejecutar
+   * @returns {Promise<T>} Resultado de la operación
+   * @throws {Error} El último error si se agotan los intentos
+   */
+  private async withRetries<T>(operation: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        if (attempt >= UsageLedgerService.MAX_ATTEMPTS) {
+          throw error;
+        }
+
+        const delay = UsageLedgerService.RETRY_DELAY_MS * Math.pow(2, attempt - 1);
+        logger.warn('Reintentando escritura en el registro de consumo', {
+          attempt,
+          delay,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+}
@@ -1,3 +1,5 @@
 export { CacheService } from './CacheService';
 export { IdempotencyService } from './IdempotencyService';
 export { ImageDownloadService } from './ImageDownloadService';
+export { RetentionService } from './RetentionService';
+export { UsageLedgerService } from './UsageLedgerService';
@@ -2,11 +2,13 @@ import { CommandBus, QueryBus, Mediator } from './index';
 import {
   CreateTaskCommandHandler,
   UpdateTaskStatusCommandHandler,
+  UpdateTaskGenerationCommandHandler,
   GetTaskQueryHandler,
   ListTasksQueryHandler,
 } from '@application/handlers';
 import { ITaskRepository } from '@application/repositories';
 import { CacheService } from '@application/services/CacheService';
+import { UsageLedgerService } from '@application/services/UsageLedgerService';
 import { TaskQueueProducer } from '@infrastructure/queues';
 
 /**
@@ -19,12 +21,14 @@ export class CQRSModule {
    * @param {ITaskRepository} taskRepository - Repositorio de tareas
    * @param {TaskQueueProducer} queueProducer - Productor de cola
    * @param {CacheService} cacheService - Servicio de caché
+   * @param {UsageLedgerService} [usageLedgerService] - Registro de consumo
    * @returns {Mediator} Mediator configurado
    */
   static configure(
     taskRepository: ITaskRepository,
     queueProducer: TaskQueueProducer,
-    cacheService: CacheService
+    cacheService: CacheService,
+    usageLedgerService?: UsageLedgerService
   ): Mediator {
     const commandBus = new CommandBus();
     const queryBus = new QueryBus();
@@ -36,7 +40,12 @@ export class CQRSModule {
 
     commandBus.registerByName(
       'UpdateTaskStatusCommand',
-      new UpdateTaskStatusCommandHandler(taskRepository, cacheService)
+      new UpdateTaskStatusCommandHandler(taskRepository, cacheService, usageLedgerService)
+    );
+
+    commandBus.registerByName(
+      'UpdateTaskGenerationCommand',
+      new UpdateTaskGenerationCommandHandler(taskRepository, cacheService)
     );
 
     queryBus.registerByName('GetTaskQuery', new GetTaskQueryHandler(taskRepository, cacheService));
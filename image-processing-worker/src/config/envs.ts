@@ -23,6 +23,12 @@ const envConfig = cleanEnv(process.env, {
   QUEUE_MAX_RETRIES: num({ default: 3 }),
   STORAGE_INPUT_PATH: str({ default: '/app/uploads' }),
   STORAGE_OUTPUT_PATH: str({ default: '/app/output' }),
+  RETENTION_ORIGINALS_DAYS: num({ default: 0, desc: 'Days to keep originals after completion' }),
+  RETENTION_VARIANTS_DAYS: num({ default: 0, desc: 'Days to keep variants after completion' }),
+  RETENTION_FAILED_DAYS: num({ default: 0, desc: 'Days to keep the files of failed tasks' }),
+  RETENTION_INTERVAL: num({ default: 3600 }),
+  RETENTION_DRY_RUN: bool({ default: false }),
+  RETENTION_QUEUE_NAME: str({ default: 'task-retention' }),
   API_KEY: str({ default: 'development-key' }),
   ENABLE_SWAGGER: bool({ default: true }),
   LOG_LEVEL: str({ choices: ['error', 'warn', 'info', 'debug'], default: 'info' }),
@@ -57,6 +63,14 @@ export const envs = {
     INPUT_PATH: envConfig.STORAGE_INPUT_PATH,
     OUTPUT_PATH: envConfig.STORAGE_OUTPUT_PATH,
   },
+  RETENTION: {
+    ORIGINALS_DAYS: envConfig.RETENTION_ORIGINALS_DAYS,
+    VARIANTS_DAYS: envConfig.RETENTION_VARIANTS_DAYS,
+    FAILED_DAYS: envConfig.RETENTION_FAILED_DAYS,
+    INTERVAL: envConfig.RETENTION_INTERVAL,
+    DRY_RUN: envConfig.RETENTION_DRY_RUN,
+    QUEUE_NAME: envConfig.RETENTION_QUEUE_NAME,
+  },
   API_KEY: envConfig.API_KEY,
   ENABLE_SWAGGER: envConfig.ENABLE_SWAGGER,
   LOG_LEVEL: envConfig.LOG_LEVEL,
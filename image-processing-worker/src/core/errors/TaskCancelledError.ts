@@ -0,0 +1,16 @@
+import { CustomError } from './CustomError';
+
+/**
+ * Error lanzado cuando una tarea se cancela mientras se está procesando
+ * @class TaskCancelledError
+ * @extends CustomError
+ */
+export class TaskCancelledError extends CustomError {
+  public readonly taskId?: string;
+
+  constructor(taskId?: string) {
+    super(taskId ? `Tarea ${taskId} cancelada` : 'Tarea cancelada', 409);
+    this.taskId = taskId;
+    this.name = 'TaskCancelledError';
+  }
+}
@@ -1,4 +1,5 @@
 export { BusinessError } from './BusinessError';
 export { NotFoundError } from './NotFoundError';
 export { CustomError } from './CustomError';
+export { TaskCancelledError } from './TaskCancelledError';
 export { ErrorChainFactory } from './ErrorChainFactory';
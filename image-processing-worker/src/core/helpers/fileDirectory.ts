@@ -28,6 +28,26 @@ export function getOutputStoragePath(): string {
   return process.env.STORAGE_OUTPUT_PATH ?? path.join(getRootPath(), 'output');
 }
 
+/**
+ * @function getWatermarkStoragePath
+ * @description Obtiene la ruta del directorio de almacenamiento de marcas de agua
+ * @returns {string} Ruta absoluta del directorio de marcas de agua
+ */
+export function getWatermarkStoragePath(): string {
+  return process.env.STORAGE_WATERMARK_PATH ?? path.join(getRootPath(), 'storage/watermarks');
+}
+
+/**
+ * @function getTransformCachePath
+ * @description Obtiene la ruta del directorio de caché de transformaciones bajo demanda
+ * @returns {string} Ruta absoluta del directorio de derivados en caché
+ */
+export function getTransformCachePath(): string {
+  return (
+    process.env.STORAGE_TRANSFORM_CACHE_PATH ?? path.join(getRootPath(), 'storage/cache/transforms')
+  );
+}
+
 /**
  * @function getTempPath
  * @description Obtiene la ruta del directorio temporal
@@ -90,6 +110,8 @@ export async function initializeStorageDirectories(): Promise<void> {
   const directories = [
     getInputStoragePath(),
     getOutputStoragePath(),
+    getWatermarkStoragePath(),
+    getTransformCachePath(),
     getTempPath(),
     path.join(getRootPath(), 'logs'),
   ];
@@ -161,6 +183,8 @@ export const paths = {
   storage: {
     input: getInputStoragePath(),
     output: getOutputStoragePath(),
+    watermarks: getWatermarkStoragePath(),
+    transforms: getTransformCachePath(),
   },
   temp: getTempPath(),
 };
@@ -0,0 +1,18 @@
+import type { TaskStatus } from '@domain/entities/TaskEntity';
+import type { BatchFailure } from '@domain/entities/BatchEntity';
+
+/**
+ * DTO de respuesta de lote con el resumen agregado de sus tareas
+ * @interface BatchResponseDto
+ */
+export interface BatchResponseDto {
+  batchId: string;
+  total: number;
+  counts: Record<TaskStatus, number>;
+  progress: number;
+  totalPrice: number;
+  taskIds: string[];
+  failures: BatchFailure[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
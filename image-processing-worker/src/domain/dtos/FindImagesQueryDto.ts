@@ -0,0 +1,7 @@
+import { IsNotEmpty, IsHash } from 'class-validator';
+
+export class FindImagesQueryDto {
+  @IsNotEmpty({ message: 'md5 es requerido' })
+  @IsHash('md5', { message: 'md5 debe ser un hash MD5 válido' })
+  md5!: string;
+}
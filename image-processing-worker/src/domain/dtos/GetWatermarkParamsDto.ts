@@ -0,0 +1,7 @@
+import { IsNotEmpty, IsMongoId } from 'class-validator';
+
+export class GetWatermarkParamsDto {
+  @IsNotEmpty({ message: 'watermarkId es requerido' })
+  @IsMongoId({ message: 'watermarkId debe ser un ObjectId válido' })
+  watermarkId!: string;
+}
@@ -0,0 +1,16 @@
+/**
+ * DTO de respuesta de imagen procesada
+ * @interface ImageResponseDto
+ */
+export interface ImageResponseDto {
+  imageId: string;
+  taskId: string;
+  resolution: string;
+  url: string;
+  md5: string;
+  size?: number;
+  format?: string;
+  width?: number;
+  height?: number;
+  createdAt?: Date;
+}
@@ -0,0 +1,21 @@
+import { IsIn, IsBoolean, IsOptional } from 'class-validator';
+import type { MetadataMode } from '@domain/entities/TaskEntity';
+
+/**
+ * Modos de tratamiento de metadatos admitidos
+ * @constant METADATA_MODES
+ */
+export const METADATA_MODES: MetadataMode[] = ['strip', 'strip-gps', 'preserve'];
+
+/**
+ * DTO para la política de metadatos de la tarea
+ * @class MetadataPolicyDto
+ */
+export class MetadataPolicyDto {
+  @IsIn(METADATA_MODES, { message: `mode debe ser uno de: ${METADATA_MODES.join(', ')}` })
+  mode!: MetadataMode;
+
+  @IsOptional()
+  @IsBoolean({ message: 'keepIcc debe ser booleano' })
+  keepIcc?: boolean;
+}
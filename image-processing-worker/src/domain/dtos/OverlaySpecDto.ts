@@ -0,0 +1,83 @@
+import {
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsString,
+  IsBoolean,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  Matches,
+  MaxLength,
+  Min,
+  Max,
+  ValidateIf,
+} from 'class-validator';
+import type { OverlayPosition, OverlaySpec } from '@domain/entities/TaskEntity';
+
+/**
+ * Posiciones admitidas para la superposición
+ * @constant OVERLAY_POSITIONS
+ */
+export const OVERLAY_POSITIONS: OverlayPosition[] = [
+  'centre',
+  'north',
+  'northeast',
+  'east',
+  'southeast',
+  'south',
+  'southwest',
+  'west',
+  'northwest',
+];
+
+/**
+ * DTO para la superposición de marca de agua o texto
+ * @class OverlaySpecDto
+ */
+export class OverlaySpecDto {
+  @IsIn(['image', 'text'], { message: 'type debe ser image o text' })
+  type!: OverlaySpec['type'];
+
+  @ValidateIf(o => o.type === 'image')
+  @IsMongoId({ message: 'watermarkId debe ser un ObjectId válido' })
+  watermarkId?: string;
+
+  @ValidateIf(o => o.type === 'text')
+  @IsString({ message: 'text debe ser un string' })
+  @IsNotEmpty({ message: 'text es requerido' })
+  @MaxLength(100, { message: 'text admite como máximo 100 caracteres' })
+  text?: string;
+
+  @IsOptional()
+  @Matches(/^#(?:[0-9a-fA-F]{3,4}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/, {
+    message: 'color debe ser un color hexadecimal (#rgb, #rgba, #rrggbb o #rrggbbaa)',
+  })
+  color?: string;
+
+  @IsOptional()
+  @IsIn(OVERLAY_POSITIONS, { message: `position debe ser uno de: ${OVERLAY_POSITIONS.join(', ')}` })
+  position?: OverlayPosition;
+
+  @IsOptional()
+  @IsInt({ message: 'margin debe ser un entero' })
+  @Min(0, { message: 'margin debe ser >= 0' })
+  @Max(512, { message: 'margin debe ser <= 512' })
+  margin?: number;
+
+  @IsOptional()
+  @IsNumber({}, { message: 'opacity debe ser un número' })
+  @Min(0.05, { message: 'opacity debe ser >= 0.05' })
+  @Max(1, { message: 'opacity debe ser <= 1' })
+  opacity?: number;
+
+  @IsOptional()
+  @IsBoolean({ message: 'tile debe ser booleano' })
+  tile?: boolean;
+
+  @IsOptional()
+  @IsNumber({}, { message: 'scale debe ser un número' })
+  @Min(0.01, { message: 'scale debe ser >= 0.01' })
+  @Max(1, { message: 'scale debe ser <= 1' })
+  scale?: number;
+}
@@ -1,12 +1,19 @@
-import { IsOptional, IsInt, Min, Max, IsIn } from 'class-validator';
-import { Type } from 'class-transformer';
-import { TaskStatus } from '@domain/entities/TaskEntity';
+import { IsOptional, IsInt, Min, Max, IsIn, IsString, MaxLength, IsBoolean } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { TASK_SORT_FIELDS } from '@domain/entities/TaskEntity';
+import { TaskFilterDto } from './TaskFilterDto';
+
+/**
+ * Valores admitidos en el parámetro `sort`: cada campo, ascendente o precedido de `-`
+ * @constant TASK_SORT_VALUES
+ */
+const TASK_SORT_VALUES = TASK_SORT_FIELDS.flatMap(field => [field, `-${field}`]);
 
 /**
  * DTO para paginación y filtros
  * @class PaginationDto
  */
-export class PaginationDto {
+export class PaginationDto extends TaskFilterDto {
   @IsOptional()
   @Type(() => Number)
   @IsInt({ message: 'page debe ser un entero' })
@@ -21,6 +28,16 @@ export class PaginationDto {
   limit?: number = 10;
 
   @IsOptional()
-  @IsIn(['pending', 'processing', 'completed', 'failed'])
-  status?: TaskStatus;
+  @IsString({ message: 'cursor debe ser una cadena' })
+  @MaxLength(256, { message: 'cursor admite como máximo 256 caracteres' })
+  cursor?: string;
+
+  @IsOptional()
+  @Transform(({ value }) => (value === 'true' ? true : value === 'false' ? false : value))
+  @IsBoolean({ message: 'includeTotal debe ser true o false' })
+  includeTotal?: boolean;
+
+  @IsOptional()
+  @IsIn(TASK_SORT_VALUES, { message: `sort debe ser uno de: ${TASK_SORT_VALUES.join(', ')}` })
+  sort?: string;
 }
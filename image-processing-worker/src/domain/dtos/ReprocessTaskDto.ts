@@ -0,0 +1,30 @@
+import { IsOptional, IsArray, ArrayMinSize, ArrayMaxSize, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { VariantSpecDto } from './VariantSpecDto';
+import { OverlaySpecDto } from './OverlaySpecDto';
+import { MetadataPolicyDto } from './MetadataPolicyDto';
+
+/**
+ * DTO para reprocesar una tarea completada. Las opciones omitidas conservan el valor actual
+ * de la tarea
+ * @class ReprocessTaskDto
+ */
+export class ReprocessTaskDto {
+  @IsOptional()
+  @IsArray({ message: 'variants debe ser un array' })
+  @ArrayMinSize(1, { message: 'variants debe contener al menos 1 variante' })
+  @ArrayMaxSize(10, { message: 'variants admite como máximo 10 variantes' })
+  @ValidateNested({ each: true })
+  @Type(() => VariantSpecDto)
+  variants?: VariantSpecDto[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => OverlaySpecDto)
+  overlay?: OverlaySpecDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => MetadataPolicyDto)
+  metadataPolicy?: MetadataPolicyDto;
+}
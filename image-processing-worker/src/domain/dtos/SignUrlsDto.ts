@@ -0,0 +1,30 @@
+import {
+  IsInt,
+  IsOptional,
+  IsArray,
+  Min,
+  Max,
+  ArrayMaxSize,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { TransformQueryDto } from './TransformQueryDto';
+
+/**
+ * DTO para solicitar URLs de descarga firmadas
+ * @class SignUrlsDto
+ */
+export class SignUrlsDto {
+  @IsOptional()
+  @IsInt({ message: 'expiresIn debe ser un entero' })
+  @Min(60, { message: 'expiresIn debe ser >= 60 segundos' })
+  @Max(604800, { message: 'expiresIn debe ser <= 604800 segundos (7 días)' })
+  expiresIn?: number;
+
+  @IsOptional()
+  @IsArray({ message: 'transforms debe ser un array' })
+  @ArrayMaxSize(10, { message: 'transforms admite como máximo 10 elementos' })
+  @ValidateNested({ each: true })
+  @Type(() => TransformQueryDto)
+  transforms?: TransformQueryDto[];
+}
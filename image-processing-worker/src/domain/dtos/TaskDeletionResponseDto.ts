@@ -0,0 +1,9 @@
+/**
+ * DTO de respuesta de la eliminación lógica de una tarea
+ * @interface TaskDeletionResponseDto
+ */
+export interface TaskDeletionResponseDto {
+  taskId: string;
+  deletedAt: Date;
+  restorableUntil: Date;
+}
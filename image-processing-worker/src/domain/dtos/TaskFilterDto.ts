@@ -0,0 +1,108 @@
+import {
+  IsOptional,
+  Min,
+  IsIn,
+  IsString,
+  MaxLength,
+  ArrayMaxSize,
+  Length,
+  IsDate,
+  IsNumber,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { TaskStatus, TaskSource, TASK_LABEL_LIMITS } from '@domain/entities/TaskEntity';
+
+/**
+ * Convierte una lista separada por comas o un parámetro repetido en un array sin vacíos
+ * @param {unknown} value - Valor recibido en la query
+ * @returns {unknown} Array de cadenas o el valor original si no es una cadena
+ */
+function toList(value: unknown): unknown {
+  const items = Array.isArray(value) ? value : [value];
+  if (!items.every(item => typeof item === 'string')) {
+    return value;
+  }
+
+  return (items as string[])
+    .flatMap(item => item.split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * DTO con los criterios de búsqueda de tareas. Lo comparten el listado (`GET /tasks`) y las
+ * operaciones masivas, para que ambos admitan la misma gramática de filtros
+ * @class TaskFilterDto
+ */
+export class TaskFilterDto {
+  @IsOptional()
+  @Transform(({ value }) => toList(value))
+  @IsIn(['pending', 'processing', 'completed', 'failed', 'cancelled'], {
+    each: true,
+    message: 'status debe ser una lista de: pending, processing, completed, failed, cancelled',
+  })
+  status?: TaskStatus[];
+
+  @IsOptional()
+  @Transform(({ value }) => toList(value))
+  @IsIn(['upload', 'url', 'path'], {
+    each: true,
+    message: 'source debe ser una lista de: upload, url, path',
+  })
+  source?: TaskSource[];
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: 'createdFrom debe ser una fecha ISO 8601' })
+  createdFrom?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: 'createdTo debe ser una fecha ISO 8601' })
+  createdTo?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: 'updatedFrom debe ser una fecha ISO 8601' })
+  updatedFrom?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: 'updatedTo debe ser una fecha ISO 8601' })
+  updatedTo?: Date;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'minPrice debe ser un número' })
+  @Min(0, { message: 'minPrice debe ser >= 0' })
+  minPrice?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'maxPrice debe ser un número' })
+  @Min(0, { message: 'maxPrice debe ser >= 0' })
+  maxPrice?: number;
+
+  @IsOptional()
+  @IsString({ message: 'externalId debe ser una cadena' })
+  @MaxLength(TASK_LABEL_LIMITS.EXTERNAL_ID_LENGTH, {
+    message: `externalId admite como máximo ${TASK_LABEL_LIMITS.EXTERNAL_ID_LENGTH} caracteres`,
+  })
+  externalId?: string;
+
+  @IsOptional()
+  @Transform(({ value }) => toList(value))
+  @ArrayMaxSize(TASK_LABEL_LIMITS.MAX_TAGS, {
+    message: `tags admite como máximo ${TASK_LABEL_LIMITS.MAX_TAGS} etiquetas`,
+  })
+  @IsString({ each: true, message: 'cada etiqueta debe ser una cadena' })
+  @Length(1, TASK_LABEL_LIMITS.TAG_LENGTH, {
+    each: true,
+    message: `cada etiqueta debe tener entre 1 y ${TASK_LABEL_LIMITS.TAG_LENGTH} caracteres`,
+  })
+  tags?: string[];
+
+  @IsOptional()
+  @IsIn(['any', 'all'], { message: 'tagMatch debe ser any o all' })
+  tagMatch?: 'any' | 'all';
+}
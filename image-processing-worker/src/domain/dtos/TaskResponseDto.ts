@@ -1,16 +1,56 @@
+import {
+  VariantSpec,
+  OverlaySpec,
+  MetadataPolicy,
+  ImageMetadata,
+  GenerationStatus,
+  TaskMetadataValue,
+  TaskSource,
+  TaskExpiration,
+} from '@domain/entities/TaskEntity';
+import { PriceBreakdown } from '@domain/entities/PricingEntity';
+
 /**
  * DTO de respuesta de tarea
  * @interface TaskResponseDto
  */
 export interface TaskResponseDto {
   taskId: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   price: number;
+  pricing?: PriceBreakdown;
   images?: Array<{
-    resolution: '1024' | '800';
-    path: string;
+    resolution: string;
+    url: string;
+    format?: string;
   }>;
+  variants?: VariantSpec[];
+  overlay?: OverlaySpec;
+  metadataPolicy?: MetadataPolicy;
+  source?: TaskSource;
+  sourceMetadata?: ImageMetadata;
   error?: string;
+  priority?: number;
+  processAt?: Date;
+  externalId?: string;
+  tags?: string[];
+  metadata?: Record<string, TaskMetadataValue>;
+  generation?: number;
+  generations?: Array<{
+    number: number;
+    status: GenerationStatus;
+    variants?: VariantSpec[];
+    overlay?: OverlaySpec;
+    metadataPolicy?: MetadataPolicy;
+    images?: Array<{
+      resolution: string;
+      format?: string;
+    }>;
+    error?: string;
+    requestedAt: Date;
+    completedAt?: Date;
+  }>;
+  expiredAt?: TaskExpiration;
   createdAt?: Date;
   updatedAt?: Date;
 }
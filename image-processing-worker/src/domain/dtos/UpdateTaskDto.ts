@@ -15,6 +15,7 @@ export class UpdateTaskDto {
   images?: Array<{
     resolution: string;
     path: string;
+    format?: string;
   }>;
 
   @IsOptional()
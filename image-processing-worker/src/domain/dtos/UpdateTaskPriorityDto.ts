@@ -0,0 +1,15 @@
+import { IsInt, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { TASK_PRIORITY } from '@domain/entities/TaskEntity';
+
+/**
+ * DTO para cambiar la prioridad de una tarea en espera
+ * @class UpdateTaskPriorityDto
+ */
+export class UpdateTaskPriorityDto {
+  @Type(() => Number)
+  @IsInt({ message: 'priority debe ser un entero' })
+  @Min(TASK_PRIORITY.HIGHEST, { message: `priority debe ser al menos ${TASK_PRIORITY.HIGHEST}` })
+  @Max(TASK_PRIORITY.LOWEST, { message: `priority debe ser como máximo ${TASK_PRIORITY.LOWEST}` })
+  priority!: number;
+}
@@ -0,0 +1,108 @@
+import {
+  IsInt,
+  IsOptional,
+  IsIn,
+  Min,
+  Max,
+  Matches,
+  Validate,
+  ValidateNested,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+  ValidationArguments,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import type { VariantFit, VariantPosition, OutputFormat } from '@domain/entities/TaskEntity';
+import { EncoderOptionsDto } from './EncoderOptionsDto';
+
+/**
+ * Modos de ajuste admitidos por Sharp
+ * @constant VARIANT_FITS
+ */
+export const VARIANT_FITS: VariantFit[] = ['cover', 'contain', 'fill', 'inside', 'outside'];
+
+/**
+ * Estrategias de recorte inteligente, exclusivas de `fit: 'cover'`
+ * @constant SMART_CROP_STRATEGIES
+ */
+export const SMART_CROP_STRATEGIES: VariantPosition[] = ['attention', 'entropy'];
+
+/**
+ * Gravedades y estrategias admitidas en `position`
+ * @constant VARIANT_POSITIONS
+ */
+export const VARIANT_POSITIONS: VariantPosition[] = [
+  'centre',
+  'north',
+  'northeast',
+  'east',
+  'southeast',
+  'south',
+  'southwest',
+  'west',
+  'northwest',
+  ...SMART_CROP_STRATEGIES,
+];
+
+/**
+ * Formatos de salida admitidos
+ * @constant OUTPUT_FORMATS
+ */
+export const OUTPUT_FORMATS: OutputFormat[] = ['jpeg', 'png', 'webp', 'avif'];
+
+/**
+ * Comprueba que las estrategias de recorte inteligente se combinen con `fit: 'cover'`
+ * @class SmartCropFitConstraint
+ */
+@ValidatorConstraint({ name: 'smartCropFit', async: false })
+class SmartCropFitConstraint implements ValidatorConstraintInterface {
+  validate(position: VariantPosition, args: ValidationArguments): boolean {
+    const { fit } = args.object as VariantSpecDto;
+    return !SMART_CROP_STRATEGIES.includes(position) || fit === undefined || fit === 'cover';
+  }
+
+  defaultMessage(): string {
+    return `position ${SMART_CROP_STRATEGIES.join('/')} solo es compatible con fit cover`;
+  }
+}
+
+/**
+ * DTO para la especificación de una variante
+ * @class VariantSpecDto
+ */
+export class VariantSpecDto {
+  @IsInt({ message: 'width debe ser un entero' })
+  @Min(16, { message: 'width debe ser >= 16' })
+  @Max(4096, { message: 'width debe ser <= 4096' })
+  width!: number;
+
+  @IsOptional()
+  @IsInt({ message: 'height debe ser un entero' })
+  @Min(16, { message: 'height debe ser >= 16' })
+  @Max(4096, { message: 'height debe ser <= 4096' })
+  height?: number;
+
+  @IsOptional()
+  @IsIn(VARIANT_FITS, { message: `fit debe ser uno de: ${VARIANT_FITS.join(', ')}` })
+  fit?: VariantFit;
+
+  @IsOptional()
+  @IsIn(VARIANT_POSITIONS, { message: `position debe ser uno de: ${VARIANT_POSITIONS.join(', ')}` })
+  @Validate(SmartCropFitConstraint)
+  position?: VariantPosition;
+
+  @IsOptional()
+  @Matches(/^#(?:[0-9a-fA-F]{3,4}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/, {
+    message: 'background debe ser un color hexadecimal (#rgb, #rgba, #rrggbb o #rrggbbaa)',
+  })
+  background?: string;
+
+  @IsOptional()
+  @IsIn(OUTPUT_FORMATS, { message: `format debe ser uno de: ${OUTPUT_FORMATS.join(', ')}` })
+  format?: OutputFormat;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => EncoderOptionsDto)
+  encoder?: EncoderOptionsDto;
+}
@@ -0,0 +1,11 @@
+/**
+ * DTO de respuesta de marca de agua
+ * @interface WatermarkResponseDto
+ */
+export interface WatermarkResponseDto {
+  watermarkId: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  createdAt?: Date;
+}
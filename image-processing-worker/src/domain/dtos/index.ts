@@ -1,6 +1,33 @@
 export { CreateTaskDto } from './CreateTaskDto';
+export { CreateBatchDto } from './CreateBatchDto';
 export { GetTaskParamsDto } from './GetTaskParamsDto';
+export { GetWatermarkParamsDto } from './GetWatermarkParamsDto';
+export { GetBatchParamsDto } from './GetBatchParamsDto';
+export { FindImagesQueryDto } from './FindImagesQueryDto';
+export { GetVariantParamsDto } from './GetVariantParamsDto';
+export { TransformQueryDto } from './TransformQueryDto';
+export { SignUrlsDto } from './SignUrlsDto';
 export { UpdateTaskDto } from './UpdateTaskDto';
+export { ReprocessTaskDto } from './ReprocessTaskDto';
+export { UpdateTaskPriorityDto } from './UpdateTaskPriorityDto';
 export type { TaskResponseDto } from './TaskResponseDto';
+export type { TaskDeletionResponseDto } from './TaskDeletionResponseDto';
+export type { TaskHistoryResponseDto } from './TaskHistoryResponseDto';
+export type { WatermarkResponseDto } from './WatermarkResponseDto';
+export type { ImageResponseDto } from './ImageResponseDto';
+export type { SignedUrlsResponseDto } from './SignedUrlsResponseDto';
+export type { BatchResponseDto } from './BatchResponseDto';
 export type { CreateTaskRequest } from './CreateTaskDto';
+export type { CreateBatchRequest } from './CreateBatchDto';
 export { PaginationDto } from './PaginationDto';
+export { TaskFilterDto } from './TaskFilterDto';
+export {
+  VariantSpecDto,
+  VARIANT_FITS,
+  VARIANT_POSITIONS,
+  SMART_CROP_STRATEGIES,
+  OUTPUT_FORMATS,
+} from './VariantSpecDto';
+export { EncoderOptionsDto } from './EncoderOptionsDto';
+export { OverlaySpecDto, OVERLAY_POSITIONS } from './OverlaySpecDto';
+export { MetadataPolicyDto, METADATA_MODES } from './MetadataPolicyDto';
@@ -0,0 +1,108 @@
+import type { OutputFormat, TaskSource, VariantSpec } from './TaskEntity';
+
+/**
+ * Tarifa versionada con la que se calcula el precio de una tarea. Los importes son unidades
+ * monetarias; las tarifas publicadas no se modifican, se añade una versión nueva
+ * @interface PriceTable
+ */
+export interface PriceTable {
+  version: string;
+  base: number;
+  perInputMegapixel: number;
+  perVariant: number;
+  perOutputMegapixel: number;
+  formats: Record<OutputFormat, number>;
+  sources: Record<TaskSource, number>;
+  priority: Array<{ upTo: number; multiplier: number }>;
+  minimum: number;
+}
+
+/**
+ * Tarifas publicadas, por versión
+ * @constant PRICE_TABLES
+ */
+export const PRICE_TABLES: Record<string, PriceTable> = {
+  '2026-10': {
+    version: '2026-10',
+    base: 2,
+    perInputMegapixel: 0.5,
+    perVariant: 1,
+    perOutputMegapixel: 0.25,
+    formats: { jpeg: 0, png: 0.25, webp: 0.25, avif: 0.75 },
+    sources: { upload: 0, path: 0, url: 1 },
+    priority: [
+      { upTo: 2, multiplier: 1.5 },
+      { upTo: 4, multiplier: 1.2 },
+    ],
+    minimum: 5,
+  },
+};
+
+/**
+ * Versión de la tarifa con la que se calculan las tareas nuevas
+ * @constant CURRENT_PRICE_TABLE_VERSION
+ */
+export const CURRENT_PRICE_TABLE_VERSION = '2026-10';
+
+/**
+ * Datos de una tarea que determinan su precio: dimensiones y formato del original, variantes
+ * solicitadas, origen de la imagen y prioridad
+ * @interface PricingInput
+ */
+export interface PricingInput {
+  width: number;
+  height: number;
+  format?: string;
+  variants: VariantSpec[];
+  source?: TaskSource;
+  priority?: number;
+}
+
+/**
+ * Concepto facturado en una línea del desglose
+ * @type {PriceConcept}
+ */
+export type PriceConcept =
+  | 'base'
+  | 'input-megapixels'
+  | 'variants'
+  | 'output-megapixels'
+  | 'format'
+  | 'source';
+
+/**
+ * Línea del desglose de precio. `detail` identifica el formato o el origen facturado
+ * @interface PriceLine
+ */
+export interface PriceLine {
+  concept: PriceConcept;
+  detail?: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+/**
+ * Desglose del precio de una tarea: las líneas suman el subtotal, al que se aplica el
+ * multiplicador de prioridad y el mínimo de la tarifa
+ * @interface PriceBreakdown
+ */
+export interface PriceBreakdown {
+  version: string;
+  lines: PriceLine[];
+  subtotal: number;
+  multiplier: number;
+  total: number;
+}
+
+/**
+ * Presupuesto firmado que puede canjearse al crear la tarea para fijar su precio. La huella
+ * identifica los datos de entrada del cálculo; la versión, la tarifa con la que se calculó
+ * @interface PriceQuote
+ */
+export interface PriceQuote {
+  fingerprint: string;
+  version: string;
+  price: number;
+  expiresAt: Date;
+}
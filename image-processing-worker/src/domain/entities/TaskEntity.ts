@@ -1,3 +1,5 @@
+import type { PriceBreakdown } from './PricingEntity';
+
 /**
  * Estados posibles de una tarea
  * @enum {string}
@@ -7,6 +9,252 @@ export enum TaskStatus {
   PROCESSING = 'processing',
   COMPLETED = 'completed',
   FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+/**
+ * Modos de ajuste soportados al redimensionar una variante
+ * @type {VariantFit}
+ */
+export type VariantFit = 'cover' | 'contain' | 'fill' | 'inside' | 'outside';
+
+/**
+ * Gravedad del recorte/encaje o estrategia de recorte inteligente de Sharp.
+ * `attention` y `entropy` solo son válidas con `fit: 'cover'`
+ * @type {VariantPosition}
+ */
+export type VariantPosition =
+  | 'centre'
+  | 'north'
+  | 'northeast'
+  | 'east'
+  | 'southeast'
+  | 'south'
+  | 'southwest'
+  | 'west'
+  | 'northwest'
+  | 'attention'
+  | 'entropy';
+
+/**
+ * Formatos de salida soportados por el worker
+ * @type {OutputFormat}
+ */
+export type OutputFormat = 'jpeg' | 'png' | 'webp' | 'avif';
+
+/**
+ * Opciones del codificador de salida. Cada formato aplica solo las que soporta:
+ * `progressive` en JPEG/PNG, `lossless` en WebP/AVIF y `effort` en PNG/WebP/AVIF
+ * @interface EncoderOptions
+ */
+export interface EncoderOptions {
+  quality?: number;
+  progressive?: boolean;
+  lossless?: boolean;
+  effort?: number;
+}
+
+/**
+ * Especificación de una variante a generar por el worker
+ * @interface VariantSpec
+ */
+export interface VariantSpec {
+  width: number;
+  height?: number;
+  fit?: VariantFit;
+  position?: VariantPosition;
+  background?: string;
+  format?: OutputFormat;
+  encoder?: EncoderOptions;
+}
+
+/**
+ * Posición de la superposición sobre cada variante
+ * @type {OverlayPosition}
+ */
+export type OverlayPosition = Exclude<VariantPosition, 'attention' | 'entropy'>;
+
+/**
+ * Superposición (marca de agua o texto) aplicada a cada variante generada.
+ * `scale` es la fracción del ancho de la variante que ocupa la superposición
+ * @interface OverlaySpec
+ */
+export interface OverlaySpec {
+  type: 'image' | 'text';
+  watermarkId?: string;
+  text?: string;
+  color?: string;
+  position?: OverlayPosition;
+  margin?: number;
+  opacity?: number;
+  tile?: boolean;
+  scale?: number;
+}
+
+/**
+ * Tratamiento de los metadatos del original en las variantes:
+ * - `strip`: elimina EXIF, XMP e IPTC (incluida la ubicación GPS)
+ * - `strip-gps`: conserva los datos descriptivos de EXIF (cámara, fecha, autor) sin GPS
+ * - `preserve`: conserva todos los metadatos, incluida la ubicación GPS
+ * @type {MetadataMode}
+ */
+export type MetadataMode = 'strip' | 'strip-gps' | 'preserve';
+
+/**
+ * Política de metadatos de la tarea. El perfil ICC se conserva salvo `keepIcc: false`
+ * @interface MetadataPolicy
+ */
+export interface MetadataPolicy {
+  mode: MetadataMode;
+  keepIcc?: boolean;
+}
+
+/**
+ * Metadatos extraídos de la imagen original. Las dimensiones son las de la imagen
+ * ya orientada según su etiqueta EXIF
+ * @interface ImageMetadata
+ */
+export interface ImageMetadata {
+  width?: number;
+  height?: number;
+  format?: string;
+  colorSpace?: string;
+  orientation?: number;
+  hasAlpha?: boolean;
+  hasIccProfile?: boolean;
+  hasGps?: boolean;
+  camera?: {
+    make?: string;
+    model?: string;
+  };
+  takenAt?: Date;
+}
+
+/**
+ * Opciones de procesamiento que viajan con el trabajo encolado
+ * @interface TaskProcessingOptions
+ */
+export interface TaskProcessingOptions {
+  variants?: VariantSpec[];
+  overlay?: OverlaySpec;
+  metadataPolicy?: MetadataPolicy;
+}
+
+/**
+ * Planificación del trabajo de una tarea: prioridad en la cola y momento a partir del cual
+ * puede procesarse
+ * @interface TaskSchedule
+ */
+export interface TaskSchedule {
+  priority?: number;
+  processAt?: Date;
+}
+
+/**
+ * Rango de prioridades de una tarea. Sigue la semántica de BullMQ: cuanto menor, más urgente
+ * @constant TASK_PRIORITY
+ */
+export const TASK_PRIORITY = { HIGHEST: 1, LOWEST: 10, DEFAULT: 5 } as const;
+
+/**
+ * Valor admitido en los metadatos libres de una tarea
+ * @type {TaskMetadataValue}
+ */
+export type TaskMetadataValue = string | number | boolean;
+
+/**
+ * Datos con los que el cliente correlaciona la tarea con sus propios sistemas
+ * @interface TaskLabels
+ */
+export interface TaskLabels {
+  externalId?: string;
+  tags?: string[];
+  metadata?: Record<string, TaskMetadataValue>;
+}
+
+/**
+ * Límites de los datos de correlación de una tarea
+ * @constant TASK_LABEL_LIMITS
+ */
+export const TASK_LABEL_LIMITS = {
+  EXTERNAL_ID_LENGTH: 128,
+  MAX_TAGS: 20,
+  TAG_LENGTH: 64,
+  MAX_METADATA_KEYS: 20,
+  METADATA_KEY_LENGTH: 64,
+  METADATA_VALUE_LENGTH: 512,
+} as const;
+
+/**
+ * Origen de la imagen de una tarea
+ * @type {TaskSource}
+ */
+export type TaskSource = 'upload' | 'url' | 'path';
+
+/**
+ * Criterios de búsqueda de tareas. Los estados y orígenes admiten varios valores; los rangos son
+ * inclusivos. Con `tagMatch: 'all'` la tarea debe tener todas las etiquetas; por defecto basta con una
+ * @interface TaskFilter
+ */
+export interface TaskFilter {
+  status?: TaskStatus | TaskStatus[];
+  source?: TaskSource | TaskSource[];
+  externalId?: string;
+  tags?: string[];
+  tagMatch?: 'any' | 'all';
+  createdFrom?: Date;
+  createdTo?: Date;
+  updatedFrom?: Date;
+  updatedTo?: Date;
+  minPrice?: number;
+  maxPrice?: number;
+}
+
+/**
+ * Campos por los que pueden ordenarse los listados de tareas
+ * @constant TASK_SORT_FIELDS
+ */
+export const TASK_SORT_FIELDS = ['createdAt', 'updatedAt', 'price', 'status'] as const;
+
+/**
+ * Orden de un listado de tareas
+ * @interface TaskSort
+ */
+export interface TaskSort {
+  field: (typeof TASK_SORT_FIELDS)[number];
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * Orden por defecto de los listados: las más recientes primero
+ * @constant DEFAULT_TASK_SORT
+ */
+export const DEFAULT_TASK_SORT: TaskSort = { field: 'createdAt', direction: 'desc' };
+
+/**
+ * Posición en un listado paginado por cursor: la última (o primera) tarea devuelta y el sentido en
+ * que continúa la paginación
+ * @interface TaskCursor
+ */
+export interface TaskCursor {
+  createdAt: Date;
+  id: string;
+  direction: 'next' | 'prev';
+}
+
+/**
+ * Variantes generadas cuando la tarea no especifica ninguna
+ * @constant DEFAULT_VARIANTS
+ */
+export const DEFAULT_VARIANTS: VariantSpec[] = [{ width: 1024 }, { width: 800 }];
+
+/**
+ * Obtiene la etiqueta de resolución de una variante (ej: '1024' o '1024x768')
+ * @param {VariantSpec} spec - Especificación de la variante
+ * @returns {string} Etiqueta de resolución
+ */
+export function getVariantLabel(spec: VariantSpec): string {
+  return spec.height ? `${spec.width}x${spec.height}` : spec.width.toString();
 }
 
 /**
@@ -14,10 +262,61 @@ export enum TaskStatus {
  * @interface ProcessedImage
  */
 export interface ProcessedImage {
-  resolution: '1024' | '800';
+  resolution: string;
   path: string;
+  format?: string;
 }
 
+/**
+ * Estados de una generación de procesamiento
+ * @type {GenerationStatus}
+ */
+export type GenerationStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+/**
+ * Generación de procesamiento de una tarea. La primera corresponde al procesamiento inicial y
+ * cada reprocesado añade una nueva con las opciones solicitadas; sus imágenes sustituyen a las
+ * de la tarea solo si termina con éxito
+ * @interface TaskGeneration
+ */
+export interface TaskGeneration {
+  number: number;
+  status: GenerationStatus;
+  variants?: VariantSpec[];
+  overlay?: OverlaySpec;
+  metadataPolicy?: MetadataPolicy;
+  images?: ProcessedImage[];
+  error?: string;
+  requestedAt: Date;
+  completedAt?: Date;
+}
+
+/**
+ * Cambio de estado registrado en el historial de una tarea
+ * @interface TaskStatusChange
+ */
+export interface TaskStatusChange {
+  from: TaskStatus;
+  to: TaskStatus;
+  timestamp: Date;
+  actor: string;
+  attempt: number;
+  error?: string;
+}
+
+/**
+ * Archivos de una tarea que puede eliminar la política de retención
+ * @type {RetentionTarget}
+ */
+export type RetentionTarget = 'original' | 'variants';
+
+/**
+ * Momento en que la política de retención eliminó los archivos de una tarea. El documento de la
+ * tarea se conserva
+ * @type {TaskExpiration}
+ */
+export type TaskExpiration = Partial<Record<RetentionTarget, Date>>;
+
 /**
  * Entidad de tarea
  * @interface TaskEntity
@@ -25,11 +324,29 @@ export interface ProcessedImage {
 export interface TaskEntity {
   status: TaskStatus;
   price: number;
+  pricing?: PriceBreakdown;
   originalPath: string;
   images: ProcessedImage[];
+  variants?: VariantSpec[];
+  overlay?: OverlaySpec;
+  metadataPolicy?: MetadataPolicy;
+  sourceMetadata?: ImageMetadata;
   _id?: string;
   error?: string;
   idempotencyKey?: string;
+  batchId?: string;
+  clientId?: string;
+  source?: TaskSource;
+  externalId?: string;
+  tags?: string[];
+  metadata?: Record<string, TaskMetadataValue>;
+  deletedAt?: Date | null;
+  priority?: number;
+  processAt?: Date;
+  generation?: number;
+  generations?: TaskGeneration[];
+  history?: TaskStatusChange[];
+  expiredAt?: TaskExpiration;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -40,10 +357,11 @@ export interface TaskEntity {
  */
 export class TaskStatusTransition {
   private static readonly transitions: Record<TaskStatus, TaskStatus[]> = {
-    [TaskStatus.PENDING]: [TaskStatus.PROCESSING, TaskStatus.FAILED],
-    [TaskStatus.PROCESSING]: [TaskStatus.COMPLETED, TaskStatus.FAILED],
+    [TaskStatus.PENDING]: [TaskStatus.PROCESSING, TaskStatus.FAILED, TaskStatus.CANCELLED],
+    [TaskStatus.PROCESSING]: [TaskStatus.COMPLETED, TaskStatus.FAILED, TaskStatus.CANCELLED],
     [TaskStatus.COMPLETED]: [],
     [TaskStatus.FAILED]: [],
+    [TaskStatus.CANCELLED]: [],
   };
 
   /**
@@ -70,3 +388,112 @@ export class TaskStatusTransition {
     }
   }
 }
+
+/**
+ * Construye la entrada de historial de un cambio de estado. Cada reintento de una tarea fallida
+ * abre un nuevo intento; el primero es el 1
+ * @param {TaskEntity} task - Tarea antes del cambio
+ * @param {TaskStatus} to - Estado destino
+ * @param {string} actor - Quién realiza el cambio (la API o el identificador del worker)
+ * @param {string} [error] - Error que provoca el cambio
+ * @returns {TaskStatusChange} Entrada del historial
+ */
+export function recordStatusChange(
+  task: TaskEntity,
+  to: TaskStatus,
+  actor: string,
+  error?: string
+): TaskStatusChange {
+  const isRetry = (from: TaskStatus, next: TaskStatus): boolean =>
+    from === TaskStatus.FAILED && next === TaskStatus.PENDING;
+  const retries = (task.history ?? []).filter(change => isRetry(change.from, change.to)).length;
+
+  return {
+    from: task.status,
+    to,
+    timestamp: new Date(),
+    actor,
+    attempt: 1 + retries + (isRetry(task.status, to) ? 1 : 0),
+    ...(error && { error }),
+  };
+}
+
+/**
+ * Interpreta el parámetro de orden de un listado: el nombre del campo, precedido de `-` para
+ * ordenar de forma descendente (ej: `-price`)
+ * @param {string} [value] - Parámetro recibido
+ * @returns {TaskSort} Orden a aplicar; el de por defecto si no se indica
+ */
+export function parseTaskSort(value?: string): TaskSort {
+  if (!value) {
+    return DEFAULT_TASK_SORT;
+  }
+
+  const descending = value.startsWith('-');
+  return {
+    field: (descending ? value.slice(1) : value) as TaskSort['field'],
+    direction: descending ? 'desc' : 'asc',
+  };
+}
+
+/**
+ * Codifica la posición de una tarea como cursor opaco para el cliente
+ * @param {TaskEntity} task - Tarea en el borde de la página
+ * @param {TaskCursor['direction']} direction - Sentido en que continúa la paginación
+ * @returns {string} Cursor en base64url
+ */
+export function encodeTaskCursor(task: TaskEntity, direction: TaskCursor['direction']): string {
+  const position = [new Date(task.createdAt as Date).toISOString(), String(task._id), direction];
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+/**
+ * Decodifica un cursor generado por `encodeTaskCursor`
+ * @param {string} value - Cursor recibido
+ * @returns {TaskCursor | undefined} Posición, o undefined si el cursor no es válido
+ */
+export function decodeTaskCursor(value: string): TaskCursor | undefined {
+  try {
+    const [createdAt, id, direction] = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    const date = new Date(createdAt);
+
+    if (
+      typeof createdAt !== 'string' ||
+      Number.isNaN(date.getTime()) ||
+      !/^[a-f\d]{24}$/i.test(id) ||
+      (direction !== 'next' && direction !== 'prev')
+    ) {
+      return undefined;
+    }
+
+    return { createdAt: date, id, direction };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Normaliza unos criterios de búsqueda: descarta los vacíos y ordena los que admiten varios
+ * valores, de forma que la misma búsqueda produzca siempre el mismo objeto (y la misma clave de caché)
+ * @param {TaskFilter} filter - Criterios recibidos
+ * @returns {TaskFilter} Criterios normalizados
+ */
+export function normalizeTaskFilter(filter: TaskFilter): TaskFilter {
+  const { tags, tagMatch, ...criteria } = filter;
+  const normalized = Object.fromEntries(
+    Object.entries(criteria)
+      .filter(([, value]) => value !== undefined && value !== '')
+      .filter(([, value]) => !Array.isArray(value) || value.length > 0)
+      .map(([key, value]) => [
+        key,
+        Array.isArray(value) ? [...new Set<string>(value)].sort() : value,
+      ])
+  ) as TaskFilter;
+
+  if (tags?.length) {
+    normalized.tags = [...new Set(tags)].sort();
+    normalized.tagMatch = tagMatch ?? 'any';
+  }
+
+  return normalized;
+}
@@ -0,0 +1,154 @@
+import sharp from 'sharp';
+import exifReader from 'exif-reader';
+import { logger } from '@core/helpers/logger';
+import { ImageMetadata } from '@domain/entities';
+
+/**
+ * @class MetadataExtractor
+ * @description Interpreta los metadatos del original leídos por Sharp. Extrae los datos que se
+ * guardan en la tarea (dimensiones, formato, espacio de color, cámara y fecha de captura) y
+ * construye el bloque EXIF sin ubicación que se escribe en las variantes con la política `strip-gps`.
+ */
+export class MetadataExtractor {
+  private static readonly IFD0_TAGS = [
+    'ImageDescription',
+    'Make',
+    'Model',
+    'Software',
+    'DateTime',
+    'Artist',
+    'Copyright',
+  ];
+
+  private static readonly EXIF_IFD_TAGS = [
+    'DateTimeOriginal',
+    'DateTimeDigitized',
+    'LensMake',
+    'LensModel',
+    'BodySerialNumber',
+  ];
+
+  /**
+   * @method extract
+   * @description Construye los metadatos de la imagen original. Las dimensiones se devuelven
+   * ya orientadas según la etiqueta EXIF.
+   * @param {sharp.Metadata} metadata - Metadatos leídos por Sharp
+   * @returns {ImageMetadata} Metadatos a guardar en la tarea
+   */
+  public extract(metadata: sharp.Metadata): ImageMetadata {
+    const exif = this.readExif(metadata);
+    const make = this.trim(exif?.Image?.Make);
+    const model = this.trim(exif?.Image?.Model);
+    const takenAt = exif?.Photo?.DateTimeOriginal ?? exif?.Image?.DateTime;
+
+    return {
+      width: metadata.autoOrient?.width ?? metadata.width,
+      height: metadata.autoOrient?.height ?? metadata.height,
+      format: metadata.format,
+      colorSpace: metadata.space,
+      orientation: metadata.orientation,
+      hasAlpha: metadata.hasAlpha,
+      hasIccProfile: metadata.hasProfile ?? false,
+      hasGps: Boolean(exif?.GPSInfo && Object.keys(exif.GPSInfo).length > 0),
+      ...((make ?? model) && { camera: { make, model } }),
+      ...(takenAt instanceof Date && !isNaN(takenAt.getTime()) && { takenAt }),
+    };
+  }
+
+  /**
+   * @method buildSafeExif
+   * @description Selecciona las etiquetas descriptivas del EXIF original (cámara, fechas, autoría)
+   * descartando el bloque GPS y cualquier otra etiqueta no textual.
+   * @param {sharp.Metadata} metadata - Metadatos leídos por Sharp
+   * @returns {sharp.Exif} Bloque EXIF para `withExif`, vacío si el original no tiene EXIF
+   */
+  public buildSafeExif(metadata: sharp.Metadata): sharp.Exif {
+    const exif = this.readExif(metadata);
+    if (!exif) {
+      return {};
+    }
+
+    const ifd0 = this.pickTags(exif.Image, MetadataExtractor.IFD0_TAGS);
+    const ifd2 = this.pickTags(exif.Photo, MetadataExtractor.EXIF_IFD_TAGS);
+
+    return {
+      ...(Object.keys(ifd0).length > 0 && { IFD0: ifd0 }),
+      ...(Object.keys(ifd2).length > 0 && { IFD2: ifd2 }),
+    };
+  }
+
+  /**
+   * @private
+   * @method readExif
+   * @description Decodifica el bloque EXIF; un EXIF corrupto no impide procesar la imagen
+   * @param {sharp.Metadata} metadata - Metadatos leídos por Sharp
+   * @returns {exifReader.Exif | undefined} EXIF decodificado o undefined si no existe o es ilegible
+   */
+  private readExif(metadata: sharp.Metadata): exifReader.Exif | undefined {
+    if (!metadata.exif) {
+      return undefined;
+    }
+
+    try {
+      return exifReader(metadata.exif);
+    } catch (error) {
+      logger.warn('Unreadable EXIF block, ignoring it', {
+        error: error instanceof Error ? error.message : error,
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * @private
+   * @method pickTags
+   * @description Copia las etiquetas indicadas como texto, formateando las fechas en formato EXIF
+   * @param {Record<string, unknown>} [source] - IFD decodificado
+   * @param {string[]} tags - Etiquetas a copiar
+   * @returns {Record<string, string>} Etiquetas en texto
+   */
+  private pickTags(
+    source: Record<string, unknown> | undefined,
+    tags: string[]
+  ): Record<string, string> {
+    const picked: Record<string, string> = {};
+
+    for (const tag of tags) {
+      const value = source?.[tag];
+      if (value instanceof Date && !isNaN(value.getTime())) {
+        picked[tag] = this.formatExifDate(value);
+      } else if (typeof value === 'string' && value.trim()) {
+        picked[tag] = value.trim();
+      }
+    }
+
+    return picked;
+  }
+
+  /**
+   * @private
+   * @method formatExifDate
+   * @description Convierte una fecha al formato EXIF `YYYY:MM:DD HH:MM:SS`. `exif-reader`
+   * interpreta las fechas sin zona como UTC, por lo que se usan los componentes UTC.
+   * @param {Date} date - Fecha a formatear
+   * @returns {string} Fecha en formato EXIF
+   */
+  private formatExifDate(date: Date): string {
+    return date.toISOString().slice(0, 19).replace(/-/g, ':').replace('T', ' ');
+  }
+
+  /**
+   * @private
+   * @method trim
+   * @description Limpia el texto de una etiqueta EXIF (suelen incluir espacios o nulos de relleno)
+   * @param {unknown} value - Valor de la etiqueta
+   * @returns {string | undefined} Texto limpio o undefined si está vacío
+   */
+  private trim(value: unknown): string | undefined {
+    if (typeof value !== 'string') {
+      return undefined;
+    }
+    const cleaned = value.replace(/\0/g, '').trim();
+    return cleaned || undefined;
+  }
+}
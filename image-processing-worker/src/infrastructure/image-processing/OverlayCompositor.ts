@@ -0,0 +1,211 @@
+import sharp from 'sharp';
+import { OverlaySpec, OverlayPosition } from '@domain/entities';
+
+/**
+ * @interface ResolvedOverlay
+ * @description Superposición con la ruta en disco de la marca de agua ya resuelta
+ * @extends {OverlaySpec}
+ */
+export interface ResolvedOverlay extends OverlaySpec {
+  watermarkPath?: string;
+}
+
+interface LayerSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * @class OverlayCompositor
+ * @description Compone una marca de agua o un texto (renderizado como SVG) sobre una variante ya
+ * redimensionada. El tamaño de la superposición se calcula como fracción del ancho de la variante,
+ * y admite posición con margen, opacidad y repetición en mosaico.
+ */
+export class OverlayCompositor {
+  private static readonly DEFAULT_POSITION: OverlayPosition = 'southeast';
+  private static readonly DEFAULT_MARGIN = 16;
+  private static readonly DEFAULT_OPACITY = 1;
+  private static readonly DEFAULT_SCALE = 0.2;
+  private static readonly DEFAULT_COLOR = '#ffffff';
+  private static readonly TRANSPARENT = { r: 0, g: 0, b: 0, alpha: 0 };
+
+  /**
+   * @method apply
+   * @description Materializa una copia del pipeline para conocer las dimensiones reales de la
+   * variante y añade la superposición al propio pipeline, de modo que conserva el formato y los
+   * metadatos configurados para la salida.
+   * @param {sharp.Sharp} pipeline - Pipeline con el redimensionado de la variante
+   * @param {ResolvedOverlay} overlay - Superposición a aplicar
+   * @returns {Promise<sharp.Sharp>} Pipeline con la superposición aplicada
+   * @throws {Error} Si la superposición de imagen no tiene ruta de marca de agua
+   */
+  public async apply(pipeline: sharp.Sharp, overlay: ResolvedOverlay): Promise<sharp.Sharp> {
+    const { info } = await pipeline.clone().raw().toBuffer({ resolveWithObject: true });
+    const base: LayerSize = { width: info.width, height: info.height };
+    const margin = overlay.margin ?? OverlayCompositor.DEFAULT_MARGIN;
+
+    let layer = await this.renderLayer(base, overlay);
+    const opacity = overlay.opacity ?? OverlayCompositor.DEFAULT_OPACITY;
+    if (opacity < 1) {
+      layer = await this.applyOpacity(layer, opacity);
+    }
+
+    const { width = 0, height = 0 } = await sharp(layer).metadata();
+    const composite: sharp.OverlayOptions = overlay.tile
+      ? { input: await this.padTile(layer, { width, height }, base, margin), tile: true }
+      : {
+          input: layer,
+          ...this.computeOffset(
+            base,
+            { width, height },
+            overlay.position ?? OverlayCompositor.DEFAULT_POSITION,
+            margin
+          ),
+        };
+
+    return pipeline.composite([composite]);
+  }
+
+  /**
+   * @private
+   * @method renderLayer
+   * @description Genera la capa PNG de la superposición escalada respecto al ancho de la variante
+   * @param {LayerSize} base - Dimensiones de la variante
+   * @param {ResolvedOverlay} overlay - Superposición a renderizar
+   * @returns {Promise<Buffer>} Capa PNG con canal alfa
+   */
+  private async renderLayer(base: LayerSize, overlay: ResolvedOverlay): Promise<Buffer> {
+    const targetWidth = Math.max(
+      1,
+      Math.round(base.width * (overlay.scale ?? OverlayCompositor.DEFAULT_SCALE))
+    );
+
+    if (overlay.type === 'image') {
+      if (!overlay.watermarkPath) {
+        throw new Error(`Marca de agua ${overlay.watermarkId} no resuelta`);
+      }
+      return sharp(overlay.watermarkPath)
+        .resize({ width: targetWidth, height: base.height, fit: 'inside' })
+        .ensureAlpha()
+        .png()
+        .toBuffer();
+    }
+
+    const text = overlay.text ?? '';
+    const fontSize = Math.max(
+      8,
+      Math.min(
+        Math.floor(targetWidth / Math.max(text.length * 0.6, 1)),
+        Math.floor(base.height * 0.7)
+      )
+    );
+    const height = Math.min(Math.ceil(fontSize * 1.4), base.height);
+    const svg =
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${targetWidth}" height="${height}">` +
+      `<text x="50%" y="50%" text-anchor="middle" dominant-baseline="middle" ` +
+      `font-family="sans-serif" font-size="${fontSize}" ` +
+      `fill="${overlay.color ?? OverlayCompositor.DEFAULT_COLOR}">${this.escapeXml(text)}</text></svg>`;
+
+    return sharp(Buffer.from(svg)).png().toBuffer();
+  }
+
+  /**
+   * @private
+   * @method applyOpacity
+   * @description Multiplica el canal alfa de la capa por la opacidad indicada
+   * @param {Buffer} layer - Capa PNG
+   * @param {number} opacity - Opacidad entre 0 y 1
+   * @returns {Promise<Buffer>} Capa con la opacidad aplicada
+   */
+  private async applyOpacity(layer: Buffer, opacity: number): Promise<Buffer> {
+    return sharp(layer)
+      .ensureAlpha()
+      .composite([
+        {
+          input: Buffer.from([255, 255, 255, Math.round(opacity * 255)]),
+          raw: { width: 1, height: 1, channels: 4 },
+          tile: true,
+          blend: 'dest-in',
+        },
+      ])
+      .png()
+      .toBuffer();
+  }
+
+  /**
+   * @private
+   * @method padTile
+   * @description Añade el margen como espacio transparente entre repeticiones del mosaico,
+   * siempre que la tesela resultante quepa en la variante
+   * @param {Buffer} layer - Capa PNG
+   * @param {LayerSize} size - Dimensiones de la capa
+   * @param {LayerSize} base - Dimensiones de la variante
+   * @param {number} margin - Separación entre teselas
+   * @returns {Promise<Buffer>} Tesela a repetir
+   */
+  private async padTile(
+    layer: Buffer,
+    size: LayerSize,
+    base: LayerSize,
+    margin: number
+  ): Promise<Buffer> {
+    if (margin === 0 || size.width + margin > base.width || size.height + margin > base.height) {
+      return layer;
+    }
+
+    return sharp(layer)
+      .extend({ right: margin, bottom: margin, background: OverlayCompositor.TRANSPARENT })
+      .png()
+      .toBuffer();
+  }
+
+  /**
+   * @private
+   * @method computeOffset
+   * @description Calcula la esquina superior izquierda de la capa según la posición y el margen
+   * @param {LayerSize} base - Dimensiones de la variante
+   * @param {LayerSize} layer - Dimensiones de la capa
+   * @param {OverlayPosition} position - Posición de la superposición
+   * @param {number} margin - Margen respecto a los bordes
+   * @returns {{ left: number; top: number }} Desplazamiento en píxeles
+   */
+  private computeOffset(
+    base: LayerSize,
+    layer: LayerSize,
+    position: OverlayPosition,
+    margin: number
+  ): { left: number; top: number } {
+    const maxLeft = Math.max(base.width - layer.width, 0);
+    const maxTop = Math.max(base.height - layer.height, 0);
+    const clamp = (value: number, max: number) => Math.min(Math.max(Math.round(value), 0), max);
+
+    const left = position.endsWith('west')
+      ? margin
+      : position.endsWith('east')
+        ? maxLeft - margin
+        : maxLeft / 2;
+    const top = position.startsWith('north')
+      ? margin
+      : position.startsWith('south')
+        ? maxTop - margin
+        : maxTop / 2;
+
+    return { left: clamp(left, maxLeft), top: clamp(top, maxTop) };
+  }
+
+  /**
+   * @private
+   * @method escapeXml
+   * @description Escapa el texto para insertarlo de forma segura en el SVG
+   * @param {string} value - Texto a escapar
+   * @returns {string} Texto escapado
+   */
+  private escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
@@ -3,32 +3,81 @@ import path from 'path';
 import fs from 'fs/promises';
 import { generateMD5 } from '@core/helpers/crypto';
 import { logger } from '@core/helpers/logger';
+import { TaskCancelledError } from '@core/errors';
 import { getRootPath } from '@core/helpers/fileDirectory';
+import {
+  DEFAULT_VARIANTS,
+  VariantSpec,
+  MetadataPolicy,
+  ImageMetadata,
+  getVariantLabel,
+} from '@domain/entities';
+import { OverlayCompositor, ResolvedOverlay } from './OverlayCompositor';
+import { MetadataExtractor } from './MetadataExtractor';
+import { VariantRenderer } from './VariantRenderer';
 
 interface ProcessedImageResult {
   resolution: string;
   path: string;
+  format: string;
+  md5: string;
+  size: number;
+  width: number;
+  height: number;
 }
 
+interface ProcessingResult {
+  images: ProcessedImageResult[];
+  metadata: ImageMetadata;
+}
+
+/**
+ * Comprobación de cancelación que se consulta antes de generar cada variante
+ * @type {CancellationCheck}
+ */
+export type CancellationCheck = () => Promise<boolean>;
+
 /**
  * @class SharpImageProcessor
- * @description Servicio de procesamiento de imágenes que genera variantes en diferentes resoluciones
- * manteniendo el aspect ratio original. Las imágenes procesadas se almacenan siguiendo
- * la estructura /output/{nombre_original}/{resolucion}/{md5}.{ext}
+ * @description Servicio de procesamiento de imágenes que genera las variantes solicitadas por la tarea.
+ * Sin especificaciones se generan los anchos por defecto (1024 y 800) manteniendo el aspect ratio.
+ * Admite los modos de ajuste de Sharp, gravedad, recorte inteligente (attention/entropy) y
+ * color de relleno para `contain`, y una superposición opcional (marca de agua o texto).
+ * Cada variante puede convertirse a JPEG, PNG, WebP o AVIF; si no indica formato conserva el original.
+ * El original se orienta según su etiqueta EXIF y los metadatos de salida siguen la política de la tarea.
+ * Las imágenes procesadas se almacenan siguiendo la estructura
+ * /output/{nombre_original}/{resolucion}/{md5}.{ext}
+ * Si la tarea se cancela a mitad del proceso se eliminan los archivos que ya se habían creado.
  */
 export class SharpImageProcessor {
-  private readonly resolutions = [1024, 800];
+  private readonly compositor = new OverlayCompositor();
+  private readonly extractor = new MetadataExtractor();
+  private readonly renderer = new VariantRenderer();
+
+  private static readonly DEFAULT_METADATA_POLICY: MetadataPolicy = { mode: 'strip' };
 
   /**
    * @method process
-   * @description Procesa una imagen original generando variantes en las resoluciones definidas.
+   * @description Procesa una imagen original generando una variante por cada especificación.
    * Cada variante se nombra con el hash MD5 de su contenido para garantizar unicidad.
    * @param {string} originalPath - Ruta absoluta al archivo de imagen original
-   * @returns {Promise<ProcessedImageResult[]>} Array con información de las variantes generadas
+   * @param {VariantSpec[]} [variants] - Variantes a generar; por defecto `DEFAULT_VARIANTS`
+   * @param {ResolvedOverlay} [overlay] - Marca de agua o texto a componer sobre cada variante
+   * @param {MetadataPolicy} [metadataPolicy] - Tratamiento de metadatos; por defecto se eliminan
+   * @param {CancellationCheck} [isCancelled] - Se consulta antes de cada variante para abortar
+   * @returns {Promise<ProcessingResult>} Variantes generadas y metadatos del original
+   * @throws {TaskCancelledError} Si la tarea se cancela antes de terminar
    * @throws {Error} Si la imagen no puede ser procesada o guardada
    */
-  public async process(originalPath: string): Promise<ProcessedImageResult[]> {
+  public async process(
+    originalPath: string,
+    variants: VariantSpec[] = DEFAULT_VARIANTS,
+    overlay?: ResolvedOverlay,
+    metadataPolicy: MetadataPolicy = SharpImageProcessor.DEFAULT_METADATA_POLICY,
+    isCancelled?: CancellationCheck
+  ): Promise<ProcessingResult> {
     const results: ProcessedImageResult[] = [];
+    const createdFiles: string[] = [];
     const ext = path.extname(originalPath);
     const originalFileName = path.basename(originalPath, ext);
 
@@ -47,37 +96,136 @@ export class SharpImageProcessor {
     logger.info('Starting image processing', {
       originalPath,
       cleanName,
+      overlay: overlay?.type,
+      metadataMode: metadataPolicy.mode,
     });
 
-    for (const resolution of this.resolutions) {
-      const outputDir = path.join(getRootPath(), 'output', cleanName, resolution.toString());
+    const sourceMetadata = await sharp(originalPath).metadata();
+    const safeExif =
+      metadataPolicy.mode === 'strip-gps' ? this.extractor.buildSafeExif(sourceMetadata) : {};
+
+    for (const variant of variants) {
+      await this.abortIfCancelled(originalPath, createdFiles, isCancelled);
+
+      const resolution = getVariantLabel(variant);
+      const outputDir = path.join(getRootPath(), 'output', cleanName, resolution);
 
       await fs.mkdir(outputDir, { recursive: true });
 
-      const processedBuffer = await sharp(originalPath)
-        .resize(resolution, null, {
-          withoutEnlargement: true,
-          fit: 'inside',
-        })
-        .toBuffer();
+      const fit = this.renderer.resolveFit(variant);
+      const resized = this.renderer.resize(originalPath, variant);
 
+      const pipeline = this.applyMetadataPolicy(
+        overlay ? await this.compositor.apply(resized, overlay) : resized,
+        metadataPolicy,
+        safeExif
+      );
+      const encoded = variant.format
+        ? this.renderer.encode(pipeline, variant.format, variant.encoder)
+        : pipeline;
+
+      const { data: processedBuffer, info } = await encoded.toBuffer({ resolveWithObject: true });
+
+      const format = variant.format ?? info.format;
+      const outputExt = variant.format ? this.renderer.getExtension(variant.format) : ext;
       const md5Hash = generateMD5(processedBuffer);
-      const outputPath = path.join(outputDir, `${md5Hash}${ext}`);
+      const outputPath = path.join(outputDir, `${md5Hash}${outputExt}`);
 
-      await fs.writeFile(outputPath, processedBuffer);
+      if (!(await this.exists(outputPath))) {
+        await fs.writeFile(outputPath, processedBuffer);
+        createdFiles.push(outputPath);
+      }
 
       results.push({
-        resolution: resolution.toString(),
+        resolution,
         path: outputPath,
+        format,
+        md5: md5Hash,
+        size: info.size,
+        width: info.width,
+        height: info.height,
       });
 
       logger.info('Generated variant', {
         resolution,
+        fit,
+        position: variant.position,
+        format,
         path: outputPath,
         md5: md5Hash,
       });
     }
 
-    return results;
+    await this.abortIfCancelled(originalPath, createdFiles, isCancelled);
+
+    return { images: results, metadata: this.extractor.extract(sourceMetadata) };
+  }
+
+  /**
+   * @private
+   * @method exists
+   * @description Comprueba si ya existe un archivo. Las variantes se nombran por su MD5, por lo
+   * que un archivo existente puede pertenecer a otra tarea y no debe borrarse al cancelar.
+   * @param {string} filePath - Ruta del archivo
+   * @returns {Promise<boolean>} true si existe
+   */
+  private async exists(filePath: string): Promise<boolean> {
+    return fs
+      .access(filePath)
+      .then(() => true)
+      .catch(() => false);
+  }
+
+  /**
+   * @private
+   * @method abortIfCancelled
+   * @description Consulta si la tarea se ha cancelado y, en ese caso, elimina las salidas
+   * parciales creadas hasta el momento y aborta el procesamiento.
+   * @param {string} originalPath - Ruta del original, solo para trazas
+   * @param {string[]} createdFiles - Archivos escritos por este procesamiento
+   * @param {CancellationCheck} [isCancelled] - Comprobación de cancelación
+   * @returns {Promise<void>}
+   * @throws {TaskCancelledError} Si la tarea se ha cancelado
+   */
+  private async abortIfCancelled(
+    originalPath: string,
+    createdFiles: string[],
+    isCancelled?: CancellationCheck
+  ): Promise<void> {
+    if (!isCancelled || !(await isCancelled())) {
+      return;
+    }
+
+    await Promise.all(createdFiles.map(file => fs.rm(file, { force: true })));
+    logger.info('Processing cancelled', { originalPath, removed: createdFiles.length });
+    throw new TaskCancelledError();
+  }
+
+  /**
+   * @private
+   * @method applyMetadataPolicy
+   * @description Configura los metadatos que se escriben en la variante. Por defecto Sharp no
+   * copia ninguno; `strip-gps` reescribe solo el EXIF descriptivo y `preserve` conserva EXIF,
+   * XMP e IPTC. El perfil ICC del original se mantiene salvo `keepIcc: false`.
+   * @param {sharp.Sharp} pipeline - Pipeline de la variante
+   * @param {MetadataPolicy} policy - Política de metadatos de la tarea
+   * @param {sharp.Exif} safeExif - EXIF sin ubicación para el modo `strip-gps`
+   * @returns {sharp.Sharp} Pipeline con los metadatos configurados
+   */
+  private applyMetadataPolicy(
+    pipeline: sharp.Sharp,
+    policy: MetadataPolicy,
+    safeExif: sharp.Exif
+  ): sharp.Sharp {
+    const keepIcc = policy.keepIcc !== false;
+
+    if (policy.mode === 'preserve') {
+      return keepIcc ? pipeline.keepMetadata() : pipeline.keepExif().keepXmp();
+    }
+    if (policy.mode === 'strip-gps' && Object.keys(safeExif).length > 0) {
+      pipeline.withExif(safeExif);
+    }
+
+    return keepIcc ? pipeline.keepIccProfile() : pipeline;
   }
 }
@@ -0,0 +1,101 @@
+import { Queue, Worker, Job } from 'bullmq';
+import { envs } from '@config/envs';
+import { logger } from '@core/helpers/logger';
+import { RedisConnection } from '@infrastructure/cache/RedisConnection';
+import { RedisCache } from '@infrastructure/cache/RedisCache';
+import { DatabaseConnector } from '@infrastructure/databases/DatabaseConnector';
+import { TaskRepository } from '@infrastructure/repositories/TaskRepository';
+import { ImageRepository } from '@infrastructure/repositories/ImageRepository';
+import { CacheService } from '@application/services/CacheService';
+import { RetentionService, RetentionReport } from '@application/services/RetentionService';
+
+/**
+ * @class RetentionScheduler
+ * @description Programa la limpieza de retención como un trabajo repetible de BullMQ. La cola tiene
+ * concurrencia global 1, guardada en Redis y compartida por todas las réplicas del worker, de modo
+ * que si una pasada dura más que `RETENTION_INTERVAL` la siguiente espera a que termine en lugar de
+ * solaparse. El informe de cada pasada queda como resultado del trabajo.
+ */
+export class RetentionScheduler {
+  private static readonly SCHEDULER_ID = 'retention-cleanup';
+  private static readonly KEEP_REPORTS = 50;
+
+  private readonly queue: Queue;
+  private readonly service: RetentionService;
+  private worker?: Worker;
+
+  /**
+   * @constructor
+   */
+  constructor() {
+    const db = DatabaseConnector.getImageDb();
+    this.queue = new Queue(envs.RETENTION.QUEUE_NAME, {
+      connection: RedisConnection.getConfig(),
+    });
+    this.service = new RetentionService(
+      new TaskRepository(db),
+      new ImageRepository(db),
+      new CacheService(new RedisCache()),
+      {
+        originalsDays: envs.RETENTION.ORIGINALS_DAYS,
+        variantsDays: envs.RETENTION.VARIANTS_DAYS,
+        failedDays: envs.RETENTION.FAILED_DAYS,
+      }
+    );
+  }
+
+  /**
+   * @method start
+   * @description Fija la concurrencia global de la cola, registra (o actualiza) el programador del
+   * trabajo y arranca su consumidor. Si no hay ninguna política activa se elimina el programador
+   * existente.
+   * @returns {Promise<void>}
+   */
+  public async start(): Promise<void> {
+    if (this.service.getPolicies().length === 0) {
+      await this.queue.removeJobScheduler(RetentionScheduler.SCHEDULER_ID);
+      logger.info('Retención de archivos desactivada');
+      return;
+    }
+
+    await this.queue.setGlobalConcurrency(1);
+    await this.queue.upsertJobScheduler(
+      RetentionScheduler.SCHEDULER_ID,
+      { every: envs.RETENTION.INTERVAL * 1000 },
+      {
+        name: RetentionScheduler.SCHEDULER_ID,
+        data: { dryRun: envs.RETENTION.DRY_RUN },
+        opts: {
+          removeOnComplete: { count: RetentionScheduler.KEEP_REPORTS },
+          removeOnFail: { count: RetentionScheduler.KEEP_REPORTS },
+        },
+      }
+    );
+
+    this.worker = new Worker(envs.RETENTION.QUEUE_NAME, this.processJob.bind(this), {
+      connection: RedisConnection.getConfig(),
+      concurrency: 1,
+    });
+
+    this.worker.on('failed', (job: Job | undefined, err: Error) => {
+      logger.error(`Retention job ${job?.id} failed with error: ${err.message}`);
+    });
+
+    logger.info('Retención de archivos programada', {
+      interval: envs.RETENTION.INTERVAL,
+      dryRun: envs.RETENTION.DRY_RUN,
+      policies: this.service.getPolicies().map(({ name, days }) => ({ name, days })),
+    });
+  }
+
+  /**
+   * @private
+   * @method processJob
+   * @description Ejecuta una pasada de retención.
+   * @param {Job} job - Trabajo de BullMQ
+   * @returns {Promise<RetentionReport>} Informe de la pasada
+   */
+  private async processJob(job: Job): Promise<RetentionReport> {
+    return this.service.run(Boolean(job.data?.dryRun));
+  }
+}
@@ -1,14 +1,27 @@
 import { Worker, Job } from 'bullmq';
+import os from 'os';
 import { envs } from '@config/envs';
 import { logger } from '@core/helpers/logger';
+import { BusinessError, TaskCancelledError } from '@core/errors';
 import { RedisConnection } from '@infrastructure/cache/RedisConnection';
 import { CQRSModule, Mediator } from '@application/tasks';
-import { UpdateTaskStatusCommand } from '@application/commands';
-import { TaskStatus } from '@domain/entities';
+import { UpdateTaskStatusCommand, UpdateTaskGenerationCommand } from '@application/commands';
+import {
+  TaskStatus,
+  OverlaySpec,
+  ProcessedImage,
+  GenerationStatus,
+  ImageMetadata,
+} from '@domain/entities';
 import { SharpImageProcessor } from '@infrastructure/image-processing/SharpImageProcessor';
+import { ResolvedOverlay } from '@infrastructure/image-processing/OverlayCompositor';
 import { TaskRepository } from '@infrastructure/repositories/TaskRepository';
+import { WatermarkRepository } from '@infrastructure/repositories/WatermarkRepository';
+import { ImageRepository } from '@infrastructure/repositories/ImageRepository';
+import { UsageLedgerRepository } from '@infrastructure/repositories/UsageLedgerRepository';
 import { DatabaseConnector } from '@infrastructure/databases/DatabaseConnector';
 import { CacheService } from '@application/services/CacheService';
+import { UsageLedgerService } from '@application/services/UsageLedgerService';
 import { RedisCache } from '@infrastructure/cache/RedisCache';
 import { TaskQueueProducer } from '@infrastructure/queues/TaskQueueProducer';
 
@@ -17,9 +30,13 @@ import { TaskQueueProducer } from '@infrastructure/queues/TaskQueueProducer';
  * @description Consume y procesa trabajos de la cola de BullMQ para el procesamiento de imágenes.
  */
 export class TaskQueueConsumer {
+  private static readonly WORKER_ID = `worker:${os.hostname()}:${process.pid}`;
+
   private worker: Worker;
   private mediator: Mediator;
   private repository: TaskRepository;
+  private watermarkRepository: WatermarkRepository;
+  private imageRepository: ImageRepository;
 
   /**
    * @constructor
@@ -27,11 +44,19 @@ export class TaskQueueConsumer {
   constructor() {
     const db = DatabaseConnector.getImageDb();
     this.repository = new TaskRepository(db);
+    this.watermarkRepository = new WatermarkRepository(db);
+    this.imageRepository = new ImageRepository(db);
     const redisCache = new RedisCache();
     const cacheService = new CacheService(redisCache);
     const queueProducer = new TaskQueueProducer();
+    const usageLedgerService = new UsageLedgerService(new UsageLedgerRepository(db), cacheService);
 
-    this.mediator = CQRSModule.configure(this.repository, queueProducer, cacheService);
+    this.mediator = CQRSModule.configure(
+      this.repository,
+      queueProducer,
+      cacheService,
+      usageLedgerService
+    );
     this.worker = new Worker(envs.QUEUE.NAME, this.processJob.bind(this), {
       connection: RedisConnection.getConfig(),
       concurrency: envs.QUEUE.CONCURRENCY,
@@ -58,10 +83,17 @@ export class TaskQueueConsumer {
    * @private
    * @method processJob
    * @description Lógica de procesamiento para cada trabajo consumido de la cola.
+   * Si la tarea se cancela durante el proceso, se aborta entre variantes sin marcarla como fallida;
+   * si otro proceso cambia su estado antes de guardarlo, el resultado se descarta.
+   * Los trabajos de reprocesado se delegan en `processGeneration`.
    * @param {Job} job - El trabajo de BullMQ a procesar.
    */
   private async processJob(job: Job): Promise<void> {
-    const { taskId, imagePath } = job.data;
+    if (job.data.generation) {
+      return this.processGeneration(job);
+    }
+
+    const { taskId, imagePath, variants, overlay, metadataPolicy } = job.data;
     const imageProcessor = new SharpImageProcessor();
 
     try {
@@ -70,23 +102,146 @@ export class TaskQueueConsumer {
         logger.info('Tarea ya completada, saltando procesamiento', { taskId });
         return;
       }
+      if (task?.status === TaskStatus.CANCELLED) {
+        logger.info('Tarea cancelada, saltando procesamiento', { taskId });
+        return;
+      }
 
       await this.updateStatus(taskId, TaskStatus.PROCESSING);
 
-      const processedImages = await imageProcessor.process(imagePath);
+      const { images, metadata } = await imageProcessor.process(
+        imagePath,
+        variants ?? task?.variants,
+        await this.resolveOverlay(overlay ?? task?.overlay),
+        metadataPolicy ?? task?.metadataPolicy,
+        () => this.isCancelled(taskId)
+      );
+
+      await this.imageRepository.deleteByTaskId(taskId);
+      for (const image of images) {
+        await this.imageRepository.create({ taskId, ...image });
+      }
 
-      await this.updateStatus(taskId, TaskStatus.COMPLETED, { images: processedImages });
+      await this.updateStatus(taskId, TaskStatus.COMPLETED, {
+        images: images.map(
+          ({ resolution, path, format }): ProcessedImage => ({ resolution, path, format })
+        ),
+        sourceMetadata: metadata,
+      });
     } catch (error) {
+      const cancelled =
+        error instanceof TaskCancelledError || (await this.isCancelled(taskId).catch(() => false));
+      if (cancelled) {
+        logger.info('Procesamiento abortado por cancelación', { taskId, jobId: job.id });
+        return;
+      }
+      if (error instanceof BusinessError && error.code === 'TASK_STATUS_CHANGED') {
+        logger.info('Estado de la tarea cambiado por otro proceso, descartando resultado', {
+          taskId,
+          jobId: job.id,
+        });
+        return;
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown processing error';
       await this.updateStatus(taskId, TaskStatus.FAILED, { error: errorMessage });
       throw error;
     }
   }
 
+  /**
+   * @private
+   * @method processGeneration
+   * @description Procesa una generación de reprocesado de una tarea completada. La tarea sigue
+   * sirviendo sus variantes actuales mientras tanto; solo si la generación termina con éxito sus
+   * imágenes las sustituyen. Un fallo en el último intento marca la generación como fallida sin
+   * tocar la tarea.
+   * @param {Job} job - El trabajo de BullMQ a procesar.
+   */
+  private async processGeneration(job: Job): Promise<void> {
+    const { taskId, imagePath, generation: number } = job.data;
+    const task = await this.repository.findById(taskId);
+    const generation = task?.generations?.find(item => item.number === number);
+
+    if (
+      !task ||
+      task.deletedAt ||
+      !generation ||
+      (generation.status !== 'pending' && generation.status !== 'processing')
+    ) {
+      logger.info('Generación no pendiente, saltando reprocesado', { taskId, generation: number });
+      return;
+    }
+
+    try {
+      await this.updateGeneration(taskId, number, 'processing');
+
+      const { images, metadata } = await new SharpImageProcessor().process(
+        imagePath,
+        generation.variants,
+        await this.resolveOverlay(generation.overlay),
+        generation.metadataPolicy
+      );
+
+      await this.updateGeneration(taskId, number, 'completed', {
+        images: images.map(
+          ({ resolution, path, format }): ProcessedImage => ({ resolution, path, format })
+        ),
+        sourceMetadata: metadata,
+      });
+
+      await this.imageRepository.deleteByTaskId(taskId);
+      for (const image of images) {
+        await this.imageRepository.create({ taskId, ...image });
+      }
+    } catch (error) {
+      const attempts = job.opts.attempts ?? 1;
+      if (job.attemptsMade + 1 >= attempts) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown processing error';
+        await this.updateGeneration(taskId, number, 'failed', { error: errorMessage });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * @private
+   * @method isCancelled
+   * @description Consulta en base de datos si la tarea ha sido cancelada desde la API.
+   * @param {string} taskId - ID de la tarea.
+   * @returns {Promise<boolean>} true si la tarea está cancelada.
+   */
+  private async isCancelled(taskId: string): Promise<boolean> {
+    const task = await this.repository.findById(taskId);
+    return task?.status === TaskStatus.CANCELLED;
+  }
+
+  /**
+   * @private
+   * @method resolveOverlay
+   * @description Resuelve la ruta en disco de la marca de agua referenciada por la superposición.
+   * @param {OverlaySpec} [overlay] - Superposición solicitada por la tarea.
+   * @returns {Promise<ResolvedOverlay | undefined>} Superposición lista para componer.
+   * @throws {Error} Si la marca de agua referenciada ya no existe.
+   */
+  private async resolveOverlay(overlay?: OverlaySpec): Promise<ResolvedOverlay | undefined> {
+    if (overlay?.type !== 'image' || !overlay.watermarkId) {
+      return overlay;
+    }
+
+    const watermark = await this.watermarkRepository.findById(overlay.watermarkId);
+    if (!watermark) {
+      throw new Error(`Marca de agua ${overlay.watermarkId} no encontrada`);
+    }
+
+    return { ...overlay, watermarkPath: watermark.path };
+  }
+
   /**
    * @private
    * @method updateStatus
    * @description Envía un comando a través del Mediator para actualizar el estado de la tarea.
+   * El cambio queda registrado en el historial con el identificador de este worker.
    * @param {string} taskId - ID de la tarea.
    * @param {TaskStatus} status - El nuevo estado.
    * @param {Record<string, unknown>} [data] - Datos adicionales.
@@ -96,7 +251,26 @@ export class TaskQueueConsumer {
     status: TaskStatus,
     data?: Record<string, unknown>
   ): Promise<void> {
-    const command = new UpdateTaskStatusCommand(taskId, status, data);
+    const command = new UpdateTaskStatusCommand(taskId, status, data, TaskQueueConsumer.WORKER_ID);
+    await this.mediator.send(command);
+  }
+
+  /**
+   * @private
+   * @method updateGeneration
+   * @description Envía un comando a través del Mediator para actualizar una generación de la tarea.
+   * @param {string} taskId - ID de la tarea.
+   * @param {number} generation - Número de la generación.
+   * @param {GenerationStatus} status - El nuevo estado de la generación.
+   * @param {object} [data] - Imágenes y metadatos resultantes o error.
+   */
+  private async updateGeneration(
+    taskId: string,
+    generation: number,
+    status: GenerationStatus,
+    data?: { images?: ProcessedImage[]; sourceMetadata?: ImageMetadata; error?: string }
+  ): Promise<void> {
+    const command = new UpdateTaskGenerationCommand(taskId, generation, status, data);
     await this.mediator.send(command);
   }
 }
@@ -0,0 +1,66 @@
+/**
+ * @file Implementación del repositorio de imágenes para MongoDB.
+ * @class ImageRepository
+ * @implements {IImageRepository}
+ * @description Permite al worker registrar cada variante generada con su hash MD5,
+ * tamaño en bytes, formato y dimensiones.
+ */
+import { Connection, Model } from 'mongoose';
+import { ImageEntity } from '@domain/entities/ImageEntity';
+import { IImageRepository } from '@application/repositories/IImageRepository';
+import { getImageModel } from '@infrastructure/schemas';
+
+export class ImageRepository implements IImageRepository {
+  private readonly model: Model<ImageEntity>;
+
+  /**
+   * @constructor
+   * @description Inicializa el repositorio obteniendo el modelo de Mongoose para las imágenes.
+   * @param {Connection} db - Conexión a la base de datos de MongoDB.
+   */
+  constructor(db: Connection) {
+    this.model = getImageModel(db);
+  }
+
+  /**
+   * @method create
+   * @description Inserta el registro de una variante generada.
+   * @param {Partial<ImageEntity>} image - Datos de la variante.
+   * @returns {Promise<ImageEntity>} La entidad recién creada.
+   */
+  async create(image: Partial<ImageEntity>): Promise<ImageEntity> {
+    const created = await this.model.create(image);
+    return created.toObject();
+  }
+
+  /**
+   * @method findByTaskId
+   * @description Obtiene las variantes generadas para una tarea, en orden de creación.
+   * @param {string} taskId - Identificador de la tarea.
+   * @returns {Promise<ImageEntity[]>} Variantes de la tarea.
+   */
+  async findByTaskId(taskId: string): Promise<ImageEntity[]> {
+    return await this.model.find({ taskId }).sort({ createdAt: 1 }).lean();
+  }
+
+  /**
+   * @method findByMd5
+   * @description Busca las variantes cuyo contenido tiene el hash MD5 indicado.
+   * @param {string} md5 - Hash MD5 del contenido.
+   * @returns {Promise<ImageEntity[]>} Variantes con ese contenido.
+   */
+  async findByMd5(md5: string): Promise<ImageEntity[]> {
+    return await this.model.find({ md5: md5.toLowerCase() }).sort({ createdAt: -1 }).lean();
+  }
+
+  /**
+   * @method deleteByTaskId
+   * @description Elimina los registros de variantes de una tarea, de modo que un reintento
+   * no duplique los de un procesamiento anterior.
+   * @param {string} taskId - Identificador de la tarea.
+   * @returns {Promise<void>}
+   */
+  async deleteByTaskId(taskId: string): Promise<void> {
+    await this.model.deleteMany({ taskId });
+  }
+}
@@ -5,8 +5,17 @@
  * @description Proporciona una capa de abstracción para interactuar con la colección de tareas en la base de datos,
  * implementando las operaciones definidas en `ITaskRepository`.
  */
-import { Connection, Model } from 'mongoose';
-import { TaskEntity } from '@domain/entities/TaskEntity';
+import { Connection, FilterQuery, Model } from 'mongoose';
+import {
+  TaskEntity,
+  TaskFilter,
+  TaskSort,
+  DEFAULT_TASK_SORT,
+  TaskGeneration,
+  TaskStatus,
+  TaskStatusChange,
+  RetentionTarget,
+} from '@domain/entities/TaskEntity';
 import { ITaskRepository } from '@application/repositories/ITaskRepository';
 import { getTaskModel } from '@infrastructure/schemas';
 
@@ -57,43 +66,101 @@ export class TaskRepository implements ITaskRepository {
   /**
    * @method updateStatus
    * @description Actualiza el estado y opcionalmente otros datos de una tarea existente.
-   * También actualiza el campo `updatedAt` a la fecha y hora actuales.
+   * También actualiza el campo `updatedAt` a la fecha y hora actuales y, si se indica, añade el
+   * cambio al historial de estados en la misma operación. Con un cambio, la actualización solo se
+   * aplica si la tarea sigue en su estado de origen, de modo que un cambio concurrente de la API o
+   * del worker no se sobrescribe.
    * @param {string} id - El ID de la tarea a actualizar.
    * @param {string} status - El nuevo estado para la tarea.
    * @param {Record<string, unknown>} [data] - Un objeto con campos adicionales para actualizar.
-   * @returns {Promise<void>}
+   * @param {TaskStatusChange} [change] - Entrada del historial que describe el cambio.
+   * @returns {Promise<boolean>} `true` si se actualizó; `false` si la tarea no existe o ya no está
+   * en el estado de origen del cambio.
    */
-  async updateStatus(id: string, status: string, data?: Record<string, unknown>): Promise<void> {
+  async updateStatus(
+    id: string,
+    status: string,
+    data?: Record<string, unknown>,
+    change?: TaskStatusChange
+  ): Promise<boolean> {
     const update = {
       status,
       ...data,
       updatedAt: new Date(),
+      ...(change && { $push: { history: change } }),
     };
 
-    await this.model.findByIdAndUpdate(id, update);
+    const updated = await this.model.findOneAndUpdate(
+      { _id: id, ...(change && { status: change.from }) },
+      update
+    );
+    return updated !== null;
   }
 
   /**
    * @method find
-   * @description Realiza una búsqueda de tareas aplicando filtros y paginación.
-   * Los resultados se ordenan por fecha de creación descendente.
-   * @param {Partial<TaskEntity>} filter - Objeto con los criterios de filtro.
+   * @description Realiza una búsqueda de tareas aplicando filtros, orden y paginación.
+   * Por defecto los resultados se ordenan por fecha de creación descendente; el `_id` desempata
+   * para que el orden sea estable entre páginas. Excluye las tareas eliminadas.
+   * @param {TaskFilter} filter - Objeto con los criterios de filtro.
    * @param {number} skip - Número de documentos a omitir (para paginación).
    * @param {number} limit - Número máximo de documentos a devolver.
+   * @param {TaskSort} [sort] - Campo y sentido de ordenación.
    * @returns {Promise<TaskEntity[]>} Un array con las tareas encontradas.
    */
-  async find(filter: Partial<TaskEntity>, skip: number, limit: number): Promise<TaskEntity[]> {
-    return await this.model.find(filter).sort({ createdAt: -1 }).skip(skip).limit(limit).lean();
+  async find(
+    filter: TaskFilter,
+    skip: number,
+    limit: number,
+    sort: TaskSort = DEFAULT_TASK_SORT
+  ): Promise<TaskEntity[]> {
+    const direction = sort.direction === 'asc' ? 1 : -1;
+
+    return await this.model
+      .find(this.buildQuery(filter))
+      .sort({ [sort.field]: direction, _id: direction })
+      .skip(skip)
+      .limit(limit)
+      .lean();
   }
 
   /**
    * @method count
-   * @description Cuenta el número total de documentos que coinciden con un filtro.
-   * @param {Partial<TaskEntity>} filter - Objeto con los criterios de filtro.
+   * @description Cuenta el número total de documentos que coinciden con un filtro, sin contar
+   * las tareas eliminadas.
+   * @param {TaskFilter} filter - Objeto con los criterios de filtro.
    * @returns {Promise<number>} El número total de tareas que coinciden con el filtro.
    */
-  async count(filter: Partial<TaskEntity>): Promise<number> {
-    return await this.model.countDocuments(filter);
+  async count(filter: TaskFilter): Promise<number> {
+    return await this.model.countDocuments(this.buildQuery(filter));
+  }
+
+  /**
+   * @method updateGeneration
+   * @description Actualiza una generación de procesamiento de la tarea y, opcionalmente, campos de
+   * la propia tarea en la misma operación, de modo que el cambio de imágenes es atómico.
+   * @param {string} id - El ID de la tarea.
+   * @param {number} generation - Número de la generación a actualizar.
+   * @param {Partial<TaskGeneration>} fields - Campos de la generación a actualizar.
+   * @param {Partial<TaskEntity>} [task] - Campos de la tarea a actualizar junto a la generación.
+   * @returns {Promise<void>}
+   */
+  async updateGeneration(
+    id: string,
+    generation: number,
+    fields: Partial<TaskGeneration>,
+    task?: Partial<TaskEntity>
+  ): Promise<void> {
+    const update: Record<string, unknown> = { ...task, updatedAt: new Date() };
+    for (const [key, value] of Object.entries(fields)) {
+      update[`generations.$[generation].${key}`] = value;
+    }
+
+    await this.model.updateOne(
+      { _id: id },
+      { $set: update },
+      { arrayFilters: [{ 'generation.number': generation }] }
+    );
   }
 
   /**
@@ -106,4 +173,111 @@ export class TaskRepository implements ITaskRepository {
   async updateOriginalPath(id: string, newPath: string): Promise<void> {
     await this.model.findByIdAndUpdate(id, { originalPath: newPath, updatedAt: new Date() });
   }
+
+  /**
+   * @method streamRetentionCandidates
+   * @description Recorre con un cursor, de la más antigua a la más reciente, las tareas en el
+   * estado indicado que no se han modificado desde la fecha límite y cuyos archivos del tipo
+   * indicado aún no han caducado.
+   * @param {TaskStatus} status - Estado de las tareas.
+   * @param {Date} before - Fecha límite de la última modificación.
+   * @param {RetentionTarget} target - Archivos que se quieren caducar.
+   * @returns {AsyncIterable<TaskEntity>} Cursor de tareas.
+   */
+  streamRetentionCandidates(
+    status: TaskStatus,
+    before: Date,
+    target: RetentionTarget
+  ): AsyncIterable<TaskEntity> {
+    return this.model
+      .find({
+        status,
+        updatedAt: { $lte: before },
+        deletedAt: null,
+        [`expiredAt.${target}`]: null,
+      })
+      .sort({ updatedAt: 1, _id: 1 })
+      .lean<TaskEntity[]>()
+      .cursor();
+  }
+
+  /**
+   * @method markExpired
+   * @description Registra qué archivos de la tarea ha eliminado la política de retención. No
+   * modifica `updatedAt`, que sigue siendo la referencia de las demás políticas.
+   * @param {string} id - El ID de la tarea.
+   * @param {RetentionTarget[]} targets - Archivos eliminados.
+   * @param {Date} at - Momento de la eliminación.
+   * @returns {Promise<void>}
+   */
+  async markExpired(id: string, targets: RetentionTarget[], at: Date): Promise<void> {
+    const update = Object.fromEntries(targets.map(target => [`expiredAt.${target}`, at]));
+    await this.model.updateOne({ _id: id }, { $set: update }, { timestamps: false });
+  }
+
+  /**
+   * @method isVariantReferenced
+   * @description Comprueba si otra tarea conserva un archivo de variante en sus variantes actuales
+   * o en las de generaciones anteriores. Las tareas cuyas variantes ya ha caducado la retención no
+   * cuentan, porque sus archivos ya no existen.
+   * @param {string} filePath - Ruta del archivo de la variante.
+   * @param {string} excludeTaskId - ID de la tarea que se está limpiando.
+   * @returns {Promise<boolean>} true si alguna otra tarea referencia el archivo.
+   */
+  async isVariantReferenced(filePath: string, excludeTaskId: string): Promise<boolean> {
+    const match = await this.model.exists({
+      _id: { $ne: excludeTaskId },
+      'expiredAt.variants': null,
+      $or: [{ 'images.path': filePath }, { 'generations.images.path': filePath }],
+    });
+    return match !== null;
+  }
+
+  /**
+   * @private
+   * @method buildQuery
+   * @description Traduce los criterios de búsqueda a una consulta de MongoDB que excluye las tareas
+   * eliminadas.
+   * @param {TaskFilter} filter - Criterios de búsqueda.
+   * @returns {FilterQuery<TaskEntity>} Consulta de MongoDB.
+   */
+  private buildQuery(filter: TaskFilter): FilterQuery<TaskEntity> {
+    const { status, source, externalId, tags, tagMatch } = filter;
+    const createdAt = this.buildRange(filter.createdFrom, filter.createdTo);
+    const updatedAt = this.buildRange(filter.updatedFrom, filter.updatedTo);
+    const price = this.buildRange(filter.minPrice, filter.maxPrice);
+
+    return {
+      ...(status && { status: Array.isArray(status) ? { $in: status } : status }),
+      ...(source && { source: Array.isArray(source) ? { $in: source } : source }),
+      ...(externalId && { externalId }),
+      ...(tags?.length && { tags: tagMatch === 'all' ? { $all: tags } : { $in: tags } }),
+      ...(createdAt && { createdAt }),
+      ...(updatedAt && { updatedAt }),
+      ...(price && { price }),
+      deletedAt: null,
+    };
+  }
+
+  /**
+   * @private
+   * @method buildRange
+   * @description Construye una condición de rango inclusiva.
+   * @param {T} [from] - Límite inferior.
+   * @param {T} [to] - Límite superior.
+   * @returns {{ $gte?: T; $lte?: T } | undefined} Condición o undefined si no hay límites.
+   */
+  private buildRange<T extends Date | number>(
+    from?: T,
+    to?: T
+  ): { $gte?: T; $lte?: T } | undefined {
+    if (from === undefined && to === undefined) {
+      return undefined;
+    }
+
+    return {
+      ...(from !== undefined && { $gte: from }),
+      ...(to !== undefined && { $lte: to }),
+    };
+  }
 }
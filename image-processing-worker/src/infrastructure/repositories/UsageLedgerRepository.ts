@@ -0,0 +1,68 @@
+/**
+ * @file Implementación del registro de consumo para MongoDB.
+ * @class UsageLedgerRepository
+ * @implements {IUsageLedgerRepository}
+ * @description Anota los cargos y abonos de las tareas. Los apuntes nunca se modifican ni se
+ * eliminan; el índice único por tarea, intento y tipo garantiza que cada uno se anota una sola vez.
+ */
+import { Connection, Model, mongo } from 'mongoose';
+import { UsageLedgerEntity, UsageEntryType } from '@domain/entities/UsageLedgerEntity';
+import { IUsageLedgerRepository } from '@application/repositories/IUsageLedgerRepository';
+import { getUsageLedgerModel } from '@infrastructure/schemas';
+
+export class UsageLedgerRepository implements IUsageLedgerRepository {
+  private static readonly DUPLICATE_KEY = 11000;
+
+  private readonly model: Model<UsageLedgerEntity>;
+
+  /**
+   * @constructor
+   * @description Inicializa el repositorio obteniendo el modelo de Mongoose del registro.
+   * @param {Connection} db - Conexión a la base de datos de MongoDB.
+   */
+  constructor(db: Connection) {
+    this.model = getUsageLedgerModel(db);
+  }
+
+  /**
+   * @method append
+   * @description Anota un apunte si el intento de la tarea no tiene ya uno del mismo tipo. Dos
+   * escrituras simultáneas del mismo apunte se resuelven con el índice único.
+   * @param {UsageLedgerEntity} entry - Apunte a anotar.
+   * @returns {Promise<boolean>} `true` si se anotó; `false` si ya existía.
+   */
+  async append(entry: UsageLedgerEntity): Promise<boolean> {
+    try {
+      const result = await this.model.updateOne(
+        { taskId: entry.taskId, attempt: entry.attempt, type: entry.type },
+        { $setOnInsert: entry },
+        { upsert: true }
+      );
+      return result.upsertedCount > 0;
+    } catch (error) {
+      if (
+        error instanceof mongo.MongoServerError &&
+        error.code === UsageLedgerRepository.DUPLICATE_KEY
+      ) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * @method findEntry
+   * @description Busca el apunte de un tipo de un intento de una tarea.
+   * @param {string} taskId - Identificador de la tarea.
+   * @param {number} attempt - Intento de la tarea.
+   * @param {UsageEntryType} type - Tipo del apunte.
+   * @returns {Promise<UsageLedgerEntity | null>} El apunte si existe, o `null`.
+   */
+  async findEntry(
+    taskId: string,
+    attempt: number,
+    type: UsageEntryType
+  ): Promise<UsageLedgerEntity | null> {
+    return await this.model.findOne({ taskId, attempt, type }).lean();
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * @file Implementación del repositorio de marcas de agua para MongoDB.
+ * @class WatermarkRepository
+ * @implements {IWatermarkRepository}
+ * @description Permite al worker resolver las marcas de agua referenciadas por las tareas.
+ */
+import { Connection, Model } from 'mongoose';
+import { WatermarkEntity } from '@domain/entities/WatermarkEntity';
+import { IWatermarkRepository } from '@application/repositories/IWatermarkRepository';
+import { getWatermarkModel } from '@infrastructure/schemas';
+
+export class WatermarkRepository implements IWatermarkRepository {
+  private readonly model: Model<WatermarkEntity>;
+
+  /**
+   * @constructor
+   * @description Inicializa el repositorio obteniendo el modelo de Mongoose para las marcas de agua.
+   * @param {Connection} db - Conexión a la base de datos de MongoDB.
+   */
+  constructor(db: Connection) {
+    this.model = getWatermarkModel(db);
+  }
+
+  /**
+   * @method create
+   * @description Inserta un nuevo documento de marca de agua.
+   * @param {Partial<WatermarkEntity>} watermark - Datos de la marca de agua.
+   * @returns {Promise<WatermarkEntity>} La entidad recién creada.
+   */
+  async create(watermark: Partial<WatermarkEntity>): Promise<WatermarkEntity> {
+    const created = await this.model.create(watermark);
+    return created.toObject();
+  }
+
+  /**
+   * @method findById
+   * @description Busca una marca de agua por su `_id`.
+   * @param {string} id - Identificador de la marca de agua.
+   * @returns {Promise<WatermarkEntity | null>} La entidad si existe, o `null`.
+   */
+  async findById(id: string): Promise<WatermarkEntity | null> {
+    return await this.model.findById(id).lean();
+  }
+}
@@ -1 +1,4 @@
 export * from './TaskRepository';
+export * from './WatermarkRepository';
+export * from './ImageRepository';
+export * from './UsageLedgerRepository';
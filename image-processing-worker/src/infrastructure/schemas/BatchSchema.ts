@@ -0,0 +1,40 @@
+import { Schema, Connection } from 'mongoose';
+import { BatchEntity } from '@domain/entities/BatchEntity';
+
+const BatchSchema = new Schema<BatchEntity>(
+  {
+    taskIds: {
+      type: [String],
+      default: [],
+    },
+    failures: {
+      type: [
+        {
+          _id: false,
+          item: { type: Number, required: true },
+          source: { type: String, required: true },
+          code: { type: String },
+          error: { type: String, required: true },
+        },
+      ],
+      default: [],
+    },
+    idempotencyKey: {
+      type: String,
+      unique: true,
+      sparse: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Obtiene el modelo Batch para una conexión
+ * @param {Connection} db - Conexión MongoDB
+ * @returns {Model} Modelo Batch
+ */
+export function getBatchModel(db: Connection) {
+  return db.model<BatchEntity>('Batch', BatchSchema, 'batches');
+}
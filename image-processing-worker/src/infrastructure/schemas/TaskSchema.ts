@@ -1,5 +1,178 @@
 import { Schema, Connection } from 'mongoose';
-import { TaskEntity, TaskStatus } from '@domain/entities/TaskEntity';
+import {
+  TaskEntity,
+  TaskStatus,
+  TASK_PRIORITY,
+  TASK_LABEL_LIMITS,
+} from '@domain/entities/TaskEntity';
+
+/**
+ * Subdocumento de superposición. Se declara como esquema propio porque contiene un campo
+ * `type`, que Mongoose interpretaría como la declaración de tipo del objeto anidado.
+ */
+const OverlaySchema = new Schema(
+  {
+    type: { type: String, enum: ['image', 'text'], required: true },
+    watermarkId: { type: String },
+    text: { type: String, maxlength: 100 },
+    color: { type: String },
+    position: {
+      type: String,
+      enum: [
+        'centre',
+        'north',
+        'northeast',
+        'east',
+        'southeast',
+        'south',
+        'southwest',
+        'west',
+        'northwest',
+      ],
+    },
+    margin: { type: Number, min: 0, max: 512 },
+    opacity: { type: Number, min: 0.05, max: 1 },
+    tile: { type: Boolean },
+    scale: { type: Number, min: 0.01, max: 1 },
+  },
+  { _id: false }
+);
+
+/**
+ * Subdocumento de especificación de variante
+ */
+const VariantSchema = new Schema(
+  {
+    width: {
+      type: Number,
+      required: true,
+      min: 16,
+      max: 4096,
+    },
+    height: {
+      type: Number,
+      min: 16,
+      max: 4096,
+    },
+    fit: {
+      type: String,
+      enum: ['cover', 'contain', 'fill', 'inside', 'outside'],
+    },
+    position: {
+      type: String,
+      enum: [
+        'centre',
+        'north',
+        'northeast',
+        'east',
+        'southeast',
+        'south',
+        'southwest',
+        'west',
+        'northwest',
+        'attention',
+        'entropy',
+      ],
+    },
+    background: {
+      type: String,
+    },
+    format: {
+      type: String,
+      enum: ['jpeg', 'png', 'webp', 'avif'],
+    },
+    encoder: {
+      _id: false,
+      quality: { type: Number, min: 1, max: 100 },
+      progressive: { type: Boolean },
+      lossless: { type: Boolean },
+      effort: { type: Number, min: 0, max: 9 },
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Subdocumento de política de metadatos
+ */
+const MetadataPolicySchema = new Schema(
+  {
+    mode: { type: String, enum: ['strip', 'strip-gps', 'preserve'], required: true },
+    keepIcc: { type: Boolean },
+  },
+  { _id: false }
+);
+
+/**
+ * Subdocumento de generación de procesamiento. Cada reprocesado añade una generación con sus
+ * opciones; sus imágenes pasan a la tarea solo cuando la generación termina con éxito.
+ */
+const GenerationSchema = new Schema(
+  {
+    number: { type: Number, required: true, min: 1 },
+    status: {
+      type: String,
+      enum: ['pending', 'processing', 'completed', 'failed'],
+      required: true,
+    },
+    variants: { type: [VariantSchema], default: undefined },
+    overlay: { type: OverlaySchema, default: undefined },
+    metadataPolicy: { type: MetadataPolicySchema, default: undefined },
+    images: {
+      type: [
+        {
+          _id: false,
+          resolution: { type: String, required: true },
+          path: { type: String, required: true },
+          format: { type: String },
+        },
+      ],
+      default: undefined,
+    },
+    error: { type: String },
+    requestedAt: { type: Date, required: true },
+    completedAt: { type: Date },
+  },
+  { _id: false }
+);
+
+/**
+ * Subdocumento de cambio de estado del historial de la tarea
+ */
+const StatusChangeSchema = new Schema(
+  {
+    from: { type: String, enum: Object.values(TaskStatus), required: true },
+    to: { type: String, enum: Object.values(TaskStatus), required: true },
+    timestamp: { type: Date, required: true },
+    actor: { type: String, required: true },
+    attempt: { type: Number, required: true, min: 1 },
+    error: { type: String },
+  },
+  { _id: false }
+);
+
+/**
+ * Subdocumento con el desglose del precio y la versión de la tarifa aplicada
+ */
+const PricingSchema = new Schema(
+  {
+    version: { type: String, required: true },
+    lines: [
+      {
+        _id: false,
+        concept: { type: String, required: true },
+        detail: { type: String },
+        quantity: { type: Number, required: true },
+        unitPrice: { type: Number, required: true },
+        amount: { type: Number, required: true },
+      },
+    ],
+    subtotal: { type: Number, required: true },
+    multiplier: { type: Number, required: true },
+    total: { type: Number, required: true },
+  },
+  { _id: false }
+);
 
 const TaskSchema = new Schema<TaskEntity>(
   {
@@ -13,8 +186,11 @@ const TaskSchema = new Schema<TaskEntity>(
     price: {
       type: Number,
       required: true,
-      min: 5,
-      max: 50,
+      min: 0,
+    },
+    pricing: {
+      type: PricingSchema,
+      default: undefined,
     },
     originalPath: {
       type: String,
@@ -24,15 +200,49 @@ const TaskSchema = new Schema<TaskEntity>(
       {
         resolution: {
           type: String,
-          enum: ['1024', '800'],
           required: true,
         },
         path: {
           type: String,
           required: true,
         },
+        format: {
+          type: String,
+        },
       },
     ],
+    variants: {
+      type: [VariantSchema],
+      default: undefined,
+    },
+    overlay: {
+      type: OverlaySchema,
+      default: undefined,
+    },
+    metadataPolicy: {
+      type: MetadataPolicySchema,
+      default: undefined,
+    },
+    sourceMetadata: {
+      type: {
+        _id: false,
+        width: { type: Number },
+        height: { type: Number },
+        format: { type: String },
+        colorSpace: { type: String },
+        orientation: { type: Number },
+        hasAlpha: { type: Boolean },
+        hasIccProfile: { type: Boolean },
+        hasGps: { type: Boolean },
+        camera: {
+          _id: false,
+          make: { type: String },
+          model: { type: String },
+        },
+        takenAt: { type: Date },
+      },
+      default: undefined,
+    },
     error: {
       type: String,
     },
@@ -41,6 +251,60 @@ const TaskSchema = new Schema<TaskEntity>(
       unique: true,
       sparse: true,
     },
+    batchId: {
+      type: String,
+      index: true,
+    },
+    clientId: {
+      type: String,
+    },
+    source: {
+      type: String,
+      enum: ['upload', 'url', 'path'],
+    },
+    externalId: {
+      type: String,
+      maxlength: TASK_LABEL_LIMITS.EXTERNAL_ID_LENGTH,
+      index: true,
+    },
+    tags: {
+      type: [String],
+      default: undefined,
+      index: true,
+    },
+    metadata: {
+      type: Schema.Types.Mixed,
+      default: undefined,
+    },
+    deletedAt: {
+      type: Date,
+      default: null,
+      index: true,
+    },
+    priority: {
+      type: Number,
+      min: TASK_PRIORITY.HIGHEST,
+      max: TASK_PRIORITY.LOWEST,
+    },
+    processAt: {
+      type: Date,
+    },
+    generation: {
+      type: Number,
+      min: 1,
+    },
+    generations: {
+      type: [GenerationSchema],
+      default: undefined,
+    },
+    history: {
+      type: [StatusChangeSchema],
+      default: undefined,
+    },
+    expiredAt: {
+      original: { type: Date },
+      variants: { type: Date },
+    },
   },
   {
     timestamps: true,
@@ -48,6 +312,13 @@ const TaskSchema = new Schema<TaskEntity>(
 );
 
 TaskSchema.index({ status: 1, createdAt: -1 });
+TaskSchema.index({ source: 1, createdAt: -1 });
+TaskSchema.index({ updatedAt: -1 });
+TaskSchema.index({ status: 1, updatedAt: 1 });
+TaskSchema.index({ price: 1 });
+TaskSchema.index({ createdAt: -1, _id: -1 });
+TaskSchema.index({ 'images.path': 1 });
+TaskSchema.index({ 'generations.images.path': 1 });
 
 /**
  * Obtiene el modelo Task para una conexión
@@ -0,0 +1,37 @@
+import { Schema, Connection } from 'mongoose';
+import { WatermarkEntity } from '@domain/entities/WatermarkEntity';
+
+const WatermarkSchema = new Schema<WatermarkEntity>(
+  {
+    name: {
+      type: String,
+      required: true,
+      maxlength: 255,
+    },
+    path: {
+      type: String,
+      required: true,
+    },
+    mimeType: {
+      type: String,
+      required: true,
+    },
+    size: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Obtiene el modelo Watermark para una conexión
+ * @param {Connection} db - Conexión MongoDB
+ * @returns {Model} Modelo Watermark
+ */
+export function getWatermarkModel(db: Connection) {
+  return db.model<WatermarkEntity>('Watermark', WatermarkSchema, 'watermarks');
+}
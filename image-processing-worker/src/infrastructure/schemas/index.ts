@@ -1 +1,5 @@
 export { getTaskModel } from './TaskSchema';
+export { getWatermarkModel } from './WatermarkSchema';
+export { getImageModel } from './ImageSchema';
+export { getBatchModel } from './BatchSchema';
+export { getUsageLedgerModel } from './UsageLedgerSchema';
@@ -7,6 +7,7 @@ import { logger } from '@core/helpers/logger';
 import { DatabaseConnector } from '@infrastructure/databases/DatabaseConnector';
 import { RedisCache } from '@infrastructure/cache/RedisCache';
 import { TaskQueueConsumer } from '@infrastructure/queues/TaskQueueConsumer';
+import { RetentionScheduler } from '@infrastructure/queues/RetentionScheduler';
 
 /**
  * @function main
@@ -22,6 +23,8 @@ async function main() {
     const consumer = new TaskQueueConsumer();
     consumer.start();
 
+    await new RetentionScheduler().start();
+
     logger.info('Worker started successfully and is waiting for jobs.');
   } catch (error) {
     logger.error('Failed to start the worker:', {
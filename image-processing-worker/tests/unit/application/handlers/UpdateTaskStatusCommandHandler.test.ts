@@ -0,0 +1,175 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { UpdateTaskStatusCommandHandler } from '../../../../src/application/handlers/UpdateTaskStatusCommandHandler';
+import { UpdateTaskStatusCommand } from '../../../../src/application/commands/UpdateTaskStatusCommand';
+import { ITaskRepository } from '../../../../src/application/repositories/ITaskRepository';
+import { IUsageLedgerRepository } from '../../../../src/application/repositories/IUsageLedgerRepository';
+import { CacheService } from '../../../../src/application/services/CacheService';
+import { UsageLedgerService } from '../../../../src/application/services/UsageLedgerService';
+import {
+  TaskEntity,
+  TaskStatus,
+  TaskStatusChange,
+  recordStatusChange,
+} from '../../../../src/domain/entities/TaskEntity';
+import { UsageLedgerEntity } from '../../../../src/domain/entities/UsageLedgerEntity';
+
+jest.mock('../../../../src/core/helpers/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const TASK_ID = '507f1f77bcf86cd799439011';
+
+/**
+ * Registro de consumo en memoria con la misma unicidad que el índice de MongoDB
+ */
+class InMemoryUsageLedgerRepository implements IUsageLedgerRepository {
+  readonly entries: UsageLedgerEntity[] = [];
+
+  async append(entry: UsageLedgerEntity): Promise<boolean> {
+    if (await this.findEntry(entry.taskId, entry.attempt, entry.type)) {
+      return false;
+    }
+    this.entries.push(entry);
+    return true;
+  }
+
+  async findEntry(
+    taskId: string,
+    attempt: number,
+    type: UsageLedgerEntity['type']
+  ): Promise<UsageLedgerEntity | null> {
+    return (
+      this.entries.find(
+        entry => entry.taskId === taskId && entry.attempt === attempt && entry.type === type
+      ) ?? null
+    );
+  }
+}
+
+/**
+ * @description Suite de pruebas para UpdateTaskStatusCommandHandler
+ *
+ * @description Valida el registro de consumo al cambiar el estado de una tarea:
+ * - El cargo se anota antes de guardar el estado COMPLETED
+ * - El cargo de un intento que no llega a completarse se abona
+ * - Un intento posterior tras el abono se cobra de nuevo
+ */
+describe('UpdateTaskStatusCommandHandler', () => {
+  let task: TaskEntity;
+  let repository: jest.Mocked<ITaskRepository>;
+  let ledger: InMemoryUsageLedgerRepository;
+  let handler: UpdateTaskStatusCommandHandler;
+
+  const applyChange = (change: TaskStatusChange): void => {
+    task = { ...task, status: change.to, history: [...(task.history ?? []), change] };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    task = {
+      _id: TASK_ID,
+      status: TaskStatus.PROCESSING,
+      price: 10.32,
+      clientId: 'client-1',
+      originalPath: '/input/photo.jpg',
+      history: [],
+    } as unknown as TaskEntity;
+
+    repository = {
+      findById: jest.fn(async () => ({ ...task })),
+      updateStatus: jest.fn(async (_id, _status, _data, change) => {
+        const { from } = change as TaskStatusChange;
+        if (task.status !== from) {
+          return false;
+        }
+        applyChange(change as TaskStatusChange);
+        return true;
+      }),
+    } as unknown as jest.Mocked<ITaskRepository>;
+
+    ledger = new InMemoryUsageLedgerRepository();
+    const cacheService = {
+      invalidatePattern: jest.fn(async () => undefined),
+    } as unknown as CacheService;
+
+    handler = new UpdateTaskStatusCommandHandler(
+      repository,
+      cacheService,
+      new UsageLedgerService(ledger, cacheService)
+    );
+  });
+
+  /**
+   * @test Debe cobrar de nuevo una tarea abonada que se reintenta y completa
+   * @given Un primer intento cuyo estado COMPLETED no llega a guardarse
+   * @when La tarea termina fallida, se reintenta desde la API y se completa
+   * @then El cargo del primer intento se abona y el segundo intento tiene su propio cargo
+   */
+  it('should charge a retried task again after refunding its failed attempt', async () => {
+    repository.updateStatus.mockRejectedValueOnce(new Error('write conflict'));
+
+    await expect(
+      handler.execute(new UpdateTaskStatusCommand(TASK_ID, TaskStatus.COMPLETED))
+    ).rejects.toThrow('write conflict');
+    await handler.execute(
+      new UpdateTaskStatusCommand(TASK_ID, TaskStatus.FAILED, { error: 'write conflict' })
+    );
+
+    applyChange(recordStatusChange(task, TaskStatus.PENDING, 'api'));
+    await handler.execute(new UpdateTaskStatusCommand(TASK_ID, TaskStatus.PROCESSING));
+    await handler.execute(new UpdateTaskStatusCommand(TASK_ID, TaskStatus.COMPLETED));
+
+    expect(task.status).toBe(TaskStatus.COMPLETED);
+    expect(ledger.entries.map(({ attempt, type, amount }) => ({ attempt, type, amount }))).toEqual([
+      { attempt: 1, type: 'charge', amount: 10.32 },
+      { attempt: 1, type: 'refund', amount: -10.32 },
+      { attempt: 2, type: 'charge', amount: 10.32 },
+    ]);
+    expect(ledger.entries.reduce((net, { amount }) => net + amount, 0)).toBeCloseTo(10.32);
+  });
+
+  /**
+   * @test Debe abonar el cargo de un intento cancelado antes de guardarse como completado
+   * @given Una tarea que la API cancela después de anotar su cargo
+   * @when El worker intenta guardarla como completada
+   * @then No sobrescribe la cancelación y el cargo del intento queda abonado
+   */
+  it('should refund the charge when the task is cancelled before completing', async () => {
+    repository.updateStatus.mockImplementationOnce(async () => {
+      applyChange(recordStatusChange(task, TaskStatus.CANCELLED, 'api'));
+      return false;
+    });
+
+    await expect(
+      handler.execute(new UpdateTaskStatusCommand(TASK_ID, TaskStatus.COMPLETED))
+    ).rejects.toMatchObject({ code: 'TASK_STATUS_CHANGED', statusCode: 409 });
+
+    expect(task.status).toBe(TaskStatus.CANCELLED);
+    expect(ledger.entries.map(({ type, amount }) => ({ type, amount }))).toEqual([
+      { type: 'charge', amount: 10.32 },
+      { type: 'refund', amount: -10.32 },
+    ]);
+  });
+
+  /**
+   * @test No debe cobrar dos veces el mismo intento
+   * @given Un intento completado cuyo mensaje de la cola se reprocesa
+   * @when Se vuelve a anotar el cargo del mismo intento
+   * @then El registro conserva un único cargo
+   */
+  it('should not charge the same attempt twice', async () => {
+    const usageLedger = new UsageLedgerService(ledger, {
+      invalidatePattern: jest.fn(async () => undefined),
+    } as unknown as CacheService);
+
+    await usageLedger.recordCharge(task, 1);
+    await usageLedger.recordCharge(task, 1);
+
+    expect(ledger.entries).toHaveLength(1);
+  });
+});